@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Listing" ADD COLUMN "metadataPending" BOOLEAN NOT NULL DEFAULT false;
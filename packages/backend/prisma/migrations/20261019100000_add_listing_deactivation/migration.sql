@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ListingDeactivation" (
+    "id" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "callerAddress" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "deactivatedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ListingDeactivation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ListingDeactivation_listingId_idx" ON "ListingDeactivation"("listingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ListingDeactivation_txHash_logIndex_key" ON "ListingDeactivation"("txHash", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "ListingDeactivation" ADD CONSTRAINT "ListingDeactivation_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "Listing"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "SellerLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "sellerAddress" TEXT NOT NULL,
+    "entryType" TEXT NOT NULL,
+    "purchaseId" TEXT,
+    "grossUsdc" DECIMAL(18,6) NOT NULL DEFAULT 0,
+    "feeBps" INTEGER,
+    "feeUsdc" DECIMAL(18,6) NOT NULL DEFAULT 0,
+    "netUsdc" DECIMAL(18,6) NOT NULL DEFAULT 0,
+    "withdrawnUsdc" DECIMAL(18,6) NOT NULL DEFAULT 0,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockTimestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SellerLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerLedgerEntry_purchaseId_key" ON "SellerLedgerEntry"("purchaseId");
+
+-- CreateIndex
+CREATE INDEX "SellerLedgerEntry_sellerAddress_idx" ON "SellerLedgerEntry"("sellerAddress");
+
+-- CreateIndex
+CREATE INDEX "SellerLedgerEntry_listingId_blockNumber_idx" ON "SellerLedgerEntry"("listingId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerLedgerEntry_txHash_logIndex_key" ON "SellerLedgerEntry"("txHash", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "SellerLedgerEntry" ADD CONSTRAINT "SellerLedgerEntry_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "Listing"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Purchase" ADD COLUMN "reorgedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "IndexedBlock" (
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IndexedBlock_pkey" PRIMARY KEY ("blockNumber")
+);
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "IndexerCheckpoint" (
+    "id" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "stream" TEXT NOT NULL,
+    "lastScannedBlock" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexerCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndexerCheckpoint_contractAddress_stream_key" ON "IndexerCheckpoint"("contractAddress", "stream");
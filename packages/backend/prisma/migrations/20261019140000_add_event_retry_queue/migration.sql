@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "EventLog" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "deadLetteredAt" TIMESTAMP(3),
+ADD COLUMN     "discardedAt" TIMESTAMP(3),
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "EventLog_processed_nextAttemptAt_idx" ON "EventLog"("processed", "nextAttemptAt");
@@ -0,0 +1,55 @@
+-- Existing rows were all indexed from the Base Sepolia deployment
+-- (chain 84532, 0xce383BfDF637772a9C56EEa033B7Eb9129A19999). The defaults
+-- backfill them and are dropped so new rows must name their deployment.
+
+-- AlterTable
+ALTER TABLE "Listing" ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 84532,
+ADD COLUMN     "contractAddress" TEXT NOT NULL DEFAULT '0xce383bfdf637772a9c56eea033b7eb9129a19999';
+ALTER TABLE "Listing" ALTER COLUMN "chainId" DROP DEFAULT,
+ALTER COLUMN "contractAddress" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Purchase" ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 84532,
+ADD COLUMN     "contractAddress" TEXT NOT NULL DEFAULT '0xce383bfdf637772a9c56eea033b7eb9129a19999';
+ALTER TABLE "Purchase" ALTER COLUMN "chainId" DROP DEFAULT,
+ALTER COLUMN "contractAddress" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "EventLog" ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 84532,
+ADD COLUMN     "contractAddress" TEXT NOT NULL DEFAULT '0xce383bfdf637772a9c56eea033b7eb9129a19999';
+ALTER TABLE "EventLog" ALTER COLUMN "chainId" DROP DEFAULT,
+ALTER COLUMN "contractAddress" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "IndexedBlock" DROP CONSTRAINT "IndexedBlock_pkey",
+ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 84532,
+ADD CONSTRAINT "IndexedBlock_pkey" PRIMARY KEY ("chainId", "blockNumber");
+ALTER TABLE "IndexedBlock" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "IndexerCheckpoint" ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 84532;
+ALTER TABLE "IndexerCheckpoint" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- DropIndex
+DROP INDEX "Listing_onchainId_key";
+
+-- DropIndex
+DROP INDEX "EventLog_blockNumber_idx";
+
+-- DropIndex
+DROP INDEX "IndexerCheckpoint_contractAddress_stream_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Listing_chainId_contractAddress_onchainId_key" ON "Listing"("chainId", "contractAddress", "onchainId");
+
+-- CreateIndex
+CREATE INDEX "Listing_chainId_active_idx" ON "Listing"("chainId", "active");
+
+-- CreateIndex
+CREATE INDEX "Purchase_chainId_blockNumber_idx" ON "Purchase"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "EventLog_chainId_blockNumber_idx" ON "EventLog"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndexerCheckpoint_chainId_contractAddress_stream_key" ON "IndexerCheckpoint"("chainId", "contractAddress", "stream");
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "IndexerLease" (
+    "name" TEXT NOT NULL,
+    "holderId" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL,
+    "renewedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexerLease_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "BackfillJob" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "mode" TEXT NOT NULL,
+    "fromBlock" INTEGER NOT NULL,
+    "toBlock" INTEGER NOT NULL,
+    "eventTypes" TEXT[],
+    "dryRun" BOOLEAN NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "requestedBy" TEXT NOT NULL,
+    "lastScannedBlock" INTEGER,
+    "blocksScanned" INTEGER NOT NULL DEFAULT 0,
+    "eventsFound" INTEGER NOT NULL DEFAULT 0,
+    "eventsCreated" INTEGER NOT NULL DEFAULT 0,
+    "eventsSkipped" INTEGER NOT NULL DEFAULT 0,
+    "eventsFailed" INTEGER NOT NULL DEFAULT 0,
+    "events" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "cancelRequestedAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BackfillJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BackfillJob_status_idx" ON "BackfillJob"("status");
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "NotificationEmail" (
+    "walletAddress" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "verifiedAt" TIMESTAMP(3),
+    "verificationCodeHash" TEXT,
+    "verificationExpiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationEmail_pkey" PRIMARY KEY ("walletAddress")
+);
+
+-- CreateTable
+CREATE TABLE "EmailDelivery" (
+    "id" TEXT NOT NULL,
+    "outboxId" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailDelivery_status_nextAttemptAt_idx" ON "EmailDelivery"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailDelivery_outboxId_walletAddress_key" ON "EmailDelivery"("outboxId", "walletAddress");
+
+-- AddForeignKey
+ALTER TABLE "EmailDelivery" ADD CONSTRAINT "EmailDelivery_outboxId_fkey" FOREIGN KEY ("outboxId") REFERENCES "NotificationOutbox"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" TEXT NOT NULL,
+    "recipientAddress" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "eventKey" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "listingId" TEXT,
+    "purchaseId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Notification_recipientAddress_readAt_idx" ON "Notification"("recipientAddress", "readAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Notification_recipientAddress_eventKey_key" ON "Notification"("recipientAddress", "eventKey");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AuthNonce" ADD COLUMN     "usedAt" TIMESTAMP(3);
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Listing" ADD COLUMN     "hiddenAt" TIMESTAMP(3),
+ADD COLUMN     "hiddenBy" TEXT,
+ADD COLUMN     "hiddenReason" TEXT;
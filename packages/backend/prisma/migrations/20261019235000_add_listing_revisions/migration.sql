@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ListingRevision" (
+    "id" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "editorAddress" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ListingRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ListingRevision_listingId_createdAt_idx" ON "ListingRevision"("listingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ListingRevision" ADD CONSTRAINT "ListingRevision_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "Listing"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
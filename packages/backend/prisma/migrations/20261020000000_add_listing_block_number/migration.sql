@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Listing" ADD COLUMN     "blockNumber" INTEGER,
+ADD COLUMN     "reorgedAt" TIMESTAMP(3);
+
+-- Backfill the creation block from indexed ListingCreated events
+UPDATE "Listing" l
+SET "blockNumber" = e."blockNumber"
+FROM "EventLog" e
+WHERE e."txHash" = l."txHash" AND e."eventType" = 'ListingCreated';
+
+-- CreateIndex
+CREATE INDEX "Listing_chainId_blockNumber_idx" ON "Listing"("chainId", "blockNumber");
@@ -16,6 +16,15 @@ import { PrismaClient } from '@prisma/client'
 
 const prisma = new PrismaClient()
 
+/**
+ * Seeded listings belong to the default Base Sepolia deployment
+ */
+const SEED_CHAIN_ID = 84532
+const SEED_CONTRACT_ADDRESS = (
+  process.env['MARKETPLACE_CONTRACT_ADDRESS'] ||
+  '0xce383BfDF637772a9C56EEa033B7Eb9129A19999'
+).toLowerCase()
+
 /**
  * Test data that passes all backend validation rules:
  * - CIDs: Real Storacha CIDv1 format (bafy... with correct length)
@@ -166,7 +175,13 @@ async function main() {
     try {
       // Check if listing already exists
       const existing = await prisma.listing.findUnique({
-        where: { onchainId: listing.onchainId },
+        where: {
+          chainId_contractAddress_onchainId: {
+            chainId: SEED_CHAIN_ID,
+            contractAddress: SEED_CONTRACT_ADDRESS,
+            onchainId: listing.onchainId,
+          },
+        },
       })
 
       if (existing) {
@@ -176,7 +191,11 @@ async function main() {
         skipCount++
       } else {
         await prisma.listing.create({
-          data: listing,
+          data: {
+            ...listing,
+            chainId: SEED_CHAIN_ID,
+            contractAddress: SEED_CONTRACT_ADDRESS,
+          },
         })
         console.log(`✅ Created: [#${listing.onchainId}] ${listing.title}`)
         successCount++
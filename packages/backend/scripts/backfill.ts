@@ -1,19 +1,26 @@
 /**
- * Backfill / reindex missing PurchaseCompleted events from on-chain logs.
+ * Backfill / reindex missing marketplace events (ListingCreated,
+ * PurchaseCompleted, ListingDeactivated, Withdrawal) from on-chain logs.
  *
  * Usage:
  *   pnpm --filter @marketplace/backend backfill -- --from 1000 --to 2000
  *   pnpm --filter @marketplace/backend backfill -- --from 1000 --to 2000 --dry-run
  *   pnpm --filter @marketplace/backend backfill -- --retry-failed
  *   pnpm --filter @marketplace/backend backfill -- --retry-failed --dry-run
+ *   pnpm --filter @marketplace/backend backfill -- --from 1000 --to 2000 --chain 8453
  *
  * Prerequisites:
  *   - DATABASE_URL configured in .env
- *   - BASE_SEPOLIA_RPC_URL configured in .env (or uses default public RPC)
+ *   - BASE_SEPOLIA_RPC_URL configured in .env (or uses default public RPC),
+ *     or MARKETPLACE_DEPLOYMENTS when indexing several chains. --chain picks
+ *     the deployment; the first configured one is used when omitted
  *   - Prisma client generated (pnpm db:generate)
  *
  * Side effects (live mode):
+ *   - Creates placeholder Listing records for unseen ListingCreated events
  *   - Creates missing Purchase records (upsert by txHash)
+ *   - Marks deactivated listings inactive and records who deactivated them
+ *   - Appends SALE / WITHDRAWAL rows to the seller earnings ledger
  *   - Creates EventLog entries for dedup tracking
  *   - salesCount (listing._count.purchases) updates automatically
  *   - Sends seller notifications for newly created purchases
@@ -26,6 +33,10 @@
 import 'dotenv/config'
 
 import { disconnectDatabase } from '../src/config/db.js'
+import {
+  getDefaultDeployment,
+  getDeployment,
+} from '../src/config/deployments.js'
 import {
   backfillRange,
   parseBackfillCliArgs,
@@ -36,6 +47,7 @@ import {
 function printSummary(result: BackfillResult) {
   console.log('\n--- Backfill Summary ---')
   console.log(`  Mode:            ${result.dryRun ? 'DRY-RUN' : 'LIVE'}`)
+  console.log(`  Chain:           ${result.chainId}`)
   console.log(`  Block range:     ${result.fromBlock} → ${result.toBlock}`)
   console.log(`  Blocks scanned:  ${result.blocksScanned}`)
   console.log(`  Events found:    ${result.eventsFound}`)
@@ -65,12 +77,24 @@ async function main() {
     process.exit(parsed.exitCode)
   }
 
+  const deployment =
+    parsed.chainId !== undefined
+      ? getDeployment(parsed.chainId)
+      : getDefaultDeployment()
+
+  if (!deployment) {
+    console.error(
+      `Error: no marketplace deployment configured for chain ${parsed.chainId}.`
+    )
+    process.exit(1)
+  }
+
   if (parsed.kind === 'retry-failed') {
     console.log(
       `\n[backfill] Starting ${parsed.dryRun ? 'DRY-RUN' : 'LIVE'} retry of failed EventLog rows\n`
     )
 
-    const outcome = await retryFailedPurchaseBackfill(parsed.dryRun)
+    const outcome = await retryFailedPurchaseBackfill(parsed.dryRun, deployment)
 
     if (outcome === 'empty') {
       console.log(
@@ -92,6 +116,7 @@ async function main() {
     fromBlock: parsed.from,
     toBlock: parsed.to,
     dryRun: parsed.dryRun,
+    deployment,
   })
 
   printSummary(result)
@@ -0,0 +1,447 @@
+import { Prisma } from '@prisma/client'
+import request from 'supertest'
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+import { getPurchaseStatus } from '../services/admin'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  listingFindMany: vi.fn(),
+  listingFindUnique: vi.fn(),
+  listingUpdate: vi.fn(),
+  listingCount: vi.fn(),
+  purchaseFindMany: vi.fn(),
+  purchaseFindUnique: vi.fn(),
+  purchaseCount: vi.fn(),
+  ledgerFindUnique: vi.fn(),
+  ledgerFindFirst: vi.fn(),
+  ledgerAggregate: vi.fn(),
+  eventLogFindMany: vi.fn(),
+  eventLogFindUnique: vi.fn(),
+  eventLogCount: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('viem/actions', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    // Test wallets are EOAs: no contract code to check signatures against
+    getCode: vi.fn().mockResolvedValue(undefined),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    listing: {
+      findMany: mocks.listingFindMany,
+      findUnique: mocks.listingFindUnique,
+      update: mocks.listingUpdate,
+      count: mocks.listingCount,
+    },
+    purchase: {
+      findMany: mocks.purchaseFindMany,
+      findUnique: mocks.purchaseFindUnique,
+      count: mocks.purchaseCount,
+    },
+    sellerLedgerEntry: {
+      findUnique: mocks.ledgerFindUnique,
+      findFirst: mocks.ledgerFindFirst,
+      aggregate: mocks.ledgerAggregate,
+    },
+    eventLog: {
+      findMany: mocks.eventLogFindMany,
+      findUnique: mocks.eventLogFindUnique,
+      count: mocks.eventLogCount,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+
+const OWNER_ADDRESS = '0x' + 'D'.repeat(40)
+const ADMIN_ADDRESS = '0x' + 'A'.repeat(40)
+const OTHER_ADDRESS = '0x' + 'B'.repeat(40)
+const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
+const LISTING_ID = 'clh0000000000000000000001'
+const PURCHASE_ID = 'clh0000000000000000000002'
+const EVENT_ID = 'clh0000000000000000000003'
+
+function authHeader(address = ADMIN_ADDRESS) {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+}
+
+function makePurchase(overrides: Record<string, unknown> = {}) {
+  return {
+    id: PURCHASE_ID,
+    chainId: 84532,
+    listingId: LISTING_ID,
+    buyerAddress: OTHER_ADDRESS.toLowerCase(),
+    txHash: '0xtx',
+    amountUsdc: new Prisma.Decimal(1_500_000),
+    txVerified: true,
+    blockNumber: 100,
+    reorgedAt: null,
+    buyerPublicKey: '{"kty":"RSA"}',
+    keyCid: null,
+    keyDelivered: false,
+    keyDeliveredAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    listing: { title: 'Weather data', sellerAddress: '0xseller' },
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env['OWNER_ADDRESSES'] = OWNER_ADDRESS
+  process.env['ADMIN_ADDRESSES'] = ADMIN_ADDRESS
+  mockVerifyMessage.mockResolvedValue(true)
+  mocks.listingFindMany.mockResolvedValue([])
+  mocks.purchaseFindMany.mockResolvedValue([])
+  mocks.eventLogFindMany.mockResolvedValue([])
+  mocks.listingUpdate.mockImplementation(async ({ where, data }) => ({
+    id: where.id,
+    ...data,
+  }))
+})
+
+describe('admin role', () => {
+  it('reports the role of owner and admin wallets', async () => {
+    const owner = await request(app)
+      .get('/api/admin/me')
+      .set('Authorization', authHeader(OWNER_ADDRESS))
+      .expect(200)
+    expect(owner.body).toEqual({
+      address: OWNER_ADDRESS.toLowerCase(),
+      role: 'owner',
+    })
+
+    const admin = await request(app)
+      .get('/api/admin/me')
+      .set('Authorization', authHeader())
+      .expect(200)
+    expect(admin.body.role).toBe('admin')
+  })
+
+  it('rejects other wallets and unsigned requests', async () => {
+    await request(app)
+      .get('/api/admin/stats')
+      .set('Authorization', authHeader(OTHER_ADDRESS))
+      .expect(403)
+    await request(app).get('/api/admin/stats').expect(401)
+  })
+})
+
+describe('listing moderation', () => {
+  it('filters listings by moderation state', async () => {
+    mocks.listingFindMany.mockResolvedValue([
+      {
+        id: LISTING_ID,
+        priceUsdc: new Prisma.Decimal(2_000_000),
+        hiddenAt: new Date(),
+        _count: { purchases: 3 },
+      },
+    ])
+
+    const res = await request(app)
+      .get('/api/admin/listings?hidden=true&limit=10')
+      .set('Authorization', authHeader())
+      .expect(200)
+
+    expect(mocks.listingFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { hiddenAt: { not: null } },
+        orderBy: { id: 'desc' },
+        take: 11,
+      })
+    )
+    expect(res.body.listings[0]).toMatchObject({
+      id: LISTING_ID,
+      priceUsdc: '2000000',
+      salesCount: 3,
+    })
+    expect(res.body.nextCursor).toBeNull()
+  })
+
+  it('hides a listing with a reason and the admin that hid it', async () => {
+    mocks.listingFindUnique.mockResolvedValue({ hiddenAt: null })
+
+    const res = await request(app)
+      .post(`/api/admin/listings/${LISTING_ID}/hide`)
+      .set('Authorization', authHeader())
+      .send({ reason: 'Copyrighted content' })
+      .expect(200)
+
+    expect(mocks.listingUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: LISTING_ID },
+        data: {
+          hiddenAt: expect.any(Date),
+          hiddenBy: ADMIN_ADDRESS.toLowerCase(),
+          hiddenReason: 'Copyrighted content',
+        },
+      })
+    )
+    expect(res.body.hiddenReason).toBe('Copyrighted content')
+  })
+
+  it('requires a reason', async () => {
+    await request(app)
+      .post(`/api/admin/listings/${LISTING_ID}/hide`)
+      .set('Authorization', authHeader())
+      .send({ reason: ' ' })
+      .expect(400)
+  })
+
+  it('reports unknown and already hidden listings', async () => {
+    mocks.listingFindUnique.mockResolvedValueOnce(null)
+    await request(app)
+      .post(`/api/admin/listings/${LISTING_ID}/hide`)
+      .set('Authorization', authHeader())
+      .send({ reason: 'spam' })
+      .expect(404)
+
+    mocks.listingFindUnique.mockResolvedValueOnce({ hiddenAt: new Date() })
+    const res = await request(app)
+      .post(`/api/admin/listings/${LISTING_ID}/hide`)
+      .set('Authorization', authHeader())
+      .send({ reason: 'spam' })
+      .expect(409)
+    expect(res.body.error).toBe('ALREADY_HIDDEN')
+  })
+
+  it('lets the owner unhide a hidden listing', async () => {
+    mocks.listingFindUnique.mockResolvedValue({ hiddenAt: new Date() })
+
+    await request(app)
+      .post(`/api/admin/listings/${LISTING_ID}/unhide`)
+      .set('Authorization', authHeader(OWNER_ADDRESS))
+      .expect(200)
+
+    expect(mocks.listingUpdate.mock.calls[0]![0].data).toEqual({
+      hiddenAt: null,
+      hiddenBy: null,
+      hiddenReason: null,
+    })
+  })
+
+  it('does not let admins unhide listings', async () => {
+    mocks.listingFindUnique.mockResolvedValue({ hiddenAt: new Date() })
+
+    const res = await request(app)
+      .post(`/api/admin/listings/${LISTING_ID}/unhide`)
+      .set('Authorization', authHeader())
+      .expect(403)
+
+    expect(res.body.code).toBe('OWNER_ONLY')
+    expect(mocks.listingUpdate).not.toHaveBeenCalled()
+  })
+})
+
+describe('purchase inspection', () => {
+  it('derives the delivery status of a purchase', () => {
+    const base = {
+      txVerified: true,
+      reorgedAt: null,
+      buyerPublicKey: null,
+      keyDelivered: false,
+    }
+
+    expect(getPurchaseStatus({ ...base, txVerified: false })).toBe('unverified')
+    expect(
+      getPurchaseStatus({ ...base, txVerified: false, reorgedAt: new Date() })
+    ).toBe('reorged')
+    expect(getPurchaseStatus(base)).toBe('awaiting_key')
+    expect(getPurchaseStatus({ ...base, buyerPublicKey: 'jwk' })).toBe(
+      'awaiting_delivery'
+    )
+    expect(getPurchaseStatus({ ...base, keyDelivered: true })).toBe('delivered')
+  })
+
+  it('lists purchases waiting for key delivery', async () => {
+    mocks.purchaseFindMany.mockResolvedValue([makePurchase()])
+
+    const res = await request(app)
+      .get(
+        `/api/admin/purchases?status=awaiting_delivery&seller=${OTHER_ADDRESS}`
+      )
+      .set('Authorization', authHeader())
+      .expect(200)
+
+    expect(mocks.purchaseFindMany.mock.calls[0]![0].where).toEqual({
+      txVerified: true,
+      buyerPublicKey: { not: null },
+      keyDelivered: false,
+      listing: {
+        sellerAddress: { equals: OTHER_ADDRESS, mode: 'insensitive' },
+      },
+    })
+    expect(res.body.purchases[0]).toMatchObject({
+      id: PURCHASE_ID,
+      amountUsdc: '1500000',
+      listingTitle: 'Weather data',
+      hasBuyerPublicKey: true,
+      status: 'awaiting_delivery',
+    })
+    expect(res.body.purchases[0]).not.toHaveProperty('buyerPublicKey')
+  })
+
+  it('returns one purchase with its ledger entry', async () => {
+    mocks.purchaseFindUnique.mockResolvedValue(
+      makePurchase({ keyDelivered: true, keyCid: 'bafykey' })
+    )
+    mocks.ledgerFindUnique.mockResolvedValue({
+      grossUsdc: new Prisma.Decimal(1_500_000),
+      feeBps: 250,
+      feeUsdc: new Prisma.Decimal(37_500),
+      netUsdc: new Prisma.Decimal(1_462_500),
+      txHash: '0xtx',
+      logIndex: 1,
+      blockNumber: 100,
+      blockTimestamp: new Date(),
+    })
+
+    const res = await request(app)
+      .get(`/api/admin/purchases/${PURCHASE_ID}`)
+      .set('Authorization', authHeader())
+      .expect(200)
+
+    expect(res.body.status).toBe('delivered')
+    expect(res.body.ledgerEntry).toMatchObject({
+      feeBps: 250,
+      feeUsdc: '37500',
+      netUsdc: '1462500',
+    })
+  })
+
+  it('returns 404 for unknown purchases', async () => {
+    mocks.purchaseFindUnique.mockResolvedValue(null)
+
+    await request(app)
+      .get(`/api/admin/purchases/${PURCHASE_ID}`)
+      .set('Authorization', authHeader())
+      .expect(404)
+  })
+})
+
+describe('EventLog inspection', () => {
+  it('filters events by status, type and transaction', async () => {
+    const txHash = '0x' + 'AB'.repeat(32)
+
+    await request(app)
+      .get(
+        `/api/admin/events?status=pending&eventType=PurchaseCompleted&txHash=${txHash}&cursor=${EVENT_ID}`
+      )
+      .set('Authorization', authHeader())
+      .expect(200)
+
+    expect(mocks.eventLogFindMany.mock.calls[0]![0].where).toEqual({
+      processed: false,
+      deadLetteredAt: null,
+      discardedAt: null,
+      eventType: 'PurchaseCompleted',
+      txHash: txHash.toLowerCase(),
+      id: { lt: EVENT_ID },
+    })
+  })
+
+  it('keeps the dead-letter list routed to its own handler', async () => {
+    await request(app)
+      .get('/api/admin/events/dead-letter')
+      .set('Authorization', authHeader())
+      .expect(200)
+
+    expect(mocks.eventLogFindUnique).not.toHaveBeenCalled()
+  })
+
+  it('returns one event with its raw log', async () => {
+    mocks.eventLogFindUnique.mockResolvedValue({
+      id: EVENT_ID,
+      data: { topics: ['0xtopic'] },
+    })
+
+    const res = await request(app)
+      .get(`/api/admin/events/${EVENT_ID}`)
+      .set('Authorization', authHeader())
+      .expect(200)
+
+    expect(res.body.data).toEqual({ topics: ['0xtopic'] })
+    expect(mocks.eventLogFindUnique.mock.calls[0]![0].select.data).toBe(true)
+  })
+})
+
+describe('GET /api/admin/stats', () => {
+  it('sums volume and fees from the seller ledger', async () => {
+    mocks.listingCount.mockResolvedValue(4)
+    mocks.purchaseCount.mockResolvedValue(2)
+    mocks.eventLogCount.mockResolvedValue(1)
+    mocks.ledgerAggregate.mockImplementation(async ({ where }) =>
+      where.entryType === 'SALE'
+        ? {
+            _count: { _all: 2 },
+            _sum: {
+              grossUsdc: new Prisma.Decimal(3_000_000),
+              feeUsdc: new Prisma.Decimal(75_000),
+              netUsdc: new Prisma.Decimal(2_925_000),
+            },
+          }
+        : { _sum: { withdrawnUsdc: null } }
+    )
+    mocks.ledgerFindFirst.mockResolvedValue({ feeBps: 250 })
+
+    const res = await request(app)
+      .get('/api/admin/stats?chainId=84532')
+      .set('Authorization', authHeader())
+      .expect(200)
+
+    expect(res.body).toMatchObject({
+      chainId: 84532,
+      listings: { total: 4 },
+      purchases: { total: 2, awaitingDelivery: 2 },
+      volume: {
+        salesCount: 2,
+        grossUsdc: '3000000',
+        feesUsdc: '75000',
+        netUsdc: '2925000',
+        withdrawnUsdc: '0',
+        latestFeeBps: 250,
+      },
+      events: { pending: 1, deadLettered: 1 },
+    })
+    expect(mocks.ledgerAggregate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { listing: { chainId: 84532 }, entryType: 'SALE' },
+      })
+    )
+    expect(mocks.listingCount).toHaveBeenCalledWith({
+      where: { chainId: 84532, hiddenAt: { not: null } },
+    })
+  })
+})
@@ -0,0 +1,294 @@
+import { createHash } from 'node:crypto'
+
+import request from 'supertest'
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  apiKeyCount: vi.fn(),
+  apiKeyCreate: vi.fn(),
+  apiKeyFindMany: vi.fn(),
+  apiKeyFindUnique: vi.fn(),
+  apiKeyUpdateMany: vi.fn(),
+  nonceUpdateMany: vi.fn(),
+  nonceFindUnique: vi.fn(),
+  purchaseFindMany: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('viem/actions', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    // Test wallets are EOAs: no contract code to check signatures against
+    getCode: vi.fn().mockResolvedValue(undefined),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    apiKey: {
+      count: mocks.apiKeyCount,
+      create: mocks.apiKeyCreate,
+      findMany: mocks.apiKeyFindMany,
+      findUnique: mocks.apiKeyFindUnique,
+      updateMany: mocks.apiKeyUpdateMany,
+    },
+    authNonce: {
+      updateMany: mocks.nonceUpdateMany,
+      findUnique: mocks.nonceFindUnique,
+    },
+    purchase: {
+      findMany: mocks.purchaseFindMany,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+
+const WALLET = '0x' + 'c'.repeat(40)
+const SIGNATURE = '0x' + 'a'.repeat(130)
+const NONCE = 'abcdef1234567890'
+const API_KEY_ID = 'cklbqxp9c0000s0p7m0lhw1q7'
+const API_KEY = 'dmk_' + 'k'.repeat(43)
+
+function signatureHeader(nonce?: string): string {
+  const ts = Math.floor(Date.now() / 1000)
+  return nonce
+    ? `Signature ${WALLET}:${ts}:${nonce}:${SIGNATURE}`
+    : `Signature ${WALLET}:${ts}:${SIGNATURE}`
+}
+
+function storedKey(overrides: Record<string, unknown> = {}) {
+  return {
+    id: API_KEY_ID,
+    walletAddress: WALLET,
+    scopes: ['purchases:read'],
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revokedAt: null,
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockVerifyMessage.mockResolvedValue(true)
+  mocks.nonceUpdateMany.mockResolvedValue({ count: 1 })
+  mocks.nonceFindUnique.mockResolvedValue(null)
+  mocks.apiKeyCount.mockResolvedValue(0)
+  mocks.apiKeyCreate.mockImplementation(async ({ data }) => ({
+    id: API_KEY_ID,
+    name: data.name,
+    prefix: data.prefix,
+    scopes: data.scopes,
+    expiresAt: data.expiresAt,
+    lastUsedAt: null,
+    createdAt: new Date(),
+  }))
+  mocks.apiKeyFindMany.mockResolvedValue([])
+  mocks.apiKeyFindUnique.mockResolvedValue(storedKey())
+  mocks.apiKeyUpdateMany.mockResolvedValue({ count: 1 })
+  mocks.purchaseFindMany.mockResolvedValue([])
+})
+
+describe('POST /api/auth/api-keys', () => {
+  it('mints a key and stores only its hash', async () => {
+    const res = await request(app)
+      .post('/api/auth/api-keys')
+      .set('Authorization', signatureHeader(NONCE))
+      .send({
+        name: 'pipeline',
+        scopes: ['listings:write', 'purchases:read', 'purchases:read'],
+        expiresInDays: 30,
+      })
+
+    expect(res.status).toBe(201)
+    expect(res.body.key).toMatch(/^dmk_[A-Za-z0-9_-]{43}$/)
+    expect(res.body.prefix).toBe(res.body.key.slice(0, 12))
+    expect(res.body.scopes).toEqual(['listings:write', 'purchases:read'])
+
+    const { data } = mocks.apiKeyCreate.mock.calls[0]![0]
+    expect(data).toMatchObject({
+      walletAddress: WALLET,
+      name: 'pipeline',
+      keyHash: createHash('sha256').update(res.body.key).digest('hex'),
+    })
+    expect(data).not.toHaveProperty('key')
+    expect(data.expiresAt.getTime()).toBeGreaterThan(
+      Date.now() + 29 * 24 * 60 * 60 * 1000
+    )
+    expect(mocks.nonceUpdateMany).toHaveBeenCalled()
+  })
+
+  it('requires a nonce in signature headers', async () => {
+    const res = await request(app)
+      .post('/api/auth/api-keys')
+      .set('Authorization', signatureHeader())
+      .send({ name: 'pipeline', scopes: ['purchases:read'] })
+
+    expect(res.status).toBe(401)
+    expect(mocks.apiKeyCreate).not.toHaveBeenCalled()
+  })
+
+  it('does not let an API key mint another', async () => {
+    mocks.apiKeyFindUnique.mockResolvedValue(
+      storedKey({ scopes: ['listings:write', 'purchases:read'] })
+    )
+
+    const res = await request(app)
+      .post('/api/auth/api-keys')
+      .set('Authorization', `ApiKey ${API_KEY}`)
+      .send({ name: 'pipeline', scopes: ['purchases:read'] })
+
+    expect(res.status).toBe(403)
+    expect(res.body.code).toBe('INSUFFICIENT_SCOPE')
+    expect(mocks.apiKeyCreate).not.toHaveBeenCalled()
+  })
+
+  it('rejects unknown scopes', async () => {
+    const res = await request(app)
+      .post('/api/auth/api-keys')
+      .set('Authorization', signatureHeader(NONCE))
+      .send({ name: 'pipeline', scopes: ['admin'] })
+
+    expect(res.status).toBe(400)
+  })
+
+  it('limits the number of keys per wallet', async () => {
+    mocks.apiKeyCount.mockResolvedValue(20)
+
+    const res = await request(app)
+      .post('/api/auth/api-keys')
+      .set('Authorization', signatureHeader(NONCE))
+      .send({ name: 'pipeline', scopes: ['purchases:read'] })
+
+    expect(res.status).toBe(409)
+    expect(res.body.error).toBe('LIMIT_REACHED')
+  })
+})
+
+describe('listing and revoking API keys', () => {
+  it('lists the wallet’s keys without hashes', async () => {
+    await request(app)
+      .get('/api/auth/api-keys')
+      .set('Authorization', signatureHeader())
+      .expect(200)
+
+    const args = mocks.apiKeyFindMany.mock.calls[0]![0]
+    expect(args.where).toEqual({ walletAddress: WALLET, revokedAt: null })
+    expect(args.select).not.toHaveProperty('keyHash')
+  })
+
+  it('revokes a key owned by the wallet', async () => {
+    await request(app)
+      .delete(`/api/auth/api-keys/${API_KEY_ID}`)
+      .set('Authorization', signatureHeader())
+      .expect(204)
+
+    expect(mocks.apiKeyUpdateMany).toHaveBeenCalledWith({
+      where: { id: API_KEY_ID, walletAddress: WALLET, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    })
+  })
+
+  it('returns 404 for keys of other wallets', async () => {
+    mocks.apiKeyUpdateMany.mockResolvedValue({ count: 0 })
+
+    const res = await request(app)
+      .delete(`/api/auth/api-keys/${API_KEY_ID}`)
+      .set('Authorization', signatureHeader())
+
+    expect(res.status).toBe(404)
+  })
+})
+
+describe('ApiKey authorization', () => {
+  it('authenticates routes that accept the key’s scope', async () => {
+    await request(app)
+      .get('/api/purchases')
+      .set('Authorization', `ApiKey ${API_KEY}`)
+      .expect(200)
+
+    expect(mocks.apiKeyFindUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { keyHash: createHash('sha256').update(API_KEY).digest('hex') },
+      })
+    )
+    expect(mocks.purchaseFindMany.mock.calls[0]![0].where).toEqual({
+      buyerAddress: { equals: WALLET, mode: 'insensitive' },
+    })
+    expect(mocks.apiKeyUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { lastUsedAt: expect.any(Date) } })
+    )
+  })
+
+  it('rejects keys without the route’s scope', async () => {
+    const res = await request(app)
+      .get('/api/seller/pending-deliveries')
+      .set('Authorization', `ApiKey ${API_KEY}`)
+
+    expect(res.status).toBe(403)
+    expect(res.body).toEqual({
+      error: 'API key is missing the deliveries:read scope',
+      code: 'INSUFFICIENT_SCOPE',
+    })
+  })
+
+  it('rejects keys on routes that take no scope', async () => {
+    const res = await request(app)
+      .get('/api/seller/earnings')
+      .set('Authorization', `ApiKey ${API_KEY}`)
+
+    expect(res.status).toBe(403)
+  })
+
+  it.each([
+    ['revoked', storedKey({ revokedAt: new Date() })],
+    ['expired', storedKey({ expiresAt: new Date(Date.now() - 1000) })],
+    ['unknown', null],
+  ])('rejects %s keys', async (_label, stored) => {
+    mocks.apiKeyFindUnique.mockResolvedValue(stored)
+
+    const res = await request(app)
+      .get('/api/purchases')
+      .set('Authorization', `ApiKey ${API_KEY}`)
+
+    expect(res.status).toBe(401)
+    expect(res.body.error).toBe('Invalid API key')
+    expect(mocks.purchaseFindMany).not.toHaveBeenCalled()
+  })
+
+  it('still serves the request when lastUsedAt cannot be written', async () => {
+    mocks.apiKeyUpdateMany.mockRejectedValue(new Error('db down'))
+
+    await request(app)
+      .get('/api/purchases')
+      .set('Authorization', `ApiKey ${API_KEY}`)
+      .expect(200)
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 
 const mockReadContract = vi.fn()
 const mockFindMany = vi.fn()
@@ -7,7 +7,12 @@ vi.mock('@/config/chain', () => ({
   publicClient: {
     readContract: mockReadContract,
   },
+  wsClient: null,
+  RPC_URLS: ['https://rpc.test'],
+  MARKETPLACE_ADDRESS: '0xmarketplace',
   MARKETPLACE_ABI: [],
+  CONFIRMATIONS_REQUIRED: 2,
+  INDEXER_START_BLOCK: null,
 }))
 
 vi.mock('@/config/db', () => ({
@@ -19,34 +24,78 @@ vi.mock('@/config/db', () => ({
   },
 }))
 
+function chainRead(price: bigint) {
+  return ({ functionName }: { functionName: string }) => {
+    if (functionName === 'listingCount') return Promise.resolve(1n)
+    return Promise.resolve(['0xaaa', 'cid', 'cid', '0xhash', price, true, 0n])
+  }
+}
+
+async function runScript(...args: string[]) {
+  process.argv = ['node', 'audit-listings.ts', ...args]
+  vi.resetModules()
+  await import('../scripts/audit-listings')
+  await vi.waitFor(() => expect(process.exitCode).toBeDefined())
+  return process.exitCode
+}
+
+const ARGV = process.argv
+
 describe('audit script', () => {
-  it('detects PRICE_MISMATCH', async () => {
+  afterEach(() => {
+    process.argv = ARGV
+    process.exitCode = undefined
+  })
+
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    process.exitCode = undefined
     mockFindMany.mockResolvedValue([
       {
         id: '1',
+        chainId: 84532,
+        contractAddress: '0xmarketplace',
         onchainId: 1,
         sellerAddress: '0xaaa',
         dataCid: 'cid',
         envelopeCid: 'cid',
         envelopeHash: '0xhash',
         priceUsdc: '100',
+        active: true,
+        purchases: [],
       },
     ])
+  })
 
-    mockReadContract.mockResolvedValue([
-      '0xaaa',
-      'cid',
-      'cid',
-      '0xhash',
-      200n,
-      true,
-      0n,
-    ])
-
+  it('detects PRICE_MISMATCH', async () => {
+    mockReadContract.mockImplementation(chainRead(200n))
     const logSpy = vi.spyOn(console, 'log')
 
-    await import('../scripts/audit-listings')
+    const exitCode = await runScript()
 
     expect(logSpy).toHaveBeenCalledWith('PRICE_MISMATCH')
+    expect(exitCode).toBe(1)
+  })
+
+  it('prints a JSON report and exits 0 when everything matches', async () => {
+    mockReadContract.mockImplementation(chainRead(100n))
+    const logSpy = vi.spyOn(console, 'log')
+
+    const exitCode = await runScript('--json')
+
+    expect(exitCode).toBe(0)
+    expect(logSpy).toHaveBeenCalledTimes(1)
+    expect(JSON.parse(logSpy.mock.calls[0]![0])).toMatchObject({
+      ok: true,
+      listingsChecked: 1,
+      issues: [],
+    })
+  })
+
+  it('exits 2 when the audit cannot run', async () => {
+    mockFindMany.mockRejectedValue(new Error('db down'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(await runScript('--json')).toBe(2)
   })
 })
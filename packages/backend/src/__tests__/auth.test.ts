@@ -10,6 +10,8 @@ import {
 
 const mocks = vi.hoisted(() => ({
   verifyMessage: vi.fn(),
+  nonceUpdateMany: vi.fn(),
+  nonceFindUnique: vi.fn(),
 }))
 
 vi.mock('viem', async (importOriginal) => {
@@ -20,12 +22,39 @@ vi.mock('viem', async (importOriginal) => {
   }
 })
 
+vi.mock('viem/actions', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    // Test wallets are EOAs: no contract code to check signatures against
+    getCode: vi.fn().mockResolvedValue(undefined),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    authNonce: {
+      updateMany: mocks.nonceUpdateMany,
+      findUnique: mocks.nonceFindUnique,
+    },
+  }
+
+  return { prisma, default: prisma }
+})
+
 const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
 const VALID_ADDRESS = '0x' + 'A'.repeat(40)
 const INVALID_ADDRESS = '0x123'
-
-function buildAuthHeader(address: string, timestamp: number): string {
-  return `Signature ${address}:${timestamp}:${VALID_SIGNATURE}`
+const NONCE = 'abcdef1234567890'
+
+function buildAuthHeader(
+  address: string,
+  timestamp: number,
+  nonce?: string
+): string {
+  return nonce
+    ? `Signature ${address}:${timestamp}:${nonce}:${VALID_SIGNATURE}`
+    : `Signature ${address}:${timestamp}:${VALID_SIGNATURE}`
 }
 
 function buildApp() {
@@ -45,6 +74,8 @@ describe('auth middleware', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mocks.verifyMessage.mockResolvedValue(true)
+    mocks.nonceUpdateMany.mockResolvedValue({ count: 1 })
+    mocks.nonceFindUnique.mockResolvedValue(null)
   })
 
   describe('optionalAuth', () => {
@@ -70,6 +101,23 @@ describe('auth middleware', () => {
       expect(res.body.walletAddress).toBe(VALID_ADDRESS.toLowerCase())
     })
 
+    it('verifies a nonce without consuming it', async () => {
+      const app = buildApp()
+      const timestamp = Math.floor(Date.now() / 1000)
+
+      const res = await request(app)
+        .get('/optional')
+        .set('Authorization', buildAuthHeader(VALID_ADDRESS, timestamp, NONCE))
+
+      expect(res.status).toBe(200)
+      expect(mocks.verifyMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: `Create listing on Data Marketplace\nNonce: ${NONCE}\nTimestamp: ${timestamp}`,
+        })
+      )
+      expect(mocks.nonceUpdateMany).not.toHaveBeenCalled()
+    })
+
     it('rejects invalid header format', async () => {
       const app = buildApp()
 
@@ -140,16 +188,56 @@ describe('auth middleware', () => {
       expect(res.body.error).toBe('Invalid address')
     })
 
-    it('allows valid signature', async () => {
+    it('allows valid signature and consumes its nonce', async () => {
       const app = buildApp()
       const timestamp = Math.floor(Date.now() / 1000)
 
       const res = await request(app)
         .get('/required')
-        .set('Authorization', buildAuthHeader(VALID_ADDRESS, timestamp))
+        .set('Authorization', buildAuthHeader(VALID_ADDRESS, timestamp, NONCE))
 
       expect(res.status).toBe(200)
       expect(res.body.walletAddress).toBe(VALID_ADDRESS.toLowerCase())
+      expect(mocks.verifyMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: `Create listing on Data Marketplace\nNonce: ${NONCE}\nTimestamp: ${timestamp}`,
+        })
+      )
+      expect(mocks.nonceUpdateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ nonce: NONCE, usedAt: null }),
+        })
+      )
+    })
+
+    it('rejects signatures without a nonce', async () => {
+      const app = buildApp()
+      const timestamp = Math.floor(Date.now() / 1000)
+
+      const res = await request(app)
+        .get('/required')
+        .set('Authorization', buildAuthHeader(VALID_ADDRESS, timestamp))
+
+      expect(res.status).toBe(401)
+      expect(res.body.error).toBe('Signature must include a nonce')
+      expect(mocks.verifyMessage).not.toHaveBeenCalled()
+    })
+
+    it('reports a replayed signature with a distinct code', async () => {
+      const app = buildApp()
+      const timestamp = Math.floor(Date.now() / 1000)
+      mocks.nonceUpdateMany.mockResolvedValue({ count: 0 })
+      mocks.nonceFindUnique.mockResolvedValue({ usedAt: new Date() })
+
+      const res = await request(app)
+        .get('/required')
+        .set('Authorization', buildAuthHeader(VALID_ADDRESS, timestamp, NONCE))
+
+      expect(res.status).toBe(409)
+      expect(res.body).toEqual({
+        error: 'Signature already used',
+        code: 'SIGNATURE_REPLAYED',
+      })
     })
 
     it('rejects invalid signature', async () => {
@@ -159,7 +247,7 @@ describe('auth middleware', () => {
 
       const res = await request(app)
         .get('/required')
-        .set('Authorization', buildAuthHeader(VALID_ADDRESS, timestamp))
+        .set('Authorization', buildAuthHeader(VALID_ADDRESS, timestamp, NONCE))
 
       expect(res.status).toBe(401)
       expect(res.body.error).toBe('Invalid signature')
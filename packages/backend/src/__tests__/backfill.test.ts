@@ -15,6 +15,7 @@ import {
 const txPurchaseUpsert = vi.fn()
 const txEventLogUpsert = vi.fn()
 const txListingFind = vi.fn()
+const txLedgerUpsert = vi.fn()
 
 vi.mock('viem', async (importOriginal) => {
   const actual = await importOriginal<any>()
@@ -28,10 +29,15 @@ vi.mock('../config/chain.js', () => ({
   publicClient: {
     getBlockNumber: vi.fn(),
     getLogs: vi.fn(),
+    getBlock: vi.fn().mockResolvedValue({ timestamp: 1_700_000_000n }),
+    readContract: vi.fn().mockResolvedValue(250n),
   },
+  wsClient: null,
+  RPC_URLS: ['https://rpc.test'],
   MARKETPLACE_ADDRESS: '0xmarketplace',
   MARKETPLACE_ABI: [],
   CONFIRMATIONS_REQUIRED: 2,
+  INDEXER_START_BLOCK: null,
 }))
 
 vi.mock('../config/db.js', () => ({
@@ -45,6 +51,10 @@ vi.mock('../config/db.js', () => ({
       fn({
         listing: { findUnique: txListingFind },
         purchase: { upsert: txPurchaseUpsert },
+        sellerLedgerEntry: {
+          upsert: txLedgerUpsert,
+          findMany: vi.fn().mockResolvedValue([]),
+        },
         eventLog: { upsert: txEventLogUpsert },
       })
     ),
@@ -52,7 +62,8 @@ vi.mock('../config/db.js', () => ({
 }))
 
 vi.mock('../services/notification.js', () => ({
-  notifySeller: vi.fn(),
+  addInboxNotification: vi.fn(),
+  enqueueSellerNotification: vi.fn(),
 }))
 
 const mockGetLogs = (publicClient as any).getLogs as MockedFunction<any>
@@ -148,7 +159,15 @@ describe('backfillRange', () => {
     expect(txPurchaseUpsert).toHaveBeenCalledTimes(2)
     expect(txListingFind).toHaveBeenCalledTimes(2)
     expect(txListingFind).toHaveBeenCalledWith(
-      expect.objectContaining({ where: { onchainId: 42 } })
+      expect.objectContaining({
+        where: {
+          chainId_contractAddress_onchainId: {
+            chainId: 84532,
+            contractAddress: '0xmarketplace',
+            onchainId: 42,
+          },
+        },
+      })
     )
   })
 
@@ -193,6 +212,47 @@ describe('backfillRange', () => {
     expect(result.blocksScanned).toBe(4196)
   })
 
+  it('only requests the selected event types', async () => {
+    await backfillRange({
+      fromBlock: 1000n,
+      toBlock: 1500n,
+      eventTypes: ['Withdrawal'],
+    })
+
+    const { events } = mockGetLogs.mock.calls[0]![0]
+    expect(events.map((e: any) => e.name)).toEqual(['Withdrawal'])
+  })
+
+  it('reports progress after every chunk', async () => {
+    const onChunk = vi.fn()
+
+    await backfillRange({ fromBlock: 1000n, toBlock: 5195n, onChunk })
+
+    expect(onChunk).toHaveBeenCalledTimes(3)
+    expect(onChunk.mock.calls[0]![0]).toMatchObject({
+      chunkFrom: 1000n,
+      chunkTo: 2999n,
+    })
+    expect(onChunk.mock.calls[2]![0].chunkTo).toBe(5195n)
+  })
+
+  it('stops between chunks once cancelled', async () => {
+    const shouldCancel = vi
+      .fn()
+      .mockResolvedValueOnce(false)
+      .mockResolvedValue(true)
+
+    const result = await backfillRange({
+      fromBlock: 1000n,
+      toBlock: 5195n,
+      shouldCancel,
+    })
+
+    expect(result.cancelled).toBe(true)
+    expect(result.blocksScanned).toBe(2000)
+    expect(mockGetLogs).toHaveBeenCalledTimes(1)
+  })
+
   describe('dry-run mode', () => {
     it('does not write to database', async () => {
       mockGetLogs.mockResolvedValue([makeMockLog()])
@@ -238,9 +298,31 @@ describe('backfillRange', () => {
       })
 
       expect(result.events[0]!.status).toBe('created')
+      expect(result.events[0]!.eventType).toBe('PurchaseCompleted')
       expect(result.events[0]!.listingId).toBe('42')
       expect(result.events[0]!.buyer).toBe('0xbuyerAddress')
     })
+
+    it('reports deactivations without purchase fields', async () => {
+      mockGetLogs.mockResolvedValue([makeMockLog()])
+      mockDecodeEventLog.mockReturnValue({
+        eventName: 'ListingDeactivated',
+        args: { listingId: 42n, caller: '0xsellerAddress' },
+      } as any)
+
+      const result = await backfillRange({
+        fromBlock: 1000n,
+        toBlock: 1500n,
+        dryRun: true,
+      })
+
+      expect(result.events[0]).toMatchObject({
+        eventType: 'ListingDeactivated',
+        listingId: '42',
+        status: 'created',
+      })
+      expect(result.events[0]!.buyer).toBeUndefined()
+    })
   })
 })
 
@@ -272,6 +354,16 @@ describe('parseBackfillCliArgs', () => {
     const r = parseBackfillCliArgs(['--from', '10', '--to', '20'])
     expect(r).toEqual({ kind: 'range', from: 10n, to: 20n, dryRun: false })
   })
+
+  it('accepts --chain to pick a deployment', () => {
+    const r = parseBackfillCliArgs(['--retry-failed', '--chain', '8453'])
+    expect(r).toEqual({ kind: 'retry-failed', dryRun: false, chainId: 8453 })
+  })
+
+  it('rejects a non-numeric --chain', () => {
+    const r = parseBackfillCliArgs(['--from', '1', '--to', '2', '--chain', 'x'])
+    expect(r.kind).toBe('error')
+  })
 })
 
 describe('findFailedEventLogsBlockRange', () => {
@@ -293,7 +385,7 @@ describe('findFailedEventLogsBlockRange', () => {
     })
   })
 
-  it('queries only failed PurchaseCompleted event rows', async () => {
+  it('queries only failed, non-discarded rows of indexed event types', async () => {
     ;(prismaDB.eventLog.findMany as any).mockResolvedValue([
       { blockNumber: 100 },
     ])
@@ -301,7 +393,20 @@ describe('findFailedEventLogsBlockRange', () => {
     await findFailedEventLogsBlockRange()
 
     expect(prismaDB.eventLog.findMany).toHaveBeenCalledWith({
-      where: { processed: false, eventType: 'PurchaseCompleted' },
+      where: {
+        chainId: 84532,
+        contractAddress: '0xmarketplace',
+        processed: false,
+        discardedAt: null,
+        eventType: {
+          in: [
+            'ListingCreated',
+            'PurchaseCompleted',
+            'ListingDeactivated',
+            'Withdrawal',
+          ],
+        },
+      },
       select: { blockNumber: true },
     })
   })
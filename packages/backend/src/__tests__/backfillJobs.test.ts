@@ -0,0 +1,398 @@
+import request from 'supertest'
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+import {
+  backfillRange,
+  findFailedEventLogsBlockRange,
+} from '../services/backfill.js'
+import { runBackfillJob } from '../services/backfillJobs.js'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  jobCreate: vi.fn(),
+  jobFindUnique: vi.fn(),
+  jobFindUniqueOrThrow: vi.fn(),
+  jobFindMany: vi.fn(),
+  jobUpdate: vi.fn(),
+  jobUpdateMany: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    backfillJob: {
+      create: mocks.jobCreate,
+      findUnique: mocks.jobFindUnique,
+      findUniqueOrThrow: mocks.jobFindUniqueOrThrow,
+      findMany: mocks.jobFindMany,
+      update: mocks.jobUpdate,
+      updateMany: mocks.jobUpdateMany,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+vi.mock('../services/backfill.js', () => ({
+  backfillRange: vi.fn(),
+  findFailedEventLogsBlockRange: vi.fn(),
+}))
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+const mockBackfillRange = backfillRange as MockedFunction<typeof backfillRange>
+const mockFindFailedRange = findFailedEventLogsBlockRange as MockedFunction<
+  typeof findFailedEventLogsBlockRange
+>
+
+const ADMIN_ADDRESS = '0x' + 'A'.repeat(40)
+const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
+const JOB_ID = 'clh0000000000000000000001'
+
+function authHeader(address = ADMIN_ADDRESS) {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+}
+
+function makeJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: JOB_ID,
+    chainId: 84532,
+    mode: 'RANGE',
+    fromBlock: 1000,
+    toBlock: 5000,
+    eventTypes: [],
+    dryRun: false,
+    status: 'QUEUED',
+    requestedBy: ADMIN_ADDRESS.toLowerCase(),
+    lastScannedBlock: null,
+    blocksScanned: 0,
+    eventsFound: 0,
+    eventsCreated: 0,
+    eventsSkipped: 0,
+    eventsFailed: 0,
+    events: [],
+    error: null,
+    cancelRequestedAt: null,
+    ...overrides,
+  }
+}
+
+function makeResult(overrides: Record<string, unknown> = {}) {
+  return {
+    chainId: 84532,
+    fromBlock: 1000n,
+    toBlock: 5000n,
+    dryRun: false,
+    blocksScanned: 4001,
+    eventsFound: 1,
+    eventsCreated: 1,
+    eventsSkipped: 0,
+    eventsFailed: 0,
+    cancelled: false,
+    events: [
+      {
+        txHash: '0xtx1',
+        logIndex: 0,
+        blockNumber: 1500,
+        eventType: 'PurchaseCompleted',
+        listingId: '42',
+        status: 'created' as const,
+      },
+    ],
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env['ADMIN_ADDRESSES'] = ADMIN_ADDRESS
+  mockVerifyMessage.mockResolvedValue(true)
+  mocks.jobCreate.mockImplementation(({ data }) =>
+    Promise.resolve(makeJob(data))
+  )
+  mocks.jobUpdate.mockImplementation(({ data }) =>
+    Promise.resolve(makeJob(data))
+  )
+  // Background runs triggered by POST see the job as already claimed
+  mocks.jobUpdateMany.mockResolvedValue({ count: 0 })
+  mockBackfillRange.mockResolvedValue(makeResult())
+})
+
+describe('runBackfillJob', () => {
+  beforeEach(() => {
+    mocks.jobUpdateMany.mockResolvedValue({ count: 1 })
+    mocks.jobFindUniqueOrThrow.mockResolvedValue(makeJob({ status: 'RUNNING' }))
+  })
+
+  it('claims a queued job and records the final counts', async () => {
+    await runBackfillJob(JOB_ID)
+
+    expect(mocks.jobUpdateMany).toHaveBeenCalledWith({
+      where: { id: JOB_ID, status: 'QUEUED' },
+      data: { status: 'RUNNING', startedAt: expect.any(Date) },
+    })
+    expect(mockBackfillRange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fromBlock: 1000n,
+        toBlock: 5000n,
+        dryRun: false,
+        eventTypes: undefined,
+      })
+    )
+    expect(mocks.jobUpdate).toHaveBeenLastCalledWith({
+      where: { id: JOB_ID },
+      data: expect.objectContaining({
+        status: 'COMPLETED',
+        blocksScanned: 4001,
+        eventsCreated: 1,
+        events: makeResult().events,
+      }),
+    })
+  })
+
+  it('does nothing when the job is no longer queued', async () => {
+    mocks.jobUpdateMany.mockResolvedValue({ count: 0 })
+
+    await runBackfillJob(JOB_ID)
+
+    expect(mockBackfillRange).not.toHaveBeenCalled()
+  })
+
+  it('persists progress after every chunk', async () => {
+    mockBackfillRange.mockImplementation(async (options) => {
+      await options.onChunk!({
+        chunkFrom: 1000n,
+        chunkTo: 2999n,
+        result: makeResult({ blocksScanned: 2000 }),
+      })
+      return makeResult()
+    })
+
+    await runBackfillJob(JOB_ID)
+
+    expect(mocks.jobUpdate).toHaveBeenCalledWith({
+      where: { id: JOB_ID },
+      data: expect.objectContaining({
+        lastScannedBlock: 2999,
+        blocksScanned: 2000,
+      }),
+    })
+  })
+
+  it('stops when cancellation is requested', async () => {
+    mocks.jobFindUnique.mockResolvedValue({ cancelRequestedAt: new Date() })
+    mockBackfillRange.mockImplementation(async (options) => {
+      expect(await options.shouldCancel!()).toBe(true)
+      return makeResult({ cancelled: true })
+    })
+
+    await runBackfillJob(JOB_ID)
+
+    expect(mocks.jobUpdate).toHaveBeenLastCalledWith({
+      where: { id: JOB_ID },
+      data: expect.objectContaining({ status: 'CANCELLED' }),
+    })
+  })
+
+  it('marks the job failed when the scan throws', async () => {
+    mockBackfillRange.mockRejectedValue(new Error('rpc down'))
+
+    await runBackfillJob(JOB_ID)
+
+    expect(mocks.jobUpdate).toHaveBeenLastCalledWith({
+      where: { id: JOB_ID },
+      data: {
+        status: 'FAILED',
+        error: 'rpc down',
+        finishedAt: expect.any(Date),
+      },
+    })
+  })
+})
+
+describe('admin backfill job API', () => {
+  it('rejects unauthenticated requests', async () => {
+    const res = await request(app).post('/api/admin/backfill-jobs').send({})
+
+    expect(res.status).toBe(401)
+  })
+
+  it('starts a range job', async () => {
+    const res = await request(app)
+      .post('/api/admin/backfill-jobs')
+      .set('Authorization', authHeader())
+      .send({
+        fromBlock: 1000,
+        toBlock: 5000,
+        eventTypes: ['PurchaseCompleted'],
+        dryRun: true,
+      })
+
+    expect(res.status).toBe(202)
+    expect(res.body).toMatchObject({ status: 'QUEUED', mode: 'RANGE' })
+    expect(mocks.jobCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          chainId: 84532,
+          mode: 'RANGE',
+          fromBlock: 1000,
+          toBlock: 5000,
+          eventTypes: ['PurchaseCompleted'],
+          dryRun: true,
+          requestedBy: ADMIN_ADDRESS.toLowerCase(),
+        },
+      })
+    )
+  })
+
+  it('derives the range for a retry-failed job', async () => {
+    mockFindFailedRange.mockResolvedValue({
+      count: 2,
+      fromBlock: 1200n,
+      toBlock: 1300n,
+    })
+
+    const res = await request(app)
+      .post('/api/admin/backfill-jobs')
+      .set('Authorization', authHeader())
+      .send({ retryFailed: true })
+
+    expect(res.status).toBe(202)
+    expect(mocks.jobCreate.mock.calls[0]![0].data).toMatchObject({
+      mode: 'RETRY_FAILED',
+      fromBlock: 1200,
+      toBlock: 1300,
+    })
+  })
+
+  it('returns 409 when there is nothing to retry', async () => {
+    mockFindFailedRange.mockResolvedValue(null)
+
+    const res = await request(app)
+      .post('/api/admin/backfill-jobs')
+      .set('Authorization', authHeader())
+      .send({ retryFailed: true })
+
+    expect(res.status).toBe(409)
+    expect(res.body.error).toBe('NOTHING_TO_RETRY')
+  })
+
+  it('validates the request body', async () => {
+    const res = await request(app)
+      .post('/api/admin/backfill-jobs')
+      .set('Authorization', authHeader())
+      .send({ fromBlock: 5000, toBlock: 1000, eventTypes: ['Transfer'] })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('Validation failed')
+    expect(mocks.jobCreate).not.toHaveBeenCalled()
+  })
+
+  it('rejects chains without a deployment', async () => {
+    const res = await request(app)
+      .post('/api/admin/backfill-jobs')
+      .set('Authorization', authHeader())
+      .send({ chainId: 8453, fromBlock: 1, toBlock: 2 })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('UNSUPPORTED_CHAIN')
+  })
+
+  it('returns job status with per-event details', async () => {
+    mocks.jobFindUnique.mockResolvedValue(
+      makeJob({ status: 'RUNNING', events: makeResult().events })
+    )
+
+    const res = await request(app)
+      .get(`/api/admin/backfill-jobs/${JOB_ID}`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(200)
+    expect(res.body.status).toBe('RUNNING')
+    expect(res.body.events[0]).toMatchObject({ txHash: '0xtx1' })
+  })
+
+  it('returns 404 for unknown jobs', async () => {
+    mocks.jobFindUnique.mockResolvedValue(null)
+
+    const res = await request(app)
+      .get(`/api/admin/backfill-jobs/${JOB_ID}`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(404)
+  })
+
+  it('lists jobs newest first', async () => {
+    mocks.jobFindMany.mockResolvedValue([makeJob(), makeJob()])
+
+    const res = await request(app)
+      .get('/api/admin/backfill-jobs?limit=1')
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(200)
+    expect(res.body.jobs).toHaveLength(1)
+    expect(res.body.nextCursor).toBe(JOB_ID)
+    expect(mocks.jobFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: { id: 'desc' }, take: 2 })
+    )
+  })
+
+  it('cancels a running job after the current chunk', async () => {
+    mocks.jobFindUnique.mockResolvedValue(makeJob({ status: 'RUNNING' }))
+
+    const res = await request(app)
+      .post(`/api/admin/backfill-jobs/${JOB_ID}/cancel`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(200)
+    expect(mocks.jobUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { cancelRequestedAt: expect.any(Date) },
+      })
+    )
+  })
+
+  it('cancels a queued job immediately', async () => {
+    mocks.jobFindUnique.mockResolvedValue(makeJob())
+
+    const res = await request(app)
+      .post(`/api/admin/backfill-jobs/${JOB_ID}/cancel`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(200)
+    expect(res.body.status).toBe('CANCELLED')
+  })
+
+  it('refuses to cancel a finished job', async () => {
+    mocks.jobFindUnique.mockResolvedValue(makeJob({ status: 'COMPLETED' }))
+
+    const res = await request(app)
+      .post(`/api/admin/backfill-jobs/${JOB_ID}/cancel`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(409)
+    expect(res.body.error).toBe('NOT_CANCELLABLE')
+  })
+})
@@ -118,18 +118,18 @@ describe('Chain Configuration', () => {
     })
 
     it('should return null when RPC fails', async () => {
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
       mockGetBlockNumber.mockRejectedValueOnce(new Error('RPC error'))
 
       const { checkChainHealth } = await import('../config/chain.js')
+      const { Logger } = await import('../lib/logger.js')
+      const errorSpy = vi.spyOn(Logger.prototype, 'error')
       const result = await checkChainHealth()
 
       expect(result).toBeNull()
-      expect(consoleSpy).toHaveBeenCalledWith(
-        'Chain health check failed:',
-        expect.any(Error)
-      )
-      consoleSpy.mockRestore()
+      expect(errorSpy).toHaveBeenCalledWith('Chain health check failed', {
+        err: expect.any(Error),
+      })
+      errorSpy.mockRestore()
     })
   })
 
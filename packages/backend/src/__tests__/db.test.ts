@@ -41,17 +41,17 @@ describe('Database Connection', () => {
 
     it('should return false when database connection fails', async () => {
       const { checkDatabaseHealth } = await import('../config/db.js')
-      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const { Logger } = await import('../lib/logger.js')
+      const errorSpy = vi.spyOn(Logger.prototype, 'error')
       mockPrisma.$queryRaw.mockRejectedValueOnce(new Error('Connection failed'))
 
       const result = await checkDatabaseHealth()
 
       expect(result).toBe(false)
-      expect(consoleSpy).toHaveBeenCalledWith(
-        'Database health check failed:',
-        expect.any(Error)
-      )
-      consoleSpy.mockRestore()
+      expect(errorSpy).toHaveBeenCalledWith('Database health check failed', {
+        err: expect.any(Error),
+      })
+      errorSpy.mockRestore()
     })
   })
 
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+import { parseDeployments } from '../config/deployments.js'
+
+const MAINNET_ADDRESS = '0x' + 'AB'.repeat(20)
+const SEPOLIA_ADDRESS = '0x' + 'CD'.repeat(20)
+
+function config(entries: unknown[]) {
+  return JSON.stringify(entries)
+}
+
+describe('parseDeployments', () => {
+  it('falls back to the Base Sepolia deployment when unset', () => {
+    const [deployment, ...rest] = parseDeployments(undefined)
+
+    expect(rest).toHaveLength(0)
+    expect(deployment).toMatchObject({
+      chainId: 84532,
+      contractAddress: '0xce383bfdf637772a9c56eea033b7eb9129a19999',
+      rpcUrls: ['https://sepolia.base.org'],
+      confirmations: 2,
+      startBlock: null,
+    })
+  })
+
+  it('builds one deployment per configured chain', () => {
+    const deployments = parseDeployments(
+      config([
+        {
+          chainId: 8453,
+          address: MAINNET_ADDRESS,
+          rpcUrls: ['https://mainnet.base.org'],
+          startBlock: 1_000,
+          confirmations: 5,
+        },
+        {
+          chainId: 84532,
+          address: SEPOLIA_ADDRESS,
+          rpcUrls: ['https://sepolia.base.org'],
+          wsUrl: 'wss://sepolia.base.org',
+        },
+      ])
+    )
+
+    expect(deployments.map((d) => d.chainId)).toEqual([8453, 84532])
+    expect(deployments[0]).toMatchObject({
+      name: 'Base',
+      marketplaceAddress: MAINNET_ADDRESS,
+      contractAddress: MAINNET_ADDRESS.toLowerCase(),
+      confirmations: 5,
+      startBlock: 1_000n,
+      wsClient: null,
+    })
+    expect(deployments[1]!.confirmations).toBe(2)
+    expect(deployments[1]!.wsClient).not.toBeNull()
+  })
+
+  it('rejects chains the backend does not support', () => {
+    expect(() =>
+      parseDeployments(
+        config([
+          { chainId: 1, address: MAINNET_ADDRESS, rpcUrls: ['https://x.io'] },
+        ])
+      )
+    ).toThrow('Unsupported chain id 1')
+  })
+
+  it('rejects a chain configured twice', () => {
+    const entry = {
+      chainId: 8453,
+      address: MAINNET_ADDRESS,
+      rpcUrls: ['https://mainnet.base.org'],
+    }
+
+    expect(() => parseDeployments(config([entry, entry]))).toThrow(
+      'chain 8453 is configured more than once'
+    )
+  })
+
+  it('reports invalid entries by path', () => {
+    expect(() =>
+      parseDeployments(
+        config([{ chainId: 8453, address: '0x123', rpcUrls: [] }])
+      )
+    ).toThrow(/0\.address: Invalid address.*0\.rpcUrls/)
+  })
+})
+
+describe('deployment registry', () => {
+  afterEach(() => {
+    delete process.env['MARKETPLACE_DEPLOYMENTS']
+    vi.resetModules()
+  })
+
+  it('reads MARKETPLACE_DEPLOYMENTS once and defaults to the first entry', async () => {
+    process.env['MARKETPLACE_DEPLOYMENTS'] = config([
+      {
+        chainId: 8453,
+        address: MAINNET_ADDRESS,
+        rpcUrls: ['https://mainnet.base.org'],
+      },
+      {
+        chainId: 31337,
+        address: SEPOLIA_ADDRESS,
+        rpcUrls: ['http://127.0.0.1:8545'],
+      },
+    ])
+    vi.resetModules()
+    const registry = await import('../config/deployments.js')
+
+    expect(registry.getDefaultDeployment().chainId).toBe(8453)
+    expect(registry.getDeployment(31337)?.name).toBe('Foundry')
+    expect(registry.getDeployment(84532)).toBeUndefined()
+    expect(registry.getDeployments()).toBe(registry.getDeployments())
+  })
+})
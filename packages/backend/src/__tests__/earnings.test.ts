@@ -0,0 +1,182 @@
+import request from 'supertest'
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+import { summarizeLedger, WITHDRAWAL_DELAY_MS } from '../services/earnings'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  ledgerFindMany: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    sellerLedgerEntry: {
+      findMany: mocks.ledgerFindMany,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+
+const SELLER_ADDRESS = '0x' + 'B'.repeat(40)
+const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
+
+const T0 = new Date('2024-01-01T00:00:00.000Z')
+const T1 = new Date('2024-01-01T06:00:00.000Z')
+const T2 = new Date('2024-01-03T00:00:00.000Z')
+
+function sale(listingId: string, gross: bigint, at: Date, txHash = '0xsale') {
+  const fee = (gross * 250n) / 10_000n
+  return {
+    listingId,
+    entryType: 'SALE',
+    grossUsdc: gross.toString(),
+    feeUsdc: fee.toString(),
+    netUsdc: (gross - fee).toString(),
+    withdrawnUsdc: '0',
+    txHash,
+    blockTimestamp: at,
+  }
+}
+
+function withdrawal(listingId: string, amount: bigint, at: Date) {
+  return {
+    listingId,
+    entryType: 'WITHDRAWAL',
+    grossUsdc: '0',
+    feeUsdc: '0',
+    netUsdc: '0',
+    withdrawnUsdc: amount.toString(),
+    txHash: '0xwithdraw',
+    blockTimestamp: at,
+  }
+}
+
+function buildAuthHeader(address: string): string {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mocks.ledgerFindMany.mockResolvedValue([])
+  mockVerifyMessage.mockResolvedValue(true)
+})
+
+describe('summarizeLedger', () => {
+  it('splits gross into fees and pending net per listing', () => {
+    const { listings, totals } = summarizeLedger([
+      sale('listing-a', 10_000_000n, T0),
+      sale('listing-a', 10_000_000n, T1),
+      sale('listing-b', 4_000_000n, T1),
+    ])
+
+    expect(listings).toHaveLength(2)
+    expect(listings[0]).toMatchObject({
+      listingId: 'listing-a',
+      salesCount: 2,
+      grossUsdc: '20000000',
+      feesUsdc: '500000',
+      netUsdc: '19500000',
+      pendingUsdc: '19500000',
+      withdrawnUsdc: '0',
+      withdrawableAt: new Date(T0.getTime() + WITHDRAWAL_DELAY_MS),
+    })
+    expect(totals).toMatchObject({
+      salesCount: 3,
+      grossUsdc: '24000000',
+      pendingUsdc: '23400000',
+      nextWithdrawableAt: new Date(T0.getTime() + WITHDRAWAL_DELAY_MS),
+    })
+  })
+
+  it('clears pending balance and the delay clock on withdrawal', () => {
+    const { listings } = summarizeLedger([
+      sale('listing-a', 10_000_000n, T0),
+      withdrawal('listing-a', 9_750_000n, T2),
+    ])
+
+    expect(listings[0]).toMatchObject({
+      pendingUsdc: '0',
+      withdrawnUsdc: '9750000',
+      withdrawableAt: null,
+      lastWithdrawalTxHash: '0xwithdraw',
+    })
+  })
+
+  it('restarts the delay clock at the first sale after a withdrawal', () => {
+    const later = new Date(T2.getTime() + 60_000)
+    const { listings } = summarizeLedger([
+      sale('listing-a', 10_000_000n, T0),
+      withdrawal('listing-a', 9_750_000n, T2),
+      sale('listing-a', 10_000_000n, later),
+    ])
+
+    expect(listings[0]!.pendingUsdc).toBe('9750000')
+    expect(listings[0]!.withdrawableAt).toEqual(
+      new Date(later.getTime() + WITHDRAWAL_DELAY_MS)
+    )
+  })
+})
+
+describe('GET /api/seller/earnings', () => {
+  it('rejects missing auth header', async () => {
+    const res = await request(app).get('/api/seller/earnings')
+
+    expect(res.status).toBe(401)
+  })
+
+  it('returns per-listing and total earnings for the authenticated seller', async () => {
+    mocks.ledgerFindMany.mockResolvedValue([
+      {
+        ...sale('listing-a', 10_000_000n, T0),
+        listing: { id: 'listing-a', onchainId: 1, title: 'Dataset A' },
+      },
+    ])
+
+    const res = await request(app)
+      .get('/api/seller/earnings')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+
+    expect(res.status).toBe(200)
+    expect(mocks.ledgerFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { sellerAddress: SELLER_ADDRESS.toLowerCase() },
+      })
+    )
+    expect(res.body.listings[0]).toMatchObject({
+      listingId: 'listing-a',
+      onchainId: 1,
+      title: 'Dataset A',
+      grossUsdc: '10000000',
+      feesUsdc: '250000',
+      pendingUsdc: '9750000',
+    })
+    expect(res.body.totals.netUsdc).toBe('9750000')
+  })
+})
@@ -0,0 +1,338 @@
+import { createHash } from 'node:crypto'
+
+import request from 'supertest'
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterAll,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+import type { EmailMessage } from '../lib/smtp.js'
+import {
+  MAX_EMAIL_ATTEMPTS,
+  deliverEmail,
+  emailDeliveryFor,
+  setEmailTransport,
+} from '../services/email'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  emailFindUnique: vi.fn(),
+  emailUpsert: vi.fn(),
+  emailUpdate: vi.fn(),
+  emailDeleteMany: vi.fn(),
+  deliveryUpdate: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    notificationEmail: {
+      findUnique: mocks.emailFindUnique,
+      upsert: mocks.emailUpsert,
+      update: mocks.emailUpdate,
+      deleteMany: mocks.emailDeleteMany,
+    },
+    emailDelivery: {
+      update: mocks.deliveryUpdate,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+
+const WALLET_ADDRESS = '0x' + 'B'.repeat(40)
+const WALLET = WALLET_ADDRESS.toLowerCase()
+const BUYER = '0x' + 'c'.repeat(40)
+const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
+
+function buildAuthHeader(address: string): string {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+}
+
+const sent: EmailMessage[] = []
+const fakeTransport = {
+  send: vi.fn(async (message: EmailMessage) => {
+    sent.push(message)
+  }),
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  sent.length = 0
+  setEmailTransport(fakeTransport)
+  mockVerifyMessage.mockResolvedValue(true)
+  mocks.emailFindUnique.mockResolvedValue(null)
+  mocks.emailUpsert.mockImplementation(async ({ create }: any) => create)
+})
+
+afterAll(() => {
+  setEmailTransport(undefined)
+})
+
+describe('email registration API', () => {
+  it('emails a verification code and stores only its hash', async () => {
+    const res = await request(app)
+      .put('/api/notifications/email')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ email: ' Seller@Example.com ' })
+
+    expect(res.status).toBe(202)
+    expect(res.body).toEqual({ email: 'seller@example.com', verified: false })
+
+    expect(sent).toHaveLength(1)
+    expect(sent[0]!.to).toBe('seller@example.com')
+    const code = /verification code is ([A-Z2-9]{10})/.exec(sent[0]!.text)![1]!
+
+    const { create } = mocks.emailUpsert.mock.calls[0]![0]
+    expect(create).toMatchObject({
+      walletAddress: WALLET,
+      email: 'seller@example.com',
+      verifiedAt: null,
+      verificationCodeHash: createHash('sha256').update(code).digest('hex'),
+      verificationExpiresAt: expect.any(Date),
+    })
+    expect(JSON.stringify(create)).not.toContain(code)
+  })
+
+  it('does not resend for an address that is already verified', async () => {
+    mocks.emailFindUnique.mockResolvedValue({
+      walletAddress: WALLET,
+      email: 'seller@example.com',
+      verifiedAt: new Date(),
+    })
+
+    const res = await request(app)
+      .put('/api/notifications/email')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ email: 'seller@example.com' })
+
+    expect(res.status).toBe(200)
+    expect(res.body.verified).toBe(true)
+    expect(sent).toHaveLength(0)
+    expect(mocks.emailUpsert).not.toHaveBeenCalled()
+  })
+
+  it('rejects invalid addresses', async () => {
+    const res = await request(app)
+      .put('/api/notifications/email')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ email: 'not-an-email' })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('Validation failed')
+  })
+
+  it('returns 503 when SMTP is not configured', async () => {
+    setEmailTransport(null)
+
+    const res = await request(app)
+      .put('/api/notifications/email')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ email: 'seller@example.com' })
+
+    expect(res.status).toBe(503)
+    expect(res.body.error).toBe('NOT_CONFIGURED')
+  })
+
+  it('returns 502 when the verification email cannot be sent', async () => {
+    fakeTransport.send.mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+
+    const res = await request(app)
+      .put('/api/notifications/email')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ email: 'seller@example.com' })
+
+    expect(res.status).toBe(502)
+    expect(res.body.error).toBe('SEND_FAILED')
+  })
+
+  it('verifies the address with the emailed code', async () => {
+    const code = 'ABCDE23456'
+    mocks.emailFindUnique.mockResolvedValue({
+      walletAddress: WALLET,
+      email: 'seller@example.com',
+      verifiedAt: null,
+      verificationCodeHash: createHash('sha256').update(code).digest('hex'),
+      verificationExpiresAt: new Date(Date.now() + 60_000),
+    })
+    mocks.emailUpdate.mockImplementation(async ({ data }: any) => ({
+      email: 'seller@example.com',
+      ...data,
+    }))
+
+    const wrong = await request(app)
+      .post('/api/notifications/email/verify')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ code: 'ZZZZZ23456' })
+
+    expect(wrong.status).toBe(400)
+    expect(wrong.body.error).toBe('INVALID_CODE')
+    expect(mocks.emailUpdate).not.toHaveBeenCalled()
+
+    const res = await request(app)
+      .post('/api/notifications/email/verify')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ code: 'abcde23456' })
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ email: 'seller@example.com', verified: true })
+    expect(mocks.emailUpdate).toHaveBeenCalledWith({
+      where: { walletAddress: WALLET },
+      data: {
+        verifiedAt: expect.any(Date),
+        verificationCodeHash: null,
+        verificationExpiresAt: null,
+      },
+    })
+  })
+
+  it('rejects an expired code', async () => {
+    const code = 'ABCDE23456'
+    mocks.emailFindUnique.mockResolvedValue({
+      walletAddress: WALLET,
+      email: 'seller@example.com',
+      verifiedAt: null,
+      verificationCodeHash: createHash('sha256').update(code).digest('hex'),
+      verificationExpiresAt: new Date(Date.now() - 1),
+    })
+
+    const res = await request(app)
+      .post('/api/notifications/email/verify')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ code })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('INVALID_CODE')
+  })
+
+  it('removes the address', async () => {
+    const res = await request(app)
+      .delete('/api/notifications/email')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+
+    expect(res.status).toBe(204)
+    expect(mocks.emailDeleteMany).toHaveBeenCalledWith({
+      where: { walletAddress: WALLET },
+    })
+  })
+
+  it('requires authentication', async () => {
+    const res = await request(app).get('/api/notifications/email')
+
+    expect(res.status).toBe(401)
+  })
+})
+
+describe('emailDeliveryFor', () => {
+  const keyDelivered = {
+    id: 'outbox-1',
+    eventType: 'purchase.key_delivered',
+    sellerAddress: WALLET,
+    payload: { purchaseId: 'p1', listingId: 'l1', buyer: BUYER },
+  }
+
+  it("sends buyer events to the buyer's verified email", async () => {
+    mocks.emailFindUnique.mockResolvedValue({
+      walletAddress: BUYER,
+      email: 'buyer@example.com',
+      verifiedAt: new Date(),
+    })
+
+    await expect(emailDeliveryFor(keyDelivered)).resolves.toEqual({
+      outboxId: 'outbox-1',
+      walletAddress: BUYER,
+      email: 'buyer@example.com',
+    })
+    expect(mocks.emailFindUnique).toHaveBeenCalledWith({
+      where: { walletAddress: BUYER },
+    })
+  })
+
+  it('skips unverified addresses and events without a template', async () => {
+    mocks.emailFindUnique.mockResolvedValue({
+      walletAddress: BUYER,
+      email: 'buyer@example.com',
+      verifiedAt: null,
+    })
+
+    await expect(emailDeliveryFor(keyDelivered)).resolves.toBeNull()
+    await expect(
+      emailDeliveryFor({ ...keyDelivered, eventType: 'purchase.completed' })
+    ).resolves.toBeNull()
+  })
+})
+
+describe('deliverEmail', () => {
+  const delivery = {
+    id: 'delivery-1',
+    walletAddress: WALLET,
+    email: 'seller@example.com',
+    attempts: 0,
+    outbox: {
+      eventType: 'purchase.key_bound',
+      payload: { purchaseId: 'p1', listingId: 'l1', buyer: BUYER },
+    },
+  }
+
+  it('renders the template and marks the delivery sent', async () => {
+    await expect(deliverEmail(delivery)).resolves.toBe('sent')
+
+    expect(sent[0]).toMatchObject({
+      to: 'seller@example.com',
+      subject: 'A buyer is waiting for their key',
+      text: expect.stringContaining('Purchase p1 of listing l1'),
+    })
+    expect(mocks.deliveryUpdate).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({
+        status: 'SENT',
+        attempts: 1,
+        sentAt: expect.any(Date),
+      }),
+    })
+  })
+
+  it('retries with backoff and gives up after the last attempt', async () => {
+    const error = new Error('SMTP RCPT rejected: 451')
+    fakeTransport.send.mockRejectedValueOnce(error).mockRejectedValueOnce(error)
+
+    await expect(deliverEmail(delivery)).resolves.toBe('retrying')
+    expect(mocks.deliveryUpdate.mock.calls[0]![0].data).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      lastError: 'SMTP RCPT rejected: 451',
+      nextAttemptAt: expect.any(Date),
+    })
+
+    await expect(
+      deliverEmail({ ...delivery, attempts: MAX_EMAIL_ATTEMPTS - 1 })
+    ).resolves.toBe('failed')
+    expect(mocks.deliveryUpdate.mock.calls[1]![0].data).toMatchObject({
+      status: 'FAILED',
+      nextAttemptAt: null,
+    })
+  })
+})
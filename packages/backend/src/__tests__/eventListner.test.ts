@@ -5,16 +5,37 @@ import type { MockedFunction } from 'vitest'
 
 import { publicClient } from '../config/chain.js'
 import prismaDB from '../config/db.js'
+import { getDefaultDeployment } from '../config/deployments.js'
+import { getCheckpoints, saveCheckpoints } from '../services/checkpoints.js'
 import {
+  flushConfirmedLogs,
+  handleSubscribedLogs,
   pollOnce,
   startPurchaseListener,
   stopPurchaseListener,
 } from '../services/eventListener.js'
-import { notifySeller } from '../services/notification.js'
+import {
+  startLogSubscription,
+  stopLogSubscription,
+} from '../services/logSubscription.js'
+import {
+  addInboxNotification,
+  enqueueSellerNotification,
+} from '../services/notification.js'
+import {
+  detectReorg,
+  recordIndexedBlocks,
+  rollbackFromBlock,
+} from '../services/reorg.js'
 
 const txPurchaseUpsert = vi.fn()
 const txEventLogUpsert = vi.fn()
 const txListingFind = vi.fn()
+const txLedgerUpsert = vi.fn()
+const txLedgerFindMany = vi.fn()
+const txListingCreate = vi.fn()
+const txListingUpdate = vi.fn()
+const txDeactivationUpsert = vi.fn()
 
 vi.mock('viem', async (importOriginal) => {
   const actual = await importOriginal<any>()
@@ -28,10 +49,15 @@ vi.mock('../config/chain.js', () => ({
   publicClient: {
     getBlockNumber: vi.fn(),
     getLogs: vi.fn(),
+    getBlock: vi.fn(),
+    readContract: vi.fn(),
   },
+  wsClient: null,
+  RPC_URLS: ['https://rpc.test'],
   MARKETPLACE_ADDRESS: '0xmarketplace',
   MARKETPLACE_ABI: [],
   CONFIRMATIONS_REQUIRED: 2,
+  INDEXER_START_BLOCK: null,
 }))
 
 vi.mock('../config/db.js', () => ({
@@ -43,8 +69,17 @@ vi.mock('../config/db.js', () => ({
     },
     $transaction: vi.fn((fn: any) =>
       fn({
-        listing: { findUnique: txListingFind },
+        listing: {
+          findUnique: txListingFind,
+          create: txListingCreate,
+          update: txListingUpdate,
+        },
+        listingDeactivation: { upsert: txDeactivationUpsert },
         purchase: { upsert: txPurchaseUpsert },
+        sellerLedgerEntry: {
+          upsert: txLedgerUpsert,
+          findMany: txLedgerFindMany,
+        },
         eventLog: { upsert: txEventLogUpsert },
       })
     ),
@@ -52,19 +87,45 @@ vi.mock('../config/db.js', () => ({
 }))
 
 vi.mock('../services/notification.js', () => ({
-  notifySeller: vi.fn(),
+  addInboxNotification: vi.fn(),
+  enqueueSellerNotification: vi.fn(),
+}))
+
+vi.mock('../services/checkpoints.js', () => ({
+  getCheckpoints: vi.fn().mockResolvedValue([]),
+  saveCheckpoints: vi.fn(),
+}))
+
+vi.mock('../services/logSubscription.js', () => ({
+  startLogSubscription: vi.fn().mockReturnValue(false),
+  stopLogSubscription: vi.fn(),
+}))
+
+vi.mock('../services/reorg.js', () => ({
+  detectReorg: vi.fn().mockResolvedValue(null),
+  rollbackFromBlock: vi.fn(),
+  recordIndexedBlocks: vi.fn(),
+  pruneIndexedBlocks: vi.fn(),
 }))
 
 const mockGetBlockNumber = publicClient.getBlockNumber as MockedFunction<
   typeof publicClient.getBlockNumber
 >
 const mockGetLogs = (publicClient as any).getLogs as MockedFunction<any>
+const mockGetBlock = (publicClient as any).getBlock as MockedFunction<any>
+const mockReadContract = (publicClient as any)
+  .readContract as MockedFunction<any>
 const mockDecodeEventLog = decodeEventLog as MockedFunction<
   typeof decodeEventLog
 >
 const mockEventLogUpsert = (prismaDB.eventLog as any)
   .upsert as MockedFunction<any>
-const mockNotifySeller = notifySeller as MockedFunction<typeof notifySeller>
+const mockEnqueueNotification = enqueueSellerNotification as MockedFunction<
+  typeof enqueueSellerNotification
+>
+const mockAddInboxNotification = addInboxNotification as MockedFunction<
+  typeof addInboxNotification
+>
 
 const DECODED_ARGS = {
   listingId: 1n,
@@ -82,6 +143,7 @@ function makeMockLog(
 ) {
   return {
     blockNumber: overrides.blockNumber ?? 100n,
+    blockHash: '0xloghash',
     transactionHash: overrides.transactionHash ?? '0xtx1',
     logIndex: overrides.logIndex ?? 0,
     address: '0xmarketplace',
@@ -92,13 +154,25 @@ function makeMockLog(
 
 beforeEach(() => {
   vi.clearAllMocks()
+  getDefaultDeployment().startBlock = null
   mockGetBlockNumber.mockResolvedValue(200n)
   mockGetLogs.mockResolvedValue([])
+  mockGetBlock.mockResolvedValue({
+    hash: '0xblockhash',
+    timestamp: 1_700_000_000n,
+  })
+  mockReadContract.mockResolvedValue(250n)
   ;(prismaDB.eventLog.findFirst as any).mockResolvedValue(null)
   ;(prismaDB.eventLog.findUnique as any).mockResolvedValue(null)
   mockEventLogUpsert.mockResolvedValue({})
-  txListingFind.mockResolvedValue({ id: 'listing-id' })
+  txListingFind.mockResolvedValue({
+    id: 'listing-id',
+    title: 'Weather data',
+    sellerAddress: '0xseller',
+  })
+  txListingCreate.mockResolvedValue({ id: 'listing-id' })
   txPurchaseUpsert.mockResolvedValue({ id: 'purchase-id' })
+  txLedgerFindMany.mockResolvedValue([])
   txEventLogUpsert.mockResolvedValue({})
   mockDecodeEventLog.mockReturnValue({
     eventName: 'PurchaseCompleted',
@@ -130,6 +204,34 @@ describe('eventListener polling', () => {
     )
   })
 
+  it('records a SALE ledger entry with the fee in effect at the block', async () => {
+    mockGetLogs.mockResolvedValue([makeMockLog()])
+
+    await pollOnce()
+
+    expect(mockReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: 'platformFeeBps',
+        blockNumber: 100n,
+      })
+    )
+    expect(txLedgerUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { txHash_logIndex: { txHash: '0xtx1', logIndex: 0 } },
+        create: expect.objectContaining({
+          entryType: 'SALE',
+          sellerAddress: '0xseller',
+          purchaseId: 'purchase-id',
+          grossUsdc: '10000000',
+          feeBps: 250,
+          feeUsdc: '250000',
+          netUsdc: '9750000',
+          blockTimestamp: new Date(1_700_000_000_000),
+        }),
+      })
+    )
+  })
+
   it('skips already processed events (dedup)', async () => {
     mockGetLogs.mockResolvedValue([makeMockLog()])
     ;(prismaDB.eventLog.findUnique as any).mockResolvedValue({
@@ -142,6 +244,19 @@ describe('eventListener polling', () => {
     expect(txPurchaseUpsert).not.toHaveBeenCalled()
   })
 
+  it('skips events discarded by an admin', async () => {
+    mockGetLogs.mockResolvedValue([makeMockLog()])
+    ;(prismaDB.eventLog.findUnique as any).mockResolvedValue({
+      id: 'discarded',
+      processed: false,
+      discardedAt: new Date(),
+    })
+
+    await pollOnce()
+
+    expect(txPurchaseUpsert).not.toHaveBeenCalled()
+  })
+
   it('retries previously failed events on rescan', async () => {
     mockGetLogs.mockResolvedValue([makeMockLog()])
     ;(prismaDB.eventLog.findUnique as any).mockResolvedValue({
@@ -155,7 +270,7 @@ describe('eventListener polling', () => {
     expect(txPurchaseUpsert).toHaveBeenCalledTimes(1)
     expect(txEventLogUpsert).toHaveBeenCalledWith(
       expect.objectContaining({
-        update: { processed: true, error: null },
+        update: { processed: true, error: null, nextAttemptAt: null },
       })
     )
   })
@@ -259,6 +374,8 @@ describe('eventListener polling', () => {
           blockNumber: 42,
           processed: false,
           error: expect.stringContaining('LISTING_NOT_FOUND'),
+          attempts: 1,
+          nextAttemptAt: expect.any(Date),
         }),
         update: expect.objectContaining({
           error: expect.stringContaining('LISTING_NOT_FOUND'),
@@ -272,31 +389,88 @@ describe('eventListener polling', () => {
     )
   })
 
-  it('post-commit failure (notifySeller) does not downgrade successful event', async () => {
+  it('queues seller notifications in the purchase transaction', async () => {
     mockGetLogs.mockResolvedValue([makeMockLog()])
-    mockNotifySeller.mockRejectedValueOnce(new Error('NOTIFICATION_FAILED'))
 
     await pollOnce()
 
-    expect(txPurchaseUpsert).toHaveBeenCalledTimes(1)
-    expect(txEventLogUpsert).toHaveBeenCalledTimes(1)
-    expect(txEventLogUpsert).toHaveBeenCalledWith(
-      expect.objectContaining({
-        update: { processed: true, error: null },
-      })
+    const tx = expect.objectContaining({
+      purchase: { upsert: txPurchaseUpsert },
+    })
+    expect(mockEnqueueNotification).toHaveBeenCalledWith(tx, {
+      eventType: 'purchase.completed',
+      eventKey: 'purchase.completed:purchase-id',
+      sellerAddress: '0xseller',
+      payload: expect.objectContaining({
+        purchaseId: 'purchase-id',
+        listingId: 'listing-id',
+        onchainListingId: 1,
+        buyer: '0xbuyer',
+        amountUsdc: '10000000',
+        txHash: '0xtx1',
+      }),
+    })
+    // First sale into an empty balance starts the 24h withdrawal clock
+    const availableAt = new Date((1_700_000_000 + 24 * 60 * 60) * 1000)
+    expect(mockEnqueueNotification).toHaveBeenCalledWith(tx, {
+      eventType: 'withdrawal.available',
+      eventKey: 'withdrawal.available:0xtx1:0',
+      sellerAddress: '0xseller',
+      payload: expect.objectContaining({
+        listingId: 'listing-id',
+        availableAt: availableAt.toISOString(),
+      }),
+      availableAt,
+    })
+    expect(mockAddInboxNotification).toHaveBeenCalledWith(tx, {
+      type: 'purchase.completed',
+      eventKey: 'purchase.completed:purchase-id',
+      recipientAddress: '0xseller',
+      message: 'New purchase of "Weather data"',
+      listingId: 'listing-id',
+      purchaseId: 'purchase-id',
+    })
+  })
+
+  it('does not queue withdrawal.available while a balance is pending', async () => {
+    mockGetLogs.mockResolvedValue([makeMockLog()])
+    txLedgerFindMany.mockResolvedValue([
+      {
+        listingId: 'listing-id',
+        entryType: 'SALE',
+        grossUsdc: '5000000',
+        feeUsdc: '0',
+        netUsdc: '5000000',
+        withdrawnUsdc: '0',
+        txHash: '0xearlier',
+        blockTimestamp: new Date(),
+      },
+    ])
+
+    await pollOnce()
+
+    expect(mockEnqueueNotification).toHaveBeenCalledTimes(1)
+    expect(mockEnqueueNotification).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ eventType: 'purchase.completed' })
     )
+  })
+
+  it('records the event as failed when the notification cannot be queued', async () => {
+    mockGetLogs.mockResolvedValue([makeMockLog()])
+    mockEnqueueNotification.mockRejectedValueOnce(new Error('OUTBOX_DOWN'))
+
+    await pollOnce()
+
+    expect(txEventLogUpsert).not.toHaveBeenCalled()
     expect(mockEventLogUpsert).toHaveBeenCalledWith(
       expect.objectContaining({
-        update: expect.objectContaining({
-          error: expect.stringContaining('NOTIFICATION_FAILED'),
+        create: expect.objectContaining({
+          processed: false,
+          error: expect.stringContaining('OUTBOX_DOWN'),
         }),
       })
     )
-    expect(mockEventLogUpsert).toHaveBeenCalledWith(
-      expect.not.objectContaining({
-        update: expect.objectContaining({ processed: false }),
-      })
-    )
   })
 
   it('falls back to recent blocks when no prior events exist', async () => {
@@ -403,8 +577,517 @@ describe('eventListener polling', () => {
 
     expect(prismaDB.eventLog.findFirst).toHaveBeenCalledWith(
       expect.objectContaining({
-        where: { eventType: 'PurchaseCompleted' },
+        where: {
+          chainId: 84532,
+          contractAddress: '0xmarketplace',
+          eventType: {
+            in: [
+              'ListingCreated',
+              'PurchaseCompleted',
+              'ListingDeactivated',
+              'Withdrawal',
+            ],
+          },
+        },
+      })
+    )
+  })
+
+  it('requests all indexed marketplace events together', async () => {
+    await pollOnce()
+
+    expect(mockGetLogs).toHaveBeenCalledWith(
+      expect.objectContaining({
+        events: [
+          expect.objectContaining({ name: 'ListingCreated' }),
+          expect.objectContaining({ name: 'PurchaseCompleted' }),
+          expect.objectContaining({ name: 'ListingDeactivated' }),
+          expect.objectContaining({ name: 'Withdrawal' }),
+        ],
+      })
+    )
+  })
+})
+
+describe('eventListener ListingCreated indexing', () => {
+  const LISTING_CREATED_ARGS = {
+    listingId: 7n,
+    seller: '0xSELLER',
+    dataCid: 'bafydata',
+    envelopeCid: 'bafyenvelope',
+    envelopeHash: '0x' + 'a'.repeat(64),
+    priceUsdc: 5_000_000n,
+  }
+
+  beforeEach(() => {
+    mockDecodeEventLog.mockReturnValue({
+      eventName: 'ListingCreated',
+      args: LISTING_CREATED_ARGS,
+    } as any)
+  })
+
+  it('creates a placeholder listing with pending metadata', async () => {
+    txListingFind.mockResolvedValue(null)
+    mockGetLogs.mockResolvedValue([makeMockLog({ transactionHash: '0xlist' })])
+
+    await pollOnce()
+
+    expect(txListingCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        onchainId: 7,
+        sellerAddress: '0xseller',
+        dataCid: 'bafydata',
+        envelopeCid: 'bafyenvelope',
+        envelopeHash: LISTING_CREATED_ARGS.envelopeHash,
+        priceUsdc: '5000000',
+        metadataPending: true,
+        txHash: '0xlist',
+        blockNumber: 100,
+      }),
+    })
+    expect(txEventLogUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          eventType: 'ListingCreated',
+          processed: true,
+        }),
+      })
+    )
+    expect(txPurchaseUpsert).not.toHaveBeenCalled()
+    expect(mockEnqueueNotification).not.toHaveBeenCalled()
+  })
+
+  it('leaves listings already created through the API untouched', async () => {
+    txListingFind.mockResolvedValue({ id: 'listing-id', onchainId: 7 })
+    mockGetLogs.mockResolvedValue([makeMockLog()])
+
+    await pollOnce()
+
+    expect(txListingCreate).not.toHaveBeenCalled()
+    expect(txListingUpdate).not.toHaveBeenCalled()
+    expect(txEventLogUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { processed: true, error: null, nextAttemptAt: null },
+      })
+    )
+  })
+
+  it('restores a reorged listing when its creation is re-mined', async () => {
+    txListingFind.mockResolvedValue({
+      id: 'listing-id',
+      onchainId: 7,
+      txHash: '0xlist',
+      reorgedAt: new Date(),
+    })
+    mockGetLogs.mockResolvedValue([
+      makeMockLog({ transactionHash: '0xlist', blockNumber: 104n }),
+    ])
+
+    await pollOnce()
+
+    expect(txListingUpdate).toHaveBeenCalledWith({
+      where: { id: 'listing-id' },
+      data: expect.objectContaining({
+        txHash: '0xlist',
+        blockNumber: 104,
+        active: true,
+        reorgedAt: null,
+      }),
+    })
+    // Same transaction: the seller's metadata still applies
+    expect(txListingUpdate.mock.calls[0]![0].data).not.toHaveProperty(
+      'metadataPending'
+    )
+  })
+
+  it('resets metadata when a reorged listing id is taken by another transaction', async () => {
+    txListingFind.mockResolvedValue({
+      id: 'listing-id',
+      onchainId: 7,
+      txHash: '0xorphaned',
+      reorgedAt: new Date(),
+    })
+    mockGetLogs.mockResolvedValue([makeMockLog({ transactionHash: '0xother' })])
+
+    await pollOnce()
+
+    expect(txListingUpdate).toHaveBeenCalledWith({
+      where: { id: 'listing-id' },
+      data: expect.objectContaining({
+        sellerAddress: '0xseller',
+        txHash: '0xother',
+        title: 'Listing #7',
+        metadataPending: true,
+        active: true,
+        reorgedAt: null,
+      }),
+    })
+  })
+
+  it('records ListingCreated failures with the right eventType', async () => {
+    txListingFind.mockRejectedValueOnce(new Error('DB_TIMEOUT'))
+    mockGetLogs.mockResolvedValue([makeMockLog()])
+
+    await pollOnce()
+
+    expect(mockEventLogUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          eventType: 'ListingCreated',
+          error: expect.stringContaining('DB_TIMEOUT'),
+        }),
+      })
+    )
+  })
+})
+
+describe('eventListener ListingDeactivated indexing', () => {
+  beforeEach(() => {
+    mockDecodeEventLog.mockReturnValue({
+      eventName: 'ListingDeactivated',
+      args: { listingId: 7n, caller: '0xOWNER' },
+    } as any)
+  })
+
+  it('marks the listing inactive and records the deactivation', async () => {
+    txListingFind.mockResolvedValue({
+      id: 'listing-id',
+      onchainId: 7,
+      title: 'Weather data',
+      sellerAddress: '0xseller',
+    })
+    mockGetLogs.mockResolvedValue([
+      makeMockLog({
+        transactionHash: '0xdeact',
+        logIndex: 2,
+        blockNumber: 120n,
+      }),
+    ])
+
+    await pollOnce()
+
+    expect(mockGetBlock).toHaveBeenCalledWith({ blockNumber: 120n })
+    expect(txListingUpdate).toHaveBeenCalledWith({
+      where: { id: 'listing-id' },
+      data: { active: false },
+    })
+    expect(txDeactivationUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { txHash_logIndex: { txHash: '0xdeact', logIndex: 2 } },
+        create: {
+          listingId: 'listing-id',
+          callerAddress: '0xowner',
+          txHash: '0xdeact',
+          logIndex: 2,
+          blockNumber: 120,
+          deactivatedAt: new Date(1_700_000_000_000),
+        },
+      })
+    )
+    expect(mockAddInboxNotification).toHaveBeenCalledWith(expect.anything(), {
+      type: 'listing.deactivated',
+      eventKey: 'listing.deactivated:0xdeact:2',
+      recipientAddress: '0xseller',
+      message: '"Weather data" was deactivated',
+      listingId: 'listing-id',
+    })
+    expect(txEventLogUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          eventType: 'ListingDeactivated',
+          processed: true,
+        }),
+      })
+    )
+  })
+
+  it('records a failure when the listing is unknown', async () => {
+    txListingFind.mockResolvedValue(null)
+    mockGetLogs.mockResolvedValue([makeMockLog()])
+
+    await pollOnce()
+
+    expect(txListingUpdate).not.toHaveBeenCalled()
+    expect(mockEventLogUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          eventType: 'ListingDeactivated',
+          error: 'LISTING_NOT_FOUND',
+        }),
+      })
+    )
+  })
+})
+
+describe('eventListener Withdrawal indexing', () => {
+  beforeEach(() => {
+    mockDecodeEventLog.mockReturnValue({
+      eventName: 'Withdrawal',
+      args: { listingId: 1n, seller: '0xSeller', amountUsdc: 9_750_000n },
+    } as any)
+  })
+
+  it('records a WITHDRAWAL ledger entry', async () => {
+    mockGetLogs.mockResolvedValue([
+      makeMockLog({ transactionHash: '0xwd', logIndex: 4, blockNumber: 150n }),
+    ])
+
+    await pollOnce()
+
+    expect(txLedgerUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: {
+          listingId: 'listing-id',
+          sellerAddress: '0xseller',
+          entryType: 'WITHDRAWAL',
+          withdrawnUsdc: '9750000',
+          txHash: '0xwd',
+          logIndex: 4,
+          blockNumber: 150,
+          blockTimestamp: new Date(1_700_000_000_000),
+        },
       })
     )
+    expect(txEventLogUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ eventType: 'Withdrawal' }),
+      })
+    )
+    expect(txPurchaseUpsert).not.toHaveBeenCalled()
+  })
+})
+
+describe('eventListener reorg handling', () => {
+  const mockDetectReorg = detectReorg as MockedFunction<typeof detectReorg>
+
+  it('fetches the chunk end hash before getLogs and records block hashes', async () => {
+    mockGetLogs.mockResolvedValue([makeMockLog({ blockNumber: 150n })])
+
+    await pollOnce()
+
+    expect(mockGetBlock).toHaveBeenCalledWith({ blockNumber: 198n })
+    expect(mockGetBlock.mock.invocationCallOrder[0]!).toBeLessThan(
+      mockGetLogs.mock.invocationCallOrder[0]!
+    )
+    expect(recordIndexedBlocks).toHaveBeenCalledWith(
+      [
+        { blockNumber: 150n, blockHash: '0xloghash' },
+        { blockNumber: 198n, blockHash: '0xblockhash' },
+      ],
+      getDefaultDeployment()
+    )
+  })
+
+  it('rolls back and re-indexes from above the fork point', async () => {
+    mockDetectReorg.mockResolvedValueOnce(180n)
+    ;(prismaDB.eventLog.findFirst as any).mockResolvedValue({
+      blockNumber: 195,
+    })
+
+    await pollOnce()
+
+    expect(rollbackFromBlock).toHaveBeenCalledWith(180n, getDefaultDeployment())
+    expect(mockGetLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 181n, toBlock: 198n })
+    )
+  })
+
+  it('re-verifies a purchase flagged by an earlier rollback', async () => {
+    mockGetLogs.mockResolvedValue([makeMockLog()])
+
+    await pollOnce()
+
+    expect(txPurchaseUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { txVerified: true, blockNumber: 100, reorgedAt: null },
+      })
+    )
+  })
+
+  it('does not roll back when chain matches stored hashes', async () => {
+    await pollOnce()
+
+    expect(mockDetectReorg).toHaveBeenCalledWith(198n, getDefaultDeployment())
+    expect(rollbackFromBlock).not.toHaveBeenCalled()
+  })
+})
+
+describe('eventListener checkpoints', () => {
+  const mockGetCheckpoints = getCheckpoints as MockedFunction<
+    typeof getCheckpoints
+  >
+
+  function checkpoint(stream: string, lastScannedBlock: number) {
+    return { stream, lastScannedBlock, updatedAt: new Date() }
+  }
+
+  const ALL_STREAMS = [
+    'ListingCreated',
+    'PurchaseCompleted',
+    'ListingDeactivated',
+    'Withdrawal',
+  ]
+
+  it('resumes from the oldest checkpoint across streams', async () => {
+    mockGetCheckpoints.mockResolvedValueOnce(
+      ALL_STREAMS.map((stream, i) => checkpoint(stream, 150 + i))
+    )
+
+    await pollOnce()
+
+    expect(mockGetLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 151n, toBlock: 198n })
+    )
+    expect(prismaDB.eventLog.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('does not rescan blocks below the checkpoint when no events were indexed', async () => {
+    mockGetCheckpoints.mockResolvedValueOnce(
+      ALL_STREAMS.map((stream) => checkpoint(stream, 198))
+    )
+
+    await pollOnce()
+
+    expect(mockGetLogs).not.toHaveBeenCalled()
+    expect(saveCheckpoints).not.toHaveBeenCalled()
+  })
+
+  it('saves a checkpoint for every stream after each chunk', async () => {
+    mockGetBlockNumber.mockResolvedValue(3_002n)
+    mockGetCheckpoints.mockResolvedValueOnce(
+      ALL_STREAMS.map((stream) => checkpoint(stream, 0))
+    )
+
+    await pollOnce()
+
+    expect(mockGetLogs).toHaveBeenCalledTimes(2)
+    expect(saveCheckpoints).toHaveBeenNthCalledWith(
+      1,
+      ALL_STREAMS,
+      2_000n,
+      getDefaultDeployment()
+    )
+    expect(saveCheckpoints).toHaveBeenNthCalledWith(
+      2,
+      ALL_STREAMS,
+      3_000n,
+      getDefaultDeployment()
+    )
+  })
+
+  it('does not advance the checkpoint when a chunk fails', async () => {
+    vi.mocked(recordIndexedBlocks).mockRejectedValueOnce(new Error('db down'))
+
+    await expect(pollOnce()).rejects.toThrow('db down')
+
+    expect(saveCheckpoints).not.toHaveBeenCalled()
+  })
+
+  it('starts a stream without a checkpoint from INDEXER_START_BLOCK', async () => {
+    getDefaultDeployment().startBlock = 120n
+    mockGetCheckpoints.mockResolvedValueOnce([
+      checkpoint('PurchaseCompleted', 190),
+    ])
+
+    await pollOnce()
+
+    expect(mockGetLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 120n, toBlock: 198n })
+    )
+  })
+})
+
+describe('eventListener WebSocket subscription', () => {
+  function subscribedLog(
+    overrides: Partial<{
+      blockNumber: bigint
+      transactionHash: string
+      logIndex: number
+      removed: boolean
+    }> = {}
+  ) {
+    return {
+      ...makeMockLog(overrides),
+      removed: overrides.removed ?? false,
+    }
+  }
+
+  it('processes subscribed logs only once they are confirmed', async () => {
+    handleSubscribedLogs([subscribedLog({ blockNumber: 100n })])
+
+    expect(await flushConfirmedLogs(101n)).toBe(0)
+    expect(txPurchaseUpsert).not.toHaveBeenCalled()
+
+    expect(await flushConfirmedLogs(102n)).toBe(1)
+    expect(txPurchaseUpsert).toHaveBeenCalledTimes(1)
+    expect(recordIndexedBlocks).toHaveBeenCalledWith(
+      [{ blockNumber: 100n, blockHash: '0xloghash' }],
+      getDefaultDeployment()
+    )
+
+    expect(await flushConfirmedLogs(103n)).toBe(0)
+  })
+
+  it('drops logs the node marks as removed', async () => {
+    handleSubscribedLogs([subscribedLog()])
+    handleSubscribedLogs([subscribedLog({ removed: true })])
+
+    expect(await flushConfirmedLogs(200n)).toBe(0)
+    expect(txPurchaseUpsert).not.toHaveBeenCalled()
+  })
+
+  it('processes confirmed logs in block and log order', async () => {
+    handleSubscribedLogs([
+      subscribedLog({ blockNumber: 101n, transactionHash: '0xb' }),
+      subscribedLog({ blockNumber: 100n, transactionHash: '0xa', logIndex: 1 }),
+      subscribedLog({ blockNumber: 100n, transactionHash: '0xa', logIndex: 0 }),
+    ])
+
+    await flushConfirmedLogs(200n)
+
+    expect(
+      txPurchaseUpsert.mock.calls.map((call) => call[0].where.txHash)
+    ).toEqual(['0xa', '0xa', '0xb'])
+  })
+
+  it('records failures of subscribed logs for the retry worker', async () => {
+    txListingFind.mockRejectedValueOnce(new Error('LISTING_NOT_FOUND'))
+    handleSubscribedLogs([subscribedLog()])
+
+    await flushConfirmedLogs(200n)
+
+    expect(mockEventLogUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          processed: false,
+          error: expect.stringContaining('LISTING_NOT_FOUND'),
+        }),
+      })
+    )
+  })
+
+  it('slows polling while subscribed and falls back when the socket drops', async () => {
+    vi.useFakeTimers()
+    try {
+      vi.mocked(startLogSubscription).mockReturnValueOnce(true)
+
+      startPurchaseListener()
+      await vi.advanceTimersByTimeAsync(0)
+      const options = vi.mocked(startLogSubscription).mock.calls[0]![0]
+
+      options.onConnected()
+      mockGetBlockNumber.mockClear()
+      await vi.advanceTimersByTimeAsync(8_000)
+      expect(mockGetBlockNumber).not.toHaveBeenCalled()
+
+      options.onDisconnected(new Error('socket closed'))
+      await vi.advanceTimersByTimeAsync(8_000)
+      expect(mockGetBlockNumber).toHaveBeenCalledTimes(2)
+
+      stopPurchaseListener()
+      expect(stopLogSubscription).toHaveBeenCalled()
+    } finally {
+      vi.useRealTimers()
+    }
   })
 })
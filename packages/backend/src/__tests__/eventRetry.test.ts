@@ -0,0 +1,320 @@
+import request from 'supertest'
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+import { processLog } from '../services/eventListener.js'
+import {
+  MAX_EVENT_ATTEMPTS,
+  retryDueEvents,
+  retryEvent,
+} from '../services/eventRetry'
+import { getEventRetryDelayMs } from '../services/retry'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  eventLogFindMany: vi.fn(),
+  eventLogFindUnique: vi.fn(),
+  eventLogUpdate: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    eventLog: {
+      findMany: mocks.eventLogFindMany,
+      findUnique: mocks.eventLogFindUnique,
+      update: mocks.eventLogUpdate,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+vi.mock('../services/eventListener.js', () => ({
+  processLog: vi.fn(),
+  startPurchaseListener: vi.fn(),
+  stopPurchaseListener: vi.fn(),
+  INDEXED_EVENT_TYPES: [],
+}))
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+const mockProcessLog = processLog as MockedFunction<typeof processLog>
+
+const ADMIN_ADDRESS = '0x' + 'A'.repeat(40)
+const OTHER_ADDRESS = '0x' + 'B'.repeat(40)
+const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
+const EVENT_ID = 'clh0000000000000000000001'
+
+function authHeader(address = ADMIN_ADDRESS) {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+}
+
+function makeEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: EVENT_ID,
+    chainId: 84532,
+    contractAddress: '0xmarketplace',
+    eventType: 'PurchaseCompleted',
+    txHash: '0xtx1',
+    logIndex: 2,
+    blockNumber: 100,
+    processed: false,
+    error: 'rpc timeout',
+    attempts: 1,
+    nextAttemptAt: new Date(0),
+    deadLetteredAt: null,
+    discardedAt: null,
+    data: { address: '0xmarketplace', data: '0xdata', topics: ['0xtopic'] },
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env['ADMIN_ADDRESSES'] = ADMIN_ADDRESS
+  mockVerifyMessage.mockResolvedValue(true)
+  mockProcessLog.mockResolvedValue('created')
+  mocks.eventLogUpdate.mockImplementation(({ data }) =>
+    Promise.resolve(makeEvent(data))
+  )
+})
+
+describe('getEventRetryDelayMs', () => {
+  it('backs off exponentially and caps at one hour', () => {
+    expect(getEventRetryDelayMs(1)).toBe(30_000)
+    expect(getEventRetryDelayMs(2)).toBe(60_000)
+    expect(getEventRetryDelayMs(3)).toBe(120_000)
+    expect(getEventRetryDelayMs(20)).toBe(60 * 60 * 1000)
+  })
+})
+
+describe('retryEvent', () => {
+  it('replays the stored raw log through processLog', async () => {
+    const outcome = await retryEvent(makeEvent())
+
+    expect(outcome).toBe('processed')
+    expect(mockProcessLog).toHaveBeenCalledWith(
+      {
+        address: '0xmarketplace',
+        data: '0xdata',
+        topics: ['0xtopic'],
+        transactionHash: '0xtx1',
+        logIndex: 2,
+        blockNumber: 100n,
+      },
+      expect.objectContaining({ chainId: 84532 })
+    )
+    expect(mocks.eventLogUpdate).not.toHaveBeenCalled()
+  })
+
+  it('counts rows from an unconfigured chain as a failed attempt', async () => {
+    const outcome = await retryEvent(makeEvent({ chainId: 1 }))
+
+    expect(outcome).toBe('retrying')
+    expect(mockProcessLog).not.toHaveBeenCalled()
+    expect(mocks.eventLogUpdate.mock.calls[0]![0].data.error).toBe(
+      'No deployment configured for chain 1'
+    )
+  })
+
+  it('reschedules with backoff when the replay fails', async () => {
+    mockProcessLog.mockRejectedValueOnce(new Error('db down'))
+
+    const before = Date.now()
+    const outcome = await retryEvent(makeEvent({ attempts: 1 }))
+
+    expect(outcome).toBe('retrying')
+    const { data } = mocks.eventLogUpdate.mock.calls[0]![0]
+    expect(data).toMatchObject({
+      attempts: 2,
+      error: 'db down',
+      deadLetteredAt: null,
+    })
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 60_000)
+  })
+
+  it('dead-letters the event once attempts are exhausted', async () => {
+    mockProcessLog.mockRejectedValueOnce(new Error('db down'))
+
+    const outcome = await retryEvent(
+      makeEvent({ attempts: MAX_EVENT_ATTEMPTS - 1 })
+    )
+
+    expect(outcome).toBe('dead_lettered')
+    expect(mocks.eventLogUpdate).toHaveBeenCalledWith({
+      where: { id: EVENT_ID },
+      data: expect.objectContaining({
+        attempts: MAX_EVENT_ATTEMPTS,
+        nextAttemptAt: null,
+        deadLetteredAt: expect.any(Date),
+      }),
+    })
+  })
+
+  it('counts rows without raw log data as a failed attempt', async () => {
+    const outcome = await retryEvent(makeEvent({ data: null }))
+
+    expect(outcome).toBe('retrying')
+    expect(mockProcessLog).not.toHaveBeenCalled()
+    expect(mocks.eventLogUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          error: 'EventLog row has no raw log data to replay',
+        }),
+      })
+    )
+  })
+})
+
+describe('retryDueEvents', () => {
+  it('retries only queued rows whose backoff has elapsed', async () => {
+    mocks.eventLogFindMany.mockResolvedValue([
+      makeEvent(),
+      makeEvent({ id: 'second', attempts: MAX_EVENT_ATTEMPTS - 1 }),
+    ])
+    mockProcessLog
+      .mockResolvedValueOnce('created')
+      .mockRejectedValueOnce(new Error('still failing'))
+
+    const result = await retryDueEvents()
+
+    expect(mocks.eventLogFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          processed: false,
+          deadLetteredAt: null,
+          discardedAt: null,
+          OR: [
+            { nextAttemptAt: null },
+            { nextAttemptAt: { lte: expect.any(Date) } },
+          ],
+        },
+      })
+    )
+    expect(result).toEqual({
+      attempted: 2,
+      succeeded: 1,
+      failed: 0,
+      deadLettered: 1,
+    })
+  })
+})
+
+describe('admin dead-letter API', () => {
+  it('rejects unauthenticated requests', async () => {
+    const res = await request(app).get('/api/admin/events/dead-letter')
+
+    expect(res.status).toBe(401)
+  })
+
+  it('rejects wallets that are not admins', async () => {
+    const res = await request(app)
+      .get('/api/admin/events/dead-letter')
+      .set('Authorization', authHeader(OTHER_ADDRESS))
+
+    expect(res.status).toBe(403)
+  })
+
+  it('lists dead-lettered events', async () => {
+    mocks.eventLogFindMany.mockResolvedValue([
+      makeEvent({ deadLetteredAt: new Date(), attempts: 5 }),
+    ])
+
+    const res = await request(app)
+      .get('/api/admin/events/dead-letter')
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(200)
+    expect(res.body.events).toHaveLength(1)
+    expect(res.body.nextCursor).toBeNull()
+    expect(mocks.eventLogFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          processed: false,
+          deadLetteredAt: { not: null },
+          discardedAt: null,
+        },
+        take: 21,
+      })
+    )
+  })
+
+  it('requeues and replays a dead-lettered event', async () => {
+    mocks.eventLogFindUnique.mockResolvedValue(
+      makeEvent({ deadLetteredAt: new Date(), attempts: 5 })
+    )
+
+    const res = await request(app)
+      .post(`/api/admin/events/${EVENT_ID}/retry`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ id: EVENT_ID, status: 'processed' })
+    expect(mocks.eventLogUpdate).toHaveBeenCalledWith({
+      where: { id: EVENT_ID },
+      data: { attempts: 0, deadLetteredAt: null, nextAttemptAt: null },
+    })
+    expect(mockProcessLog).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns 409 when retrying an event that is not dead-lettered', async () => {
+    mocks.eventLogFindUnique.mockResolvedValue(makeEvent())
+
+    const res = await request(app)
+      .post(`/api/admin/events/${EVENT_ID}/retry`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(409)
+    expect(mockProcessLog).not.toHaveBeenCalled()
+  })
+
+  it('discards a dead-lettered event', async () => {
+    mocks.eventLogFindUnique.mockResolvedValue(
+      makeEvent({ deadLetteredAt: new Date() })
+    )
+
+    const res = await request(app)
+      .post(`/api/admin/events/${EVENT_ID}/discard`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(200)
+    expect(res.body.status).toBe('discarded')
+    expect(mocks.eventLogUpdate).toHaveBeenCalledWith({
+      where: { id: EVENT_ID },
+      data: { discardedAt: expect.any(Date) },
+      select: { id: true, discardedAt: true },
+    })
+  })
+
+  it('returns 404 for unknown events', async () => {
+    mocks.eventLogFindUnique.mockResolvedValue(null)
+
+    const res = await request(app)
+      .post(`/api/admin/events/${EVENT_ID}/discard`)
+      .set('Authorization', authHeader())
+
+    expect(res.status).toBe(404)
+  })
+})
@@ -25,6 +25,23 @@ vi.mock('../services/eventListener.js', () => ({
   stopPurchaseListener: vi.fn(),
 }))
 
+vi.mock('../services/eventRetry.js', () => ({
+  startEventRetryWorker: vi.fn(),
+  stopEventRetryWorker: vi.fn(),
+}))
+
+vi.mock('../services/leaderElection.js', () => ({
+  getLeaderStatus: vi.fn(),
+  startLeaderElection: vi.fn(),
+  stopLeaderElection: vi.fn(),
+}))
+
+async function electionOptions() {
+  const { startLeaderElection } = await import('../services/leaderElection.js')
+  await vi.waitFor(() => expect(startLeaderElection).toHaveBeenCalled())
+  return vi.mocked(startLeaderElection).mock.calls[0]![0]
+}
+
 describe('index.ts lifecycle', () => {
   beforeEach(() => {
     vi.resetModules()
@@ -36,13 +53,40 @@ describe('index.ts lifecycle', () => {
     expect(listenMock).toHaveBeenCalled()
   })
 
-  it('stops listener on SIGTERM', async () => {
-    const _mod = await import('../index')
+  it('only indexes once elected leader', async () => {
+    await import('../index')
+    const { startPurchaseListener } =
+      await import('../services/eventListener.js')
+    const { startEventRetryWorker } = await import('../services/eventRetry.js')
+
+    const options = await electionOptions()
+    expect(startPurchaseListener).not.toHaveBeenCalled()
+
+    await options.onElected()
+
+    expect(startPurchaseListener).toHaveBeenCalled()
+    expect(startEventRetryWorker).toHaveBeenCalled()
+  })
+
+  it('stops the listener and retry worker when demoted', async () => {
+    await import('../index')
     const { stopPurchaseListener } =
       await import('../services/eventListener.js')
+    const { stopEventRetryWorker } = await import('../services/eventRetry.js')
 
-    process.emit('SIGTERM')
+    const options = await electionOptions()
+    await options.onDemoted()
 
     expect(stopPurchaseListener).toHaveBeenCalled()
+    expect(stopEventRetryWorker).toHaveBeenCalled()
+  })
+
+  it('releases leadership on SIGTERM', async () => {
+    await import('../index')
+    const { stopLeaderElection } = await import('../services/leaderElection.js')
+
+    process.emit('SIGTERM')
+
+    expect(stopLeaderElection).toHaveBeenCalled()
   })
 })
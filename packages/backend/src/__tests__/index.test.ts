@@ -10,6 +10,7 @@ const VALID_ADDRESS = '0x' + 'b'.repeat(40)
 // Mocks
 // --------------------
 vi.mock('../config/db.js', () => ({
+  prisma: { purchase: { count: vi.fn().mockResolvedValue(4) } },
   checkDatabaseHealth: vi.fn(),
   disconnectDatabase: vi.fn(),
 }))
@@ -26,8 +27,21 @@ vi.mock('../services/monitoring.js', () => ({
   }),
 }))
 
+vi.mock('../services/leaderElection.js', () => ({
+  getLeaderStatus: vi.fn().mockResolvedValue({
+    instanceId: 'api-1:42',
+    isLeader: true,
+    leaderId: 'api-1:42',
+    acquiredAt: null,
+    expiresAt: null,
+  }),
+  startLeaderElection: vi.fn(),
+  stopLeaderElection: vi.fn(),
+}))
+
 import { checkDatabaseHealth } from '../config/db.js'
 import app from '../index'
+import { Logger } from '../lib/logger.js'
 import { verifyPurchase } from '../services/txVerification.js'
 
 describe('index.ts (Express API)', () => {
@@ -43,6 +57,22 @@ describe('index.ts (Express API)', () => {
     expect(res.status).toBe(200)
     expect(res.body.services.database).toBe('connected')
     expect(res.body.services.listener.healthy).toBe(true)
+    expect(res.body.services.leader).toMatchObject({
+      instanceId: 'api-1:42',
+      isLeader: true,
+      leaderId: 'api-1:42',
+    })
+    expect(res.body.services.rpc).toEqual([
+      {
+        chainId: 84532,
+        providers: [
+          expect.objectContaining({
+            url: 'https://sepolia.base.org',
+            healthy: true,
+          }),
+        ],
+      },
+    ])
   })
 
   it('GET /health → degraded when DB down', async () => {
@@ -54,6 +84,25 @@ describe('index.ts (Express API)', () => {
     expect(res.body.status).toBe('degraded')
   })
 
+  it('GET /metrics → Prometheus text with HTTP and DB metrics', async () => {
+    ;(checkDatabaseHealth as any).mockResolvedValue(true)
+    await request(app).get('/health')
+    await request(app).get('/api/listings/not-a-real-id/nope')
+
+    const res = await request(app).get('/metrics')
+
+    expect(res.status).toBe(200)
+    expect(res.headers['content-type']).toContain('text/plain')
+    expect(res.text).toMatch(
+      /http_requests_total\{method="GET",route="\/health",status="200"\} \d+/
+    )
+    expect(res.text).toContain(
+      'http_requests_total{method="GET",route="unmatched",status="404"} 1'
+    )
+    expect(res.text).toContain('key_deliveries_pending 4')
+    expect(res.text).toContain('database_up 1')
+  })
+
   it('POST /verify → success', async () => {
     ;(verifyPurchase as any).mockResolvedValue({
       listingId: 1,
@@ -73,6 +122,21 @@ describe('index.ts (Express API)', () => {
     expect(res.body.data.amountUsdc).toBe('100')
   })
 
+  it('POST /verify → 400 for a chain without a deployment', async () => {
+    ;(verifyPurchase as any).mockClear()
+
+    const res = await request(app).post('/verify').send({
+      chainId: 1,
+      txHash: VALID_TX_HASH,
+      expectedListingId: 1,
+      expectedBuyer: VALID_ADDRESS,
+    })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('UNSUPPORTED_CHAIN')
+    expect(verifyPurchase).not.toHaveBeenCalled()
+  })
+
   it('POST /verify → validation error', async () => {
     const res = await request(app).post('/verify').send({
       txHash: 'bad',
@@ -110,6 +174,48 @@ describe('index.ts (Express API)', () => {
     process.env.NODE_ENV = 'test'
   })
 
+  it('assigns a request id and echoes it in X-Request-Id', async () => {
+    const res = await request(app).get('/does-not-exist')
+
+    expect(res.headers['x-request-id']).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    )
+  })
+
+  it('keeps a valid incoming request id and replaces an unsafe one', async () => {
+    const kept = await request(app)
+      .get('/does-not-exist')
+      .set('X-Request-Id', 'edge-123')
+    const replaced = await request(app)
+      .get('/does-not-exist')
+      .set('X-Request-Id', 'bad id\twith spaces')
+
+    expect(kept.headers['x-request-id']).toBe('edge-123')
+    expect(replaced.headers['x-request-id']).not.toBe('bad id\twith spaces')
+  })
+
+  it('logs unhandled errors with the request id', async () => {
+    const errorSpy = vi.spyOn(Logger.prototype, 'error')
+    ;(verifyPurchase as any).mockRejectedValueOnce(new Error('boom'))
+
+    await request(app).post('/verify').set('X-Request-Id', 'req-42').send({
+      txHash: VALID_TX_HASH,
+      expectedListingId: 1,
+      expectedBuyer: VALID_ADDRESS,
+    })
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Unhandled error',
+      expect.objectContaining({
+        requestId: 'req-42',
+        method: 'POST',
+        path: '/verify',
+        err: expect.any(Error),
+      })
+    )
+    errorSpy.mockRestore()
+  })
+
   it('returns 404 for unknown route', async () => {
     const res = await request(app).get('/does-not-exist')
 
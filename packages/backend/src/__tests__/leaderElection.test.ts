@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { lease, queryRaw } = vi.hoisted(() => ({
+  lease: {
+    deleteMany: vi.fn(),
+  },
+  queryRaw: vi.fn(),
+}))
+
+vi.mock('../config/db.js', () => ({
+  default: { indexerLease: lease, $queryRaw: queryRaw },
+}))
+
+vi.hoisted(() => {
+  process.env['INSTANCE_ID'] = 'api-1'
+})
+
+import {
+  INSTANCE_ID,
+  LEASE_EXPIRY_MARGIN_MS,
+  LEASE_TTL_MS,
+  getLeaderStatus,
+  runElection,
+  startLeaderElection,
+  stopLeaderElection,
+  tryAcquireLease,
+} from '../services/leaderElection.js'
+
+// The database clock, deliberately far from the local one
+const DB_NOW = new Date('2001-01-01T00:00:00.000Z')
+
+/** The lease upsert returns the row only when this instance holds it */
+function holds(held: boolean, validForMs = LEASE_TTL_MS) {
+  queryRaw.mockResolvedValueOnce(
+    held
+      ? [
+          {
+            renewedAt: DB_NOW,
+            expiresAt: new Date(DB_NOW.getTime() + validForMs),
+          },
+        ]
+      : []
+  )
+}
+
+/** SQL text and bound values of the n-th lease upsert */
+function leaseQuery(n = 0) {
+  const [strings, ...values] = queryRaw.mock.calls[n]!
+  return { sql: (strings as string[]).join('?'), values }
+}
+
+describe('tryAcquireLease', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    queryRaw.mockReset()
+  })
+
+  it('holds the lease when the upsert returns the row', async () => {
+    holds(true)
+
+    await expect(tryAcquireLease()).resolves.toEqual({
+      renewedAt: DB_NOW,
+      expiresAt: new Date(DB_NOW.getTime() + LEASE_TTL_MS),
+    })
+    expect(queryRaw).toHaveBeenCalledTimes(1)
+    expect(leaseQuery().values).toEqual(['indexer', 'api-1', LEASE_TTL_MS])
+  })
+
+  it('loses to a live lease held elsewhere', async () => {
+    holds(false)
+
+    await expect(tryAcquireLease()).resolves.toBeNull()
+  })
+
+  it('judges expiry by the database clock, not the local one', async () => {
+    holds(true)
+
+    await tryAcquireLease()
+
+    const { sql } = leaseQuery()
+    expect(sql).toContain('ON CONFLICT ("name") DO UPDATE')
+    expect(sql).toContain(
+      'WHERE "IndexerLease"."holderId" = EXCLUDED."holderId"'
+    )
+    expect(sql).toContain('"IndexerLease"."expiresAt" < EXCLUDED."renewedAt"')
+    expect(sql).toContain("now() AT TIME ZONE 'UTC'")
+    expect(sql).toContain('RETURNING "renewedAt", "expiresAt"')
+  })
+
+  it('rethrows database errors', async () => {
+    queryRaw.mockRejectedValueOnce(new Error('connection reset'))
+
+    await expect(tryAcquireLease()).rejects.toThrow('connection reset')
+  })
+})
+
+describe('leader election', () => {
+  const onElected = vi.fn()
+  const onDemoted = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    queryRaw.mockReset()
+    vi.useFakeTimers()
+    lease.deleteMany.mockResolvedValue({ count: 1 })
+  })
+
+  afterEach(async () => {
+    await stopLeaderElection()
+    vi.useRealTimers()
+  })
+
+  it('starts the indexer once when elected and keeps renewing', async () => {
+    holds(true)
+    await startLeaderElection({ onElected, onDemoted })
+
+    expect(onElected).toHaveBeenCalledTimes(1)
+
+    holds(true)
+    await runElection()
+
+    expect(onElected).toHaveBeenCalledTimes(1)
+    expect(onDemoted).not.toHaveBeenCalled()
+  })
+
+  it('stays on standby while another instance holds the lease', async () => {
+    holds(false)
+
+    await startLeaderElection({ onElected, onDemoted })
+
+    expect(onElected).not.toHaveBeenCalled()
+  })
+
+  it('steps down when the lease is taken over', async () => {
+    holds(true)
+    await startLeaderElection({ onElected, onDemoted })
+
+    holds(false)
+    await runElection()
+
+    expect(onDemoted).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps indexing through renewal errors until just before the lease expires', async () => {
+    holds(true)
+    await startLeaderElection({ onElected, onDemoted })
+
+    queryRaw.mockRejectedValue(new Error('db down'))
+    await vi.advanceTimersByTimeAsync(LEASE_TTL_MS - LEASE_EXPIRY_MARGIN_MS - 1)
+    expect(onDemoted).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(onDemoted).toHaveBeenCalledTimes(1)
+  })
+
+  it('steps down when a renewal hangs past the lease', async () => {
+    holds(true)
+    await startLeaderElection({ onElected, onDemoted })
+
+    let finish: (rows: never[]) => void = () => {}
+    queryRaw.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)))
+    await vi.advanceTimersByTimeAsync(LEASE_TTL_MS - LEASE_EXPIRY_MARGIN_MS)
+
+    expect(onDemoted).toHaveBeenCalledTimes(1)
+    finish([])
+  })
+
+  it('times the lease by the duration the database granted', async () => {
+    holds(true, 6_000)
+    await startLeaderElection({ onElected, onDemoted })
+
+    queryRaw.mockRejectedValue(new Error('db down'))
+    await vi.advanceTimersByTimeAsync(6_000 - LEASE_EXPIRY_MARGIN_MS)
+
+    expect(onDemoted).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops the indexer and releases the lease on shutdown', async () => {
+    holds(true)
+    await startLeaderElection({ onElected, onDemoted })
+
+    await stopLeaderElection()
+
+    expect(onDemoted).toHaveBeenCalledTimes(1)
+    expect(lease.deleteMany).toHaveBeenCalledWith({
+      where: { name: 'indexer', holderId: 'api-1' },
+    })
+  })
+})
+
+describe('getLeaderStatus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    queryRaw.mockReset()
+  })
+
+  it('reports the live lease holder', async () => {
+    const expiresAt = new Date(DB_NOW.getTime() + 10_000)
+    queryRaw.mockResolvedValue([
+      { holderId: 'api-2', acquiredAt: new Date(0), expiresAt },
+    ])
+
+    await expect(getLeaderStatus()).resolves.toEqual({
+      instanceId: INSTANCE_ID,
+      isLeader: false,
+      leaderId: 'api-2',
+      acquiredAt: new Date(0),
+      expiresAt,
+    })
+  })
+
+  it('leaves expiry to the database clock', async () => {
+    queryRaw.mockResolvedValue([])
+
+    const status = await getLeaderStatus()
+
+    expect(status.leaderId).toBeNull()
+    const [strings, ...values] = queryRaw.mock.calls[0]!
+    expect((strings as string[]).join('?')).toContain(
+      `"expiresAt" > now() AT TIME ZONE 'UTC'`
+    )
+    expect(values).toEqual(['indexer'])
+  })
+})
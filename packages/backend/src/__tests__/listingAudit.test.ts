@@ -0,0 +1,295 @@
+import { zeroAddress, zeroHash } from 'viem'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import { auditListings, parseAuditCliArgs } from '../services/listingAudit.js'
+
+const mocks = vi.hoisted(() => ({
+  readContract: vi.fn(),
+  listingFindMany: vi.fn(),
+  listingUpdate: vi.fn(),
+  purchaseUpdate: vi.fn(),
+}))
+
+vi.mock('../config/chain.js', () => ({
+  publicClient: { readContract: mocks.readContract },
+  wsClient: null,
+  RPC_URLS: ['https://rpc.test'],
+  MARKETPLACE_ADDRESS: '0xmarketplace',
+  MARKETPLACE_ABI: [],
+  CONFIRMATIONS_REQUIRED: 2,
+  INDEXER_START_BLOCK: null,
+}))
+
+vi.mock('../config/db.js', () => ({
+  prisma: {
+    listing: {
+      findMany: mocks.listingFindMany,
+      update: mocks.listingUpdate,
+    },
+    purchase: { update: mocks.purchaseUpdate },
+  },
+}))
+
+const SELLER = '0x' + 'a'.repeat(40)
+const BUYER = '0x' + 'b'.repeat(40)
+
+function makeListing(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'listing-1',
+    chainId: 84532,
+    contractAddress: '0xmarketplace',
+    onchainId: 1,
+    sellerAddress: SELLER,
+    dataCid: 'cid',
+    envelopeCid: 'env',
+    envelopeHash: '0xhash',
+    priceUsdc: '1000000',
+    active: true,
+    purchases: [] as unknown[],
+    ...overrides,
+  }
+}
+
+interface ChainState {
+  listingCount?: bigint
+  listings?: Record<number, unknown[]>
+  purchased?: Record<string, boolean>
+}
+
+function chain(state: ChainState) {
+  mocks.readContract.mockImplementation(
+    ({ functionName, args }: { functionName: string; args?: any[] }) => {
+      if (functionName === 'listingCount') {
+        return Promise.resolve(state.listingCount ?? 1n)
+      }
+      if (functionName === 'getListing') {
+        const listing = state.listings?.[Number(args![0])]
+        return listing
+          ? Promise.resolve(listing)
+          : Promise.reject(new Error('execution reverted'))
+      }
+      return Promise.resolve(state.purchased?.[args![1]] ?? false)
+    }
+  )
+}
+
+const MATCHING = [SELLER, 'cid', 'env', '0xhash', 1_000_000n, true, 0n]
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mocks.listingFindMany.mockResolvedValue([makeListing()])
+})
+
+describe('auditListings', () => {
+  it('reports ok when DB and chain agree', async () => {
+    chain({ listings: { 1: MATCHING } })
+
+    const report = await auditListings()
+
+    expect(report).toMatchObject({
+      ok: true,
+      unresolved: 0,
+      listingsChecked: 1,
+      issues: [],
+      deployments: [{ chainId: 84532, onchainListingCount: 1 }],
+    })
+  })
+
+  it('reports field, active and sales-count drift', async () => {
+    chain({
+      listings: {
+        1: [SELLER, 'cid', 'env', '0xhash', 2_000_000n, false, 3n],
+      },
+    })
+
+    const report = await auditListings()
+
+    expect(report.ok).toBe(false)
+    expect(report.issues.map((i) => i.code)).toEqual([
+      'PRICE_MISMATCH',
+      'ACTIVE_MISMATCH',
+      'SALES_COUNT_MISMATCH',
+    ])
+    expect(report.issues[0]).toMatchObject({
+      db: '1000000',
+      chain: '2000000',
+      repaired: false,
+    })
+    expect(mocks.listingUpdate).not.toHaveBeenCalled()
+  })
+
+  it('checks every purchase against hasBuyerPurchased', async () => {
+    mocks.listingFindMany.mockResolvedValue([
+      makeListing({
+        purchases: [
+          { id: 'p1', buyerAddress: BUYER, txVerified: true },
+          { id: 'p2', buyerAddress: SELLER, txVerified: false },
+        ],
+      }),
+    ])
+    chain({
+      listings: { 1: [...MATCHING.slice(0, 6), 2n] },
+      purchased: { [SELLER]: true },
+    })
+
+    const report = await auditListings()
+
+    expect(report.purchasesChecked).toBe(2)
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        code: 'PURCHASE_NOT_ON_CHAIN',
+        purchaseId: 'p1',
+      }),
+      expect.objectContaining({
+        code: 'PURCHASE_NOT_VERIFIED',
+        purchaseId: 'p2',
+      }),
+    ])
+  })
+
+  it('finds on-chain listings missing from the DB', async () => {
+    chain({ listingCount: 3n, listings: { 1: MATCHING } })
+
+    const report = await auditListings()
+
+    expect(report.issues).toEqual([
+      {
+        code: 'LISTING_MISSING',
+        chainId: 84532,
+        onchainId: 2,
+        repaired: false,
+      },
+      {
+        code: 'LISTING_MISSING',
+        chainId: 84532,
+        onchainId: 3,
+        repaired: false,
+      },
+    ])
+  })
+
+  it('reports listings whose chain read fails', async () => {
+    chain({})
+
+    const report = await auditListings()
+
+    expect(report.issues[0]).toMatchObject({
+      code: 'CHAIN_READ_FAILED',
+      listingId: 'listing-1',
+    })
+  })
+
+  it('flags listings from chains without a deployment', async () => {
+    mocks.listingFindMany.mockResolvedValue([makeListing({ chainId: 8453 })])
+    chain({ listingCount: 0n })
+
+    const report = await auditListings()
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: 'NO_DEPLOYMENT', chainId: 8453 }),
+    ])
+  })
+
+  describe('repair mode', () => {
+    it('overwrites listing drift with chain values', async () => {
+      chain({
+        listings: {
+          1: [SELLER, 'cid2', 'env', '0xhash', 2_000_000n, false, 0n],
+        },
+      })
+
+      const report = await auditListings({ repair: true })
+
+      expect(mocks.listingUpdate).toHaveBeenCalledWith({
+        where: { id: 'listing-1' },
+        data: { dataCid: 'cid2', priceUsdc: '2000000', active: false },
+      })
+      expect(report.issues.every((i) => i.repaired)).toBe(true)
+      expect(report.ok).toBe(true)
+    })
+
+    it('clears the reorg flag of listings that exist on chain', async () => {
+      const reorgedAt = new Date('2026-01-01T00:00:00.000Z')
+      mocks.listingFindMany.mockResolvedValue([
+        makeListing({ active: false, reorgedAt }),
+      ])
+      chain({ listings: { 1: MATCHING } })
+
+      const report = await auditListings({ repair: true })
+
+      expect(mocks.listingUpdate).toHaveBeenCalledWith({
+        where: { id: 'listing-1' },
+        data: { active: true, reorgedAt: null },
+      })
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          code: 'REORG_MISMATCH',
+          db: reorgedAt.toISOString(),
+          repaired: true,
+        })
+      )
+    })
+
+    it('keeps the reorg flag while the chain has no such listing', async () => {
+      mocks.listingFindMany.mockResolvedValue([
+        makeListing({ active: false, reorgedAt: new Date() }),
+      ])
+      chain({
+        listings: { 1: [zeroAddress, '', '', zeroHash, 0n, false, 0n] },
+      })
+
+      const report = await auditListings({ repair: true })
+
+      expect(report.issues.map((i) => i.code)).not.toContain('REORG_MISMATCH')
+      expect(mocks.listingUpdate.mock.calls[0]![0].data).not.toHaveProperty(
+        'reorgedAt'
+      )
+    })
+
+    it('sets purchase verification from the chain without deleting', async () => {
+      mocks.listingFindMany.mockResolvedValue([
+        makeListing({
+          purchases: [{ id: 'p1', buyerAddress: BUYER, txVerified: true }],
+        }),
+      ])
+      chain({ listings: { 1: MATCHING } })
+
+      await auditListings({ repair: true })
+
+      expect(mocks.purchaseUpdate).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: { txVerified: false },
+      })
+    })
+
+    it('leaves missing rows to backfill', async () => {
+      chain({
+        listingCount: 2n,
+        listings: { 1: [...MATCHING.slice(0, 6), 1n] },
+      })
+
+      const report = await auditListings({ repair: true })
+
+      expect(report.issues.map((i) => [i.code, i.repaired])).toEqual([
+        ['SALES_COUNT_MISMATCH', false],
+        ['LISTING_MISSING', false],
+      ])
+      expect(report.ok).toBe(false)
+    })
+  })
+})
+
+describe('parseAuditCliArgs', () => {
+  it('parses flags', () => {
+    expect(
+      parseAuditCliArgs(['--json', '--repair', '--chain', '8453'])
+    ).toEqual({ kind: 'run', json: true, repair: true, chainId: 8453 })
+  })
+
+  it('rejects a non-numeric chain', () => {
+    expect(parseAuditCliArgs(['--chain', 'base'])).toMatchObject({
+      kind: 'error',
+      exitCode: 2,
+    })
+  })
+})
@@ -1,21 +1,29 @@
 import { parseEventLogs } from 'viem'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
-vi.mock('../config/chain', () => ({
-  publicClient: {
+vi.mock('../config/chain', () => {
+  const publicClient = {
     getTransactionReceipt: vi.fn(),
     getTransactionConfirmations: vi.fn(),
-  },
-  MARKETPLACE_ABI: [],
-  MARKETPLACE_ADDRESS: '0xmarketplace',
-  CONFIRMATIONS_REQUIRED: 2, // ✅ IMPORTANT
-}))
+  }
+
+  return {
+    publicClient,
+    wsClient: null,
+    RPC_URLS: ['https://rpc.test'],
+    MARKETPLACE_ABI: [],
+    MARKETPLACE_ADDRESS: '0xmarketplace',
+    CONFIRMATIONS_REQUIRED: 2, // ✅ IMPORTANT
+    INDEXER_START_BLOCK: null,
+  }
+})
 
 vi.mock('viem', () => ({
   parseEventLogs: vi.fn(),
 }))
 
 import { publicClient } from '../config/chain'
+import { RpcQuorumError } from '../config/rpc'
 import { verifyListingCreation } from '../services/listingVerification'
 
 const VALID_INPUT = {
@@ -57,6 +65,16 @@ describe('verifyListingCreation', () => {
     })
   })
 
+  it('throws RPC_QUORUM_FAILED if providers disagree on the receipt', async () => {
+    vi.mocked(publicClient.getTransactionReceipt).mockRejectedValueOnce(
+      new RpcQuorumError('RPC providers did not agree')
+    )
+
+    await expect(verifyListingCreation(VALID_INPUT)).rejects.toMatchObject({
+      code: 'RPC_QUORUM_FAILED',
+    })
+  })
+
   it('throws TX_NOT_FOUND if receipt missing', async () => {
     vi.mocked(publicClient.getTransactionReceipt).mockResolvedValue(null)
 
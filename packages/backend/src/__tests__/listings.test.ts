@@ -11,6 +11,7 @@ import {
 } from 'vitest'
 
 import app from '../index'
+import { httpRequestsTotal } from '../services/metrics'
 
 process.env.NODE_ENV = 'test'
 
@@ -19,6 +20,9 @@ const mocks = vi.hoisted(() => ({
   listingGroupBy: vi.fn(),
   listingFindUnique: vi.fn(),
   listingCreate: vi.fn(),
+  listingUpdate: vi.fn(),
+  listingRevisionCreate: vi.fn(),
+  nonceUpdateMany: vi.fn(),
 }))
 
 vi.mock('@/services/listingVerification', () => ({
@@ -48,7 +52,11 @@ vi.mock('../config/db.js', () => {
       groupBy: mocks.listingGroupBy,
       findUnique: mocks.listingFindUnique,
       create: mocks.listingCreate,
+      update: mocks.listingUpdate,
     },
+    listingRevision: { create: mocks.listingRevisionCreate },
+    authNonce: { updateMany: mocks.nonceUpdateMany, findUnique: vi.fn() },
+    $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(prisma)),
   }
 
   return {
@@ -64,6 +72,7 @@ const mockListingFindMany = mocks.listingFindMany
 const mockListingGroupBy = mocks.listingGroupBy
 const mockListingFindUnique = mocks.listingFindUnique
 const mockListingCreate = mocks.listingCreate
+const mockListingUpdate = mocks.listingUpdate
 
 const VALID_CID = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi'
 const VALID_ENVELOPE_CID =
@@ -73,6 +82,7 @@ const VALID_SIGNATURE = '0x' + 'b'.repeat(130)
 const VALID_TX_HASH = '0x' + 'c'.repeat(64)
 
 const SELLER_ADDRESS = '0x' + 'A'.repeat(40)
+const NONCE = 'abcdef1234567890'
 
 const LISTING_ID = 'cklbqxp9c0000s0p7m0lhw1q3'
 
@@ -107,15 +117,17 @@ const basePayload = {
 
 function buildAuthHeader(address: string, timestamp?: number): string {
   const ts = timestamp ?? Math.floor(Date.now() / 1000)
-  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+  return `Signature ${address}:${ts}:${NONCE}:${VALID_SIGNATURE}`
 }
 
 beforeEach(() => {
   vi.clearAllMocks()
+  mocks.nonceUpdateMany.mockResolvedValue({ count: 1 })
   mockListingFindMany.mockResolvedValue([])
   mockListingGroupBy.mockResolvedValue([])
   mockListingFindUnique.mockResolvedValue(null)
   mockListingCreate.mockResolvedValue({ id: LISTING_ID })
+  mockListingUpdate.mockResolvedValue({ id: LISTING_ID })
   mockVerifyMessage.mockResolvedValue(true)
 })
 
@@ -144,6 +156,162 @@ describe('GET /api/listings', () => {
     expect(res.body.listings[0].salesCount).toBe(3)
     expect(res.body.listings[0].priceUsdc).toBe('10')
   })
+
+  it('filters by chainId', async () => {
+    const res = await request(app).get('/api/listings?chainId=8453')
+
+    expect(res.status).toBe(200)
+    expect(mockListingFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ chainId: 8453 }),
+      })
+    )
+  })
+
+  it('leaves out listings hidden by an admin', async () => {
+    await request(app).get('/api/listings')
+
+    expect(mockListingFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ active: true, hiddenAt: null }),
+      })
+    )
+  })
+
+  it('leaves placeholders still waiting on seller metadata out of the catalog and category counts', async () => {
+    await request(app).get('/api/listings?category=IoT')
+
+    expect(mockListingFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ metadataPending: false }),
+      })
+    )
+    expect(mockListingGroupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ metadataPending: false }),
+      })
+    )
+  })
+})
+
+describe('GET /api/listings/:id', () => {
+  const detailListing = {
+    ...baseListingSummary,
+    onchainId: 123,
+    envelopeCid: VALID_ENVELOPE_CID,
+    envelopeHash: VALID_BYTES32,
+    active: false,
+    origFilename: null,
+    contentType: null,
+    metadataPending: false,
+    updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+    purchases: [],
+    revisions: [],
+  }
+
+  it('exposes deactivation history', async () => {
+    mockListingFindUnique.mockResolvedValue({
+      ...detailListing,
+      deactivations: [
+        {
+          callerAddress: SELLER_ADDRESS.toLowerCase(),
+          txHash: VALID_TX_HASH,
+          blockNumber: 120,
+          deactivatedAt: new Date('2024-01-03T00:00:00.000Z'),
+        },
+      ],
+    })
+
+    const res = await request(app).get(`/api/listings/${LISTING_ID}`)
+
+    expect(res.status).toBe(200)
+    expect(res.body.listing.active).toBe(false)
+    expect(res.body.listing.deactivations).toEqual([
+      {
+        callerAddress: SELLER_ADDRESS.toLowerCase(),
+        bySeller: true,
+        txHash: VALID_TX_HASH,
+        blockNumber: 120,
+        deactivatedAt: '2024-01-03T00:00:00.000Z',
+      },
+    ])
+  })
+
+  it('shows a hidden listing only to its seller and buyers', async () => {
+    const buyer = '0x' + 'e'.repeat(40)
+    mockListingFindUnique.mockResolvedValue({
+      ...detailListing,
+      deactivations: [],
+      hiddenAt: new Date(),
+      hiddenReason: 'Spam',
+      purchases: [{ buyerAddress: buyer, amountUsdc: '10000000' }],
+    })
+
+    await request(app).get(`/api/listings/${LISTING_ID}`).expect(404)
+
+    await request(app)
+      .get(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(buyer))
+      .expect(200)
+
+    const res = await request(app)
+      .get(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .expect(200)
+    expect(res.body.listing).toMatchObject({
+      hidden: true,
+      hiddenReason: 'Spam',
+    })
+  })
+
+  it('exposes metadata revision history', async () => {
+    mockListingFindUnique.mockResolvedValue({
+      ...detailListing,
+      deactivations: [],
+      revisions: [
+        {
+          id: 'rev-1',
+          editorAddress: SELLER_ADDRESS.toLowerCase(),
+          changes: { title: { from: 'Old Title', to: 'Test Listing' } },
+          createdAt: new Date('2024-01-04T00:00:00.000Z'),
+        },
+      ],
+    })
+
+    const res = await request(app).get(`/api/listings/${LISTING_ID}`)
+
+    expect(res.status).toBe(200)
+    expect(res.body.listing.revisions).toEqual([
+      {
+        id: 'rev-1',
+        editorAddress: SELLER_ADDRESS.toLowerCase(),
+        changes: { title: { from: 'Old Title', to: 'Test Listing' } },
+        createdAt: '2024-01-04T00:00:00.000Z',
+      },
+    ])
+    expect(mockListingFindUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        include: expect.objectContaining({
+          revisions: { orderBy: { createdAt: 'desc' }, take: 50 },
+        }),
+      })
+    )
+  })
+
+  it('returns 404 for unknown listing', async () => {
+    const res = await request(app).get(`/api/listings/${LISTING_ID}`)
+
+    expect(res.status).toBe(404)
+  })
+
+  it('labels request metrics with the route pattern, not the id', async () => {
+    const labels = { method: 'GET', route: '/api/listings/:id', status: 404 }
+    const before = httpRequestsTotal.get(labels)
+
+    await request(app).get(`/api/listings/${LISTING_ID}`)
+
+    expect(httpRequestsTotal.get(labels)).toBe(before + 1)
+  })
 })
 
 describe('POST /api/listings', () => {
@@ -166,6 +334,33 @@ describe('POST /api/listings', () => {
 
     expect(res.status).toBe(201)
     expect(res.body.data.id).toBe(LISTING_ID)
+    expect(mockListingFindUnique).toHaveBeenCalledWith({
+      where: {
+        chainId_contractAddress_onchainId: {
+          chainId: 84532,
+          contractAddress: '0xce383bfdf637772a9c56eea033b7eb9129a19999',
+          onchainId: 123,
+        },
+      },
+    })
+    expect(mockListingCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        chainId: 84532,
+        contractAddress: '0xce383bfdf637772a9c56eea033b7eb9129a19999',
+        blockNumber: 100,
+      }),
+    })
+  })
+
+  it('rejects a chain without a marketplace deployment', async () => {
+    const res = await request(app)
+      .post('/api/listings')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ ...basePayload, chainId: 1 })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('UNSUPPORTED_CHAIN')
+    expect(mockListingCreate).not.toHaveBeenCalled()
   })
 
   it('rejects missing auth header', async () => {
@@ -201,6 +396,57 @@ describe('POST /api/listings', () => {
     expect(res.status).toBe(409)
   })
 
+  it('fills in metadata for a listing indexed from chain', async () => {
+    mockListingFindUnique.mockResolvedValue({
+      id: LISTING_ID,
+      onchainId: 123,
+      metadataPending: true,
+    })
+    mockListingUpdate.mockResolvedValue({
+      id: LISTING_ID,
+      onchainId: 123,
+      sellerAddress: SELLER_ADDRESS.toLowerCase(),
+      title: basePayload.title,
+      description: basePayload.description,
+      category: basePayload.category,
+      priceUsdc: makeDecimal('10000000'),
+      createdAt: new Date(),
+    })
+
+    const res = await request(app)
+      .post('/api/listings')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send(basePayload)
+
+    expect(res.status).toBe(201)
+    expect(mockListingCreate).not.toHaveBeenCalled()
+    expect(mockListingUpdate).toHaveBeenCalledWith({
+      where: { id: LISTING_ID },
+      data: expect.objectContaining({
+        title: basePayload.title,
+        description: basePayload.description,
+        category: basePayload.category,
+        metadataPending: false,
+      }),
+    })
+  })
+
+  it('returns 409 when listing metadata was already submitted', async () => {
+    mockListingFindUnique.mockResolvedValue({
+      id: LISTING_ID,
+      onchainId: 123,
+      metadataPending: false,
+    })
+
+    const res = await request(app)
+      .post('/api/listings')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send(basePayload)
+
+    expect(res.status).toBe(409)
+    expect(mockListingUpdate).not.toHaveBeenCalled()
+  })
+
   it.each([
     ['invalid txHash', { ...basePayload, txHash: '0x123' }],
     ['invalid dataCid', { ...basePayload, dataCid: 'bad-cid' }],
@@ -231,3 +477,160 @@ describe('POST /api/listings', () => {
     expect(res.body.error).toBe('SELLER_MISMATCH')
   })
 })
+
+describe('PATCH /api/listings/:id', () => {
+  const storedListing = {
+    id: LISTING_ID,
+    sellerAddress: SELLER_ADDRESS.toLowerCase(),
+    metadataPending: false,
+    title: 'Test Listing',
+    description: 'A valid listing description for tests.',
+    category: 'AI/ML',
+    updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+  }
+
+  beforeEach(() => {
+    mockListingFindUnique.mockResolvedValue(storedListing)
+    mockListingUpdate.mockImplementation(async ({ data }) => ({
+      ...storedListing,
+      ...data,
+      updatedAt: new Date('2024-01-05T00:00:00.000Z'),
+    }))
+    mocks.listingRevisionCreate.mockImplementation(async ({ data }) => ({
+      id: 'rev-1',
+      editorAddress: data.editorAddress,
+      changes: data.changes,
+      createdAt: new Date('2024-01-05T00:00:00.000Z'),
+    }))
+  })
+
+  it('updates changed fields and records a revision', async () => {
+    const res = await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ title: 'Fixed Title', category: 'AI/ML' })
+
+    expect(res.status).toBe(200)
+    expect(res.body.listing.title).toBe('Fixed Title')
+    expect(mockListingUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: LISTING_ID },
+        data: { title: 'Fixed Title' },
+      })
+    )
+    expect(mocks.listingRevisionCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          listingId: LISTING_ID,
+          editorAddress: SELLER_ADDRESS.toLowerCase(),
+          changes: { title: { from: 'Test Listing', to: 'Fixed Title' } },
+        },
+      })
+    )
+    expect(res.body.revision).toMatchObject({
+      id: 'rev-1',
+      changes: { title: { from: 'Test Listing', to: 'Fixed Title' } },
+    })
+  })
+
+  it('requires a signature over the edit message', async () => {
+    await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ title: 'Fixed Title' })
+
+    expect(mockVerifyMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringMatching(
+          /^Edit listing on Data Marketplace\nNonce: /
+        ),
+      })
+    )
+  })
+
+  it('rejects a header signed for listing creation', async () => {
+    // Only a creation signature verifies, as if captured from POST
+    mockVerifyMessage.mockImplementation(async ({ message }) =>
+      String(message).startsWith('Create listing on Data Marketplace')
+    )
+
+    const res = await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ title: 'Fixed Title' })
+
+    expect(res.status).toBe(401)
+    expect(mockListingUpdate).not.toHaveBeenCalled()
+  })
+
+  it('does not record a revision when nothing changes', async () => {
+    const res = await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ title: 'Test Listing' })
+
+    expect(res.status).toBe(200)
+    expect(res.body.revision).toBeNull()
+    expect(mockListingUpdate).not.toHaveBeenCalled()
+    expect(mocks.listingRevisionCreate).not.toHaveBeenCalled()
+  })
+
+  it('rejects edits from other wallets', async () => {
+    const res = await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader('0x' + 'B'.repeat(40)))
+      .send({ title: 'Fixed Title' })
+
+    expect(res.status).toBe(403)
+    expect(res.body.error).toBe('NOT_SELLER')
+    expect(mockListingUpdate).not.toHaveBeenCalled()
+  })
+
+  it('returns 404 for unknown listing', async () => {
+    mockListingFindUnique.mockResolvedValue(null)
+
+    const res = await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ title: 'Fixed Title' })
+
+    expect(res.status).toBe(404)
+  })
+
+  it('rejects edits before the metadata has been submitted', async () => {
+    mockListingFindUnique.mockResolvedValue({
+      ...storedListing,
+      metadataPending: true,
+    })
+
+    const res = await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ title: 'Fixed Title' })
+
+    expect(res.status).toBe(409)
+    expect(res.body.error).toBe('METADATA_PENDING')
+  })
+
+  it.each([
+    ['an empty body', {}],
+    ['a short title', { title: 'aa' }],
+    ['an on-chain field', { title: 'Fixed Title', priceUsdc: '1' }],
+  ])('rejects %s', async (_label, payload) => {
+    const res = await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send(payload)
+
+    expect(res.status).toBe(400)
+    expect(mockListingFindUnique).not.toHaveBeenCalled()
+  })
+
+  it('rejects missing auth header', async () => {
+    const res = await request(app)
+      .patch(`/api/listings/${LISTING_ID}`)
+      .send({ title: 'Fixed Title' })
+
+    expect(res.status).toBe(401)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Subscription tests against a local anvil node.
+ *
+ * Run with:
+ *   anvil --block-time 1
+ *   ANVIL_WS_URL=ws://127.0.0.1:8545 pnpm test logSubscription.anvil
+ */
+
+import { EventEmitter } from 'node:events'
+
+import { createTestClient, webSocket } from 'viem'
+import { foundry } from 'viem/chains'
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+
+import type * as LogSubscription from '../services/logSubscription.js'
+
+const ANVIL_WS_URL = process.env['ANVIL_WS_URL']
+const skipTests = !ANVIL_WS_URL
+
+describe.skipIf(skipTests)('log subscription against anvil', () => {
+  let subscription: typeof LogSubscription
+
+  beforeAll(async () => {
+    process.env['BASE_SEPOLIA_WS_URL'] = ANVIL_WS_URL
+    vi.resetModules()
+    subscription = await import('../services/logSubscription.js')
+  })
+
+  afterAll(() => {
+    subscription?.stopLogSubscription()
+    delete process.env['BASE_SEPOLIA_WS_URL']
+  })
+
+  it('connects and receives new heads over the socket', async () => {
+    const heads = new EventEmitter()
+    const onConnected = vi.fn()
+
+    subscription.startLogSubscription({
+      events: [],
+      onLogs: vi.fn(),
+      onBlockNumber: (blockNumber) => heads.emit('head', blockNumber),
+      onConnected,
+      onDisconnected: vi.fn(),
+    })
+
+    const testClient = createTestClient({
+      chain: foundry,
+      mode: 'anvil',
+      transport: webSocket(ANVIL_WS_URL),
+    })
+
+    const received = new Promise<bigint>((resolve) =>
+      heads.once('head', resolve)
+    )
+    await testClient.mine({ blocks: 1 })
+
+    expect(typeof (await received)).toBe('bigint')
+    expect(onConnected).toHaveBeenCalled()
+    expect(subscription.getLogSubscriptionStatus()).toBe('connected')
+  })
+})
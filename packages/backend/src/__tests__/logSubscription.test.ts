@@ -0,0 +1,146 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+import { getDefaultDeployment } from '../config/deployments.js'
+import {
+  getLogSubscriptionStatus,
+  startLogSubscription,
+  stopLogSubscription,
+} from '../services/logSubscription.js'
+
+vi.mock('../config/deployments.js', () => {
+  const deployment = {
+    chainId: 84532,
+    marketplaceAddress: '0xmarketplace',
+    wsClient: {
+      watchEvent: vi.fn(),
+      watchBlockNumber: vi.fn(),
+    },
+  }
+  return { getDefaultDeployment: () => deployment }
+})
+
+const { wsClient } = getDefaultDeployment() as any
+const mockWatchEvent = wsClient.watchEvent as ReturnType<typeof vi.fn>
+const mockWatchBlockNumber = wsClient.watchBlockNumber as ReturnType<
+  typeof vi.fn
+>
+
+const unwatchEvent = vi.fn()
+const unwatchBlocks = vi.fn()
+
+function makeOptions() {
+  return {
+    events: [{ type: 'event', name: 'PurchaseCompleted' }],
+    onLogs: vi.fn(),
+    onBlockNumber: vi.fn(),
+    onConnected: vi.fn(),
+    onDisconnected: vi.fn(),
+  }
+}
+
+function lastWatchArgs(mock: ReturnType<typeof vi.fn>) {
+  return mock.mock.calls[mock.mock.calls.length - 1]![0]
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.useFakeTimers()
+  mockWatchEvent.mockReturnValue(unwatchEvent)
+  mockWatchBlockNumber.mockReturnValue(unwatchBlocks)
+})
+
+afterEach(() => {
+  stopLogSubscription()
+  vi.useRealTimers()
+})
+
+describe('startLogSubscription', () => {
+  it('watches marketplace logs and new heads', () => {
+    const options = makeOptions()
+
+    expect(startLogSubscription(options)).toBe(true)
+
+    expect(mockWatchEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: '0xmarketplace',
+        events: options.events,
+      })
+    )
+    expect(mockWatchBlockNumber).toHaveBeenCalledWith(
+      expect.objectContaining({ emitMissed: true })
+    )
+    expect(getLogSubscriptionStatus()).toBe('connecting')
+  })
+
+  it('reports connected on the first head and forwards logs and heads', () => {
+    const options = makeOptions()
+    startLogSubscription(options)
+
+    lastWatchArgs(mockWatchBlockNumber).onBlockNumber(100n)
+    lastWatchArgs(mockWatchBlockNumber).onBlockNumber(101n)
+    lastWatchArgs(mockWatchEvent).onLogs([{ logIndex: 0 }])
+
+    expect(getLogSubscriptionStatus()).toBe('connected')
+    expect(options.onConnected).toHaveBeenCalledTimes(1)
+    expect(options.onBlockNumber).toHaveBeenCalledWith(101n)
+    expect(options.onLogs).toHaveBeenCalledWith([{ logIndex: 0 }])
+  })
+
+  it('notifies once and resubscribes with backoff when the socket drops', () => {
+    const options = makeOptions()
+    startLogSubscription(options)
+    lastWatchArgs(mockWatchBlockNumber).onBlockNumber(100n)
+
+    const error = new Error('socket closed')
+    lastWatchArgs(mockWatchEvent).onError(error)
+    lastWatchArgs(mockWatchBlockNumber).onError(error)
+
+    expect(options.onDisconnected).toHaveBeenCalledTimes(1)
+    expect(options.onDisconnected).toHaveBeenCalledWith(error)
+    expect(unwatchEvent).toHaveBeenCalled()
+    expect(unwatchBlocks).toHaveBeenCalled()
+    expect(getLogSubscriptionStatus()).toBe('connecting')
+
+    vi.advanceTimersByTime(2_000)
+
+    expect(mockWatchEvent).toHaveBeenCalledTimes(2)
+    expect(mockWatchBlockNumber).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not report a drop before the socket ever connected', () => {
+    const options = makeOptions()
+    startLogSubscription(options)
+
+    lastWatchArgs(mockWatchEvent).onError(new Error('connection refused'))
+
+    expect(options.onDisconnected).not.toHaveBeenCalled()
+  })
+
+  it('stops resubscribing once stopped', () => {
+    startLogSubscription(makeOptions())
+    lastWatchArgs(mockWatchEvent).onError(new Error('socket closed'))
+
+    stopLogSubscription()
+    vi.advanceTimersByTime(60_000)
+
+    expect(mockWatchEvent).toHaveBeenCalledTimes(1)
+    expect(getLogSubscriptionStatus()).toBe('disabled')
+  })
+
+  it('keeps one subscription per deployment', () => {
+    const other = { ...getDefaultDeployment(), chainId: 8453 } as any
+    startLogSubscription(makeOptions())
+    startLogSubscription(makeOptions(), other)
+
+    lastWatchArgs(mockWatchBlockNumber).onBlockNumber(100n)
+
+    expect(getLogSubscriptionStatus(other)).toBe('connected')
+    expect(getLogSubscriptionStatus()).toBe('connecting')
+
+    stopLogSubscription(other)
+
+    expect(getLogSubscriptionStatus(other)).toBe('disabled')
+    expect(getLogSubscriptionStatus()).toBe('connecting')
+  })
+})
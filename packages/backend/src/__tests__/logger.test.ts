@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+import {
+  addLogContext,
+  logger,
+  runWithLogContext,
+  setLogLevel,
+} from '../lib/logger.js'
+
+function captureStream(stream: NodeJS.WriteStream) {
+  const lines: string[] = []
+  const spy = vi.spyOn(stream, 'write').mockImplementation((chunk) => {
+    lines.push(String(chunk))
+    return true
+  })
+  return {
+    spy,
+    entries: () => lines.map((line) => JSON.parse(line)),
+  }
+}
+
+describe('logger', () => {
+  let stdout: ReturnType<typeof captureStream>
+  let stderr: ReturnType<typeof captureStream>
+
+  beforeEach(() => {
+    setLogLevel('info')
+    stdout = captureStream(process.stdout)
+    stderr = captureStream(process.stderr)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    setLogLevel('silent')
+  })
+
+  it('writes one JSON line per entry with bindings and fields', () => {
+    logger.child({ component: 'listener' }).info('Scanning blocks', {
+      fromBlock: 10n,
+      toBlock: 20n,
+    })
+
+    expect(stdout.entries()).toEqual([
+      {
+        time: expect.any(String),
+        level: 'info',
+        msg: 'Scanning blocks',
+        component: 'listener',
+        fromBlock: '10',
+        toBlock: '20',
+      },
+    ])
+    expect(stdout.spy.mock.calls[0]![0]).toMatch(/\n$/)
+  })
+
+  it('sends warnings and errors to stderr and drops entries below the level', () => {
+    logger.debug('hidden')
+    logger.warn('careful')
+    logger.error('broken', { err: new Error('boom') })
+
+    expect(stdout.entries()).toEqual([])
+    expect(stderr.entries()).toEqual([
+      expect.objectContaining({ level: 'warn', msg: 'careful' }),
+      expect.objectContaining({
+        level: 'error',
+        msg: 'broken',
+        err: expect.objectContaining({
+          name: 'Error',
+          message: 'boom',
+          stack: expect.any(String),
+        }),
+      }),
+    ])
+  })
+
+  it('redacts signatures, public keys and authorization headers', () => {
+    logger.info('Key bound', {
+      purchaseId: 'p1',
+      signature: '0xsig',
+      buyerPublicKey: 'pk',
+      headers: { authorization: 'Signature 0xabc:1:0xsig' },
+    })
+
+    expect(stdout.entries()[0]).toMatchObject({
+      purchaseId: 'p1',
+      signature: '[REDACTED]',
+      buyerPublicKey: '[REDACTED]',
+      headers: { authorization: '[REDACTED]' },
+    })
+  })
+
+  it('adds the surrounding context, including across awaits', async () => {
+    await runWithLogContext({ requestId: 'req-1' }, async () => {
+      addLogContext({ walletAddress: '0xabc' })
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      await runWithLogContext({ jobId: 'job-1' }, async () => {
+        logger.info('inner')
+      })
+      logger.info('outer')
+    })
+    logger.info('outside')
+
+    expect(stdout.entries()).toEqual([
+      expect.objectContaining({
+        msg: 'inner',
+        requestId: 'req-1',
+        walletAddress: '0xabc',
+        jobId: 'job-1',
+      }),
+      expect.not.objectContaining({ jobId: 'job-1' }),
+      expect.not.objectContaining({ requestId: 'req-1' }),
+    ])
+  })
+})
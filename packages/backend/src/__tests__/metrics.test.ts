@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+
+import { Counter, Gauge, Histogram, Registry } from '../lib/metrics.js'
+
+describe('metrics registry', () => {
+  it('renders counters with labels in exposition format', async () => {
+    const registry = new Registry()
+    const counter = registry.register(
+      new Counter('events_total', 'Events seen')
+    )
+
+    counter.inc({ type: 'a' })
+    counter.inc({ type: 'a' }, 2)
+    counter.inc({ type: 'say "hi"\n' })
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP events_total Events seen',
+        '# TYPE events_total counter',
+        'events_total{type="a"} 3',
+        'events_total{type="say \\"hi\\"\\n"} 1',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('treats label order as irrelevant', () => {
+    const counter = new Counter('c', 'c')
+
+    counter.inc({ a: 1, b: 2 })
+    counter.inc({ b: 2, a: 1 })
+
+    expect(counter.get({ a: 1, b: 2 })).toBe(2)
+  })
+
+  it('refreshes collected gauges on every render', async () => {
+    const registry = new Registry()
+    let value = 1
+    registry.register(
+      new Gauge('up', 'Up', (gauge) => {
+        gauge.set({}, value)
+      })
+    )
+
+    expect(await registry.render()).toContain('up 1')
+    value = 0
+    expect(await registry.render()).toContain('up 0')
+  })
+
+  it('renders cumulative histogram buckets', async () => {
+    const registry = new Registry()
+    const histogram = registry.register(
+      new Histogram('latency_seconds', 'Latency', [0.1, 1])
+    )
+
+    histogram.observe({ route: '/x' }, 0.05)
+    histogram.observe({ route: '/x' }, 0.5)
+    histogram.observe({ route: '/x' }, 5)
+
+    const output = await registry.render()
+    expect(output).toContain('latency_seconds_bucket{route="/x",le="0.1"} 1')
+    expect(output).toContain('latency_seconds_bucket{route="/x",le="1"} 2')
+    expect(output).toContain('latency_seconds_bucket{route="/x",le="+Inf"} 3')
+    expect(output).toContain('latency_seconds_sum{route="/x"} 5.55')
+    expect(output).toContain('latency_seconds_count{route="/x"} 3')
+  })
+
+  it('rejects duplicate metric names', () => {
+    const registry = new Registry()
+    registry.register(new Counter('dup', 'first'))
+
+    expect(() => registry.register(new Counter('dup', 'second'))).toThrow(
+      'already registered'
+    )
+  })
+})
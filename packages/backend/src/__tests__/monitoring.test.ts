@@ -1,6 +1,15 @@
-import { describe, it, expect, vi, type MockedFunction } from 'vitest'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
 
 import prismaDB from '../config/db'
+import { getDeployments } from '../config/deployments'
+import { getCheckpoints } from '../services/checkpoints'
 import { getListenerHealth } from '../services/monitoring'
 
 // --------------------
@@ -14,10 +23,49 @@ vi.mock('../config/db', () => ({
   },
 }))
 
+const deployments = vi.hoisted(() => ({
+  primary: {
+    chainId: 84532,
+    name: 'Base Sepolia',
+    contractAddress: '0xmarketplace',
+    client: { getBlockNumber: vi.fn() },
+  },
+  secondary: {
+    chainId: 8453,
+    name: 'Base',
+    contractAddress: '0xmainnet',
+    client: { getBlockNumber: vi.fn() },
+  },
+}))
+
+vi.mock('../config/deployments', () => ({
+  getDefaultDeployment: vi.fn(() => deployments.primary),
+  getDeployments: vi.fn(() => [deployments.primary]),
+}))
+
+vi.mock('../services/checkpoints', () => ({
+  getCheckpoints: vi.fn(),
+}))
+
+vi.mock('../services/eventListener', () => ({
+  INDEXED_EVENT_TYPES: ['PurchaseCompleted', 'Withdrawal'],
+}))
+
 const mockFindFirst = prismaDB.eventLog.findFirst as MockedFunction<
   typeof prismaDB.eventLog.findFirst
 >
 
+const mockGetCheckpoints = getCheckpoints as MockedFunction<
+  typeof getCheckpoints
+>
+const mockGetBlockNumber = deployments.primary.client.getBlockNumber
+
+beforeEach(() => {
+  vi.mocked(getDeployments).mockReturnValue([deployments.primary] as any)
+  mockGetCheckpoints.mockResolvedValue([])
+  mockGetBlockNumber.mockResolvedValue(500n)
+})
+
 describe('getListenerHealth', () => {
   it('returns stale=true when no events exist', async () => {
     mockFindFirst.mockResolvedValue(null)
@@ -37,4 +85,92 @@ describe('getListenerHealth', () => {
 
     expect(health.stale).toBe(false)
   })
+
+  it('reports lag from the oldest checkpoint to the chain head', async () => {
+    mockFindFirst.mockResolvedValue(null)
+    mockGetCheckpoints.mockResolvedValue([
+      {
+        stream: 'PurchaseCompleted',
+        lastScannedBlock: 480,
+        updatedAt: new Date(),
+      },
+      { stream: 'Withdrawal', lastScannedBlock: 470, updatedAt: new Date() },
+    ])
+
+    const health = await getListenerHealth()
+
+    expect(health.lastScannedBlock).toBe(470)
+    expect(health.chainHead).toBe(500)
+    expect(health.lagBlocks).toBe(30)
+    expect(health.checkpoints).toHaveLength(2)
+    expect(health.subscription).toBe('disabled')
+    expect(health.stale).toBe(false)
+  })
+
+  it('returns stale=true when checkpoints have not advanced recently', async () => {
+    mockFindFirst.mockResolvedValue({
+      blockNumber: 123,
+      createdAt: new Date(),
+    } as any)
+    mockGetCheckpoints.mockResolvedValue([
+      {
+        stream: 'PurchaseCompleted',
+        lastScannedBlock: 480,
+        updatedAt: new Date(Date.now() - 30 * 60 * 1000),
+      },
+    ])
+
+    const health = await getListenerHealth()
+
+    expect(health.stale).toBe(true)
+  })
+
+  it('omits lag when the chain head is unavailable', async () => {
+    mockFindFirst.mockResolvedValue(null)
+    mockGetBlockNumber.mockRejectedValue(new Error('rpc down'))
+    mockGetCheckpoints.mockResolvedValue([
+      {
+        stream: 'PurchaseCompleted',
+        lastScannedBlock: 480,
+        updatedAt: new Date(),
+      },
+    ])
+
+    const health = await getListenerHealth()
+
+    expect(health.lagBlocks).toBeNull()
+  })
+
+  it('reports every deployment and is stale when any of them is', async () => {
+    vi.mocked(getDeployments).mockReturnValue([
+      deployments.primary,
+      deployments.secondary,
+    ] as any)
+    deployments.secondary.client.getBlockNumber.mockResolvedValue(9_000n)
+    mockFindFirst.mockResolvedValue(null)
+    mockGetCheckpoints.mockImplementation(async (_streams, deployment) =>
+      deployment?.chainId === 84532
+        ? [
+            {
+              stream: 'PurchaseCompleted',
+              lastScannedBlock: 480,
+              updatedAt: new Date(),
+            },
+          ]
+        : []
+    )
+
+    const health = await getListenerHealth()
+
+    expect(health.chainId).toBe(84532)
+    expect(health.lagBlocks).toBe(20)
+    expect(health.deployments).toHaveLength(2)
+    expect(health.deployments[1]).toMatchObject({
+      chainId: 8453,
+      chainHead: 9_000,
+      lastScannedBlock: null,
+      stale: true,
+    })
+    expect(health.stale).toBe(true)
+  })
 })
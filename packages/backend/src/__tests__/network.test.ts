@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+
+import { isPrivateAddress, isPrivateHostname } from '../lib/network'
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.20.30.40',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '255.255.255.255',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:10.0.0.1',
+    'not-an-ip',
+  ])('treats %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it.each(['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700::1111'])(
+    'treats %s as public',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false)
+    }
+  )
+})
+
+describe('isPrivateHostname', () => {
+  it('rejects localhost and private IP literals from URLs', () => {
+    expect(isPrivateHostname('localhost')).toBe(true)
+    expect(isPrivateHostname('api.localhost')).toBe(true)
+    expect(isPrivateHostname('LOCALHOST.')).toBe(true)
+    expect(isPrivateHostname(new URL('http://[::1]/').hostname)).toBe(true)
+    expect(isPrivateHostname(new URL('http://2130706433/').hostname)).toBe(true)
+  })
+
+  it('leaves other hostnames to DNS resolution', () => {
+    expect(isPrivateHostname('seller.example')).toBe(false)
+    expect(isPrivateHostname('93.184.216.34')).toBe(false)
+  })
+})
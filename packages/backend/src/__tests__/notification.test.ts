@@ -1,20 +1,257 @@
-import { describe, it, expect, vi } from 'vitest'
+import request from 'supertest'
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
 
-import { notifySeller } from '../services/notification'
+import app from '../index'
+import {
+  addInboxNotification,
+  enqueueSellerNotification,
+} from '../services/notification'
 
-describe('notifySeller', () => {
-  it('logs seller notification', async () => {
-    const spy = vi.spyOn(console, 'log').mockImplementation(() => {})
+process.env.NODE_ENV = 'test'
 
-    await notifySeller({
-      seller: '0xSeller',
-      purchaseId: 'purchase123',
+const mocks = vi.hoisted(() => ({
+  notificationFindMany: vi.fn(),
+  notificationCount: vi.fn(),
+  notificationUpdateMany: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    notification: {
+      findMany: mocks.notificationFindMany,
+      count: mocks.notificationCount,
+      updateMany: mocks.notificationUpdateMany,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+
+const WALLET_ADDRESS = '0x' + 'B'.repeat(40)
+const WALLET = WALLET_ADDRESS.toLowerCase()
+const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
+const NOTIFICATION_ID = 'cklbqxp9c0000s0p7m0lhw1q7'
+
+function buildAuthHeader(address: string): string {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockVerifyMessage.mockResolvedValue(true)
+  mocks.notificationFindMany.mockResolvedValue([])
+  mocks.notificationCount.mockResolvedValue(0)
+})
+
+describe('enqueueSellerNotification', () => {
+  it('upserts an outbox row keyed by eventKey in the given transaction', async () => {
+    const tx = { notificationOutbox: { upsert: vi.fn() } }
+    const availableAt = new Date('2026-01-02T00:00:00.000Z')
+
+    await enqueueSellerNotification(tx, {
+      eventType: 'withdrawal.available',
+      eventKey: 'withdrawal.available:0xtx:0',
+      sellerAddress: '0xSeller',
+      payload: { listingId: 'listing-1' },
+      availableAt,
+    })
+
+    expect(tx.notificationOutbox.upsert).toHaveBeenCalledWith({
+      where: { eventKey: 'withdrawal.available:0xtx:0' },
+      update: {},
+      create: {
+        eventKey: 'withdrawal.available:0xtx:0',
+        eventType: 'withdrawal.available',
+        sellerAddress: '0xseller',
+        payload: { listingId: 'listing-1' },
+        availableAt,
+      },
+    })
+  })
+
+  it('leaves availableAt to the database default when not delayed', async () => {
+    const tx = { notificationOutbox: { upsert: vi.fn() } }
+
+    await enqueueSellerNotification(tx, {
+      eventType: 'purchase.completed',
+      eventKey: 'purchase.completed:p1',
+      sellerAddress: '0xseller',
+      payload: { purchaseId: 'p1' },
+    })
+
+    expect(
+      tx.notificationOutbox.upsert.mock.calls[0]![0].create
+    ).not.toHaveProperty('availableAt')
+  })
+})
+
+describe('addInboxNotification', () => {
+  it('skips an entry the wallet already has for the same event', async () => {
+    const tx = { notification: { createMany: vi.fn() } }
+
+    await addInboxNotification(tx, {
+      type: 'purchase.key_delivered',
+      eventKey: 'purchase.key_delivered:p1',
+      recipientAddress: '0xBuyer',
+      message: 'Your key for "Weather" was delivered',
+      purchaseId: 'p1',
+    })
+
+    expect(tx.notification.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          type: 'purchase.key_delivered',
+          eventKey: 'purchase.key_delivered:p1',
+          recipientAddress: '0xbuyer',
+          message: 'Your key for "Weather" was delivered',
+          purchaseId: 'p1',
+        },
+      ],
+      skipDuplicates: true,
     })
+  })
+})
+
+describe('GET /api/notifications', () => {
+  it("returns the wallet's notifications with the unread count", async () => {
+    const createdAt = new Date('2026-01-01T00:00:00.000Z')
+    mocks.notificationFindMany.mockResolvedValue([
+      {
+        id: NOTIFICATION_ID,
+        type: 'purchase.completed',
+        message: 'New purchase of "Weather"',
+        listingId: 'listing-1',
+        purchaseId: 'purchase-1',
+        readAt: null,
+        createdAt,
+      },
+    ])
+    mocks.notificationCount.mockResolvedValue(3)
+
+    const res = await request(app)
+      .get('/api/notifications?limit=1&unread=true')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
 
-    expect(spy).toHaveBeenCalledWith(
-      'Seller 0xSeller notified for purchase purchase123'
+    expect(res.status).toBe(200)
+    expect(res.headers['cache-control']).toBe('no-store')
+    expect(res.body).toEqual({
+      notifications: [
+        {
+          id: NOTIFICATION_ID,
+          type: 'purchase.completed',
+          message: 'New purchase of "Weather"',
+          listingId: 'listing-1',
+          purchaseId: 'purchase-1',
+          readAt: null,
+          createdAt: createdAt.toISOString(),
+        },
+      ],
+      unreadCount: 3,
+      nextCursor: null,
+    })
+    expect(mocks.notificationFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { recipientAddress: WALLET, readAt: null },
+        orderBy: { id: 'desc' },
+        take: 2,
+      })
     )
+    expect(mocks.notificationCount).toHaveBeenCalledWith({
+      where: { recipientAddress: WALLET, readAt: null },
+    })
+  })
+
+  it('returns a cursor when there are more notifications', async () => {
+    mocks.notificationFindMany.mockResolvedValue([
+      { id: 'c3' },
+      { id: 'c2' },
+      { id: 'c1' },
+    ])
+
+    const res = await request(app)
+      .get('/api/notifications?limit=2')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+
+    expect(res.body.notifications).toHaveLength(2)
+    expect(res.body.nextCursor).toBe('c2')
+  })
+
+  it('requires authentication', async () => {
+    const res = await request(app).get('/api/notifications')
+
+    expect(res.status).toBe(401)
+    expect(mocks.notificationFindMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('POST /api/notifications/read', () => {
+  it("marks only the wallet's own notifications read", async () => {
+    mocks.notificationUpdateMany.mockResolvedValue({ count: 1 })
+    mocks.notificationCount.mockResolvedValue(2)
+
+    const res = await request(app)
+      .post('/api/notifications/read')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ ids: [NOTIFICATION_ID] })
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ updated: 1, unreadCount: 2 })
+    expect(mocks.notificationUpdateMany).toHaveBeenCalledWith({
+      where: {
+        recipientAddress: WALLET,
+        readAt: null,
+        id: { in: [NOTIFICATION_ID] },
+      },
+      data: { readAt: expect.any(Date) },
+    })
+  })
+
+  it('marks everything read when no ids are given', async () => {
+    mocks.notificationUpdateMany.mockResolvedValue({ count: 4 })
+
+    const res = await request(app)
+      .post('/api/notifications/read')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ updated: 4, unreadCount: 0 })
+    expect(mocks.notificationUpdateMany.mock.calls[0]![0].where).toEqual({
+      recipientAddress: WALLET,
+      readAt: null,
+    })
+  })
+
+  it('rejects malformed ids', async () => {
+    const res = await request(app)
+      .post('/api/notifications/read')
+      .set('Authorization', buildAuthHeader(WALLET_ADDRESS))
+      .send({ ids: ['not a cuid'] })
 
-    spy.mockRestore()
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('Validation failed')
   })
 })
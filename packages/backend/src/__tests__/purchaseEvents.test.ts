@@ -0,0 +1,294 @@
+import { get, type IncomingMessage, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+import {
+  countPurchaseEventSubscribers,
+  pollPurchaseEvents,
+  purchaseEventType,
+  subscribePurchaseEvents,
+  type PurchaseEvent,
+} from '../services/purchaseEvents'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  purchaseFindMany: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    purchase: {
+      findMany: mocks.purchaseFindMany,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+
+const BUYER_ADDRESS = '0x' + 'B'.repeat(40)
+const BUYER = BUYER_ADDRESS.toLowerCase()
+const SELLER = '0x' + 'c'.repeat(40)
+const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
+
+// Recent enough to stay inside the poller's overlap window
+const UPDATED_AT = new Date()
+
+function buildAuthHeader(address: string): string {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+}
+
+function purchaseRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'purchase-1',
+    listingId: 'listing-1',
+    txHash: '0x' + '1'.repeat(64),
+    buyerAddress: BUYER_ADDRESS,
+    buyerPublicKey: null,
+    keyDelivered: false,
+    updatedAt: UPDATED_AT,
+    listing: { sellerAddress: SELLER.toUpperCase().replace('0X', '0x') },
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockVerifyMessage.mockResolvedValue(true)
+  mocks.purchaseFindMany.mockResolvedValue([])
+})
+
+describe('purchaseEventType', () => {
+  it('reports the furthest step a purchase reached', () => {
+    expect(
+      purchaseEventType({ buyerPublicKey: null, keyDelivered: false })
+    ).toBe('purchase.indexed')
+    expect(
+      purchaseEventType({ buyerPublicKey: 'pk', keyDelivered: false })
+    ).toBe('purchase.key_bound')
+    expect(
+      purchaseEventType({ buyerPublicKey: 'pk', keyDelivered: true })
+    ).toBe('purchase.key_delivered')
+  })
+})
+
+describe('pollPurchaseEvents', () => {
+  const unsubscribers: Array<() => void> = []
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe())
+  })
+
+  it('sends a changed purchase to both its buyer and seller once', async () => {
+    const buyerEvents: PurchaseEvent[] = []
+    const sellerEvents: PurchaseEvent[] = []
+    unsubscribers.push(
+      subscribePurchaseEvents(BUYER_ADDRESS, (event) =>
+        buyerEvents.push(event)
+      ),
+      subscribePurchaseEvents(SELLER, (event) => sellerEvents.push(event))
+    )
+    mocks.purchaseFindMany.mockResolvedValue([
+      purchaseRow({ buyerPublicKey: 'pk' }),
+    ])
+
+    expect(await pollPurchaseEvents()).toBe(1)
+    // Same version inside the overlap window is not sent again
+    expect(await pollPurchaseEvents()).toBe(0)
+
+    const expected = {
+      type: 'purchase.key_bound',
+      purchaseId: 'purchase-1',
+      listingId: 'listing-1',
+      txHash: '0x' + '1'.repeat(64),
+      buyerAddress: BUYER,
+      sellerAddress: SELLER,
+      keyDelivered: false,
+      updatedAt: UPDATED_AT.toISOString(),
+    }
+    expect(buyerEvents).toEqual([expected])
+    expect(sellerEvents).toEqual([expected])
+
+    const where = mocks.purchaseFindMany.mock.calls[0]![0].where
+    expect(where.OR).toEqual([
+      { buyerAddress: { in: [BUYER, SELLER], mode: 'insensitive' } },
+      {
+        listing: {
+          sellerAddress: { in: [BUYER, SELLER], mode: 'insensitive' },
+        },
+      },
+    ])
+  })
+
+  it('sends a purchase again when it changes', async () => {
+    const events: PurchaseEvent[] = []
+    unsubscribers.push(
+      subscribePurchaseEvents(BUYER, (event) => events.push(event))
+    )
+
+    mocks.purchaseFindMany.mockResolvedValueOnce([purchaseRow()])
+    await pollPurchaseEvents()
+    mocks.purchaseFindMany.mockResolvedValueOnce([
+      purchaseRow({
+        buyerPublicKey: 'pk',
+        keyDelivered: true,
+        updatedAt: new Date(UPDATED_AT.getTime() + 1_000),
+      }),
+    ])
+    await pollPurchaseEvents()
+
+    expect(events.map((event) => event.type)).toEqual([
+      'purchase.indexed',
+      'purchase.key_delivered',
+    ])
+  })
+
+  it('pages through more rows than a batch sharing one updatedAt', async () => {
+    const events: PurchaseEvent[] = []
+    unsubscribers.push(
+      subscribePurchaseEvents(BUYER, (event) => events.push(event))
+    )
+
+    // One transaction touched all of them after the stream started
+    const updatedAt = new Date(Date.now() + 1_000)
+    const rows = Array.from({ length: 450 }, (_, i) =>
+      purchaseRow({ id: `purchase-${String(i).padStart(3, '0')}`, updatedAt })
+    )
+    // Apply the cursor, order and batch size the way the database would
+    mocks.purchaseFindMany.mockImplementation(async ({ where, take }: any) => {
+      const [cursor] = where.AND
+      const after = (row: (typeof rows)[number]) => {
+        if (cursor.updatedAt) return row.updatedAt >= cursor.updatedAt.gte
+        const [newer, sameTime] = cursor.OR
+        return (
+          row.updatedAt > newer.updatedAt.gt ||
+          (row.updatedAt.getTime() === sameTime.updatedAt.getTime() &&
+            row.id > sameTime.id.gt)
+        )
+      }
+      return rows.filter(after).slice(0, take)
+    })
+
+    expect(await pollPurchaseEvents()).toBe(200)
+    expect(await pollPurchaseEvents()).toBe(200)
+    expect(await pollPurchaseEvents()).toBe(50)
+    expect(await pollPurchaseEvents()).toBe(0)
+
+    expect(new Set(events.map((event) => event.purchaseId)).size).toBe(450)
+    expect(mocks.purchaseFindMany.mock.calls[0]![0].orderBy).toEqual([
+      { updatedAt: 'asc' },
+      { id: 'asc' },
+    ])
+  })
+
+  it('stops querying once every subscriber has left', async () => {
+    const unsubscribe = subscribePurchaseEvents(BUYER, () => {})
+    expect(countPurchaseEventSubscribers()).toBe(1)
+
+    unsubscribe()
+
+    expect(countPurchaseEventSubscribers()).toBe(0)
+    expect(await pollPurchaseEvents()).toBe(0)
+    expect(mocks.purchaseFindMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('GET /api/events', () => {
+  let server: Server
+  let baseUrl: string
+
+  beforeEach(async () => {
+    server = app.listen(0, '127.0.0.1')
+    await new Promise((resolve) => server.once('listening', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  function open(headers: Record<string, string>): Promise<IncomingMessage> {
+    return new Promise((resolve, reject) => {
+      get(`${baseUrl}/api/events`, { headers }, resolve).on('error', reject)
+    })
+  }
+
+  /** Read from the stream until `text` shows up */
+  function readUntil(res: IncomingMessage, text: string): Promise<string> {
+    let body = ''
+    return new Promise((resolve) => {
+      const onData = (chunk: Buffer) => {
+        body += chunk.toString()
+        if (body.includes(text)) {
+          res.off('data', onData)
+          resolve(body)
+        }
+      }
+      res.on('data', onData)
+    })
+  }
+
+  it('streams purchase events for the authenticated wallet', async () => {
+    const res = await open({ Authorization: buildAuthHeader(BUYER_ADDRESS) })
+
+    expect(res.statusCode).toBe(200)
+    expect(res.headers['content-type']).toContain('text/event-stream')
+    expect(res.headers['cache-control']).toBe('no-store')
+
+    const ready = await readUntil(res, 'event: ready')
+    expect(ready).toContain('retry: 3000')
+    expect(countPurchaseEventSubscribers()).toBe(1)
+
+    mocks.purchaseFindMany.mockResolvedValue([purchaseRow()])
+    const streamed = readUntil(res, 'event: purchase.indexed')
+    await pollPurchaseEvents()
+
+    const body = await streamed
+    const data = body
+      .split('event: purchase.indexed\ndata: ')[1]!
+      .split('\n')[0]!
+    expect(JSON.parse(data)).toMatchObject({
+      purchaseId: 'purchase-1',
+      buyerAddress: BUYER,
+    })
+
+    res.destroy()
+    await vi.waitFor(() => expect(countPurchaseEventSubscribers()).toBe(0))
+  })
+
+  it('requires authentication', async () => {
+    const res = await open({})
+    res.resume()
+
+    expect(res.statusCode).toBe(401)
+    expect(countPurchaseEventSubscribers()).toBe(0)
+  })
+})
@@ -17,6 +17,10 @@ const mocks = vi.hoisted(() => ({
   purchaseFindMany: vi.fn(),
   purchaseFindUnique: vi.fn(),
   purchaseUpdate: vi.fn(),
+  outboxUpsert: vi.fn(),
+  inboxCreateMany: vi.fn(),
+  nonceUpdateMany: vi.fn(),
+  nonceFindUnique: vi.fn(),
 }))
 
 vi.mock('viem', async (importOriginal) => {
@@ -27,6 +31,15 @@ vi.mock('viem', async (importOriginal) => {
   }
 })
 
+vi.mock('viem/actions', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    // Test wallets are EOAs: no contract code to check signatures against
+    getCode: vi.fn().mockResolvedValue(undefined),
+  }
+})
+
 vi.mock('../config/db.js', () => {
   const prisma = {
     purchase: {
@@ -34,6 +47,13 @@ vi.mock('../config/db.js', () => {
       findUnique: mocks.purchaseFindUnique,
       update: mocks.purchaseUpdate,
     },
+    notificationOutbox: { upsert: mocks.outboxUpsert },
+    notification: { createMany: mocks.inboxCreateMany },
+    authNonce: {
+      updateMany: mocks.nonceUpdateMany,
+      findUnique: mocks.nonceFindUnique,
+    },
+    $transaction: vi.fn((fn: any) => fn(prisma)),
   }
 
   return {
@@ -67,6 +87,7 @@ const LISTING_ID = 'cklbqxp9c0000s0p7m0lhw1q6'
 
 const PUBLIC_KEY = '{"kty":"RSA","n":"abc","e":"AQAB"}'
 const PUBLIC_KEY_SIGNATURE = '0x' + 'd'.repeat(130)
+const NONCE = 'abcdef1234567890'
 
 const makeDecimal = (value: string) => ({
   toString: () => value,
@@ -113,12 +134,19 @@ function buildAuthHeader(address: string, timestamp?: number): string {
   return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
 }
 
+function buildSingleUseAuthHeader(address: string): string {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${NONCE}:${VALID_SIGNATURE}`
+}
+
 beforeEach(() => {
   vi.clearAllMocks()
   mockPurchaseFindMany.mockResolvedValue([])
   mockPurchaseFindUnique.mockResolvedValue(null)
   mockPurchaseUpdate.mockResolvedValue({})
   mockVerifyMessage.mockResolvedValue(true)
+  mocks.nonceUpdateMany.mockResolvedValue({ count: 1 })
+  mocks.nonceFindUnique.mockResolvedValue(null)
 })
 
 describe('purchases API', () => {
@@ -255,8 +283,13 @@ describe('purchases API', () => {
     it('binds public key for valid buyer with ms timestamp', async () => {
       mockPurchaseFindUnique.mockResolvedValue({
         id: PURCHASE_ID,
+        listingId: LISTING_ID,
         buyerAddress: BUYER_ADDRESS.toLowerCase(),
         buyerPublicKey: null,
+        listing: {
+          sellerAddress: SELLER_ADDRESS.toLowerCase(),
+          title: 'Dataset Title',
+        },
       })
 
       mockVerifyMessage.mockResolvedValueOnce(true)
@@ -269,6 +302,7 @@ describe('purchases API', () => {
           publicKey: PUBLIC_KEY,
           signature: PUBLIC_KEY_SIGNATURE,
           timestamp: bindTimestamp,
+          nonce: NONCE,
         })
 
       const updateArgs = mockPurchaseUpdate.mock.calls[0]?.[0]
@@ -282,12 +316,100 @@ describe('purchases API', () => {
       expect(updateArgs.data.buyerPublicKey).toBe(PUBLIC_KEY)
       expect(updateArgs.data.publicKeySignature).toBe(PUBLIC_KEY_SIGNATURE)
 
+      // The seller is told in the same transaction
+      expect(mocks.outboxUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { eventKey: `purchase.key_bound:${PURCHASE_ID}` },
+          create: expect.objectContaining({
+            eventType: 'purchase.key_bound',
+            sellerAddress: SELLER_ADDRESS.toLowerCase(),
+            payload: {
+              purchaseId: PURCHASE_ID,
+              listingId: LISTING_ID,
+              buyer: BUYER_ADDRESS.toLowerCase(),
+            },
+          }),
+        })
+      )
+      expect(mocks.inboxCreateMany).toHaveBeenCalledWith({
+        data: [
+          {
+            type: 'purchase.key_bound',
+            eventKey: `purchase.key_bound:${PURCHASE_ID}`,
+            recipientAddress: SELLER_ADDRESS.toLowerCase(),
+            message: 'A buyer is waiting for the key to "Dataset Title"',
+            listingId: LISTING_ID,
+            purchaseId: PURCHASE_ID,
+          },
+        ],
+        skipDuplicates: true,
+      })
+
       // signature verification message assertions
       expect(bindCall.message).toContain(
         `I am the buyer of purchase ${PURCHASE_ID}`
       )
       expect(bindCall.message).toContain(PUBLIC_KEY)
+      expect(bindCall.message).toContain(`Nonce: ${NONCE}`)
       expect(bindCall.message).toContain(`Timestamp: ${bindTimestamp}`)
+
+      // The nonce is consumed so the signature cannot be replayed
+      expect(mocks.nonceUpdateMany).toHaveBeenCalledWith({
+        where: {
+          nonce: NONCE,
+          usedAt: null,
+          expiresAt: { gt: expect.any(Date) },
+        },
+        data: { usedAt: expect.any(Date) },
+      })
+    })
+
+    it('rejects a replayed bind-key signature', async () => {
+      mockPurchaseFindUnique.mockResolvedValue({
+        id: PURCHASE_ID,
+        buyerAddress: BUYER_ADDRESS.toLowerCase(),
+        buyerPublicKey: null,
+      })
+      mocks.nonceUpdateMany.mockResolvedValue({ count: 0 })
+      mocks.nonceFindUnique.mockResolvedValue({ usedAt: new Date() })
+
+      const res = await request(app)
+        .post(`/api/purchases/${PURCHASE_ID}/bind-key`)
+        .send({
+          publicKey: PUBLIC_KEY,
+          signature: PUBLIC_KEY_SIGNATURE,
+          timestamp: Date.now(),
+          nonce: NONCE,
+        })
+
+      expect(res.status).toBe(409)
+      expect(res.body).toEqual({
+        error: 'Signature already used',
+        code: 'SIGNATURE_REPLAYED',
+      })
+      expect(mockPurchaseUpdate).not.toHaveBeenCalled()
+    })
+
+    it('rejects an unknown nonce', async () => {
+      mockPurchaseFindUnique.mockResolvedValue({
+        id: PURCHASE_ID,
+        buyerAddress: BUYER_ADDRESS.toLowerCase(),
+        buyerPublicKey: null,
+      })
+      mocks.nonceUpdateMany.mockResolvedValue({ count: 0 })
+
+      const res = await request(app)
+        .post(`/api/purchases/${PURCHASE_ID}/bind-key`)
+        .send({
+          publicKey: PUBLIC_KEY,
+          signature: PUBLIC_KEY_SIGNATURE,
+          timestamp: Date.now(),
+          nonce: NONCE,
+        })
+
+      expect(res.status).toBe(401)
+      expect(res.body.error).toBe('Unknown or expired nonce')
+      expect(mockPurchaseUpdate).not.toHaveBeenCalled()
     })
 
     it('returns 404 when purchase not found', async () => {
@@ -300,6 +422,7 @@ describe('purchases API', () => {
           publicKey: PUBLIC_KEY,
           signature: PUBLIC_KEY_SIGNATURE,
           timestamp: Math.floor(Date.now() / 1000),
+          nonce: NONCE,
         })
 
       expect(res.status).toBe(404)
@@ -323,6 +446,7 @@ describe('purchases API', () => {
           publicKey: PUBLIC_KEY,
           signature: PUBLIC_KEY_SIGNATURE,
           timestamp: Date.now(),
+          nonce: NONCE,
         })
 
       expect(res.status).toBe(401)
@@ -340,6 +464,7 @@ describe('purchases API', () => {
           publicKey: '',
           signature: '',
           timestamp: 0,
+          nonce: NONCE,
         })
 
       expect(res.status).toBe(400)
@@ -363,6 +488,7 @@ describe('purchases API', () => {
           publicKey: PUBLIC_KEY,
           signature: PUBLIC_KEY_SIGNATURE,
           timestamp: Date.now(),
+          nonce: NONCE,
         })
 
       expect(res.status).toBe(401)
@@ -388,6 +514,7 @@ describe('purchases API', () => {
           publicKey: PUBLIC_KEY,
           signature: PUBLIC_KEY_SIGNATURE,
           timestamp: future,
+          nonce: NONCE,
         })
 
       expect(res.status).toBe(401)
@@ -411,6 +538,7 @@ describe('purchases API', () => {
           publicKey: PUBLIC_KEY,
           signature: PUBLIC_KEY_SIGNATURE,
           timestamp: expired,
+          nonce: NONCE,
         })
 
       expect(res.status).toBe(401)
@@ -432,6 +560,7 @@ describe('purchases API', () => {
           publicKey: PUBLIC_KEY,
           signature: PUBLIC_KEY_SIGNATURE,
           timestamp: Math.floor(Date.now() / 1000),
+          nonce: NONCE,
         })
 
       expect(res.status).toBe(400)
@@ -444,12 +573,14 @@ describe('purchases API', () => {
     it('delivers key for valid seller', async () => {
       mockPurchaseFindUnique.mockResolvedValue({
         id: PURCHASE_ID,
+        listingId: LISTING_ID,
         buyerAddress: BUYER_ADDRESS.toLowerCase(),
         buyerPublicKey: PUBLIC_KEY,
         keyDelivered: false,
         keyCid: null,
         listing: {
           sellerAddress: SELLER_ADDRESS.toLowerCase(),
+          title: 'Dataset Title',
         },
       })
 
@@ -457,7 +588,7 @@ describe('purchases API', () => {
 
       const res = await request(app)
         .post(`/api/purchases/${PURCHASE_ID}/key`)
-        .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+        .set('Authorization', buildSingleUseAuthHeader(SELLER_ADDRESS))
         .send({
           keyCid: VALID_KEY_CID,
         })
@@ -473,6 +604,58 @@ describe('purchases API', () => {
 
       // important persistence check
       expect(updateArgs.data.keyDeliveredAt).toBeInstanceOf(Date)
+
+      // The buyer is told in the same transaction
+      expect(mocks.outboxUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { eventKey: `purchase.key_delivered:${PURCHASE_ID}` },
+          create: expect.objectContaining({
+            eventType: 'purchase.key_delivered',
+            sellerAddress: SELLER_ADDRESS.toLowerCase(),
+            payload: {
+              purchaseId: PURCHASE_ID,
+              listingId: LISTING_ID,
+              buyer: BUYER_ADDRESS.toLowerCase(),
+              keyCid: VALID_KEY_CID,
+            },
+          }),
+        })
+      )
+      expect(mocks.inboxCreateMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            type: 'purchase.key_delivered',
+            recipientAddress: BUYER_ADDRESS.toLowerCase(),
+            message: 'Your key for "Dataset Title" was delivered',
+          }),
+        ],
+        skipDuplicates: true,
+      })
+    })
+
+    it('requires a nonce in signature headers', async () => {
+      const res = await request(app)
+        .post(`/api/purchases/${PURCHASE_ID}/key`)
+        .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+        .send({ keyCid: VALID_KEY_CID })
+
+      expect(res.status).toBe(401)
+      expect(res.body.error).toBe('Signature must include a nonce')
+      expect(mockPurchaseFindUnique).not.toHaveBeenCalled()
+    })
+
+    it('rejects a replayed signature header', async () => {
+      mocks.nonceUpdateMany.mockResolvedValue({ count: 0 })
+      mocks.nonceFindUnique.mockResolvedValue({ usedAt: new Date() })
+
+      const res = await request(app)
+        .post(`/api/purchases/${PURCHASE_ID}/key`)
+        .set('Authorization', buildSingleUseAuthHeader(SELLER_ADDRESS))
+        .send({ keyCid: VALID_KEY_CID })
+
+      expect(res.status).toBe(409)
+      expect(res.body.code).toBe('SIGNATURE_REPLAYED')
+      expect(mockPurchaseFindUnique).not.toHaveBeenCalled()
     })
 
     it('returns 404 when purchase not found', async () => {
@@ -480,7 +663,7 @@ describe('purchases API', () => {
 
       const res = await request(app)
         .post(`/api/purchases/${PURCHASE_ID}/key`)
-        .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+        .set('Authorization', buildSingleUseAuthHeader(SELLER_ADDRESS))
         .send({ keyCid: VALID_KEY_CID })
 
       expect(res.status).toBe(404)
@@ -502,7 +685,7 @@ describe('purchases API', () => {
 
       const res = await request(app)
         .post(`/api/purchases/${PURCHASE_ID}/key`)
-        .set('Authorization', buildAuthHeader(OTHER_ADDRESS))
+        .set('Authorization', buildSingleUseAuthHeader(OTHER_ADDRESS))
         .send({ keyCid: VALID_KEY_CID })
 
       expect(res.status).toBe(401)
@@ -524,7 +707,7 @@ describe('purchases API', () => {
 
       const res = await request(app)
         .post(`/api/purchases/${PURCHASE_ID}/key`)
-        .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+        .set('Authorization', buildSingleUseAuthHeader(SELLER_ADDRESS))
         .send({ keyCid: VALID_KEY_CID })
 
       expect(res.status).toBe(400)
@@ -535,7 +718,7 @@ describe('purchases API', () => {
     it('rejects invalid keyCid', async () => {
       const res = await request(app)
         .post(`/api/purchases/${PURCHASE_ID}/key`)
-        .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+        .set('Authorization', buildSingleUseAuthHeader(SELLER_ADDRESS))
         .send({ keyCid: 'bad-cid' })
 
       expect(res.status).toBe(400)
@@ -558,7 +741,7 @@ describe('purchases API', () => {
 
       const res = await request(app)
         .post(`/api/purchases/${PURCHASE_ID}/key`)
-        .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+        .set('Authorization', buildSingleUseAuthHeader(SELLER_ADDRESS))
         .send({ keyCid: VALID_KEY_CID })
 
       expect(res.status).toBe(400)
@@ -0,0 +1,287 @@
+import express from 'express'
+import request from 'supertest'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  afterAll,
+} from 'vitest'
+
+import app from '../index'
+import { rateLimit } from '../middleware/rateLimit'
+import {
+  getRateLimitPolicies,
+  hitRateLimit,
+  pruneRateLimitBuckets,
+  resetRateLimitConfig,
+} from '../services/rateLimit'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  bucketUpsert: vi.fn(),
+  bucketDeleteMany: vi.fn(),
+  listingFindMany: vi.fn(),
+  listingGroupBy: vi.fn(),
+}))
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    rateLimitBucket: {
+      upsert: mocks.bucketUpsert,
+      deleteMany: mocks.bucketDeleteMany,
+    },
+    listing: {
+      findMany: mocks.listingFindMany,
+      groupBy: mocks.listingGroupBy,
+    },
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const WALLET = '0x' + 'c'.repeat(40)
+
+// In-memory stand-in for the upsert on rate_limit_buckets
+let buckets: Map<string, { count: number; resetAt: Date }>
+
+function useInMemoryBuckets() {
+  buckets = new Map()
+  mocks.bucketUpsert.mockImplementation(async ({ where, create }) => {
+    const existing = buckets.get(where.key)
+    const bucket = existing
+      ? { ...existing, count: existing.count + 1 }
+      : { count: create.count, resetAt: create.resetAt }
+    buckets.set(where.key, bucket)
+    return bucket
+  })
+}
+
+describe('Rate limiting', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.RATE_LIMIT_ENABLED = 'true'
+    delete process.env.RATE_LIMITS
+    resetRateLimitConfig()
+    useInMemoryBuckets()
+    mocks.listingFindMany.mockResolvedValue([])
+    mocks.listingGroupBy.mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    delete process.env.RATE_LIMITS
+    resetRateLimitConfig()
+  })
+
+  afterAll(() => {
+    delete process.env.RATE_LIMIT_ENABLED
+  })
+
+  it('sends RateLimit headers for the group closest to its limit', async () => {
+    process.env.RATE_LIMITS = JSON.stringify({
+      listings: { limit: 5, windowSeconds: 60 },
+    })
+    resetRateLimitConfig()
+
+    const res = await request(app).get('/api/listings')
+
+    expect(res.status).toBe(200)
+    expect(res.headers['ratelimit-limit']).toBe('5')
+    expect(res.headers['ratelimit-remaining']).toBe('4')
+    expect(res.headers['ratelimit-policy']).toBe('5;w=60')
+    expect(Number(res.headers['ratelimit-reset'])).toBeGreaterThan(0)
+    expect(Number(res.headers['ratelimit-reset'])).toBeLessThanOrEqual(60)
+  })
+
+  it('returns 429 with Retry-After once the limit is used up', async () => {
+    process.env.RATE_LIMITS = JSON.stringify({
+      listings: { limit: 2, windowSeconds: 60 },
+    })
+    resetRateLimitConfig()
+
+    await request(app).get('/api/listings').expect(200)
+    await request(app).get('/api/listings').expect(200)
+    const res = await request(app).get('/api/listings')
+
+    expect(res.status).toBe(429)
+    expect(res.headers['ratelimit-remaining']).toBe('0')
+    expect(res.headers['retry-after']).toBeDefined()
+    expect(res.body).toEqual({
+      error: 'Too many requests',
+      code: 'RATE_LIMITED',
+      retryAfter: Number(res.headers['retry-after']),
+    })
+    expect(mocks.listingFindMany).toHaveBeenCalledTimes(2)
+  })
+
+  it('fails requests when RATE_LIMITS is invalid', async () => {
+    process.env.RATE_LIMITS = '{"listings":'
+    resetRateLimitConfig()
+
+    const res = await request(app).get('/api/listings')
+
+    expect(res.status).toBe(500)
+    expect(mocks.listingFindMany).not.toHaveBeenCalled()
+  })
+
+  it('does not count requests when disabled', async () => {
+    process.env.RATE_LIMIT_ENABLED = 'false'
+
+    const res = await request(app).get('/api/listings')
+
+    expect(res.status).toBe(200)
+    expect(res.headers['ratelimit-limit']).toBeUndefined()
+    expect(mocks.bucketUpsert).not.toHaveBeenCalled()
+  })
+
+  it('lets requests through when the counter store fails', async () => {
+    mocks.bucketUpsert.mockRejectedValue(new Error('connection refused'))
+
+    const res = await request(app).get('/api/listings')
+
+    expect(res.status).toBe(200)
+    expect(res.headers['ratelimit-limit']).toBeUndefined()
+  })
+
+  it('limits POST /verify, which is mounted outside /api', async () => {
+    process.env.RATE_LIMITS = JSON.stringify({
+      verify: { limit: 1, windowSeconds: 60 },
+    })
+    resetRateLimitConfig()
+
+    await request(app).post('/verify').send({}).expect(400)
+    const res = await request(app).post('/verify').send({})
+
+    expect(res.status).toBe(429)
+    expect(res.body.code).toBe('RATE_LIMITED')
+  })
+
+  it.each([
+    ['post', '/api/listings'],
+    ['patch', '/api/listings/1'],
+    ['post', '/api/purchases/1/key'],
+  ] as const)(
+    'limits %s %s per IP before checking the signature',
+    async (method, path) => {
+      process.env.RATE_LIMITS = JSON.stringify({
+        writes: { limit: 1, windowSeconds: 60 },
+      })
+      resetRateLimitConfig()
+
+      await request(app)[method](path).send({}).expect(401)
+      const res = await request(app)[method](path).send({})
+
+      expect(res.status).toBe(429)
+      expect([...buckets.keys()]).toContainEqual(
+        expect.stringMatching(/^writes:ip:.+:\d+$/)
+      )
+    }
+  )
+
+  it('counts per wallet once authenticated', async () => {
+    const limited = express()
+    limited.use((req, _res, next) => {
+      ;(req as any).walletAddress = req.get('x-wallet')
+      next()
+    })
+    limited.get('/', rateLimit('writes'), (_req, res) => {
+      res.json({ ok: true })
+    })
+    process.env.RATE_LIMITS = JSON.stringify({
+      writes: { limit: 1, windowSeconds: 60 },
+    })
+    resetRateLimitConfig()
+
+    await request(limited).get('/').set('x-wallet', WALLET).expect(200)
+    await request(limited).get('/').set('x-wallet', WALLET).expect(429)
+    await request(limited)
+      .get('/')
+      .set('x-wallet', '0x' + 'd'.repeat(40))
+      .expect(200)
+
+    expect([...buckets.keys()]).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(new RegExp(`^writes:wallet:${WALLET}:\\d+$`)),
+      ])
+    )
+  })
+})
+
+describe('Rate limit policies', () => {
+  afterEach(() => {
+    delete process.env.RATE_LIMITS
+    resetRateLimitConfig()
+  })
+
+  it('applies RATE_LIMITS overrides on top of the defaults', () => {
+    process.env.RATE_LIMITS = JSON.stringify({
+      auth: { limit: 10, windowSeconds: 600 },
+    })
+    resetRateLimitConfig()
+
+    const policies = getRateLimitPolicies()
+    expect(policies.auth).toEqual({ limit: 10, windowSeconds: 600 })
+    expect(policies.api).toEqual({ limit: 300, windowSeconds: 60 })
+  })
+
+  it('rejects unknown groups and invalid limits', () => {
+    process.env.RATE_LIMITS = JSON.stringify({ search: { limit: 10 } })
+    resetRateLimitConfig()
+    expect(() => getRateLimitPolicies()).toThrow()
+
+    process.env.RATE_LIMITS = JSON.stringify({
+      auth: { limit: 0, windowSeconds: 60 },
+    })
+    resetRateLimitConfig()
+    expect(() => getRateLimitPolicies()).toThrow()
+  })
+})
+
+describe('Rate limit counters', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('increments the row for the current fixed window', async () => {
+    mocks.bucketUpsert.mockResolvedValue({
+      count: 1,
+      resetAt: new Date(120_000),
+    })
+
+    await hitRateLimit(
+      'auth',
+      'ip:1.2.3.4',
+      { limit: 30, windowSeconds: 60 },
+      90_000
+    )
+
+    expect(mocks.bucketUpsert).toHaveBeenCalledWith({
+      where: { key: 'auth:ip:1.2.3.4:1' },
+      create: {
+        key: 'auth:ip:1.2.3.4:1',
+        count: 1,
+        resetAt: new Date(120_000),
+      },
+      update: { count: { increment: 1 } },
+      select: { count: true, resetAt: true },
+    })
+  })
+
+  it('prunes counters whose window has ended', async () => {
+    mocks.bucketDeleteMany.mockResolvedValue({ count: 3 })
+    const now = new Date()
+
+    await expect(pruneRateLimitBuckets(now)).resolves.toBe(3)
+    expect(mocks.bucketDeleteMany).toHaveBeenCalledWith({
+      where: { resetAt: { lte: now } },
+    })
+  })
+})
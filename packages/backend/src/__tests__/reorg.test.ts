@@ -0,0 +1,302 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { MockedFunction } from 'vitest'
+
+import { publicClient } from '../config/chain.js'
+import prismaDB from '../config/db.js'
+import {
+  BLOCK_HASH_RETENTION,
+  MAX_REORG_DEPTH,
+  detectReorg,
+  pruneIndexedBlocks,
+  recordIndexedBlocks,
+  rollbackFromBlock,
+} from '../services/reorg.js'
+
+const tx = {
+  purchase: { findMany: vi.fn(), updateMany: vi.fn() },
+  sellerLedgerEntry: { findMany: vi.fn(), deleteMany: vi.fn() },
+  notificationOutbox: { deleteMany: vi.fn() },
+  notification: { deleteMany: vi.fn() },
+  listingDeactivation: { findMany: vi.fn(), deleteMany: vi.fn() },
+  listing: { updateMany: vi.fn() },
+  eventLog: { deleteMany: vi.fn() },
+  indexedBlock: { deleteMany: vi.fn() },
+  indexerCheckpoint: { updateMany: vi.fn() },
+}
+
+vi.mock('../config/chain.js', () => ({
+  publicClient: {
+    getBlock: vi.fn(),
+    readContract: vi.fn(),
+  },
+  wsClient: null,
+  MARKETPLACE_ABI: [],
+  RPC_URLS: ['https://rpc.test'],
+  MARKETPLACE_ADDRESS: '0xmarketplace',
+  CONFIRMATIONS_REQUIRED: 2,
+  INDEXER_START_BLOCK: null,
+}))
+
+vi.mock('../config/db.js', () => ({
+  default: {
+    indexedBlock: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    listing: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn((fn: any) => fn(tx)),
+  },
+}))
+
+const mockGetBlock = (publicClient as any).getBlock as MockedFunction<any>
+const mockFindMany = (prismaDB as any).indexedBlock
+  .findMany as MockedFunction<any>
+const mockReadContract = (publicClient as any)
+  .readContract as MockedFunction<any>
+const mockListingFindMany = (prismaDB as any).listing
+  .findMany as MockedFunction<any>
+const mockListingUpdate = (prismaDB as any).listing
+  .update as MockedFunction<any>
+
+/** getListing tuple: (seller, dataCid, envelopeCid, envelopeHash, price, active, sales) */
+function chainListing(active: boolean) {
+  return ['0xseller', 'bafydata', 'bafyenv', '0xhash', 5_000_000n, active, 0n]
+}
+
+/**
+ * Simulated chain: blocks 100..105 were indexed from a fork that was
+ * replaced above block 102 by the canonical chain.
+ */
+const STORED = [105, 104, 103, 102, 101, 100].map((n) => ({
+  blockNumber: n,
+  blockHash: `0xold${n}`,
+}))
+
+function canonicalHash(blockNumber: bigint): string {
+  return blockNumber <= 102n ? `0xold${blockNumber}` : `0xnew${blockNumber}`
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockGetBlock.mockImplementation(
+    async ({ blockNumber }: { blockNumber: bigint }) => ({
+      number: blockNumber,
+      hash: canonicalHash(blockNumber),
+    })
+  )
+  mockFindMany.mockResolvedValue(STORED)
+  tx.purchase.findMany.mockResolvedValue([])
+  tx.purchase.updateMany.mockResolvedValue({ count: 2 })
+  tx.sellerLedgerEntry.findMany.mockResolvedValue([])
+  tx.sellerLedgerEntry.deleteMany.mockResolvedValue({ count: 2 })
+  tx.notificationOutbox.deleteMany.mockResolvedValue({ count: 0 })
+  tx.notification.deleteMany.mockResolvedValue({ count: 0 })
+  tx.listingDeactivation.findMany.mockResolvedValue([])
+  tx.listingDeactivation.deleteMany.mockResolvedValue({ count: 0 })
+  tx.listing.updateMany.mockResolvedValue({ count: 0 })
+  mockListingFindMany.mockResolvedValue([])
+  tx.eventLog.deleteMany.mockResolvedValue({ count: 3 })
+  tx.indexedBlock.deleteMany.mockResolvedValue({ count: 3 })
+})
+
+describe('detectReorg', () => {
+  it('returns null when the newest stored block is canonical', async () => {
+    mockFindMany.mockResolvedValue(STORED.slice(3))
+
+    await expect(detectReorg(110n)).resolves.toBeNull()
+    expect(mockGetBlock).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns the highest block still on the canonical chain', async () => {
+    await expect(detectReorg(110n)).resolves.toBe(102n)
+    expect(mockGetBlock).toHaveBeenCalledTimes(4)
+  })
+
+  it('only checks stored blocks at or below the confirmed block', async () => {
+    await detectReorg(104n)
+
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: { chainId: 84532, blockNumber: { lte: 104 } },
+      orderBy: { blockNumber: 'desc' },
+      take: MAX_REORG_DEPTH,
+    })
+  })
+
+  it('rolls back below the oldest stored block when none match', async () => {
+    mockGetBlock.mockResolvedValue({ hash: '0xother' })
+
+    await expect(detectReorg(110n)).resolves.toBe(99n)
+  })
+
+  it('returns null with no stored blocks', async () => {
+    mockFindMany.mockResolvedValue([])
+
+    await expect(detectReorg(110n)).resolves.toBeNull()
+    expect(mockGetBlock).not.toHaveBeenCalled()
+  })
+})
+
+describe('rollbackFromBlock', () => {
+  it('flags purchases and removes derived rows above the fork', async () => {
+    const result = await rollbackFromBlock(102n)
+
+    const above = { gt: 102 }
+    const deployment = { chainId: 84532, contractAddress: '0xmarketplace' }
+    expect(tx.purchase.updateMany).toHaveBeenCalledWith({
+      where: { ...deployment, blockNumber: above },
+      data: { txVerified: false, reorgedAt: expect.any(Date) },
+    })
+    expect(tx.sellerLedgerEntry.deleteMany).toHaveBeenCalledWith({
+      where: { listing: deployment, blockNumber: above },
+    })
+    expect(tx.eventLog.deleteMany).toHaveBeenCalledWith({
+      where: { ...deployment, blockNumber: above },
+    })
+    expect(tx.indexedBlock.deleteMany).toHaveBeenCalledWith({
+      where: { chainId: 84532, blockNumber: above },
+    })
+    expect(tx.indexerCheckpoint.updateMany).toHaveBeenCalledWith({
+      where: { ...deployment, lastScannedBlock: above },
+      data: { lastScannedBlock: 102 },
+    })
+    expect(result).toEqual({
+      forkBlock: 102n,
+      purchasesFlagged: 2,
+      listingsFlagged: 0,
+      eventLogsRemoved: 3,
+    })
+  })
+
+  it('drops undispatched notifications of orphaned sales', async () => {
+    tx.purchase.findMany.mockResolvedValue([{ id: 'purchase-1' }])
+    tx.sellerLedgerEntry.findMany.mockResolvedValue([
+      { txHash: '0xsale', logIndex: 4 },
+    ])
+    tx.listingDeactivation.findMany.mockResolvedValue([
+      { listingId: 'listing-a', txHash: '0xdeact', logIndex: 1 },
+    ])
+
+    await rollbackFromBlock(102n)
+
+    expect(tx.sellerLedgerEntry.findMany).toHaveBeenCalledWith({
+      where: {
+        listing: { chainId: 84532, contractAddress: '0xmarketplace' },
+        blockNumber: { gt: 102 },
+        entryType: 'SALE',
+      },
+      select: { txHash: true, logIndex: true },
+    })
+    // Webhooks and emails: including the delayed withdrawal.available row
+    expect(tx.notificationOutbox.deleteMany).toHaveBeenCalledWith({
+      where: {
+        eventKey: {
+          in: [
+            'purchase.completed:purchase-1',
+            'withdrawal.available:0xsale:4',
+          ],
+        },
+        dispatchedAt: null,
+      },
+    })
+    // Inbox entries, dispatched or not
+    expect(tx.notification.deleteMany).toHaveBeenCalledWith({
+      where: {
+        eventKey: {
+          in: [
+            'purchase.completed:purchase-1',
+            'withdrawal.available:0xsale:4',
+            'listing.deactivated:0xdeact:1',
+          ],
+        },
+      },
+    })
+  })
+
+  it('flags listings created in orphaned blocks', async () => {
+    tx.listing.updateMany.mockResolvedValue({ count: 1 })
+
+    const result = await rollbackFromBlock(102n)
+
+    expect(tx.listing.updateMany).toHaveBeenCalledWith({
+      where: {
+        chainId: 84532,
+        contractAddress: '0xmarketplace',
+        blockNumber: { gt: 102 },
+        reorgedAt: null,
+      },
+      data: { active: false, reorgedAt: expect.any(Date) },
+    })
+    expect(result.listingsFlagged).toBe(1)
+  })
+
+  it('re-reads active state from the contract when a deactivation was orphaned', async () => {
+    tx.listingDeactivation.findMany.mockResolvedValue([
+      { listingId: 'listing-a' },
+      { listingId: 'listing-a' },
+      { listingId: 'listing-b' },
+    ])
+    mockListingFindMany.mockResolvedValue([
+      { id: 'listing-a', onchainId: 7, active: false },
+      { id: 'listing-b', onchainId: 8, active: false },
+    ])
+    mockReadContract.mockImplementation(async ({ args }: any) =>
+      chainListing(args[0] === 7n)
+    )
+
+    await rollbackFromBlock(102n)
+
+    expect(mockListingFindMany).toHaveBeenCalledWith({
+      where: { id: { in: ['listing-a', 'listing-b'] }, reorgedAt: null },
+      select: { id: true, onchainId: true, active: true },
+    })
+    expect(mockReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: 'getListing', args: [7n] })
+    )
+    // Still deactivated on chain (re-mined elsewhere): left inactive
+    expect(mockListingUpdate).toHaveBeenCalledTimes(1)
+    expect(mockListingUpdate).toHaveBeenCalledWith({
+      where: { id: 'listing-a' },
+      data: { active: true },
+    })
+  })
+
+  it('reads no chain state when no deactivation was orphaned', async () => {
+    await rollbackFromBlock(102n)
+
+    expect(mockListingFindMany).not.toHaveBeenCalled()
+    expect(mockReadContract).not.toHaveBeenCalled()
+    expect(mockListingUpdate).not.toHaveBeenCalled()
+  })
+})
+
+describe('block hash bookkeeping', () => {
+  it('stores one hash per block number', async () => {
+    await recordIndexedBlocks([
+      { blockNumber: 100n, blockHash: '0xa' },
+      { blockNumber: 100n, blockHash: '0xa' },
+      { blockNumber: 101n, blockHash: '0xb' },
+    ])
+
+    expect((prismaDB as any).indexedBlock.upsert).toHaveBeenCalledTimes(2)
+    expect((prismaDB as any).indexedBlock.upsert).toHaveBeenCalledWith({
+      where: { chainId_blockNumber: { chainId: 84532, blockNumber: 101 } },
+      update: { blockHash: '0xb' },
+      create: { chainId: 84532, blockNumber: 101, blockHash: '0xb' },
+    })
+  })
+
+  it('prunes hashes outside the retention window', async () => {
+    const head = BLOCK_HASH_RETENTION + 500n
+
+    await pruneIndexedBlocks(head)
+
+    expect((prismaDB as any).indexedBlock.deleteMany).toHaveBeenCalledWith({
+      where: { chainId: 84532, blockNumber: { lt: 500 } },
+    })
+  })
+})
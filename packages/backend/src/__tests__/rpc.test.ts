@@ -0,0 +1,134 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createPublicClient } from 'viem'
+import { baseSepolia } from 'viem/chains'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import {
+  RpcQuorumError,
+  getReceiptWithQuorum,
+  getRpcProviderStatus,
+  parseRpcUrls,
+  recordRpcResponse,
+} from '../config/rpc.js'
+
+const receiptsByUrl = vi.hoisted(() => new Map<string, any>())
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    createPublicClient: vi.fn(({ transport }) => {
+      const url = transport({}).value?.url as string
+      return {
+        getTransactionReceipt: vi.fn(async () => {
+          const receipt = receiptsByUrl.get(url)
+          if (receipt instanceof Error) throw receipt
+          return receipt
+        }),
+      }
+    }),
+  }
+})
+
+const HASH = ('0x' + 'c'.repeat(64)) as `0x${string}`
+
+function receipt(blockHash = '0xblock', data = '0x01') {
+  return {
+    blockHash,
+    status: 'success',
+    logs: [{ address: '0xmarketplace', logIndex: 0, topics: ['0xt'], data }],
+  }
+}
+
+let urlCounter = 0
+function uniqueUrls(count: number) {
+  return Array.from(
+    { length: count },
+    () => `https://rpc${++urlCounter}.example.com/v1/secret-key`
+  )
+}
+
+beforeEach(() => {
+  receiptsByUrl.clear()
+  vi.mocked(createPublicClient).mockClear()
+})
+
+describe('parseRpcUrls', () => {
+  it('splits, trims and dedupes a comma-separated list', () => {
+    expect(
+      parseRpcUrls(' https://a.example , https://b.example,,https://a.example')
+    ).toEqual(['https://a.example', 'https://b.example'])
+  })
+
+  it('returns an empty list when unset', () => {
+    expect(parseRpcUrls(undefined)).toEqual([])
+  })
+})
+
+describe('getRpcProviderStatus', () => {
+  it('scores providers and marks them unhealthy after repeated failures', () => {
+    const [good, bad] = uniqueUrls(2) as [string, string]
+
+    recordRpcResponse(good)
+    recordRpcResponse(good)
+    recordRpcResponse(good, new Error('timeout'))
+    recordRpcResponse(good)
+    for (let i = 0; i < 3; i++) {
+      recordRpcResponse(bad, new Error('connection refused\nstack'))
+    }
+
+    const [goodStatus, badStatus] = getRpcProviderStatus([good, bad])
+
+    expect(goodStatus).toMatchObject({
+      healthy: true,
+      score: 0.75,
+      successes: 3,
+      failures: 1,
+      consecutiveFailures: 0,
+    })
+    expect(badStatus).toMatchObject({
+      healthy: false,
+      score: 0,
+      lastError: 'connection refused',
+    })
+  })
+
+  it('reports only the origin of each URL', () => {
+    const [url] = uniqueUrls(1) as [string]
+
+    const [status] = getRpcProviderStatus([url])
+
+    expect(status!.url).toMatch(/^https:\/\/rpc\d+\.example\.com$/)
+    expect(status!.score).toBeNull()
+  })
+})
+
+describe('getReceiptWithQuorum', () => {
+  it('returns the receipt when enough providers agree', async () => {
+    const urls = uniqueUrls(3)
+    receiptsByUrl.set(urls[0]!, receipt())
+    receiptsByUrl.set(urls[1]!, new Error('timeout'))
+    receiptsByUrl.set(urls[2]!, receipt())
+
+    const result = await getReceiptWithQuorum(baseSepolia, urls, HASH, 2)
+
+    expect(result).toEqual(receipt())
+    expect(getRpcProviderStatus(urls).map((s) => s.failures)).toEqual([0, 1, 0])
+  })
+
+  it('rejects when providers return conflicting receipts', async () => {
+    const urls = uniqueUrls(2)
+    receiptsByUrl.set(urls[0]!, receipt('0xblock', '0x01'))
+    receiptsByUrl.set(urls[1]!, receipt('0xblock', '0x02'))
+
+    await expect(
+      getReceiptWithQuorum(baseSepolia, urls, HASH, 2)
+    ).rejects.toBeInstanceOf(RpcQuorumError)
+  })
+
+  it('rejects when fewer providers are configured than the quorum', async () => {
+    await expect(
+      getReceiptWithQuorum(baseSepolia, uniqueUrls(1), HASH, 2)
+    ).rejects.toThrow('requires at least 2 RPC providers')
+  })
+})
@@ -0,0 +1,389 @@
+import request from 'supertest'
+import { getAddress, verifyMessage } from 'viem'
+import { createSiweMessage } from 'viem/siwe'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+import { JwtError, signJwt, verifyJwt } from '../lib/jwt'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  nonceCreate: vi.fn(),
+  nonceUpdateMany: vi.fn(),
+  nonceFindUnique: vi.fn(),
+  sessionCreate: vi.fn(),
+  sessionFindUnique: vi.fn(),
+  sessionUpdateMany: vi.fn(),
+  transaction: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('viem/actions', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    // Test wallets are EOAs: no contract code to check signatures against
+    getCode: vi.fn().mockResolvedValue(undefined),
+  }
+})
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    authNonce: {
+      create: mocks.nonceCreate,
+      deleteMany: vi.fn(),
+      updateMany: mocks.nonceUpdateMany,
+      findUnique: mocks.nonceFindUnique,
+    },
+    authSession: {
+      create: mocks.sessionCreate,
+      findUnique: mocks.sessionFindUnique,
+      updateMany: mocks.sessionUpdateMany,
+    },
+    $transaction: mocks.transaction,
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+
+const WALLET_ADDRESS = '0x' + 'B'.repeat(40)
+const WALLET = WALLET_ADDRESS.toLowerCase()
+const SIGNATURE = '0x' + 'a'.repeat(130)
+const SESSION_ID = 'cklbqxp9c0000s0p7m0lhw1q7'
+const SESSION_EXPIRES_AT = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+
+function siweMessage(overrides: Record<string, unknown> = {}) {
+  return createSiweMessage({
+    address: WALLET_ADDRESS as `0x${string}`,
+    chainId: 84532,
+    domain: 'localhost:3000',
+    nonce: 'abcdef1234567890',
+    uri: 'http://localhost:3000',
+    version: '1',
+    statement: 'Sign in to Data Marketplace',
+    issuedAt: new Date(),
+    ...overrides,
+  })
+}
+
+function refreshCookie(res: request.Response): string | undefined {
+  const cookies = res.headers['set-cookie'] as unknown as string[] | undefined
+  return cookies?.find((cookie) => cookie.startsWith('refresh_token='))
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockVerifyMessage.mockResolvedValue(true)
+  mocks.transaction.mockResolvedValue([])
+  mocks.nonceUpdateMany.mockResolvedValue({ count: 1 })
+  mocks.nonceFindUnique.mockResolvedValue(null)
+  mocks.sessionCreate.mockImplementation(async ({ data }) => ({
+    id: SESSION_ID,
+    ...data,
+  }))
+  mocks.sessionUpdateMany.mockResolvedValue({ count: 1 })
+  mocks.sessionFindUnique.mockResolvedValue({
+    id: SESSION_ID,
+    walletAddress: WALLET,
+    chainId: 84532,
+    refreshTokenHash: 'hash',
+    revokedAt: null,
+    expiresAt: SESSION_EXPIRES_AT,
+  })
+})
+
+describe('jwt', () => {
+  it('round-trips claims and rejects tampering and expiry', () => {
+    const token = signJwt({ sub: WALLET, sid: SESSION_ID }, 'secret', 60)
+
+    expect(verifyJwt(token, 'secret')).toMatchObject({
+      sub: WALLET,
+      sid: SESSION_ID,
+    })
+    expect(() => verifyJwt(token, 'other-secret')).toThrow(JwtError)
+
+    const [header, , signature] = token.split('.')
+    const forged = Buffer.from(
+      JSON.stringify({ sub: '0xattacker', exp: 9999999999 })
+    ).toString('base64url')
+    expect(() =>
+      verifyJwt(`${header}.${forged}.${signature}`, 'secret')
+    ).toThrow('Invalid token signature')
+
+    expect(() => verifyJwt(token, 'secret', Date.now() + 61_000)).toThrow(
+      'Token expired'
+    )
+  })
+
+  it('only accepts HS256 tokens', () => {
+    const none = [
+      Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString(
+        'base64url'
+      ),
+      Buffer.from(JSON.stringify({ sub: WALLET, exp: 9999999999 })).toString(
+        'base64url'
+      ),
+      '',
+    ].join('.')
+
+    expect(() => verifyJwt(none, 'secret')).toThrow('Malformed token')
+  })
+})
+
+describe('GET /api/auth/nonce', () => {
+  it('stores and returns a fresh nonce', async () => {
+    const res = await request(app).get('/api/auth/nonce')
+
+    expect(res.status).toBe(200)
+    expect(res.headers['cache-control']).toBe('no-store')
+    expect(res.body.nonce).toMatch(/^[a-zA-Z0-9]{8,}$/)
+    expect(mocks.nonceCreate).toHaveBeenCalledWith({
+      data: { nonce: res.body.nonce, expiresAt: expect.any(Date) },
+    })
+  })
+})
+
+describe('POST /api/auth/verify', () => {
+  it('starts a session with an httpOnly refresh cookie', async () => {
+    const message = siweMessage()
+
+    const res = await request(app)
+      .post('/api/auth/verify')
+      .send({ message, signature: SIGNATURE })
+
+    expect(res.status).toBe(201)
+    expect(res.body).toMatchObject({
+      address: WALLET,
+      chainId: 84532,
+      accessToken: expect.any(String),
+    })
+    expect(mockVerifyMessage).toHaveBeenCalledWith({
+      address: getAddress(WALLET_ADDRESS),
+      message,
+      signature: SIGNATURE,
+    })
+    expect(mocks.nonceUpdateMany).toHaveBeenCalledWith({
+      where: {
+        nonce: 'abcdef1234567890',
+        usedAt: null,
+        expiresAt: { gt: expect.any(Date) },
+      },
+      data: { usedAt: expect.any(Date) },
+    })
+
+    const cookie = refreshCookie(res)
+    expect(cookie).toContain('HttpOnly')
+    expect(cookie).toContain('Path=/api/auth')
+    expect(cookie).toContain('SameSite=Lax')
+
+    // The access token authenticates API requests
+    const session = await request(app)
+      .get('/api/auth/session')
+      .set('Authorization', `Bearer ${res.body.accessToken}`)
+
+    expect(session.status).toBe(200)
+    expect(session.body).toEqual({ address: WALLET, sessionId: SESSION_ID })
+  })
+
+  it('rejects a message for another domain', async () => {
+    const res = await request(app)
+      .post('/api/auth/verify')
+      .send({
+        message: siweMessage({ domain: 'evil.example' }),
+        signature: SIGNATURE,
+      })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('INVALID_DOMAIN')
+    expect(mocks.sessionCreate).not.toHaveBeenCalled()
+  })
+
+  it('rejects a chain without a marketplace deployment', async () => {
+    const res = await request(app)
+      .post('/api/auth/verify')
+      .send({ message: siweMessage({ chainId: 1 }), signature: SIGNATURE })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('UNSUPPORTED_CHAIN')
+  })
+
+  it('rejects an expired message', async () => {
+    const res = await request(app)
+      .post('/api/auth/verify')
+      .send({
+        message: siweMessage({ expirationTime: new Date(Date.now() - 1000) }),
+        signature: SIGNATURE,
+      })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('INVALID_MESSAGE')
+  })
+
+  it('reports a replayed sign-in with a distinct code', async () => {
+    mocks.nonceUpdateMany.mockResolvedValue({ count: 0 })
+    mocks.nonceFindUnique.mockResolvedValue({ usedAt: new Date() })
+
+    const res = await request(app)
+      .post('/api/auth/verify')
+      .send({ message: siweMessage(), signature: SIGNATURE })
+
+    expect(res.status).toBe(409)
+    expect(res.body.error).toBe('SIGNATURE_REPLAYED')
+    expect(mocks.sessionCreate).not.toHaveBeenCalled()
+  })
+
+  it('rejects an unknown or expired nonce', async () => {
+    mocks.nonceUpdateMany.mockResolvedValue({ count: 0 })
+
+    const res = await request(app)
+      .post('/api/auth/verify')
+      .send({ message: siweMessage(), signature: SIGNATURE })
+
+    expect(res.status).toBe(401)
+    expect(res.body.error).toBe('INVALID_NONCE')
+  })
+
+  it('rejects an invalid signature without consuming the nonce', async () => {
+    mockVerifyMessage.mockResolvedValue(false)
+
+    const res = await request(app)
+      .post('/api/auth/verify')
+      .send({ message: siweMessage(), signature: SIGNATURE })
+
+    expect(res.status).toBe(401)
+    expect(res.body.error).toBe('INVALID_SIGNATURE')
+    expect(mocks.nonceUpdateMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('POST /api/auth/refresh', () => {
+  it('rotates the refresh token and issues a new access token', async () => {
+    const res = await request(app)
+      .post('/api/auth/refresh')
+      .set('Origin', 'http://localhost:3000')
+      .set('Cookie', 'refresh_token=old-token')
+
+    expect(res.status).toBe(200)
+    expect(res.body.accessToken).toEqual(expect.any(String))
+
+    const cookie = refreshCookie(res)
+    expect(cookie).toBeDefined()
+    expect(cookie).not.toContain('refresh_token=old-token')
+
+    const rotation = mocks.sessionUpdateMany.mock.calls[0]![0]
+    expect(rotation.where).toEqual({ id: SESSION_ID, refreshTokenHash: 'hash' })
+    expect(rotation.data.refreshTokenHash).not.toBe('hash')
+  })
+
+  it('rejects a revoked session and clears the cookie', async () => {
+    mocks.sessionFindUnique.mockResolvedValue({
+      id: SESSION_ID,
+      walletAddress: WALLET,
+      revokedAt: new Date(),
+      expiresAt: SESSION_EXPIRES_AT,
+    })
+
+    const res = await request(app)
+      .post('/api/auth/refresh')
+      .set('Cookie', 'refresh_token=old-token')
+
+    expect(res.status).toBe(401)
+    expect(refreshCookie(res)).toContain('Expires=Thu, 01 Jan 1970')
+  })
+
+  it('refuses requests from other origins', async () => {
+    const res = await request(app)
+      .post('/api/auth/refresh')
+      .set('Origin', 'https://evil.example')
+      .set('Cookie', 'refresh_token=old-token')
+
+    expect(res.status).toBe(403)
+    expect(mocks.sessionFindUnique).not.toHaveBeenCalled()
+  })
+})
+
+describe('session revocation', () => {
+  async function signIn(): Promise<string> {
+    const res = await request(app)
+      .post('/api/auth/verify')
+      .send({ message: siweMessage(), signature: SIGNATURE })
+    return res.body.accessToken
+  }
+
+  it('logs out by revoking the session behind the cookie', async () => {
+    const res = await request(app)
+      .post('/api/auth/logout')
+      .set('Cookie', 'refresh_token=old-token')
+
+    expect(res.status).toBe(204)
+    expect(mocks.sessionUpdateMany).toHaveBeenCalledWith({
+      where: { refreshTokenHash: expect.any(String), revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    })
+  })
+
+  it('stops accepting access tokens of a revoked session', async () => {
+    const accessToken = await signIn()
+    mocks.sessionFindUnique.mockResolvedValue({
+      walletAddress: WALLET,
+      revokedAt: new Date(),
+      expiresAt: SESSION_EXPIRES_AT,
+    })
+
+    const res = await request(app)
+      .get('/api/auth/session')
+      .set('Authorization', `Bearer ${accessToken}`)
+
+    expect(res.status).toBe(401)
+    expect(res.body.error).toBe('Session expired')
+  })
+
+  it('signs the wallet out of every session', async () => {
+    const accessToken = await signIn()
+    mocks.sessionUpdateMany.mockResolvedValue({ count: 3 })
+
+    const res = await request(app)
+      .delete('/api/auth/sessions')
+      .set('Authorization', `Bearer ${accessToken}`)
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ revoked: 3 })
+    expect(mocks.sessionUpdateMany).toHaveBeenCalledWith({
+      where: { walletAddress: WALLET, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    })
+  })
+
+  it('still accepts the legacy signature header', async () => {
+    const ts = Math.floor(Date.now() / 1000)
+
+    const res = await request(app)
+      .get('/api/auth/session')
+      .set('Authorization', `Signature ${WALLET_ADDRESS}:${ts}:${SIGNATURE}`)
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ address: WALLET, sessionId: null })
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * ERC-1271 / ERC-6492 signature checks against a mock smart contract wallet
+ * on a local anvil node.
+ *
+ * Run with:
+ *   anvil
+ *   (cd ../contracts && forge build)
+ *   ANVIL_RPC_URL=http://127.0.0.1:8545 pnpm test signatureVerification.anvil
+ */
+
+import { readFileSync } from 'node:fs'
+
+import {
+  createWalletClient,
+  encodeFunctionData,
+  hashMessage,
+  http,
+  publicActions,
+  serializeErc6492Signature,
+  type Abi,
+  type Hex,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { foundry } from 'viem/chains'
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+
+import type * as Deployments from '../config/deployments.js'
+import type * as SignatureVerification from '../services/signatureVerification.js'
+
+const ANVIL_RPC_URL = process.env['ANVIL_RPC_URL']
+const skipTests = !ANVIL_RPC_URL
+
+// anvil's default funded accounts
+const DEPLOYER_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+const OWNER_KEY =
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+
+function loadArtifact(name: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(
+    readFileSync(
+      new URL(
+        `../../../contracts/out/MockERC1271Wallet.sol/${name}.json`,
+        import.meta.url
+      ),
+      'utf8'
+    )
+  )
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object }
+}
+
+describe.skipIf(skipTests)('contract wallet signatures against anvil', () => {
+  const owner = privateKeyToAccount(OWNER_KEY)
+  const message = 'Authenticate to Data Marketplace\nTimestamp: 1'
+
+  let deployments: typeof Deployments
+  let signatures: typeof SignatureVerification
+  let factory: { abi: Abi; address: `0x${string}` }
+  let client: ReturnType<typeof createClient>
+
+  function createClient() {
+    return createWalletClient({
+      account: privateKeyToAccount(DEPLOYER_KEY),
+      chain: foundry,
+      transport: http(ANVIL_RPC_URL),
+    }).extend(publicActions)
+  }
+
+  async function walletAddress(salt: Hex): Promise<`0x${string}`> {
+    return (await client.readContract({
+      ...factory,
+      functionName: 'walletAddress',
+      args: [owner.address, salt],
+    })) as `0x${string}`
+  }
+
+  beforeAll(async () => {
+    process.env['MARKETPLACE_DEPLOYMENTS'] = JSON.stringify([
+      {
+        chainId: foundry.id,
+        address: '0x' + '1'.repeat(40),
+        rpcUrls: [ANVIL_RPC_URL],
+      },
+    ])
+    vi.resetModules()
+    deployments = await import('../config/deployments.js')
+    signatures = await import('../services/signatureVerification.js')
+
+    client = createClient()
+    const { abi, bytecode } = loadArtifact('MockERC1271WalletFactory')
+    const hash = await client.deployContract({ abi, bytecode })
+    const receipt = await client.waitForTransactionReceipt({ hash })
+    factory = { abi, address: receipt.contractAddress! }
+  })
+
+  afterAll(() => {
+    delete process.env['MARKETPLACE_DEPLOYMENTS']
+  })
+
+  it('accepts signatures a deployed wallet validates through ERC-1271', async () => {
+    const salt = ('0x' + '01'.padStart(64, '0')) as Hex
+    const hash = await client.writeContract({
+      ...factory,
+      functionName: 'deploy',
+      args: [owner.address, salt],
+    })
+    await client.waitForTransactionReceipt({ hash })
+
+    const address = await walletAddress(salt)
+    const signature = await owner.sign({ hash: hashMessage(message) })
+    const deployment = deployments.getDeployment(foundry.id)
+
+    await expect(
+      signatures.verifyWalletSignature(
+        { address, message, signature },
+        deployment
+      )
+    ).resolves.toBe(true)
+    await expect(
+      signatures.verifyWalletSignature(
+        { address, message: `${message}0`, signature },
+        deployment
+      )
+    ).resolves.toBe(false)
+  })
+
+  it('accepts ERC-6492 signatures of a wallet that is not deployed yet', async () => {
+    const salt = ('0x' + '02'.padStart(64, '0')) as Hex
+    const address = await walletAddress(salt)
+    expect(await client.getCode({ address })).toBeUndefined()
+
+    const signature = serializeErc6492Signature({
+      address: factory.address,
+      data: encodeFunctionData({
+        abi: factory.abi,
+        functionName: 'deploy',
+        args: [owner.address, salt],
+      }),
+      signature: await owner.sign({ hash: hashMessage(message) }),
+    })
+
+    await expect(
+      signatures.verifyWalletSignature(
+        { address, message, signature },
+        deployments.getDeployment(foundry.id)
+      )
+    ).resolves.toBe(true)
+  })
+})
@@ -0,0 +1,122 @@
+import { serializeErc6492Signature, verifyMessage } from 'viem'
+import { getCode, verifyMessage as verifyMessageOnChain } from 'viem/actions'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+import { getDefaultDeployment, getDeployments } from '../config/deployments'
+import { verifyWalletSignature } from '../services/signatureVerification'
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('viem/actions', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    getCode: vi.fn(),
+    verifyMessage: vi.fn(),
+  }
+})
+
+const mockRecover = vi.mocked(verifyMessage)
+const mockGetCode = vi.mocked(getCode)
+const mockVerifyOnChain = vi.mocked(verifyMessageOnChain)
+
+const WALLET = ('0x' + 'A'.repeat(40)) as `0x${string}`
+const FACTORY = ('0x' + 'f'.repeat(40)) as `0x${string}`
+const SIGNATURE = ('0x' + 'a'.repeat(130)) as `0x${string}`
+const MESSAGE = 'Authenticate to Data Marketplace\nTimestamp: 1'
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockRecover.mockResolvedValue(false)
+  mockGetCode.mockResolvedValue(undefined)
+  mockVerifyOnChain.mockResolvedValue(true)
+})
+
+describe('verifyWalletSignature', () => {
+  it('accepts EOA signatures without calling the chain', async () => {
+    mockRecover.mockResolvedValue(true)
+
+    await expect(
+      verifyWalletSignature({
+        address: WALLET,
+        message: MESSAGE,
+        signature: SIGNATURE,
+      })
+    ).resolves.toBe(true)
+
+    expect(mockGetCode).not.toHaveBeenCalled()
+    expect(mockVerifyOnChain).not.toHaveBeenCalled()
+  })
+
+  it('rejects a bad signature from an address without code', async () => {
+    await expect(
+      verifyWalletSignature({
+        address: WALLET,
+        message: MESSAGE,
+        signature: SIGNATURE,
+      })
+    ).resolves.toBe(false)
+
+    expect(mockGetCode).toHaveBeenCalledWith(getDefaultDeployment().client, {
+      address: WALLET,
+    })
+    expect(mockVerifyOnChain).not.toHaveBeenCalled()
+  })
+
+  it('checks contract wallets through ERC-1271 on the given deployment', async () => {
+    mockRecover.mockRejectedValue(new Error('invalid signature length'))
+    mockGetCode.mockResolvedValue('0x6080')
+    const deployment = getDeployments()[0]!
+
+    await expect(
+      verifyWalletSignature(
+        { address: WALLET, message: MESSAGE, signature: '0x1234' },
+        deployment
+      )
+    ).resolves.toBe(true)
+
+    expect(mockVerifyOnChain).toHaveBeenCalledWith(deployment.client, {
+      address: WALLET,
+      message: MESSAGE,
+      signature: '0x1234',
+    })
+  })
+
+  it('reports an invalid contract wallet signature', async () => {
+    mockGetCode.mockResolvedValue('0x6080')
+    mockVerifyOnChain.mockResolvedValue(false)
+
+    await expect(
+      verifyWalletSignature({
+        address: WALLET,
+        message: MESSAGE,
+        signature: SIGNATURE,
+      })
+    ).resolves.toBe(false)
+  })
+
+  it('sends ERC-6492 signatures of undeployed accounts to the chain', async () => {
+    const signature = serializeErc6492Signature({
+      address: FACTORY,
+      data: '0xdeadbeef',
+      signature: SIGNATURE,
+    })
+
+    await expect(
+      verifyWalletSignature({ address: WALLET, message: MESSAGE, signature })
+    ).resolves.toBe(true)
+
+    expect(mockRecover).not.toHaveBeenCalled()
+    expect(mockGetCode).not.toHaveBeenCalled()
+    expect(mockVerifyOnChain).toHaveBeenCalledWith(
+      getDefaultDeployment().client,
+      { address: WALLET, message: MESSAGE, signature }
+    )
+  })
+})
@@ -2,6 +2,7 @@ import { decodeEventLog } from 'viem'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 import { publicClient } from '../config/chain.js'
+import { RpcQuorumError } from '../config/rpc.js'
 import { verifyPurchase, verifyPurchases } from '../services/txVerification.js'
 import * as mod from '../services/txVerification.js'
 import { TxVerificationErrorCode } from '../types/txVerification.js'
@@ -9,15 +10,22 @@ import { TxVerificationErrorCode } from '../types/txVerification.js'
 // --------------------
 // Mocks
 // --------------------
-vi.mock('../config/chain.js', () => ({
-  publicClient: {
+vi.mock('../config/chain.js', () => {
+  const publicClient = {
     getTransactionReceipt: vi.fn(),
     getBlockNumber: vi.fn(),
-  },
-  MARKETPLACE_ADDRESS: '0xmarketplace',
-  MARKETPLACE_ABI: [],
-  CONFIRMATIONS_REQUIRED: 2,
-}))
+  }
+
+  return {
+    publicClient,
+    wsClient: null,
+    RPC_URLS: ['https://rpc.test'],
+    MARKETPLACE_ADDRESS: '0xmarketplace',
+    MARKETPLACE_ABI: [],
+    CONFIRMATIONS_REQUIRED: 2,
+    INDEXER_START_BLOCK: null,
+  }
+})
 
 vi.mock('viem', async (importOriginal) => {
   const actual = await importOriginal<any>()
@@ -75,6 +83,17 @@ describe('verifyPurchase', () => {
     )
   })
 
+  it('throws RPC_QUORUM_FAILED when providers disagree', async () => {
+    vi.mocked(publicClient.getTransactionReceipt).mockRejectedValueOnce(
+      new RpcQuorumError('RPC providers did not agree')
+    )
+
+    await expect(verifyPurchase('0xtx', 1, '0xbuyer')).rejects.toHaveProperty(
+      'code',
+      TxVerificationErrorCode.RPC_QUORUM_FAILED
+    )
+  })
+
   it('throws TX_FAILED', async () => {
     vi.mocked(publicClient.getTransactionReceipt).mockResolvedValue({
       ...baseReceipt,
@@ -18,6 +18,7 @@ import {
   DeliverKeySchema,
   VerifyPurchaseSchema,
   ListingQuerySchema,
+  CreateBackfillJobSchema,
   // Helpers
   validate,
   validateSafe,
@@ -275,8 +276,10 @@ describe('UpdateListingSchema', () => {
     expect(UpdateListingSchema.safeParse({ title: 'New Title' }).success).toBe(
       true
     )
-    expect(UpdateListingSchema.safeParse({ active: false }).success).toBe(true)
-    expect(UpdateListingSchema.safeParse({}).success).toBe(true)
+    expect(
+      UpdateListingSchema.safeParse({ description: 'A longer description' })
+        .success
+    ).toBe(true)
   })
 
   it('should reject invalid partial updates', () => {
@@ -285,6 +288,15 @@ describe('UpdateListingSchema', () => {
       false
     )
   })
+
+  it('should reject empty updates and on-chain fields', () => {
+    expect(UpdateListingSchema.safeParse({}).success).toBe(false)
+    expect(UpdateListingSchema.safeParse({ active: false }).success).toBe(false)
+    expect(
+      UpdateListingSchema.safeParse({ title: 'New Title', priceUsdc: '1' })
+        .success
+    ).toBe(false)
+  })
 })
 
 // ============================================================================
@@ -475,6 +487,54 @@ describe('ListingQuerySchema', () => {
   })
 })
 
+describe('CreateBackfillJobSchema', () => {
+  it('should accept a block range and default to a live run', () => {
+    const result = CreateBackfillJobSchema.parse({ fromBlock: 1, toBlock: 10 })
+
+    expect(result).toEqual({
+      fromBlock: 1,
+      toBlock: 10,
+      retryFailed: false,
+      dryRun: false,
+    })
+  })
+
+  it('should accept retryFailed without a range', () => {
+    const result = CreateBackfillJobSchema.safeParse({ retryFailed: true })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject retryFailed combined with a range', () => {
+    const result = CreateBackfillJobSchema.safeParse({
+      retryFailed: true,
+      fromBlock: 1,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('should require both ends of the range', () => {
+    const result = CreateBackfillJobSchema.safeParse({ fromBlock: 1 })
+    expect(result.success).toBe(false)
+  })
+
+  it('should reject an inverted range', () => {
+    const result = CreateBackfillJobSchema.safeParse({
+      fromBlock: 10,
+      toBlock: 1,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('should reject unknown event types', () => {
+    const result = CreateBackfillJobSchema.safeParse({
+      fromBlock: 1,
+      toBlock: 10,
+      eventTypes: ['Transfer'],
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
 // ============================================================================
 // Helper Function Tests
 // ============================================================================
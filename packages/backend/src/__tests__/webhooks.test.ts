@@ -0,0 +1,530 @@
+import { createHmac } from 'node:crypto'
+import { lookup } from 'node:dns/promises'
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import request from 'supertest'
+import { verifyMessage } from 'viem'
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  type MockedFunction,
+} from 'vitest'
+
+import app from '../index'
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  MAX_WEBHOOKS_PER_SELLER,
+  deliverDueWebhooks,
+  deliverWebhook,
+  dispatchOutbox,
+  signWebhookPayload,
+} from '../services/webhooks'
+
+process.env.NODE_ENV = 'test'
+
+const mocks = vi.hoisted(() => ({
+  webhookCount: vi.fn(),
+  webhookCreate: vi.fn(),
+  webhookFindMany: vi.fn(),
+  webhookFindUnique: vi.fn(),
+  webhookDelete: vi.fn(),
+  deliveryCreateMany: vi.fn(),
+  deliveryUpdate: vi.fn(),
+  deliveryFindMany: vi.fn(),
+  emailDeliveryCreateMany: vi.fn(),
+  outboxFindMany: vi.fn(),
+  outboxUpdate: vi.fn(),
+}))
+
+vi.mock('viem', async (importOriginal) => {
+  const actual = await importOriginal<any>()
+  return {
+    ...actual,
+    verifyMessage: vi.fn(),
+  }
+})
+
+vi.mock('node:dns/promises', () => ({ lookup: vi.fn() }))
+
+vi.mock('../config/db.js', () => {
+  const prisma = {
+    webhook: {
+      count: mocks.webhookCount,
+      create: mocks.webhookCreate,
+      findMany: mocks.webhookFindMany,
+      findUnique: mocks.webhookFindUnique,
+      delete: mocks.webhookDelete,
+    },
+    webhookDelivery: {
+      createMany: mocks.deliveryCreateMany,
+      update: mocks.deliveryUpdate,
+      findMany: mocks.deliveryFindMany,
+    },
+    emailDelivery: {
+      createMany: mocks.emailDeliveryCreateMany,
+    },
+    notificationOutbox: {
+      findMany: mocks.outboxFindMany,
+      update: mocks.outboxUpdate,
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) =>
+      Promise.all(operations)
+    ),
+  }
+
+  return {
+    prisma,
+    default: prisma,
+    checkDatabaseHealth: vi.fn().mockResolvedValue(true),
+    disconnectDatabase: vi.fn(),
+  }
+})
+
+const mockVerifyMessage = verifyMessage as MockedFunction<typeof verifyMessage>
+const mockLookup = lookup as unknown as MockedFunction<
+  () => Promise<{ address: string; family: number }[]>
+>
+
+const SELLER_ADDRESS = '0x' + 'B'.repeat(40)
+const OTHER_ADDRESS = '0x' + 'C'.repeat(40)
+const VALID_SIGNATURE = '0x' + 'a'.repeat(130)
+const WEBHOOK_ID = 'cklbqxp9c0000s0p7m0lhw1q7'
+const SECRET = 'whsec_test'
+
+function buildAuthHeader(address: string): string {
+  const ts = Math.floor(Date.now() / 1000)
+  return `Signature ${address}:${ts}:${VALID_SIGNATURE}`
+}
+
+// --------------------
+// Local receiver
+// --------------------
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+let receiver: Server
+let receiverUrl: string
+let received: ReceivedRequest[] = []
+let responseStatus = 200
+
+beforeAll(async () => {
+  receiver = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      received.push({ headers: req.headers, body })
+      res.statusCode = responseStatus
+      res.end('ok')
+    })
+  })
+  await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve))
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => receiver.close(resolve))
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  received = []
+  responseStatus = 200
+  delete process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS
+  mockVerifyMessage.mockResolvedValue(true)
+  mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+  mocks.webhookCount.mockResolvedValue(0)
+  mocks.deliveryUpdate.mockResolvedValue({})
+})
+
+function makeDelivery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'delivery-1',
+    attempts: 0,
+    webhook: { id: WEBHOOK_ID, url: receiverUrl, secret: SECRET },
+    outbox: {
+      id: 'outbox-1',
+      eventType: 'purchase.completed',
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+      payload: { purchaseId: 'p1' },
+    },
+    ...overrides,
+  }
+}
+
+describe('signWebhookPayload', () => {
+  it('is an HMAC-SHA256 of timestamp and body', () => {
+    const expected = createHmac('sha256', SECRET)
+      .update('1700000000.{"a":1}')
+      .digest('hex')
+
+    expect(signWebhookPayload(SECRET, '1700000000', '{"a":1}')).toBe(
+      `sha256=${expected}`
+    )
+  })
+})
+
+describe('deliverWebhook', () => {
+  // The test receiver listens on loopback
+  beforeEach(() => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS = 'true'
+  })
+
+  it('POSTs a signed payload and marks the delivery delivered', async () => {
+    const outcome = await deliverWebhook(makeDelivery())
+
+    expect(outcome).toBe('delivered')
+    expect(received).toHaveLength(1)
+
+    const [{ headers, body }] = received as [ReceivedRequest]
+    expect(JSON.parse(body)).toEqual({
+      id: 'outbox-1',
+      type: 'purchase.completed',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      data: { purchaseId: 'p1' },
+    })
+    expect(headers['x-webhook-event']).toBe('purchase.completed')
+    expect(headers['x-webhook-delivery']).toBe('delivery-1')
+    expect(headers['x-webhook-signature']).toBe(
+      signWebhookPayload(SECRET, headers['x-webhook-timestamp'] as string, body)
+    )
+    expect(mocks.deliveryUpdate).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({
+        status: 'DELIVERED',
+        attempts: 1,
+        lastStatusCode: 200,
+        nextAttemptAt: null,
+        deliveredAt: expect.any(Date),
+      }),
+    })
+  })
+
+  it('schedules a retry with backoff on a non-2xx response', async () => {
+    responseStatus = 500
+    const before = Date.now()
+
+    const outcome = await deliverWebhook(makeDelivery({ attempts: 2 }))
+
+    expect(outcome).toBe('retrying')
+    const { data } = mocks.deliveryUpdate.mock.calls[0]![0]
+    expect(data).toMatchObject({
+      status: 'PENDING',
+      attempts: 3,
+      lastStatusCode: 500,
+      lastError: 'HTTP 500',
+    })
+    // Third failure waits 4 minutes
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+      before + 4 * 60_000
+    )
+  })
+
+  it('records connection errors', async () => {
+    const outcome = await deliverWebhook(
+      makeDelivery({
+        webhook: { id: WEBHOOK_ID, url: 'http://127.0.0.1:1/', secret: SECRET },
+      })
+    )
+
+    expect(outcome).toBe('retrying')
+    expect(mocks.deliveryUpdate.mock.calls[0]![0].data).toMatchObject({
+      status: 'PENDING',
+      lastStatusCode: null,
+      lastError: expect.any(String),
+    })
+  })
+
+  it('refuses hosts that now resolve to a private address', async () => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS
+    mockLookup.mockResolvedValue([{ address: '169.254.169.254', family: 4 }])
+
+    const outcome = await deliverWebhook(
+      makeDelivery({
+        webhook: {
+          id: WEBHOOK_ID,
+          url: 'https://seller.example/hooks',
+          secret: SECRET,
+        },
+      })
+    )
+
+    expect(outcome).toBe('retrying')
+    expect(mocks.deliveryUpdate.mock.calls[0]![0].data).toMatchObject({
+      status: 'PENDING',
+      lastStatusCode: null,
+      lastError: 'Webhook host resolves to a private address',
+    })
+  })
+
+  it('gives up after the last attempt', async () => {
+    responseStatus = 410
+
+    const outcome = await deliverWebhook(
+      makeDelivery({ attempts: MAX_WEBHOOK_ATTEMPTS - 1 })
+    )
+
+    expect(outcome).toBe('failed')
+    expect(mocks.deliveryUpdate.mock.calls[0]![0].data).toMatchObject({
+      status: 'FAILED',
+      attempts: MAX_WEBHOOK_ATTEMPTS,
+      nextAttemptAt: null,
+    })
+  })
+})
+
+describe('deliverDueWebhooks', () => {
+  beforeEach(() => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS = 'true'
+    mocks.outboxFindMany.mockResolvedValue([])
+  })
+
+  it('counts retries apart from deliveries that gave up', async () => {
+    const unreachable = {
+      id: WEBHOOK_ID,
+      url: 'http://127.0.0.1:1/',
+      secret: SECRET,
+    }
+    mocks.deliveryFindMany.mockResolvedValue([
+      makeDelivery(),
+      makeDelivery({ id: 'delivery-2', webhook: unreachable }),
+      makeDelivery({
+        id: 'delivery-3',
+        attempts: MAX_WEBHOOK_ATTEMPTS - 1,
+        webhook: unreachable,
+      }),
+    ])
+
+    expect(await deliverDueWebhooks()).toEqual({
+      dispatched: 0,
+      attempted: 3,
+      delivered: 1,
+      retrying: 1,
+      failed: 1,
+    })
+  })
+})
+
+describe('dispatchOutbox', () => {
+  it('creates a delivery for every webhook subscribed to the event', async () => {
+    const now = new Date('2026-01-01T00:00:00.000Z')
+    mocks.outboxFindMany.mockResolvedValue([
+      {
+        id: 'outbox-1',
+        eventType: 'purchase.key_bound',
+        sellerAddress: SELLER_ADDRESS.toLowerCase(),
+      },
+    ])
+    mocks.webhookFindMany.mockResolvedValue([
+      { id: 'all-events', events: [] },
+      { id: 'key-bound', events: ['purchase.key_bound'] },
+      { id: 'sales-only', events: ['purchase.completed'] },
+    ])
+
+    await expect(dispatchOutbox(now)).resolves.toBe(1)
+
+    expect(mocks.outboxFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { dispatchedAt: null, availableAt: { lte: now } },
+      })
+    )
+    expect(mocks.deliveryCreateMany).toHaveBeenCalledWith({
+      data: [
+        { webhookId: 'all-events', outboxId: 'outbox-1' },
+        { webhookId: 'key-bound', outboxId: 'outbox-1' },
+      ],
+      skipDuplicates: true,
+    })
+    expect(mocks.outboxUpdate).toHaveBeenCalledWith({
+      where: { id: 'outbox-1' },
+      data: { dispatchedAt: now },
+    })
+  })
+})
+
+describe('seller webhook API', () => {
+  it('registers a webhook and returns its secret once', async () => {
+    mocks.webhookCreate.mockImplementation(async ({ data }: any) => ({
+      id: WEBHOOK_ID,
+      url: data.url,
+      events: data.events,
+    }))
+
+    const res = await request(app)
+      .post('/api/seller/webhooks')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({
+        url: 'https://seller.example/hooks',
+        events: ['purchase.completed'],
+      })
+
+    expect(res.status).toBe(201)
+    expect(res.body).toMatchObject({
+      id: WEBHOOK_ID,
+      url: 'https://seller.example/hooks',
+      events: ['purchase.completed'],
+      secret: expect.stringMatching(/^whsec_[0-9a-f]{48}$/),
+    })
+    expect(mocks.webhookCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          sellerAddress: SELLER_ADDRESS.toLowerCase(),
+        }),
+      })
+    )
+  })
+
+  it('requires authentication', async () => {
+    const res = await request(app)
+      .post('/api/seller/webhooks')
+      .send({ url: 'https://seller.example/hooks' })
+
+    expect(res.status).toBe(401)
+  })
+
+  it('rejects unknown events and non-http URLs', async () => {
+    const res = await request(app)
+      .post('/api/seller/webhooks')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ url: 'ftp://seller.example/hooks', events: ['listing.sold'] })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('Validation failed')
+  })
+
+  it('rejects plain http in production', async () => {
+    process.env.NODE_ENV = 'production'
+
+    const res = await request(app)
+      .post('/api/seller/webhooks')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ url: 'http://seller.example/hooks' })
+
+    process.env.NODE_ENV = 'test'
+    expect(res.status).toBe(400)
+  })
+
+  it.each([
+    'https://169.254.169.254/latest/meta-data',
+    'https://10.0.0.5/hooks',
+    'https://localhost/hooks',
+    'https://[::1]/hooks',
+    'https://[::ffff:127.0.0.1]/hooks',
+  ])('rejects private address %s', async (url) => {
+    const res = await request(app)
+      .post('/api/seller/webhooks')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ url })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('Validation failed')
+    expect(mocks.webhookCreate).not.toHaveBeenCalled()
+  })
+
+  it('rejects hostnames that resolve to a private address', async () => {
+    mockLookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.1.2.3', family: 4 },
+    ])
+
+    const res = await request(app)
+      .post('/api/seller/webhooks')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ url: 'https://internal.seller.example/hooks' })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('INVALID_URL')
+    expect(mocks.webhookCreate).not.toHaveBeenCalled()
+  })
+
+  it('rejects hostnames that do not resolve', async () => {
+    mockLookup.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'))
+
+    const res = await request(app)
+      .post('/api/seller/webhooks')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ url: 'https://missing.seller.example/hooks' })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe('INVALID_URL')
+  })
+
+  it('limits webhooks per seller', async () => {
+    mocks.webhookCount.mockResolvedValue(MAX_WEBHOOKS_PER_SELLER)
+
+    const res = await request(app)
+      .post('/api/seller/webhooks')
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+      .send({ url: 'https://seller.example/hooks' })
+
+    expect(res.status).toBe(409)
+    expect(res.body.error).toBe('LIMIT_REACHED')
+  })
+
+  it("does not let a seller delete another seller's webhook", async () => {
+    mocks.webhookFindUnique.mockResolvedValue({
+      id: WEBHOOK_ID,
+      sellerAddress: OTHER_ADDRESS.toLowerCase(),
+    })
+
+    const res = await request(app)
+      .delete(`/api/seller/webhooks/${WEBHOOK_ID}`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+
+    expect(res.status).toBe(404)
+    expect(mocks.webhookDelete).not.toHaveBeenCalled()
+  })
+
+  it('lists the delivery log newest first', async () => {
+    mocks.webhookFindUnique.mockResolvedValue({
+      id: WEBHOOK_ID,
+      sellerAddress: SELLER_ADDRESS.toLowerCase(),
+    })
+    mocks.deliveryFindMany.mockResolvedValue([
+      {
+        id: 'delivery-2',
+        status: 'FAILED',
+        attempts: 8,
+        lastStatusCode: 500,
+        outbox: {
+          id: 'outbox-2',
+          eventType: 'purchase.completed',
+          createdAt: new Date('2026-01-01T00:00:00.000Z'),
+        },
+      },
+    ])
+
+    const res = await request(app)
+      .get(`/api/seller/webhooks/${WEBHOOK_ID}/deliveries`)
+      .set('Authorization', buildAuthHeader(SELLER_ADDRESS))
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({
+      deliveries: [
+        {
+          id: 'delivery-2',
+          status: 'FAILED',
+          attempts: 8,
+          lastStatusCode: 500,
+          eventId: 'outbox-2',
+          eventType: 'purchase.completed',
+          eventCreatedAt: '2026-01-01T00:00:00.000Z',
+        },
+      ],
+      nextCursor: null,
+    })
+    expect(mocks.deliveryFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { webhookId: WEBHOOK_ID },
+        orderBy: { id: 'desc' },
+      })
+    )
+  })
+})
@@ -1,10 +1,18 @@
-import { createPublicClient, http, getContract } from 'viem'
+import { getContract, type PublicClient, type WebSocketTransport } from 'viem'
 import { baseSepolia } from 'viem/chains'
 
+import DataMarketplaceABI from '../../../contracts/deployments/base-sepolia.json' assert { type: 'json' }
+import { logger } from '../lib/logger.js'
+
+import {
+  createFailoverClient,
+  createSubscriptionClient,
+  parseRpcUrls,
+} from './rpc.js'
+
 // Import ABI directly from deployments
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore - JSON import
-import DataMarketplaceABI from '../../../contracts/deployments/base-sepolia.json' assert { type: 'json' }
 
 /**
  * DataMarketplace contract ABI
@@ -28,22 +36,39 @@ export const BASE_SEPOLIA_RPC_URL =
   process.env['BASE_SEPOLIA_RPC_URL'] || 'https://sepolia.base.org'
 
 /**
- * HTTP transport configuration with retry logic
+ * RPC providers for Base Sepolia, in order of preference
+ * BASE_SEPOLIA_RPC_URLS takes a comma-separated list; when unset the single
+ * BASE_SEPOLIA_RPC_URL is used
  */
-const transport = http(BASE_SEPOLIA_RPC_URL, {
-  retryCount: 3,
-  retryDelay: 1000,
-  timeout: 30_000,
-})
+export const RPC_URLS = (() => {
+  const urls = parseRpcUrls(process.env['BASE_SEPOLIA_RPC_URLS'])
+  return urls.length ? urls : [BASE_SEPOLIA_RPC_URL]
+})()
 
 /**
  * Public client for Base Sepolia
  * Used for reading contract state and fetching transaction receipts
+ * Fails over between RPC_URLS
  */
-export const publicClient = createPublicClient({
-  chain: baseSepolia,
-  transport,
-})
+export const publicClient = createFailoverClient(baseSepolia, RPC_URLS)
+
+/**
+ * Optional WebSocket RPC URL for Base Sepolia
+ * When set, the event listener subscribes to new blocks and marketplace logs
+ * instead of relying on polling alone
+ */
+export const BASE_SEPOLIA_WS_URL = process.env['BASE_SEPOLIA_WS_URL'] || null
+
+/**
+ * Public client over WebSocket, used only for subscriptions
+ * Null when no WebSocket URL is configured
+ */
+export const wsClient: PublicClient<
+  WebSocketTransport,
+  typeof baseSepolia
+> | null = BASE_SEPOLIA_WS_URL
+  ? createSubscriptionClient(baseSepolia, BASE_SEPOLIA_WS_URL)
+  : null
 
 /**
  * Typed contract instance for DataMarketplace
@@ -64,7 +89,7 @@ export async function checkChainHealth(): Promise<number | null> {
     const blockNumber = await publicClient.getBlockNumber()
     return Number(blockNumber)
   } catch (error) {
-    console.error('Chain health check failed:', error)
+    logger.error('Chain health check failed', { err: error })
     return null
   }
 }
@@ -80,4 +105,13 @@ export const CONFIRMATIONS_REQUIRED = Number(
   process.env['CHAIN_CONFIRMATIONS'] || 2
 )
 
+/**
+ * First block the indexer scans when it has no checkpoint yet
+ * (typically the contract deployment block). When unset, a fresh indexer
+ * starts a few blocks behind the chain head.
+ */
+export const INDEXER_START_BLOCK = process.env['INDEXER_START_BLOCK']
+  ? BigInt(process.env['INDEXER_START_BLOCK'])
+  : null
+
 export default publicClient
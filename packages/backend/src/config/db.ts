@@ -1,5 +1,7 @@
 import { PrismaClient } from '@prisma/client'
 
+import { logger } from '../lib/logger.js'
+
 /**
  * Prisma client singleton for database operations.
  *
@@ -38,7 +40,7 @@ export async function checkDatabaseHealth(): Promise<boolean> {
     await prisma.$queryRaw`SELECT 1`
     return true
   } catch (error) {
-    console.error('Database health check failed:', error)
+    logger.error('Database health check failed', { err: error })
     return false
   }
 }
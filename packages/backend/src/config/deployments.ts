@@ -0,0 +1,186 @@
+import type {
+  Chain,
+  PublicClient,
+  TransactionReceipt,
+  Transport,
+  WebSocketTransport,
+} from 'viem'
+import { base, baseSepolia, foundry } from 'viem/chains'
+import { z } from 'zod'
+
+import {
+  CONFIRMATIONS_REQUIRED,
+  INDEXER_START_BLOCK,
+  MARKETPLACE_ADDRESS,
+  RPC_URLS,
+  publicClient,
+  wsClient,
+} from './chain.js'
+import {
+  RPC_QUORUM,
+  createFailoverClient,
+  createSubscriptionClient,
+  getReceiptWithQuorum,
+  getRpcProviderStatus,
+} from './rpc.js'
+
+/**
+ * Chains a marketplace deployment may live on
+ */
+export const SUPPORTED_CHAINS: Record<number, Chain> = {
+  [base.id]: base,
+  [baseSepolia.id]: baseSepolia,
+  [foundry.id]: foundry,
+}
+
+/**
+ * One DataMarketplace contract on one chain, with the clients used to index
+ * and verify it
+ */
+export interface Deployment {
+  chainId: number
+  name: string
+  chain: Chain
+  marketplaceAddress: `0x${string}`
+  /** Lowercased marketplace address, as stored in the database */
+  contractAddress: string
+  client: PublicClient<Transport, Chain>
+  wsClient: PublicClient<WebSocketTransport, Chain> | null
+  rpcUrls: string[]
+  confirmations: number
+  startBlock: bigint | null
+}
+
+const DeploymentConfigSchema = z.object({
+  chainId: z.number().int().positive(),
+  name: z.string().min(1).optional(),
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address'),
+  rpcUrls: z.array(z.string().url()).min(1),
+  wsUrl: z.string().url().optional(),
+  startBlock: z.number().int().nonnegative().optional(),
+  confirmations: z.number().int().nonnegative().optional(),
+})
+
+const DeploymentsConfigSchema = z.array(DeploymentConfigSchema).min(1)
+
+type DeploymentConfig = z.infer<typeof DeploymentConfigSchema>
+
+/**
+ * The single Base Sepolia deployment configured through the
+ * BASE_SEPOLIA_* and MARKETPLACE_CONTRACT_ADDRESS variables
+ */
+function legacyDeployment(): Deployment {
+  return {
+    chainId: baseSepolia.id,
+    name: baseSepolia.name,
+    chain: baseSepolia,
+    marketplaceAddress: MARKETPLACE_ADDRESS,
+    contractAddress: MARKETPLACE_ADDRESS.toLowerCase(),
+    client: publicClient as PublicClient<Transport, Chain>,
+    wsClient: wsClient as PublicClient<WebSocketTransport, Chain> | null,
+    rpcUrls: RPC_URLS,
+    confirmations: CONFIRMATIONS_REQUIRED,
+    startBlock: INDEXER_START_BLOCK,
+  }
+}
+
+function buildDeployment(config: DeploymentConfig): Deployment {
+  const chain = SUPPORTED_CHAINS[config.chainId]
+  if (!chain) {
+    throw new Error(`Unsupported chain id ${config.chainId}`)
+  }
+
+  return {
+    chainId: chain.id,
+    name: config.name ?? chain.name,
+    chain,
+    marketplaceAddress: config.address as `0x${string}`,
+    contractAddress: config.address.toLowerCase(),
+    client: createFailoverClient(chain, config.rpcUrls),
+    wsClient: config.wsUrl
+      ? createSubscriptionClient(chain, config.wsUrl)
+      : null,
+    rpcUrls: config.rpcUrls,
+    confirmations: config.confirmations ?? CONFIRMATIONS_REQUIRED,
+    startBlock: config.startBlock != null ? BigInt(config.startBlock) : null,
+  }
+}
+
+/**
+ * Parse MARKETPLACE_DEPLOYMENTS, a JSON array of
+ * `{ chainId, address, rpcUrls, wsUrl?, startBlock?, confirmations?, name? }`.
+ * The first entry is the default deployment for requests that do not name a
+ * chain. Falls back to the legacy single Base Sepolia deployment when unset
+ */
+export function parseDeployments(value: string | undefined): Deployment[] {
+  if (!value?.trim()) {
+    return [legacyDeployment()]
+  }
+
+  const parsed = DeploymentsConfigSchema.safeParse(JSON.parse(value))
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid MARKETPLACE_DEPLOYMENTS: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        .join('; ')}`
+    )
+  }
+
+  const seen = new Set<number>()
+  for (const config of parsed.data) {
+    if (seen.has(config.chainId)) {
+      throw new Error(
+        `Invalid MARKETPLACE_DEPLOYMENTS: chain ${config.chainId} is configured more than once`
+      )
+    }
+    seen.add(config.chainId)
+  }
+
+  return parsed.data.map(buildDeployment)
+}
+
+let deployments: Deployment[] | null = null
+
+export function getDeployments(): Deployment[] {
+  deployments ??= parseDeployments(process.env['MARKETPLACE_DEPLOYMENTS'])
+  return deployments
+}
+
+export function getDefaultDeployment(): Deployment {
+  return getDeployments()[0]!
+}
+
+export function getDeployment(chainId: number): Deployment | undefined {
+  return getDeployments().find((deployment) => deployment.chainId === chainId)
+}
+
+/**
+ * Fetch a receipt for verification. When RPC_QUORUM > 1 the receipt must be
+ * confirmed by that many of the deployment's providers, so a single lying or
+ * out-of-sync RPC cannot get a forged listing or purchase accepted
+ */
+export async function getVerifiedTransactionReceipt(
+  deployment: Deployment,
+  hash: `0x${string}`
+): Promise<TransactionReceipt> {
+  if (RPC_QUORUM > 1) {
+    return getReceiptWithQuorum(
+      deployment.chain,
+      deployment.rpcUrls,
+      hash,
+      RPC_QUORUM
+    )
+  }
+
+  return deployment.client.getTransactionReceipt({ hash })
+}
+
+/**
+ * Per-provider request stats for /health, grouped by deployment
+ */
+export function getRpcStatus() {
+  return getDeployments().map((deployment) => ({
+    chainId: deployment.chainId,
+    providers: getRpcProviderStatus(deployment.rpcUrls),
+  }))
+}
@@ -0,0 +1,247 @@
+import {
+  createPublicClient,
+  fallback,
+  http,
+  type Chain,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+  type Transport,
+  type WebSocketTransport,
+  webSocket,
+} from 'viem'
+
+import { rpcErrorsTotal } from '../services/metrics.js'
+
+const RANK_INTERVAL_MS = 30_000
+const UNHEALTHY_AFTER_FAILURES = 3
+
+/**
+ * Minimum number of providers that must return an identical receipt for
+ * security-sensitive reads. 1 disables quorum checks.
+ */
+export const RPC_QUORUM = Number(process.env['RPC_QUORUM'] || 1)
+
+export interface RpcProviderStatus {
+  url: string
+  healthy: boolean
+  /** Share of successful requests, 0-1; null before the first request */
+  score: number | null
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  lastError: string | null
+  lastErrorAt: Date | null
+  lastSuccessAt: Date | null
+}
+
+type ProviderStats = Omit<RpcProviderStatus, 'url' | 'healthy' | 'score'>
+
+const providerStats = new Map<string, ProviderStats>()
+
+/**
+ * Parse a comma-separated list of RPC URLs, dropping blanks and duplicates.
+ */
+export function parseRpcUrls(value: string | undefined): string[] {
+  return [
+    ...new Set(
+      (value ?? '')
+        .split(',')
+        .map((url) => url.trim())
+        .filter(Boolean)
+    ),
+  ]
+}
+
+/**
+ * Provider URLs often embed an API key in the path or query string, so only
+ * the origin is reported.
+ */
+function redactUrl(url: string): string {
+  try {
+    return new URL(url).origin
+  } catch {
+    return 'invalid-url'
+  }
+}
+
+function getStats(url: string): ProviderStats {
+  let stats = providerStats.get(url)
+  if (!stats) {
+    stats = {
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+      lastErrorAt: null,
+      lastSuccessAt: null,
+    }
+    providerStats.set(url, stats)
+  }
+  return stats
+}
+
+export function recordRpcResponse(url: string, error?: Error): void {
+  const stats = getStats(url)
+
+  if (error) {
+    stats.failures++
+    stats.consecutiveFailures++
+    stats.lastError = error.message.split('\n')[0] ?? error.message
+    stats.lastErrorAt = new Date()
+  } else {
+    stats.successes++
+    stats.consecutiveFailures = 0
+    stats.lastSuccessAt = new Date()
+  }
+}
+
+export function getRpcProviderStatus(urls: string[]): RpcProviderStatus[] {
+  return urls.map((url) => {
+    const stats = getStats(url)
+    const total = stats.successes + stats.failures
+
+    return {
+      url: redactUrl(url),
+      healthy: stats.consecutiveFailures < UNHEALTHY_AFTER_FAILURES,
+      score: total ? stats.successes / total : null,
+      ...stats,
+    }
+  })
+}
+
+function providerTransport(url: string) {
+  return http(url, { retryCount: 0, timeout: 30_000 })
+}
+
+/**
+ * Public client that fails over between the given providers. With more than
+ * one provider, viem periodically ranks them by latency and stability and
+ * sends requests to the best one first.
+ */
+export function createFailoverClient<TChain extends Chain>(
+  chain: TChain,
+  urls: string[]
+): PublicClient<Transport, TChain> {
+  const transport = fallback(urls.map(providerTransport), {
+    rank:
+      urls.length > 1 ? { interval: RANK_INTERVAL_MS, sampleCount: 10 } : false,
+    retryCount: 3,
+    retryDelay: 1000,
+  })
+
+  return createPublicClient({
+    chain,
+    transport: (options) => {
+      const instance = transport(options)
+      instance.value?.onResponse(
+        ({ method, transport: provider, status, error }) => {
+          const url = (provider.value as { url?: string } | undefined)?.url
+          if (url)
+            recordRpcResponse(url, status === 'error' ? error : undefined)
+          if (status === 'error') {
+            rpcErrorsTotal.inc({ chain_id: chain.id, method })
+          }
+        }
+      )
+      return instance
+    },
+  })
+}
+
+/**
+ * Public client over WebSocket, used only for subscriptions. Reconnects on
+ * its own and keeps the socket alive through idle periods.
+ */
+export function createSubscriptionClient<TChain extends Chain>(
+  chain: TChain,
+  url: string
+): PublicClient<WebSocketTransport, TChain> {
+  return createPublicClient({
+    chain,
+    transport: webSocket(url, {
+      keepAlive: { interval: 30_000 },
+      reconnect: { attempts: 5, delay: 2_000 },
+      timeout: 30_000,
+    }),
+  })
+}
+
+export class RpcQuorumError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RpcQuorumError'
+  }
+}
+
+function receiptFingerprint(receipt: TransactionReceipt): string {
+  return JSON.stringify([
+    receipt.blockHash,
+    receipt.status,
+    receipt.logs.map((log) => [
+      log.address,
+      log.logIndex,
+      log.topics,
+      log.data,
+    ]),
+  ])
+}
+
+/**
+ * Fetch a transaction receipt from every provider and return it only if at
+ * least `quorum` providers agree on its block, status and logs.
+ */
+export async function getReceiptWithQuorum(
+  chain: Chain,
+  urls: string[],
+  hash: Hash,
+  quorum: number
+): Promise<TransactionReceipt> {
+  if (urls.length < quorum) {
+    throw new RpcQuorumError(
+      `Quorum of ${quorum} requires at least ${quorum} RPC providers, ${urls.length} configured`
+    )
+  }
+
+  const results = await Promise.allSettled(
+    urls.map(async (url) => {
+      const client = createPublicClient({
+        chain,
+        transport: providerTransport(url),
+      })
+      try {
+        const receipt = await client.getTransactionReceipt({ hash })
+        recordRpcResponse(url)
+        return receipt
+      } catch (error) {
+        recordRpcResponse(url, error as Error)
+        throw error
+      }
+    })
+  )
+
+  const groups = new Map<
+    string,
+    { receipt: TransactionReceipt; count: number }
+  >()
+  for (const result of results) {
+    if (result.status !== 'fulfilled') continue
+
+    const key = receiptFingerprint(result.value)
+    const group = groups.get(key)
+    if (group) {
+      group.count++
+    } else {
+      groups.set(key, { receipt: result.value, count: 1 })
+    }
+  }
+
+  const agreed = [...groups.values()].find((group) => group.count >= quorum)
+  if (!agreed) {
+    throw new RpcQuorumError(
+      `RPC providers did not agree on receipt for ${hash} (quorum ${quorum})`
+    )
+  }
+
+  return agreed.receipt
+}
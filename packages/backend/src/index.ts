@@ -12,79 +12,173 @@ import express, {
 import helmet from 'helmet'
 
 import { checkDatabaseHealth, disconnectDatabase } from './config/db.js'
+import {
+  getDefaultDeployment,
+  getDeployment,
+  getRpcStatus,
+} from './config/deployments.js'
+import { logger } from './lib/logger.js'
+import { METRICS_CONTENT_TYPE } from './lib/metrics.js'
 import { VerifyPurchaseSchema } from './lib/validation.js'
+import { requestLogging } from './middleware/logging.js'
+import { recordHttpMetrics } from './middleware/metrics.js'
+import { RATE_LIMIT_HEADERS, rateLimit } from './middleware/rateLimit.js'
+import adminRouter from './routes/admin.js'
+import authRouter from './routes/auth.js'
+import eventsRouter from './routes/events.js'
 import listingsRouter from './routes/listings.js'
+import notificationsRouter from './routes/notifications.js'
 import purchasesRouter from './routes/purchases.js'
+import sellerRouter from './routes/seller.js'
+import { startEmailWorker, stopEmailWorker } from './services/email.js'
 import {
   startPurchaseListener,
   stopPurchaseListener,
 } from './services/eventListener.js'
+import {
+  startEventRetryWorker,
+  stopEventRetryWorker,
+} from './services/eventRetry.js'
+import {
+  getLeaderStatus,
+  startLeaderElection,
+  stopLeaderElection,
+} from './services/leaderElection.js'
+import { registry } from './services/metrics.js'
 import { getListenerHealth } from './services/monitoring.js'
+import {
+  startRateLimitPruner,
+  stopRateLimitPruner,
+} from './services/rateLimit.js'
 import { verifyPurchase } from './services/txVerification'
+import { startWebhookWorker, stopWebhookWorker } from './services/webhooks.js'
 
 const PORT = process.env['BACKEND_PORT'] || 3001
 const CORS_ORIGINS = process.env['CORS_ORIGINS']?.split(',') || [
   'http://localhost:3000',
 ]
+const METRICS_TOKEN = process.env['METRICS_TOKEN']
+// Proxy hops in front of the API (Express `trust proxy`), so req.ip is the
+// client address that rate limits are keyed by
+const TRUST_PROXY = process.env['TRUST_PROXY']
 const isTest = process.env['NODE_ENV'] === 'test'
 
+const serverLogger = logger.child({ component: 'server' })
+
 const app: Application = express()
 
+if (TRUST_PROXY) {
+  app.set(
+    'trust proxy',
+    /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY
+  )
+}
+
+app.use(requestLogging)
+app.use(recordHttpMetrics)
 app.use(helmet())
 app.use(
   cors({
     origin: CORS_ORIGINS,
     credentials: true,
+    exposedHeaders: RATE_LIMIT_HEADERS,
   })
 )
 app.use(json({ limit: '10mb' }))
 app.use(urlencoded({ extended: true }))
 
+// Per-IP ceiling on every API request; route groups add their own limits
+app.use('/api', rateLimit('api'))
+
 // --------------------
 // Health
 // --------------------
 app.get('/health', async (_req, res) => {
   const dbHealthy = await checkDatabaseHealth()
-  const listenerHealth = await getListenerHealth()
+  const [listenerHealth, leader] = await Promise.all([
+    getListenerHealth(),
+    getLeaderStatus(),
+  ])
 
   res.status(dbHealthy ? 200 : 503).json({
     status: dbHealthy ? 'ok' : 'degraded',
     services: {
       database: dbHealthy ? 'connected' : 'disconnected',
       listener: listenerHealth,
+      leader,
+      rpc: getRpcStatus(),
     },
   })
 })
 
 // --------------------
-// Verify purchase
+// Prometheus metrics
 // --------------------
-app.post('/verify', async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const parsed = VerifyPurchaseSchema.safeParse(req.body)
-    if (!parsed.success) {
-      return res.status(400).json({ error: parsed.error.flatten() })
-    }
-
-    const { txHash, expectedListingId, expectedBuyer } = parsed.data
-
-    const verified = await verifyPurchase(
-      txHash as `0x${string}`,
-      expectedListingId,
-      expectedBuyer as `0x${string}`
-    )
+app.get('/metrics', async (req: Request, res: Response, next: NextFunction) => {
+  if (
+    METRICS_TOKEN &&
+    req.headers.authorization !== `Bearer ${METRICS_TOKEN}`
+  ) {
+    return res.status(401).json({ error: 'Unauthorized' })
+  }
 
-    res.json({
-      data: {
-        ...verified,
-        amountUsdc: verified.amountUsdc.toString(),
-      },
-    })
+  try {
+    res.set('Content-Type', METRICS_CONTENT_TYPE)
+    res.send(await registry.render())
   } catch (err) {
     next(err)
   }
 })
 
+// --------------------
+// Verify purchase
+// --------------------
+// Outside /api, so it carries its own per-IP limit
+app.post(
+  '/verify',
+  rateLimit('verify'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = VerifyPurchaseSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.flatten() })
+      }
+
+      const { chainId, txHash, expectedListingId, expectedBuyer } = parsed.data
+
+      const deployment =
+        chainId !== undefined ? getDeployment(chainId) : getDefaultDeployment()
+      if (!deployment) {
+        return res.status(400).json({
+          error: 'UNSUPPORTED_CHAIN',
+          message: `No marketplace deployment on chain ${chainId}`,
+        })
+      }
+
+      const verified = await verifyPurchase(
+        txHash as `0x${string}`,
+        expectedListingId,
+        expectedBuyer as `0x${string}`,
+        deployment
+      )
+
+      res.json({
+        data: {
+          ...verified,
+          amountUsdc: verified.amountUsdc.toString(),
+        },
+      })
+    } catch (err) {
+      next(err)
+    }
+  }
+)
+
+// --------------------
+// Sign-In with Ethereum sessions
+// --------------------
+app.use('/api/auth', rateLimit('auth'), authRouter)
+
 // --------------------
 // Listings API
 // --------------------
@@ -94,8 +188,24 @@ app.use('/api/listings', listingsRouter)
 // Purchases + Seller API
 // --------------------
 app.use('/api/purchases', purchasesRouter)
+app.use('/api/seller', sellerRouter)
 app.use('/api/seller', purchasesRouter)
 
+// --------------------
+// Notifications API (inbox + email settings)
+// --------------------
+app.use('/api/notifications', notificationsRouter)
+
+// --------------------
+// Purchase status stream (SSE)
+// --------------------
+app.use('/api/events', eventsRouter)
+
+// --------------------
+// Admin API
+// --------------------
+app.use('/api/admin', adminRouter)
+
 // --------------------
 // 404
 // --------------------
@@ -106,8 +216,13 @@ app.use((_req: Request, res: Response) => {
 // --------------------
 // Error handler
 // --------------------
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-  console.error('Unhandled error:', err)
+app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
+  serverLogger.error('Unhandled error', {
+    requestId: res.locals['requestId'],
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    err,
+  })
   res.status(500).json({
     error: 'Internal server error',
     message:
@@ -119,14 +234,40 @@ let server: any
 
 if (!isTest) {
   server = app.listen(PORT, async () => {
-    console.log(`Server running on http://localhost:${PORT}`)
-    console.log(`Health check: http://localhost:${PORT}/health`)
+    serverLogger.info('Server listening', {
+      url: `http://localhost:${PORT}`,
+      health: `http://localhost:${PORT}/health`,
+    })
 
+    // Every instance serves the API; only the lease holder indexes
     try {
-      await startPurchaseListener()
-      console.log('[listener] PurchaseCompleted listener started')
+      await startLeaderElection({
+        onElected: async () => {
+          try {
+            await startPurchaseListener()
+            serverLogger.info('Marketplace event listener started')
+          } catch (err) {
+            serverLogger.error('Marketplace event listener failed to start', {
+              err,
+            })
+          }
+
+          startEventRetryWorker()
+          startWebhookWorker()
+          startEmailWorker()
+          startRateLimitPruner()
+        },
+        onDemoted: () => {
+          stopPurchaseListener()
+          stopEventRetryWorker()
+          stopWebhookWorker()
+          stopEmailWorker()
+          stopRateLimitPruner()
+          serverLogger.info('Marketplace event listener stopped')
+        },
+      })
     } catch (err) {
-      console.error('[listener] Failed to start:', err)
+      serverLogger.error('Failed to start leader election', { err })
     }
   })
 }
@@ -135,15 +276,14 @@ if (!isTest) {
 // Graceful shutdown
 // --------------------
 const shutdown = async (signal: string) => {
-  console.log(`${signal} received. Shutting down...`)
+  serverLogger.info('Shutting down', { signal })
 
+  // Stops the listener and retry worker if this instance is the leader and
+  // releases the lease so a standby takes over immediately
   try {
-    if (stopPurchaseListener) {
-      stopPurchaseListener()
-      console.log('[listener] Stopped')
-    }
+    await stopLeaderElection()
   } catch (err) {
-    console.error('[listener] Failed to stop:', err)
+    serverLogger.error('Failed to stop leader election', { err })
   }
 
   server?.close(async () => {
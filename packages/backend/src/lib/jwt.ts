@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/**
+ * Minimal HS256 JSON Web Tokens (RFC 7519) for session access tokens. Only
+ * the algorithm we issue is accepted, so `alg: none` and key-confusion
+ * tokens are rejected by construction.
+ */
+
+export interface JwtClaims {
+  sub: string
+  iat: number
+  exp: number
+  [claim: string]: unknown
+}
+
+export class JwtError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'MALFORMED' | 'BAD_SIGNATURE' | 'EXPIRED'
+  ) {
+    super(message)
+    this.name = 'JwtError'
+  }
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+function sign(input: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(input).digest()
+}
+
+export function signJwt(
+  claims: Omit<JwtClaims, 'iat' | 'exp'>,
+  secret: string,
+  ttlSeconds: number,
+  now = Date.now()
+): string {
+  const iat = Math.floor(now / 1000)
+  const payload = base64url(
+    JSON.stringify({ ...claims, iat, exp: iat + ttlSeconds })
+  )
+  const input = `${HEADER}.${payload}`
+
+  return `${input}.${base64url(sign(input, secret))}`
+}
+
+export function verifyJwt(
+  token: string,
+  secret: string,
+  now = Date.now()
+): JwtClaims {
+  const parts = token.split('.')
+  if (parts.length !== 3 || parts[0] !== HEADER) {
+    throw new JwtError('Malformed token', 'MALFORMED')
+  }
+
+  const [header, payload, signature] = parts as [string, string, string]
+  const expected = sign(`${header}.${payload}`, secret)
+  const actual = Buffer.from(signature, 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new JwtError('Invalid token signature', 'BAD_SIGNATURE')
+  }
+
+  let claims: unknown
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    throw new JwtError('Malformed token', 'MALFORMED')
+  }
+
+  if (
+    typeof claims !== 'object' ||
+    claims === null ||
+    typeof (claims as JwtClaims).sub !== 'string' ||
+    typeof (claims as JwtClaims).exp !== 'number'
+  ) {
+    throw new JwtError('Malformed token', 'MALFORMED')
+  }
+
+  if ((claims as JwtClaims).exp * 1000 <= now) {
+    throw new JwtError('Token expired', 'EXPIRED')
+  }
+
+  return claims as JwtClaims
+}
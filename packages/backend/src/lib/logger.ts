@@ -0,0 +1,132 @@
+/**
+ * Structured JSON logger. Each entry is one line on stdout (debug/info) or
+ * stderr (warn/error) carrying the fields of the surrounding log context
+ * (request id, poll id, job id, wallet address) so entries can be correlated.
+ */
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+export type LogFields = Record<string, unknown>
+
+const LEVEL_VALUES: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+/** Keys whose values are never written: signatures, public keys, secrets */
+const REDACTED_KEY =
+  /signature|publickey|authorization|privatekey|secret|token/i
+const REDACTED = '[REDACTED]'
+const MAX_DEPTH = 6
+
+function parseLevel(value: string | undefined): LogLevel {
+  const level = value?.trim().toLowerCase()
+  if (level && level in LEVEL_VALUES) return level as LogLevel
+  return process.env['NODE_ENV'] === 'test' ? 'silent' : 'info'
+}
+
+let threshold = LEVEL_VALUES[parseLevel(process.env['LOG_LEVEL'])]
+
+/** Override LOG_LEVEL at runtime; used by tests */
+export function setLogLevel(level: LogLevel): void {
+  threshold = LEVEL_VALUES[level]
+}
+
+const contextStorage = new AsyncLocalStorage<LogFields>()
+
+/**
+ * Run `fn` with `fields` added to every entry logged inside it, including
+ * from awaited calls. Nested contexts inherit the outer fields.
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn)
+}
+
+/** Add fields to the current context, e.g. once a request is authenticated */
+export function addLogContext(fields: LogFields): void {
+  const store = contextStorage.getStore()
+  if (store) Object.assign(store, fields)
+}
+
+export function getLogContext(): LogFields {
+  return { ...contextStorage.getStore() }
+}
+
+function serializeError(error: Error): LogFields {
+  const code = (error as { code?: unknown }).code
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined ? { code } : {}),
+    stack: error.stack,
+  }
+}
+
+function sanitize(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) return sanitize(serializeError(value), depth)
+  if (typeof value === 'bigint') return value.toString()
+  if (value instanceof Date) return value.toISOString()
+  if (value === null || typeof value !== 'object') return value
+  if (depth >= MAX_DEPTH) return '[Object]'
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, depth + 1))
+  }
+
+  const result: LogFields = {}
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = REDACTED_KEY.test(key) ? REDACTED : sanitize(item, depth + 1)
+  }
+  return result
+}
+
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  /** Logger whose entries always include `bindings` */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings })
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields)
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields)
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields)
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields)
+  }
+
+  private write(
+    level: Exclude<LogLevel, 'silent'>,
+    msg: string,
+    fields?: LogFields
+  ): void {
+    if (LEVEL_VALUES[level] < threshold) return
+
+    const entry = sanitize({
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...contextStorage.getStore(),
+      ...this.bindings,
+      ...fields,
+    })
+    const stream =
+      LEVEL_VALUES[level] >= LEVEL_VALUES.warn ? process.stderr : process.stdout
+    stream.write(`${JSON.stringify(entry)}\n`)
+  }
+}
+
+export const logger = new Logger()
@@ -0,0 +1,228 @@
+/**
+ * Minimal Prometheus metrics registry rendered in the text exposition format
+ * (https://prometheus.io/docs/instrumenting/exposition_formats/).
+ * Only counters, gauges and histograms are needed, so there is no client
+ * library dependency.
+ */
+
+import { logger } from './logger.js'
+
+export type Labels = Record<string, string | number>
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+]
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((name) => [name, String(labels[name])])
+  )
+}
+
+function renderLabels(labels: Labels): string {
+  const names = Object.keys(labels)
+  if (names.length === 0) return ''
+  return `{${names
+    .map((name) => `${name}="${escapeLabelValue(String(labels[name]))}"`)
+    .join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+interface Metric {
+  name: string
+  render(): Promise<string[]>
+}
+
+abstract class LabelledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  protected entry(labels: Labels, init: () => T) {
+    const key = labelKey(labels)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels, value: init() }
+      this.series.set(key, entry)
+    }
+    return entry
+  }
+
+  /** Drop every series; used by tests */
+  reset(): void {
+    this.series.clear()
+  }
+
+  protected abstract renderSeries(): string[]
+
+  async render(): Promise<string[]> {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSeries(),
+    ]
+  }
+}
+
+export class Counter extends LabelledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter')
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) =>
+        `${this.name}${renderLabels(labels)} ${formatValue(value)}`
+    )
+  }
+}
+
+export class Gauge extends LabelledMetric<number> {
+  /**
+   * @param collect refreshes the gauge right before each scrape, for values
+   *   that are cheaper to read on demand than to keep up to date
+   */
+  constructor(
+    name: string,
+    help: string,
+    private readonly collect?: (gauge: Gauge) => Promise<void> | void
+  ) {
+    super(name, help, 'gauge')
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.series.get(labelKey(labels))?.value
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) =>
+        `${this.name}${renderLabels(labels)} ${formatValue(value)}`
+    )
+  }
+
+  override async render(): Promise<string[]> {
+    if (this.collect) {
+      try {
+        await this.collect(this)
+      } catch (error) {
+        logger.error('Failed to collect metric', {
+          metric: this.name,
+          err: error,
+        })
+      }
+    }
+    return super.render()
+  }
+}
+
+interface HistogramValue {
+  counts: number[]
+  sum: number
+  count: number
+}
+
+export class Histogram extends LabelledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, 'histogram')
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]!++
+    })
+    entry.sum += value
+    entry.count++
+  }
+
+  /** Start timing; call the returned function to record seconds elapsed. */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const start = process.hrtime.bigint()
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9
+      this.observe({ ...labels, ...extraLabels }, seconds)
+      return seconds
+    }
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value.count ?? 0
+  }
+
+  protected renderSeries(): string[] {
+    const lines: string[] = []
+
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${renderLabels({ ...labels, le: formatValue(bound) })} ${value.counts[index]}`
+        )
+      })
+      lines.push(
+        `${this.name}_bucket${renderLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+        `${this.name}_sum${renderLabels(labels)} ${formatValue(value.sum)}`,
+        `${this.name}_count${renderLabels(labels)} ${value.count}`
+      )
+    }
+
+    return lines
+  }
+}
+
+export class Registry {
+  private readonly metrics = new Map<string, Metric>()
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`)
+    }
+    this.metrics.set(metric.name, metric)
+    return metric
+  }
+
+  async render(): Promise<string> {
+    const blocks = await Promise.all(
+      [...this.metrics.values()].map((metric) => metric.render())
+    )
+    return blocks.flat().join('\n') + '\n'
+  }
+}
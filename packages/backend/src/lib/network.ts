@@ -0,0 +1,89 @@
+/**
+ * Checks for outbound requests to URLs supplied by users (seller webhooks),
+ * so the server cannot be pointed at itself, the private network or a cloud
+ * metadata endpoint such as 169.254.169.254.
+ */
+import { lookup } from 'node:dns/promises'
+import net from 'node:net'
+
+const privateRanges = new net.BlockList()
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  privateRanges.addSubnet(prefix, bits, 'ipv4')
+}
+for (const [prefix, bits] of [
+  ['::', 128], // unspecified
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64 translation of IPv4 addresses
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  privateRanges.addSubnet(prefix, bits, 'ipv6')
+}
+
+/**
+ * True for loopback, private, link-local and other addresses that are not
+ * reachable on the public internet. IPv4-mapped IPv6 addresses are checked as
+ * IPv4. Anything that is not an IP address is treated as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(.+)$/i.exec(address)?.[1]
+  if (mapped && net.isIPv4(mapped)) return isPrivateAddress(mapped)
+
+  const family = net.isIP(address)
+  if (family === 4) return privateRanges.check(address, 'ipv4')
+  if (family === 6) return privateRanges.check(address, 'ipv6')
+  return true
+}
+
+/**
+ * True if a URL hostname is `localhost` or a private IP literal. Hostnames
+ * that need DNS are not resolved here; see resolvesToPrivateAddress.
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[(.*)\]$/, '$1')
+    .replace(/\.$/, '')
+  if (host === 'localhost' || host.endsWith('.localhost')) return true
+  return net.isIP(host) !== 0 && isPrivateAddress(host)
+}
+
+/**
+ * Resolves a URL hostname and returns true if any of its addresses is
+ * private. DNS failures are thrown to the caller.
+ */
+export async function resolvesToPrivateAddress(
+  hostname: string
+): Promise<boolean> {
+  if (isPrivateHostname(hostname)) return true
+
+  const host = hostname.replace(/^\[(.*)\]$/, '$1')
+  if (net.isIP(host) !== 0) return false
+
+  const addresses = await lookup(host, { all: true, verbatim: true })
+  return addresses.some(({ address }) => isPrivateAddress(address))
+}
+
+/**
+ * WEBHOOK_ALLOW_PRIVATE_HOSTS=true lets webhooks target local receivers during
+ * development. It is ignored in production.
+ */
+export function privateWebhookHostsAllowed(): boolean {
+  return (
+    process.env['WEBHOOK_ALLOW_PRIVATE_HOSTS'] === 'true' &&
+    process.env['NODE_ENV'] !== 'production'
+  )
+}
@@ -0,0 +1,253 @@
+/**
+ * Minimal SMTP client. Sends plain-text mail over `smtp://` (upgraded with
+ * STARTTLS when the server offers it) or `smtps://` (implicit TLS), with
+ * optional AUTH PLAIN credentials taken from the URL. Enough for a relay or
+ * a local catch-all server such as Mailpit; anything fancier belongs in a
+ * different EmailTransport.
+ */
+import { randomUUID } from 'node:crypto'
+import { once } from 'node:events'
+import net from 'node:net'
+import { hostname } from 'node:os'
+import tls from 'node:tls'
+
+export interface EmailMessage {
+  /** `address` or `Display Name <address>` */
+  from: string
+  to: string
+  subject: string
+  text: string
+}
+
+/** Anything that can send an EmailMessage; SmtpTransport is the default */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly responseCode?: number
+  ) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const FINAL_REPLY_LINE = /^(\d{3})(?: |$)/
+
+/** Strip line breaks so a value can't start a new header */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ')
+}
+
+/** RFC 2047 encoded-word for non-ASCII subjects */
+function encodeHeader(value: string): string {
+  const clean = headerValue(value)
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean
+  return `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`
+}
+
+/** Bare address from `Display Name <address>` */
+export function addressOf(mailbox: string): string {
+  const match = /<([^<>]+)>\s*$/.exec(mailbox)
+  return headerValue(match ? match[1]! : mailbox).trim()
+}
+
+/**
+ * RFC 5322 message with a base64 body. Base64 lines never start with `.`, so
+ * the DATA section needs no dot-stuffing.
+ */
+export function formatEmail(message: EmailMessage, date = new Date()): string {
+  const domain = addressOf(message.from).split('@')[1] || 'localhost'
+  const headers = [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ]
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'))
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n')
+    .replace(/\r\n$/, '')
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`
+}
+
+/** Reads SMTP replies off a socket, one command at a time */
+class SmtpConnection {
+  private buffer = ''
+  private failure: Error | null = null
+  private pending: {
+    resolve: (reply: SmtpReply) => void
+    reject: (error: Error) => void
+  } | null = null
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8')
+    this.flush()
+  }
+  private readonly onError = (error: Error) => this.fail(error)
+  private readonly onClose = () =>
+    this.fail(new SmtpError('SMTP connection closed'))
+
+  constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach()
+  }
+
+  private attach() {
+    this.socket.setTimeout(this.timeoutMs, () =>
+      this.socket.destroy(new SmtpError('SMTP connection timed out'))
+    )
+    this.socket.on('data', this.onData)
+    this.socket.on('error', this.onError)
+    this.socket.on('close', this.onClose)
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error
+    const pending = this.pending
+    this.pending = null
+    pending?.reject(this.failure)
+  }
+
+  private flush() {
+    if (!this.pending) return
+
+    const lines = this.buffer.split(/\r?\n/)
+    // The last element is an incomplete line (or '')
+    for (let i = 0; i < lines.length - 1; i++) {
+      const match = FINAL_REPLY_LINE.exec(lines[i]!)
+      if (!match) continue
+
+      this.buffer = lines.slice(i + 1).join('\n')
+      const { resolve } = this.pending
+      this.pending = null
+      resolve({
+        code: Number(match[1]),
+        lines: lines.slice(0, i + 1).map((line) => line.slice(4)),
+      })
+      return
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  /** Send `line` (or nothing, for the greeting) and expect one of `expected` */
+  async command(line: string | null, ...expected: number[]) {
+    if (line !== null) this.socket.write(`${line}\r\n`)
+
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      // Only the verb: AUTH lines carry credentials
+      const verb = line === null ? 'Greeting' : line.split(' ')[0]
+      throw new SmtpError(
+        `SMTP ${verb} rejected: ${reply.code} ${reply.lines.join(' ')}`,
+        reply.code
+      )
+    }
+    return reply
+  }
+
+  /** Hand the socket to TLS; the plain socket keeps its error listener */
+  async startTls(servername: string) {
+    this.socket.setTimeout(0)
+    this.socket.off('data', this.onData)
+
+    this.socket = tls.connect({ socket: this.socket, servername })
+    this.attach()
+    await once(this.socket, 'secureConnect')
+  }
+
+  close() {
+    this.socket.destroy()
+  }
+}
+
+/**
+ * EmailTransport for `smtp://[user:pass@]host[:port]` (default port 587) or
+ * `smtps://...` (default port 465). One connection per message.
+ */
+export class SmtpTransport implements EmailTransport {
+  private readonly url: URL
+
+  constructor(
+    url: string,
+    private readonly timeoutMs = DEFAULT_TIMEOUT_MS
+  ) {
+    this.url = new URL(url)
+    if (this.url.protocol !== 'smtp:' && this.url.protocol !== 'smtps:') {
+      throw new SmtpError(`Unsupported SMTP URL protocol ${this.url.protocol}`)
+    }
+  }
+
+  private get implicitTls() {
+    return this.url.protocol === 'smtps:'
+  }
+
+  private async connect(): Promise<net.Socket> {
+    const host = this.url.hostname
+    const port = Number(this.url.port) || (this.implicitTls ? 465 : 587)
+    const socket = this.implicitTls
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port })
+
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new SmtpError('SMTP connection timed out'))
+    )
+    await once(socket, this.implicitTls ? 'secureConnect' : 'connect')
+    return socket
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const connection = new SmtpConnection(await this.connect(), this.timeoutMs)
+
+    try {
+      await connection.command(null, 220)
+      const ehlo = await connection.command(`EHLO ${hostname()}`, 250)
+
+      if (
+        !this.implicitTls &&
+        ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))
+      ) {
+        await connection.command('STARTTLS', 220)
+        await connection.startTls(this.url.hostname)
+        await connection.command(`EHLO ${hostname()}`, 250)
+      }
+
+      if (this.url.username) {
+        const credentials = Buffer.from(
+          `\0${decodeURIComponent(this.url.username)}\0${decodeURIComponent(this.url.password)}`
+        ).toString('base64')
+        await connection.command(`AUTH PLAIN ${credentials}`, 235)
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, 250)
+      await connection.command(`RCPT TO:<${addressOf(message.to)}>`, 250, 251)
+      await connection.command('DATA', 354)
+      await connection.command(`${formatEmail(message)}\r\n.`, 250)
+      await connection.command('QUIT', 221).catch(() => undefined)
+    } finally {
+      connection.close()
+    }
+  }
+}
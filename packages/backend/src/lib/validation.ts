@@ -1,5 +1,7 @@
 import { z } from 'zod'
 
+import { isPrivateHostname, privateWebhookHostsAllowed } from './network.js'
+
 // ============================================================================
 // Regex Patterns
 // ============================================================================
@@ -28,6 +30,11 @@ export const txHashRegex = /^0x[a-fA-F0-9]{64}$/
  */
 export const bytes32Regex = /^0x[a-fA-F0-9]{64}$/
 
+/**
+ * Server-issued nonce (GET /api/auth/nonce), alphanumeric
+ */
+export const nonceRegex = /^[a-zA-Z0-9]{8,128}$/
+
 // ============================================================================
 // Base Schemas (Reusable)
 // ============================================================================
@@ -58,6 +65,11 @@ export const Bytes32Schema = z
   .string()
   .regex(bytes32Regex, 'Invalid bytes32 hash')
 
+/**
+ * Signed-message nonce validation
+ */
+export const NonceSchema = z.string().regex(nonceRegex, 'Invalid nonce')
+
 /**
  * priceUsdc must be raw USDC units (6 decimals).
  * Example: 10 USDC = "10000000"
@@ -74,6 +86,15 @@ export const UsdcDecimalSchema = z
   .string()
   .regex(/^\d+(\.\d{1,6})?$/, 'Invalid USDC amount')
 
+/**
+ * EVM chain id of a marketplace deployment
+ * Whether the chain is configured is checked against the deployment registry
+ */
+export const ChainIdSchema = z.coerce
+  .number()
+  .int()
+  .positive('Invalid chain id')
+
 /**
  * Listing category enum
  */
@@ -94,6 +115,7 @@ export const CategorySchema = z.enum([
  * Used by POST /listings endpoint
  */
 export const CreateListingSchema = z.object({
+  chainId: ChainIdSchema.optional(),
   txHash: TxHashSchema,
   dataCid: CidSchema,
   envelopeCid: CidSchema,
@@ -114,22 +136,31 @@ export const CreateListingSchema = z.object({
 })
 
 /**
- * Schema for updating a listing (partial)
+ * Schema for a seller's metadata edit (PATCH /api/listings/:id). Price and
+ * active state live on chain and cannot be edited here.
  */
-export const UpdateListingSchema = z.object({
-  title: z
-    .string()
-    .min(3, 'Title must be at least 3 characters')
-    .max(100, 'Title must be at most 100 characters')
-    .optional(),
-  description: z
-    .string()
-    .min(10, 'Description must be at least 10 characters')
-    .max(5000, 'Description must be at most 5000 characters')
-    .optional(),
-  category: CategorySchema.optional(),
-  active: z.boolean().optional(),
-})
+export const UpdateListingSchema = z
+  .object({
+    title: z
+      .string()
+      .min(3, 'Title must be at least 3 characters')
+      .max(100, 'Title must be at most 100 characters')
+      .optional(),
+    description: z
+      .string()
+      .min(10, 'Description must be at least 10 characters')
+      .max(5000, 'Description must be at most 5000 characters')
+      .optional(),
+    category: CategorySchema.optional(),
+  })
+  .strict()
+  .refine(
+    (data) =>
+      data.title !== undefined ||
+      data.description !== undefined ||
+      data.category !== undefined,
+    { message: 'At least one of title, description or category is required' }
+  )
 
 /**
  * Schema for creating a purchase record
@@ -154,12 +185,13 @@ export const BindKeySchema = z.object({
 
 /**
  * Extended schema for binding buyer public key
- * Adds timestamp for replay protection
+ * Adds timestamp and a single-use nonce for replay protection
  */
 export const BindKeyRequestSchema = z.object({
   publicKey: z.string().min(1, 'Public key is required'),
   signature: z.string().min(1, 'Signature is required'),
   timestamp: z.number().int().positive('Timestamp is required'),
+  nonce: NonceSchema,
 })
 
 /**
@@ -175,6 +207,7 @@ export const DeliverKeySchema = z.object({
  * Used by POST /purchases/verify endpoint
  */
 export const VerifyPurchaseSchema = z.object({
+  chainId: ChainIdSchema.optional(),
   txHash: TxHashSchema,
   expectedListingId: z.number().int().positive(),
   expectedBuyer: AddressSchema,
@@ -184,6 +217,7 @@ export const VerifyPurchaseSchema = z.object({
  * Schema for listing query parameters
  */
 export const ListingQuerySchema = z.object({
+  chainId: ChainIdSchema.optional(),
   category: CategorySchema.optional(),
   seller: AddressSchema.optional(),
   active: z
@@ -209,6 +243,227 @@ export const PaginationSchema = z.object({
  */
 export const PurchaseQuerySchema = PaginationSchema
 
+/**
+ * Marketplace event types the indexer handles
+ */
+export const MarketplaceEventTypeSchema = z.enum([
+  'ListingCreated',
+  'PurchaseCompleted',
+  'ListingDeactivated',
+  'Withdrawal',
+])
+
+/**
+ * Schema for starting a backfill job
+ * Used by POST /api/admin/backfill-jobs: either a block range or retryFailed
+ */
+export const CreateBackfillJobSchema = z
+  .object({
+    chainId: ChainIdSchema.optional(),
+    fromBlock: z.number().int().nonnegative().optional(),
+    toBlock: z.number().int().nonnegative().optional(),
+    retryFailed: z.boolean().default(false),
+    eventTypes: z.array(MarketplaceEventTypeSchema).min(1).optional(),
+    dryRun: z.boolean().default(false),
+  })
+  .superRefine((value, ctx) => {
+    const hasRange =
+      value.fromBlock !== undefined || value.toBlock !== undefined
+
+    if (value.retryFailed) {
+      if (hasRange) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'retryFailed cannot be combined with fromBlock/toBlock',
+          path: ['retryFailed'],
+        })
+      }
+      return
+    }
+
+    if (value.fromBlock === undefined || value.toBlock === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'fromBlock and toBlock are required unless retryFailed is set',
+        path: [value.fromBlock === undefined ? 'fromBlock' : 'toBlock'],
+      })
+    } else if (value.fromBlock > value.toBlock) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'fromBlock must not be greater than toBlock',
+        path: ['fromBlock'],
+      })
+    }
+  })
+
+/**
+ * Notification types a webhook can subscribe to
+ */
+export const NotificationEventTypeSchema = z.enum([
+  'purchase.completed',
+  'purchase.key_bound',
+  'purchase.key_delivered',
+  'withdrawal.available',
+])
+
+/**
+ * Webhook endpoint; plain http is only accepted outside production. Hosts
+ * that resolve to private addresses are rejected when the webhook is created
+ */
+export const WebhookUrlSchema = z
+  .string()
+  .max(2048)
+  .url('Invalid URL')
+  .refine((value) => {
+    const { protocol } = new URL(value)
+    return (
+      protocol === 'https:' ||
+      (protocol === 'http:' && process.env['NODE_ENV'] !== 'production')
+    )
+  }, 'Webhook URL must use https')
+  .refine(
+    (value) =>
+      privateWebhookHostsAllowed() ||
+      !isPrivateHostname(new URL(value).hostname),
+    'Webhook URL must not point to a private or local address'
+  )
+
+/**
+ * Used by POST /api/seller/webhooks. Omitted events subscribe to all of them
+ */
+export const CreateWebhookSchema = z.object({
+  url: WebhookUrlSchema,
+  events: z.array(NotificationEventTypeSchema).min(1).optional(),
+})
+
+/**
+ * Used by PUT /api/notifications/email
+ */
+export const NotificationEmailSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email').max(254),
+})
+
+/**
+ * Used by POST /api/notifications/email/verify
+ */
+export const VerifyNotificationEmailSchema = z.object({
+  code: z.string().trim().min(1).max(64),
+})
+
+/**
+ * Used by GET /api/notifications
+ */
+export const NotificationQuerySchema = PaginationSchema.extend({
+  unread: z
+    .string()
+    .transform((val) => val === 'true')
+    .optional(),
+})
+
+/**
+ * Used by POST /api/notifications/read. Omitted ids mark everything read
+ */
+export const MarkNotificationsReadSchema = z.object({
+  ids: z
+    .array(z.string().cuid('Invalid notification id'))
+    .min(1)
+    .max(100)
+    .optional(),
+})
+
+/**
+ * Used by POST /api/auth/verify: an EIP-4361 message and its signature
+ */
+export const SiweVerifySchema = z.object({
+  message: z.string().min(1).max(4096),
+  signature: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]+$/, 'Invalid signature format')
+    .max(20_000),
+})
+
+/**
+ * What an API key may do. Routes that take no scope never accept API keys
+ */
+export const ApiKeyScopeSchema = z.enum([
+  'listings:write',
+  'deliveries:read',
+  'deliveries:write',
+  'purchases:read',
+])
+
+/**
+ * Used by POST /api/auth/api-keys
+ */
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z
+    .array(ApiKeyScopeSchema)
+    .min(1)
+    .transform((scopes) => [...new Set(scopes)]),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+})
+
+/**
+ * Used by GET /api/admin/listings
+ */
+export const AdminListingQuerySchema = PaginationSchema.extend({
+  chainId: ChainIdSchema.optional(),
+  seller: AddressSchema.optional(),
+  hidden: z
+    .string()
+    .transform((val) => val === 'true')
+    .optional(),
+})
+
+/**
+ * Used by POST /api/admin/listings/:id/hide
+ */
+export const HideListingSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+})
+
+/**
+ * Delivery state of a purchase, in the order it moves through them
+ */
+export const PurchaseStatusSchema = z.enum([
+  'unverified',
+  'awaiting_key',
+  'awaiting_delivery',
+  'delivered',
+  'reorged',
+])
+
+/**
+ * Used by GET /api/admin/purchases
+ */
+export const AdminPurchaseQuerySchema = PaginationSchema.extend({
+  chainId: ChainIdSchema.optional(),
+  status: PurchaseStatusSchema.optional(),
+  buyer: AddressSchema.optional(),
+  seller: AddressSchema.optional(),
+  listingId: z.string().cuid('Invalid listing id').optional(),
+})
+
+/**
+ * Used by GET /api/admin/events
+ */
+export const AdminEventQuerySchema = PaginationSchema.extend({
+  chainId: ChainIdSchema.optional(),
+  eventType: MarketplaceEventTypeSchema.optional(),
+  status: z
+    .enum(['pending', 'processed', 'dead_lettered', 'discarded'])
+    .optional(),
+  txHash: TxHashSchema.optional(),
+})
+
+/**
+ * Used by GET /api/admin/stats
+ */
+export const AdminStatsQuerySchema = z.object({
+  chainId: ChainIdSchema.optional(),
+})
+
 // ============================================================================
 // Type Exports (Inferred from Schemas)
 // ============================================================================
@@ -223,6 +478,17 @@ export type VerifyPurchaseInput = z.infer<typeof VerifyPurchaseSchema>
 export type ListingQuery = z.infer<typeof ListingQuerySchema>
 export type PurchaseQuery = z.infer<typeof PurchaseQuerySchema>
 export type Pagination = z.infer<typeof PaginationSchema>
+export type CreateBackfillJobInput = z.infer<typeof CreateBackfillJobSchema>
+export type CreateWebhookInput = z.infer<typeof CreateWebhookSchema>
+export type NotificationEmailInput = z.infer<typeof NotificationEmailSchema>
+export type NotificationQuery = z.infer<typeof NotificationQuerySchema>
+export type SiweVerifyInput = z.infer<typeof SiweVerifySchema>
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeSchema>
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>
+export type AdminListingQuery = z.infer<typeof AdminListingQuerySchema>
+export type PurchaseStatus = z.infer<typeof PurchaseStatusSchema>
+export type AdminPurchaseQuery = z.infer<typeof AdminPurchaseQuerySchema>
+export type AdminEventQuery = z.infer<typeof AdminEventQuerySchema>
 export type Category = z.infer<typeof CategorySchema>
 
 // ============================================================================
@@ -1,22 +1,66 @@
 import type { NextFunction, Request, Response } from 'express'
-import { verifyMessage } from 'viem'
-
-import { AddressSchema } from '../lib/validation.js'
 
+import { addLogContext } from '../lib/logger.js'
+import { AddressSchema, type ApiKeyScope } from '../lib/validation.js'
+import { ApiKeyError, authenticateApiKey } from '../services/apiKeys.js'
+import { NonceError, consumeNonce } from '../services/nonce.js'
+import { SessionError, authenticateAccessToken } from '../services/session.js'
+import { verifyWalletSignature } from '../services/signatureVerification.js'
+
+/**
+ * Three schemes are accepted:
+ * - `Bearer <access token>` from a Sign-In with Ethereum session
+ *   (POST /api/auth/verify), valid for every purpose
+ * - the legacy `Signature <address>:<timestamp>[:<nonce>]:<sig>` header over
+ *   a fixed per-purpose message, kept while clients migrate to sessions
+ * - `ApiKey <key>` from POST /api/auth/api-keys, only on routes that name
+ *   a scope the key was minted with
+ *
+ * Single-use routes (listing creation, key delivery) only accept a signature
+ * header that names a nonce from GET /api/auth/nonce, and consume it, so the
+ * header cannot be replayed.
+ */
 const MAX_AGE_MS = 5 * 60 * 1000
 const SIGNATURE_SCHEME = 'signature'
-
-export type AuthenticatedRequest = Request & { walletAddress?: string }
+const SESSION_SCHEME = 'bearer'
+const API_KEY_SCHEME = 'apikey'
+
+export type AuthenticatedRequest = Request & {
+  walletAddress?: string
+  /** Set when the request was authenticated with a session access token */
+  sessionId?: string
+  /** Set when the request was authenticated with an API key */
+  apiKeyId?: string
+  /** Set by requireAdmin */
+  adminRole?: AdminRole
+}
 
 type ParsedAuthHeader = {
   address: string
   timestamp: string
+  nonce?: string
   signature: string
 }
 
-type AuthResult = { ok: true; address: string } | { ok: false; error: string }
+type AuthResult =
+  | { ok: true; address: string; sessionId?: string; apiKeyId?: string }
+  | {
+      ok: false
+      error: string
+      code?: 'SIGNATURE_REPLAYED' | 'INSUFFICIENT_SCOPE'
+    }
+
+export type AuthPurpose = 'listing' | 'listing-edit' | 'general'
 
-export type AuthPurpose = 'listing' | 'general'
+/** First line of the signed message for each purpose */
+const PURPOSE_ACTIONS: Record<AuthPurpose, string> = {
+  listing: 'Create listing on Data Marketplace',
+  'listing-edit': 'Edit listing on Data Marketplace',
+  general: 'Authenticate to Data Marketplace',
+}
+
+/** `owner` wallets own the marketplace contract; `admin` wallets operate it */
+export type AdminRole = 'owner' | 'admin'
 
 function parseAuthorizationHeader(value: string): ParsedAuthHeader | null {
   const [scheme, payload] = value.trim().split(/\s+/, 2)
@@ -29,14 +73,15 @@ function parseAuthorizationHeader(value: string): ParsedAuthHeader | null {
     return null
   }
 
-  const [address, timestamp, ...signatureParts] = parts
-  const signature = signatureParts.join(':')
+  const [address, timestamp, ...rest] = parts
+  const nonce = rest.length === 2 ? rest.shift() : undefined
+  const signature = rest.join(':')
 
-  if (!address || !timestamp || !signature) {
+  if (!address || !timestamp || !signature || nonce === '') {
     return null
   }
 
-  return { address, timestamp, signature }
+  return { address, timestamp, nonce, signature }
 }
 
 function isTimestampFresh(timestamp: string): boolean {
@@ -56,19 +101,67 @@ function isTimestampFresh(timestamp: string): boolean {
 
 function buildMessage(
   timestamp: string,
-  purpose: AuthPurpose = 'listing'
+  purpose: AuthPurpose = 'listing',
+  nonce?: string
 ): string {
-  if (purpose === 'listing') {
-    return `Create listing on Data Marketplace\nTimestamp: ${timestamp}`
+  const action = PURPOSE_ACTIONS[purpose]
+
+  return nonce
+    ? `${action}\nNonce: ${nonce}\nTimestamp: ${timestamp}`
+    : `${action}\nTimestamp: ${timestamp}`
+}
+
+async function authenticateSession(token: string): Promise<AuthResult> {
+  try {
+    const session = await authenticateAccessToken(token)
+    return {
+      ok: true,
+      address: session.walletAddress,
+      sessionId: session.sessionId,
+    }
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return { ok: false, error: error.message }
+    }
+    throw error
   }
+}
 
-  return `Authenticate to Data Marketplace\nTimestamp: ${timestamp}`
+async function authenticateKey(
+  key: string,
+  scope?: ApiKeyScope
+): Promise<AuthResult> {
+  try {
+    const apiKey = await authenticateApiKey(key, scope)
+    return {
+      ok: true,
+      address: apiKey.walletAddress,
+      apiKeyId: apiKey.apiKeyId,
+    }
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return error.code === 'INSUFFICIENT_SCOPE'
+        ? { ok: false, error: error.message, code: 'INSUFFICIENT_SCOPE' }
+        : { ok: false, error: error.message }
+    }
+    throw error
+  }
 }
 
 async function authenticate(
   value: string,
-  purpose: AuthPurpose = 'listing'
+  purpose: AuthPurpose = 'listing',
+  singleUse = false,
+  scope?: ApiKeyScope
 ): Promise<AuthResult> {
+  const [scheme, token] = value.trim().split(/\s+/, 2)
+  if (scheme?.toLowerCase() === SESSION_SCHEME && token) {
+    return authenticateSession(token)
+  }
+  if (scheme?.toLowerCase() === API_KEY_SCHEME && token) {
+    return authenticateKey(token, scope)
+  }
+
   const parsed = parseAuthorizationHeader(value)
   if (!parsed) {
     return { ok: false, error: 'Invalid authorization header' }
@@ -83,9 +176,13 @@ async function authenticate(
     return { ok: false, error: 'Signature expired' }
   }
 
-  const isValid = await verifyMessage({
+  if (singleUse && !parsed.nonce) {
+    return { ok: false, error: 'Signature must include a nonce' }
+  }
+
+  const isValid = await verifyWalletSignature({
     address: parsed.address as `0x${string}`,
-    message: buildMessage(parsed.timestamp, purpose),
+    message: buildMessage(parsed.timestamp, purpose, parsed.nonce),
     signature: parsed.signature as `0x${string}`,
   })
 
@@ -93,13 +190,54 @@ async function authenticate(
     return { ok: false, error: 'Invalid signature' }
   }
 
+  if (singleUse && parsed.nonce) {
+    try {
+      await consumeNonce(parsed.nonce)
+    } catch (error) {
+      if (error instanceof NonceError) {
+        return error.code === 'NONCE_REPLAYED'
+          ? { ok: false, error: error.message, code: 'SIGNATURE_REPLAYED' }
+          : { ok: false, error: error.message }
+      }
+      throw error
+    }
+  }
+
   return { ok: true, address: parsed.address.toLowerCase() }
 }
 
+/** Attach the authenticated wallet to the request and its log context */
+function setWalletAddress(
+  req: Request,
+  result: { address: string; sessionId?: string; apiKeyId?: string }
+): void {
+  ;(req as AuthenticatedRequest).walletAddress = result.address
+  if (result.sessionId) {
+    ;(req as AuthenticatedRequest).sessionId = result.sessionId
+  }
+  if (result.apiKeyId) {
+    ;(req as AuthenticatedRequest).apiKeyId = result.apiKeyId
+  }
+  addLogContext({ walletAddress: result.address })
+}
+
 function respondUnauthorized(res: Response, message: string): Response {
   return res.status(401).json({ error: message })
 }
 
+function respondAuthFailure(
+  res: Response,
+  result: Extract<AuthResult, { ok: false }>
+): Response {
+  if (result.code === 'SIGNATURE_REPLAYED') {
+    return res.status(409).json({ error: result.error, code: result.code })
+  }
+  if (result.code === 'INSUFFICIENT_SCOPE') {
+    return res.status(403).json({ error: result.error, code: result.code })
+  }
+  return respondUnauthorized(res, result.error)
+}
+
 export async function optionalAuth(
   req: Request,
   res: Response,
@@ -114,63 +252,137 @@ export async function optionalAuth(
   try {
     const result = await authenticate(header)
     if (!result.ok) {
-      respondUnauthorized(res, result.error)
+      respondAuthFailure(res, result)
       return
     }
 
-    ;(req as AuthenticatedRequest).walletAddress = result.address
+    setWalletAddress(req, result)
     next()
   } catch {
     respondUnauthorized(res, 'Invalid signature')
   }
 }
 
-export async function requireAuth(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> {
-  const header = req.header('authorization')
-  if (!header) {
-    respondUnauthorized(res, 'Missing authorization header')
-    return
-  }
-
-  try {
-    const result = await authenticate(header)
-    if (!result.ok) {
-      respondUnauthorized(res, result.error)
+function requireAuthFor(
+  purpose: AuthPurpose,
+  singleUse: boolean,
+  scope?: ApiKeyScope
+) {
+  return async function (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const header = req.header('authorization')
+    if (!header) {
+      respondUnauthorized(res, 'Missing authorization header')
       return
     }
 
-    ;(req as AuthenticatedRequest).walletAddress = result.address
-    next()
-  } catch {
-    respondUnauthorized(res, 'Invalid signature')
+    try {
+      const result = await authenticate(header, purpose, singleUse, scope)
+      if (!result.ok) {
+        respondAuthFailure(res, result)
+        return
+      }
+
+      setWalletAddress(req, result)
+      next()
+    } catch {
+      respondUnauthorized(res, 'Invalid signature')
+    }
+  }
+}
+
+/**
+ * Listing creation: a signature header is consumed and cannot be replayed.
+ * API keys need the listings:write scope
+ */
+export const requireAuth = requireAuthFor('listing', true, 'listings:write')
+
+/**
+ * Listing metadata edits. Signed over their own message so a captured
+ * creation header can't be used to edit, and consumed like requireAuth
+ */
+export const requireListingEditAuth = requireAuthFor(
+  'listing-edit',
+  true,
+  'listings:write'
+)
+
+/** Wallet auth only; API keys are refused */
+export const requireGeneralAuth = requireAuthFor('general', false)
+
+/**
+ * General auth for actions that must not be replayed (minting API keys): a
+ * signature header has to name a nonce, which is consumed. API keys are
+ * refused
+ */
+export const requireGeneralSingleUseAuth = requireAuthFor('general', true)
+
+/**
+ * General auth that also accepts an API key with `scope`. With `singleUse`,
+ * signature headers have to name a nonce, as for requireGeneralSingleUseAuth
+ */
+export function requireScopedAuth(scope: ApiKeyScope, singleUse = false) {
+  return requireAuthFor('general', singleUse, scope)
+}
+
+function parseAddressList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((address) => address.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Role of a wallet from OWNER_ADDRESSES (the contract owner) and
+ * ADMIN_ADDRESSES, or null for everyone else
+ */
+export function getAdminRole(walletAddress: string): AdminRole | null {
+  const address = walletAddress.toLowerCase()
+  if (parseAddressList(process.env['OWNER_ADDRESSES']).includes(address)) {
+    return 'owner'
+  }
+  if (parseAddressList(process.env['ADMIN_ADDRESSES']).includes(address)) {
+    return 'admin'
   }
+  return null
 }
 
-export async function requireGeneralAuth(
+/**
+ * General wallet auth restricted to the wallets listed in OWNER_ADDRESSES or
+ * ADMIN_ADDRESSES. API keys are refused.
+ */
+export async function requireAdmin(
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
-  const header = req.header('authorization')
-  if (!header) {
-    respondUnauthorized(res, 'Missing authorization header')
-    return
-  }
-
-  try {
-    const result = await authenticate(header, 'general')
-    if (!result.ok) {
-      respondUnauthorized(res, result.error)
+  await requireGeneralAuth(req, res, () => {
+    const walletAddress = (req as AuthenticatedRequest).walletAddress
+    const role = walletAddress ? getAdminRole(walletAddress) : null
+    if (!role) {
+      res.status(403).json({ error: 'Forbidden' })
       return
     }
 
-    ;(req as AuthenticatedRequest).walletAddress = result.address
+    ;(req as AuthenticatedRequest).adminRole = role
     next()
-  } catch {
-    respondUnauthorized(res, 'Invalid signature')
+  })
+}
+
+/**
+ * Restricts an admin route to the `owner` role. Runs after requireAdmin.
+ */
+export function requireOwner(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if ((req as AuthenticatedRequest).adminRole !== 'owner') {
+    res.status(403).json({ error: 'Forbidden', code: 'OWNER_ONLY' })
+    return
   }
+  next()
 }
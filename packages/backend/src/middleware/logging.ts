@@ -0,0 +1,52 @@
+import { randomUUID } from 'node:crypto'
+
+import type { NextFunction, Request, Response } from 'express'
+
+import { logger, runWithLogContext } from '../lib/logger.js'
+
+import type { AuthenticatedRequest } from './auth.js'
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+/** Incoming ids are reused only if they are short and header-safe */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+const httpLogger = logger.child({ component: 'http' })
+
+/**
+ * Give every request an id, echoed in X-Request-Id (a valid incoming one is
+ * kept so callers and proxies can correlate), run the rest of the chain in a
+ * log context carrying it, and log the request once the response is sent.
+ */
+export function requestLogging(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const incoming = req.header(REQUEST_ID_HEADER)
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID()
+  const start = process.hrtime.bigint()
+
+  res.locals['requestId'] = requestId
+  res.setHeader(REQUEST_ID_HEADER, requestId)
+
+  res.on('finish', () => {
+    const fields = {
+      requestId,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      durationMs: Number(process.hrtime.bigint() - start) / 1e6,
+      walletAddress: (req as AuthenticatedRequest).walletAddress,
+    }
+
+    if (res.statusCode >= 500) {
+      httpLogger.warn('Request failed', fields)
+    } else {
+      httpLogger.info('Request completed', fields)
+    }
+  })
+
+  runWithLogContext({ requestId }, next)
+}
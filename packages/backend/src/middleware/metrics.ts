@@ -0,0 +1,41 @@
+import type { NextFunction, Request, Response } from 'express'
+
+import { httpRequestDuration, httpRequestsTotal } from '../services/metrics.js'
+
+/**
+ * Count requests and record latency once the response is sent. Routes are
+ * labelled by their Express pattern (e.g. /api/listings/:id) so ids do not
+ * create one series per resource.
+ */
+export function recordHttpMetrics(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const endTimer = httpRequestDuration.startTimer()
+
+  res.on('finish', () => {
+    const baseUrl = (res.locals['routerBaseUrl'] as string | undefined) ?? ''
+    const route = req.route ? `${baseUrl}${req.route.path}` : 'unmatched'
+    const labels = { method: req.method, route, status: res.statusCode }
+
+    endTimer(labels)
+    httpRequestsTotal.inc(labels)
+  })
+
+  next()
+}
+
+/**
+ * Mounted first in each router. Express clears req.baseUrl when a request
+ * leaves the router (e.g. via next(error)), so keep the mount path for the
+ * route label.
+ */
+export function captureRouterBaseUrl(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  res.locals['routerBaseUrl'] = req.baseUrl
+  next()
+}
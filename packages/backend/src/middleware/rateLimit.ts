@@ -0,0 +1,103 @@
+import type { NextFunction, Request, Response } from 'express'
+
+import { logger } from '../lib/logger.js'
+import { rateLimitedTotal } from '../services/metrics.js'
+import {
+  getRateLimitPolicies,
+  hitRateLimit,
+  isRateLimitEnabled,
+  type RateLimitGroup,
+} from '../services/rateLimit.js'
+
+import type { AuthenticatedRequest } from './auth.js'
+
+const rateLimitLogger = logger.child({ component: 'rate-limit' })
+
+/** Response headers the frontend may read across origins */
+export const RATE_LIMIT_HEADERS = [
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'RateLimit-Policy',
+  'Retry-After',
+]
+
+/**
+ * Requests are counted per wallet once a route's auth middleware has run,
+ * and per client IP before that (see `trust proxy` for deployments behind a
+ * load balancer).
+ */
+function getSubject(req: Request): string {
+  const walletAddress = (req as AuthenticatedRequest).walletAddress
+  return walletAddress ? `wallet:${walletAddress}` : `ip:${req.ip ?? 'unknown'}`
+}
+
+/**
+ * Limit requests of one policy group, sending `RateLimit-*` headers and a
+ * 429 `{ error, code: 'RATE_LIMITED', retryAfter }` once the window's limit
+ * is used up. If the counter store fails, the request is let through.
+ */
+export function rateLimit(group: RateLimitGroup) {
+  return async function (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (!isRateLimitEnabled()) {
+      next()
+      return
+    }
+
+    let policy
+    try {
+      policy = getRateLimitPolicies()[group]
+    } catch (err) {
+      // Invalid RATE_LIMITS: surface it rather than silently not limiting
+      next(err)
+      return
+    }
+    const now = Date.now()
+
+    let bucket
+    try {
+      bucket = await hitRateLimit(group, getSubject(req), policy, now)
+    } catch (err) {
+      rateLimitLogger.warn('Rate limit store unavailable, not limiting', {
+        group,
+        err,
+      })
+      next()
+      return
+    }
+
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((bucket.resetAt.getTime() - now) / 1000)
+    )
+
+    const remaining = Math.max(0, policy.limit - bucket.count)
+    const limited = bucket.count > policy.limit
+
+    // With several groups on one route, report the one closest to its limit
+    const reported = res.getHeader('RateLimit-Remaining')
+    if (limited || reported === undefined || remaining < Number(reported)) {
+      res.set('RateLimit-Limit', String(policy.limit))
+      res.set('RateLimit-Remaining', String(remaining))
+      res.set('RateLimit-Reset', String(resetSeconds))
+      res.set('RateLimit-Policy', `${policy.limit};w=${policy.windowSeconds}`)
+    }
+
+    if (limited) {
+      rateLimitedTotal.inc({ group })
+      res.set('Retry-After', String(resetSeconds))
+      res.status(429).json({
+        error: 'Too many requests',
+        code: 'RATE_LIMITED',
+        retryAfter: resetSeconds,
+      })
+      return
+    }
+
+    next()
+  }
+}
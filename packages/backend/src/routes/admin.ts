@@ -0,0 +1,413 @@
+import {
+  Router,
+  type NextFunction,
+  type Request,
+  type Response,
+  type Router as ExpressRouter,
+} from 'express'
+
+import { getDefaultDeployment, getDeployment } from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
+import {
+  AdminEventQuerySchema,
+  AdminListingQuerySchema,
+  AdminPurchaseQuerySchema,
+  AdminStatsQuerySchema,
+  CreateBackfillJobSchema,
+  HideListingSchema,
+  PaginationSchema,
+} from '../lib/validation.js'
+import {
+  requireAdmin,
+  requireOwner,
+  type AuthenticatedRequest,
+} from '../middleware/auth.js'
+import { captureRouterBaseUrl } from '../middleware/metrics.js'
+import {
+  AdminError,
+  getEventLog,
+  getPlatformStats,
+  getPurchaseForAdmin,
+  hideListing,
+  listEventLogs,
+  listListingsForModeration,
+  listPurchasesForAdmin,
+  unhideListing,
+} from '../services/admin.js'
+import {
+  BackfillJobError,
+  cancelBackfillJob,
+  getBackfillJob,
+  listBackfillJobs,
+  startBackfillJob,
+} from '../services/backfillJobs.js'
+import {
+  EventRetryError,
+  discardDeadLetteredEvent,
+  listDeadLetteredEvents,
+  requeueDeadLetteredEvent,
+} from '../services/eventRetry.js'
+
+const router: ExpressRouter = Router()
+const adminLogger = logger.child({ component: 'admin' })
+
+router.use(captureRouterBaseUrl)
+router.use(requireAdmin)
+router.use((_req: Request, res: Response, next: NextFunction) => {
+  res.set('Cache-Control', 'no-store')
+  next()
+})
+
+function handleEventRetryError(error: unknown, res: Response): boolean {
+  if (!(error instanceof EventRetryError)) return false
+
+  res
+    .status(error.code === 'NOT_FOUND' ? 404 : 409)
+    .json({ error: error.message })
+  return true
+}
+
+router.get(
+  '/events/dead-letter',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = PaginationSchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const result = await listDeadLetteredEvents(parsed.data)
+
+      res.json(result)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.post(
+  '/events/:id/retry',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const status = await requeueDeadLetteredEvent(req.params['id'] as string)
+      adminLogger.info('Dead-lettered event requeued', {
+        eventId: req.params['id'],
+        status,
+      })
+
+      res.json({ id: req.params['id'], status })
+    } catch (error) {
+      if (handleEventRetryError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.post(
+  '/events/:id/discard',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const event = await discardDeadLetteredEvent(req.params['id'] as string)
+      adminLogger.info('Dead-lettered event discarded', { eventId: event.id })
+
+      res.json({ ...event, status: 'discarded' })
+    } catch (error) {
+      if (handleEventRetryError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+function handleBackfillJobError(error: unknown, res: Response): boolean {
+  if (!(error instanceof BackfillJobError)) return false
+
+  res
+    .status(error.code === 'NOT_FOUND' ? 404 : 409)
+    .json({ error: error.code, message: error.message })
+  return true
+}
+
+router.post(
+  '/backfill-jobs',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = CreateBackfillJobSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const { chainId, fromBlock, toBlock, retryFailed, eventTypes, dryRun } =
+        parsed.data
+
+      const deployment =
+        chainId !== undefined ? getDeployment(chainId) : getDefaultDeployment()
+      if (!deployment) {
+        return res.status(400).json({
+          error: 'UNSUPPORTED_CHAIN',
+          message: `No marketplace deployment on chain ${chainId}`,
+        })
+      }
+
+      const job = await startBackfillJob({
+        deployment,
+        fromBlock: fromBlock !== undefined ? BigInt(fromBlock) : undefined,
+        toBlock: toBlock !== undefined ? BigInt(toBlock) : undefined,
+        retryFailed,
+        eventTypes,
+        dryRun,
+        requestedBy: (req as AuthenticatedRequest).walletAddress!,
+      })
+
+      adminLogger.info('Backfill job queued', {
+        jobId: job.id,
+        chainId: job.chainId,
+        mode: job.mode,
+        fromBlock: job.fromBlock,
+        toBlock: job.toBlock,
+        dryRun: job.dryRun,
+      })
+      res.status(202).json(job)
+    } catch (error) {
+      if (handleBackfillJobError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.get(
+  '/backfill-jobs',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = PaginationSchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      res.json(await listBackfillJobs(parsed.data))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.get(
+  '/backfill-jobs/:id',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await getBackfillJob(req.params['id'] as string))
+    } catch (error) {
+      if (handleBackfillJobError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.post(
+  '/backfill-jobs/:id/cancel',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const job = await cancelBackfillJob(req.params['id'] as string)
+      adminLogger.info('Backfill job cancellation requested', {
+        jobId: job.id,
+        status: job.status,
+      })
+      res.json(job)
+    } catch (error) {
+      if (handleBackfillJobError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.get('/me', (req: Request, res: Response) => {
+  const { walletAddress, adminRole } = req as AuthenticatedRequest
+  res.json({ address: walletAddress, role: adminRole })
+})
+
+function handleAdminError(error: unknown, res: Response): boolean {
+  if (!(error instanceof AdminError)) return false
+
+  res
+    .status(error.code === 'NOT_FOUND' ? 404 : 409)
+    .json({ error: error.code, message: error.message })
+  return true
+}
+
+// --------------------
+// Platform stats
+// --------------------
+
+router.get(
+  '/stats',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = AdminStatsQuerySchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      res.json(await getPlatformStats(parsed.data.chainId))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// --------------------
+// Listing moderation
+// --------------------
+
+router.get(
+  '/listings',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = AdminListingQuerySchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      res.json(await listListingsForModeration(parsed.data))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.post(
+  '/listings/:id/hide',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = HideListingSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const admin = (req as AuthenticatedRequest).walletAddress!
+      const listing = await hideListing(
+        req.params['id'] as string,
+        admin,
+        parsed.data.reason
+      )
+      adminLogger.info('Listing hidden', {
+        listingId: listing.id,
+        admin,
+        reason: listing.hiddenReason,
+      })
+
+      res.json(listing)
+    } catch (error) {
+      if (handleAdminError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+// Any admin can take a listing down; only the owner can put it back
+router.post(
+  '/listings/:id/unhide',
+  requireOwner,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const listing = await unhideListing(req.params['id'] as string)
+      adminLogger.info('Listing unhidden', {
+        listingId: listing.id,
+        admin: (req as AuthenticatedRequest).walletAddress,
+      })
+
+      res.json(listing)
+    } catch (error) {
+      if (handleAdminError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+// --------------------
+// Purchases and deliveries
+// --------------------
+
+router.get(
+  '/purchases',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = AdminPurchaseQuerySchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      res.json(await listPurchasesForAdmin(parsed.data))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.get(
+  '/purchases/:id',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await getPurchaseForAdmin(req.params['id'] as string))
+    } catch (error) {
+      if (handleAdminError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+// --------------------
+// EventLog
+// --------------------
+
+router.get(
+  '/events',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = AdminEventQuerySchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      res.json(await listEventLogs(parsed.data))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.get(
+  '/events/:id',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await getEventLog(req.params['id'] as string))
+    } catch (error) {
+      if (handleAdminError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+export default router
@@ -0,0 +1,311 @@
+import {
+  Router,
+  type CookieOptions,
+  type NextFunction,
+  type Request,
+  type Response,
+  type Router as ExpressRouter,
+} from 'express'
+
+import { CreateApiKeySchema, SiweVerifySchema } from '../lib/validation.js'
+import {
+  requireGeneralAuth,
+  requireGeneralSingleUseAuth,
+  type AuthenticatedRequest,
+} from '../middleware/auth.js'
+import { captureRouterBaseUrl } from '../middleware/metrics.js'
+import {
+  ApiKeyError,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from '../services/apiKeys.js'
+import { createNonce } from '../services/nonce.js'
+import {
+  SessionError,
+  getSiweDomains,
+  refreshSession,
+  revokeAllSessions,
+  revokeSessionByRefreshToken,
+  signInWithEthereum,
+  type IssuedSession,
+} from '../services/session.js'
+
+const router: ExpressRouter = Router()
+
+router.use(captureRouterBaseUrl)
+router.use((_req: Request, res: Response, next: NextFunction) => {
+  res.set('Cache-Control', 'no-store')
+  next()
+})
+
+export const REFRESH_COOKIE = 'refresh_token'
+const REFRESH_COOKIE_PATH = '/api/auth'
+
+const SESSION_ERROR_STATUS: Record<SessionError['code'], number> = {
+  NOT_CONFIGURED: 503,
+  INVALID_MESSAGE: 400,
+  INVALID_DOMAIN: 400,
+  UNSUPPORTED_CHAIN: 400,
+  INVALID_NONCE: 401,
+  SIGNATURE_REPLAYED: 409,
+  INVALID_SIGNATURE: 401,
+  INVALID_SESSION: 401,
+}
+
+function handleSessionError(error: unknown, res: Response): boolean {
+  if (!(error instanceof SessionError)) return false
+
+  res
+    .status(SESSION_ERROR_STATUS[error.code])
+    .json({ error: error.code, message: error.message })
+  return true
+}
+
+/**
+ * The refresh token lives in an httpOnly cookie scoped to /api/auth, so page
+ * scripts never see it. Cross-site frontends need SESSION_COOKIE_SAMESITE=none
+ * (which implies Secure).
+ */
+function refreshCookieOptions(): CookieOptions {
+  const configured = process.env['SESSION_COOKIE_SAMESITE']?.toLowerCase()
+  const sameSite =
+    configured === 'none' || configured === 'strict' ? configured : 'lax'
+
+  return {
+    httpOnly: true,
+    secure: sameSite === 'none' || process.env['NODE_ENV'] === 'production',
+    sameSite,
+    path: REFRESH_COOKIE_PATH,
+  }
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join('='))
+      } catch {
+        return undefined
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Cookie-authenticated writes only from the frontend origins, so another
+ * site cannot refresh or end a session on the user's behalf. Requests without
+ * an Origin header (non-browser clients) are allowed.
+ */
+function isAllowedOrigin(req: Request): boolean {
+  const origin = req.header('origin')
+  if (!origin) return true
+
+  try {
+    return getSiweDomains().includes(new URL(origin).host)
+  } catch {
+    return false
+  }
+}
+
+function sendSession(res: Response, session: IssuedSession, status = 200) {
+  res.cookie(REFRESH_COOKIE, session.refreshToken, {
+    ...refreshCookieOptions(),
+    expires: session.expiresAt,
+  })
+
+  res.status(status).json({
+    address: session.walletAddress,
+    chainId: session.chainId,
+    accessToken: session.accessToken,
+    accessTokenExpiresAt: session.accessTokenExpiresAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+  })
+}
+
+/**
+ * Single-use nonce for a signed message: a SIWE sign-in, a signed action's
+ * Authorization header, or a bind-key request
+ */
+router.get(
+  '/nonce',
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { nonce, expiresAt } = await createNonce()
+      res.json({ nonce, expiresAt: expiresAt.toISOString() })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.post(
+  '/verify',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = SiweVerifySchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const session = await signInWithEthereum(
+        parsed.data.message,
+        parsed.data.signature as `0x${string}`,
+        req.header('user-agent')
+      )
+
+      sendSession(res, session, 201)
+    } catch (error) {
+      if (handleSessionError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.post(
+  '/refresh',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!isAllowedOrigin(req)) {
+        return res.status(403).json({ error: 'Forbidden' })
+      }
+
+      const refreshToken = readCookie(req, REFRESH_COOKIE)
+      if (!refreshToken) {
+        return res
+          .status(401)
+          .json({ error: 'INVALID_SESSION', message: 'Not signed in' })
+      }
+
+      sendSession(res, await refreshSession(refreshToken))
+    } catch (error) {
+      if (error instanceof SessionError) {
+        res.clearCookie(REFRESH_COOKIE, refreshCookieOptions())
+      }
+      if (handleSessionError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.get('/session', requireGeneralAuth, (req: Request, res: Response) => {
+  const { walletAddress, sessionId } = req as AuthenticatedRequest
+  res.json({ address: walletAddress, sessionId: sessionId ?? null })
+})
+
+/** End the session behind the refresh cookie and clear it */
+router.post(
+  '/logout',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!isAllowedOrigin(req)) {
+        return res.status(403).json({ error: 'Forbidden' })
+      }
+
+      const refreshToken = readCookie(req, REFRESH_COOKIE)
+      if (refreshToken) {
+        await revokeSessionByRefreshToken(refreshToken)
+      }
+
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions())
+      res.status(204).end()
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/** Sign the authenticated wallet out of every session */
+router.delete(
+  '/sessions',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      const revoked = await revokeAllSessions(walletAddress)
+
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions())
+      res.json({ revoked })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// --------------------
+// API keys
+// --------------------
+
+function handleApiKeyError(error: unknown, res: Response): boolean {
+  if (!(error instanceof ApiKeyError)) return false
+
+  res
+    .status(error.code === 'NOT_FOUND' ? 404 : 409)
+    .json({ error: error.code, message: error.message })
+  return true
+}
+
+/**
+ * Mint a scoped API key. Needs a session or a signature header naming a
+ * nonce; an API key cannot mint another
+ */
+router.post(
+  '/api-keys',
+  requireGeneralSingleUseAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = CreateApiKeySchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      const apiKey = await createApiKey(walletAddress, parsed.data)
+
+      // The key itself is only ever returned here
+      res.status(201).json(apiKey)
+    } catch (error) {
+      if (handleApiKeyError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.get(
+  '/api-keys',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      res.json({ apiKeys: await listApiKeys(walletAddress) })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.delete(
+  '/api-keys/:id',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      await revokeApiKey(walletAddress, req.params['id'] as string)
+
+      res.status(204).end()
+    } catch (error) {
+      if (handleApiKeyError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+export default router
@@ -0,0 +1,65 @@
+import {
+  Router,
+  type Request,
+  type Response,
+  type Router as ExpressRouter,
+} from 'express'
+
+import {
+  requireGeneralAuth,
+  type AuthenticatedRequest,
+} from '../middleware/auth.js'
+import { captureRouterBaseUrl } from '../middleware/metrics.js'
+import { subscribePurchaseEvents } from '../services/purchaseEvents.js'
+
+const router: ExpressRouter = Router()
+
+router.use(captureRouterBaseUrl)
+
+const HEARTBEAT_MS = 25_000
+const RECONNECT_DELAY_MS = 3_000
+
+// The auth signature is only checked when the stream opens, so streams are
+// closed periodically and the client reconnects with a fresh header
+const STREAM_MAX_AGE_MS = 15 * 60 * 1000
+
+function writeEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+/**
+ * Server-Sent Events for the authenticated wallet: `ready` once subscribed,
+ * then purchase.indexed / purchase.key_bound / purchase.key_delivered for
+ * purchases it bought or sold. Clients should re-read state after `ready`,
+ * since changes made before subscribing are not replayed.
+ */
+router.get('/', requireGeneralAuth, (req: Request, res: Response) => {
+  const walletAddress = (req as AuthenticatedRequest).walletAddress!
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-store',
+    Connection: 'keep-alive',
+    // Stop nginx-style proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  })
+  res.flushHeaders()
+
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+  const unsubscribe = subscribePurchaseEvents(walletAddress, (event) => {
+    writeEvent(res, event.type, event)
+  })
+  writeEvent(res, 'ready', { walletAddress })
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS)
+  const expiry = setTimeout(() => res.end(), STREAM_MAX_AGE_MS)
+
+  res.on('close', () => {
+    clearInterval(heartbeat)
+    clearTimeout(expiry)
+    unsubscribe()
+  })
+})
+
+export default router
@@ -12,14 +12,31 @@ import { verifyListingCreation } from '@/services/listingVerification.js'
 import { ListingVerificationError } from '@/types/listingVerification.js'
 
 import { prisma } from '../config/db.js'
-import { CreateListingSchema, ListingQuerySchema } from '../lib/validation.js'
+import { getDefaultDeployment, getDeployment } from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
+import {
+  CreateListingSchema,
+  ListingQuerySchema,
+  UpdateListingSchema,
+} from '../lib/validation.js'
 import {
   optionalAuth,
   requireAuth,
+  requireListingEditAuth,
   type AuthenticatedRequest,
 } from '../middleware/auth.js'
+import { captureRouterBaseUrl } from '../middleware/metrics.js'
+import { rateLimit } from '../middleware/rateLimit.js'
+import {
+  editListingMetadata,
+  ListingEditError,
+  MAX_LISTING_REVISIONS,
+} from '../services/listingRevisions.js'
 
 const router: ExpressRouter = Router()
+const listingsLogger = logger.child({ component: 'listings' })
+
+router.use(captureRouterBaseUrl)
 
 function toRawUsdc(value?: string) {
   if (!value) return undefined
@@ -55,89 +72,105 @@ function formatPriceUsdc(value: Prisma.Decimal | string | number) {
   }
 }
 
-router.get('/', async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const parsed = ListingQuerySchema.safeParse(req.query)
-    if (!parsed.success) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: parsed.error.issues,
-      })
-    }
+router.get(
+  '/',
+  rateLimit('listings'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = ListingQuerySchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
 
-    const { category, cursor, limit, minPrice, maxPrice, seller } = parsed.data
+      const { category, chainId, cursor, limit, minPrice, maxPrice, seller } =
+        parsed.data
 
-    const rawMinPrice = toRawUsdc(minPrice)
-    const rawMaxPrice = toRawUsdc(maxPrice)
+      const rawMinPrice = toRawUsdc(minPrice)
+      const rawMaxPrice = toRawUsdc(maxPrice)
 
-    const priceFilter = buildPriceFilter(rawMinPrice, rawMaxPrice)
+      const priceFilter = buildPriceFilter(rawMinPrice, rawMaxPrice)
 
-    const sellerAddress = seller?.toLowerCase()
+      const sellerAddress = seller?.toLowerCase()
 
-    const baseWhere: Prisma.ListingWhereInput = {
-      active: true,
-      ...(priceFilter ? { priceUsdc: priceFilter } : {}),
-      ...(sellerAddress ? { sellerAddress } : {}),
-    }
+      // Placeholders the indexer created before the seller submitted
+      // metadata have no title or description yet
+      const baseWhere: Prisma.ListingWhereInput = {
+        active: true,
+        hiddenAt: null,
+        metadataPending: false,
+        ...(chainId ? { chainId } : {}),
+        ...(priceFilter ? { priceUsdc: priceFilter } : {}),
+        ...(sellerAddress ? { sellerAddress } : {}),
+      }
 
-    const where: Prisma.ListingWhereInput = {
-      ...baseWhere,
-      ...(category ? { category } : {}),
-      ...(cursor ? { id: { gt: cursor } } : {}),
-    }
+      const where: Prisma.ListingWhereInput = {
+        ...baseWhere,
+        ...(category ? { category } : {}),
+        ...(cursor ? { id: { gt: cursor } } : {}),
+      }
+
+      const listings = await prisma.listing.findMany({
+        where,
+        orderBy: { id: 'asc' },
+        take: limit + 1,
+        select: {
+          id: true,
+          chainId: true,
+          contractAddress: true,
+          title: true,
+          description: true,
+          category: true,
+          priceUsdc: true,
+          dataCid: true,
+          sellerAddress: true,
+          metadataPending: true,
+          createdAt: true,
+          _count: { select: { purchases: true } },
+        },
+      })
+
+      const hasNextPage = listings.length > limit
+      const trimmedListings = hasNextPage ? listings.slice(0, limit) : listings
+      const nextCursor = hasNextPage ? (listings[limit]?.id ?? null) : null
+
+      const categoryGroups = await prisma.listing.groupBy({
+        by: ['category'],
+        _count: { _all: true },
+        where: baseWhere,
+      })
+
+      const categories = categoryGroups.reduce<Record<string, number>>(
+        (acc, row) => {
+          acc[row.category] = row._count._all
+          return acc
+        },
+        {}
+      )
+
+      const responseListings = trimmedListings.map((listing) => ({
+        id: listing.id,
+        chainId: listing.chainId,
+        contractAddress: listing.contractAddress,
+        title: listing.title,
+        description: listing.description,
+        category: listing.category,
+        priceUsdc: formatPriceUsdc(listing.priceUsdc),
+        dataCid: listing.dataCid,
+        sellerAddress: listing.sellerAddress,
+        salesCount: listing._count.purchases,
+        metadataPending: listing.metadataPending,
+        createdAt: listing.createdAt,
+      }))
 
-    const listings = await prisma.listing.findMany({
-      where,
-      orderBy: { id: 'asc' },
-      take: limit + 1,
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        category: true,
-        priceUsdc: true,
-        dataCid: true,
-        sellerAddress: true,
-        createdAt: true,
-        _count: { select: { purchases: true } },
-      },
-    })
-
-    const hasNextPage = listings.length > limit
-    const trimmedListings = hasNextPage ? listings.slice(0, limit) : listings
-    const nextCursor = hasNextPage ? (listings[limit]?.id ?? null) : null
-
-    const categoryGroups = await prisma.listing.groupBy({
-      by: ['category'],
-      _count: { _all: true },
-      where: baseWhere,
-    })
-
-    const categories = categoryGroups.reduce<Record<string, number>>(
-      (acc, row) => {
-        acc[row.category] = row._count._all
-        return acc
-      },
-      {}
-    )
-
-    const responseListings = trimmedListings.map((listing) => ({
-      id: listing.id,
-      title: listing.title,
-      description: listing.description,
-      category: listing.category,
-      priceUsdc: formatPriceUsdc(listing.priceUsdc),
-      dataCid: listing.dataCid,
-      sellerAddress: listing.sellerAddress,
-      salesCount: listing._count.purchases,
-      createdAt: listing.createdAt,
-    }))
-
-    res.json({ listings: responseListings, nextCursor, categories })
-  } catch (error) {
-    next(error)
+      res.json({ listings: responseListings, nextCursor, categories })
+    } catch (error) {
+      next(error)
+    }
   }
-})
+)
 
 router.get(
   '/:id',
@@ -148,6 +181,11 @@ router.get(
         where: { id: req.params['id'] },
         include: {
           purchases: true,
+          deactivations: { orderBy: { blockNumber: 'asc' } },
+          revisions: {
+            orderBy: { createdAt: 'desc' },
+            take: MAX_LISTING_REVISIONS,
+          },
           _count: { select: { purchases: true } },
         },
       })
@@ -161,8 +199,22 @@ router.get(
         walletAddress &&
         walletAddress.toLowerCase() === listing.sellerAddress.toLowerCase()
 
+      // Hidden by an admin: only the seller and existing buyers still see it
+      if (
+        listing.hiddenAt &&
+        !isSeller &&
+        !listing.purchases.some(
+          (purchase) =>
+            purchase.buyerAddress.toLowerCase() === walletAddress?.toLowerCase()
+        )
+      ) {
+        return res.status(404).json({ error: 'Listing not found' })
+      }
+
       const baseListing = {
         id: listing.id,
+        chainId: listing.chainId,
+        contractAddress: listing.contractAddress,
         sellerAddress: listing.sellerAddress,
         dataCid: listing.dataCid,
         envelopeCid: listing.envelopeCid,
@@ -173,10 +225,26 @@ router.get(
         active: listing.active,
         origFilename: listing.origFilename,
         contentType: listing.contentType,
+        metadataPending: listing.metadataPending,
         createdAt: listing.createdAt,
         updatedAt: listing.updatedAt,
         salesCount: listing._count.purchases,
         onchainId: listing.onchainId,
+        deactivations: listing.deactivations.map((deactivation) => ({
+          callerAddress: deactivation.callerAddress,
+          bySeller:
+            deactivation.callerAddress.toLowerCase() ===
+            listing.sellerAddress.toLowerCase(),
+          txHash: deactivation.txHash,
+          blockNumber: deactivation.blockNumber,
+          deactivatedAt: deactivation.deactivatedAt,
+        })),
+        revisions: listing.revisions.map((revision) => ({
+          id: revision.id,
+          editorAddress: revision.editorAddress,
+          changes: revision.changes,
+          createdAt: revision.createdAt,
+        })),
       }
 
       if (isSeller) {
@@ -200,6 +268,8 @@ router.get(
           listing: {
             ...baseListing,
             envelopeHash: listing.envelopeHash,
+            hidden: listing.hiddenAt !== null,
+            hiddenReason: listing.hiddenReason,
             purchases,
           },
         })
@@ -214,7 +284,10 @@ router.get(
 
 router.post(
   '/',
+  // Per IP before the signature is verified, then per wallet
+  rateLimit('writes'),
   requireAuth,
+  rateLimit('writes'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const parsed = CreateListingSchema.safeParse(req.body)
@@ -225,13 +298,28 @@ router.post(
         })
       }
 
-      const verification = await verifyListingCreation({
-        txHash: parsed.data.txHash as `0x${string}`,
-        dataCid: parsed.data.dataCid,
-        envelopeCid: parsed.data.envelopeCid,
-        envelopeHash: parsed.data.envelopeHash,
-        priceUsdc: parsed.data.priceUsdc,
-      })
+      const deployment =
+        parsed.data.chainId !== undefined
+          ? getDeployment(parsed.data.chainId)
+          : getDefaultDeployment()
+
+      if (!deployment) {
+        return res.status(400).json({
+          error: 'UNSUPPORTED_CHAIN',
+          message: `No marketplace deployment on chain ${parsed.data.chainId}`,
+        })
+      }
+
+      const verification = await verifyListingCreation(
+        {
+          txHash: parsed.data.txHash as `0x${string}`,
+          dataCid: parsed.data.dataCid,
+          envelopeCid: parsed.data.envelopeCid,
+          envelopeHash: parsed.data.envelopeHash,
+          priceUsdc: parsed.data.priceUsdc,
+        },
+        deployment
+      )
 
       const walletAddress = (req as AuthenticatedRequest).walletAddress
 
@@ -245,31 +333,73 @@ router.post(
         })
       }
 
-      const listing = await prisma.listing.create({
-        data: {
-          onchainId: verification.onchainId,
-          sellerAddress: verification.sellerAddress.toLowerCase(),
+      const existing = await prisma.listing.findUnique({
+        where: {
+          chainId_contractAddress_onchainId: {
+            chainId: deployment.chainId,
+            contractAddress: deployment.contractAddress,
+            onchainId: verification.onchainId,
+          },
+        },
+      })
 
-          dataCid: verification.dataCid,
-          envelopeCid: verification.envelopeCid,
-          envelopeHash: verification.envelopeHash,
+      if (existing && !existing.metadataPending) {
+        return res.status(409).json({ error: 'Listing already exists' })
+      }
 
-          title: parsed.data.title,
-          description: parsed.data.description,
-          category: parsed.data.category,
+      const metadata = {
+        title: parsed.data.title,
+        description: parsed.data.description,
+        category: parsed.data.category,
 
-          priceUsdc: verification.priceUsdc,
+        origFilename: parsed.data.origFilename ?? null,
+        contentType: parsed.data.contentType ?? null,
+      }
 
-          origFilename: parsed.data.origFilename ?? null,
-          contentType: parsed.data.contentType ?? null,
+      // The indexer may have created a placeholder from the ListingCreated
+      // event already; chain fields came from the same event, so only the
+      // seller-provided metadata is filled in.
+      const listing = existing
+        ? await prisma.listing.update({
+            where: { id: existing.id },
+            data: { ...metadata, metadataPending: false },
+          })
+        : await prisma.listing.create({
+            data: {
+              chainId: deployment.chainId,
+              contractAddress: deployment.contractAddress,
+              onchainId: verification.onchainId,
+              sellerAddress: verification.sellerAddress.toLowerCase(),
+
+              dataCid: verification.dataCid,
+              envelopeCid: verification.envelopeCid,
+              envelopeHash: verification.envelopeHash,
+
+              ...metadata,
+
+              priceUsdc: verification.priceUsdc,
+
+              txHash: parsed.data.txHash,
+              blockNumber: verification.blockNumber,
+            },
+          })
+
+      listingsLogger.info(
+        existing ? 'Listing metadata added' : 'Listing created',
+        {
+          listingId: listing.id,
+          chainId: deployment.chainId,
+          onchainId: verification.onchainId,
           txHash: parsed.data.txHash,
-        },
-      })
+        }
+      )
 
       return res.status(201).json({
         message: 'Listing created successfully',
         data: {
           id: listing.id,
+          chainId: listing.chainId,
+          contractAddress: listing.contractAddress,
           onchainId: listing.onchainId,
           sellerAddress: listing.sellerAddress,
           title: listing.title,
@@ -299,4 +429,50 @@ router.post(
   }
 )
 
+router.patch(
+  '/:id',
+  rateLimit('writes'),
+  requireListingEditAuth,
+  rateLimit('writes'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = UpdateListingSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const listingId = req.params['id'] as string
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      const { listing, revision } = await editListingMetadata(
+        listingId,
+        walletAddress,
+        parsed.data
+      )
+
+      if (revision) {
+        listingsLogger.info('Listing metadata edited', {
+          listingId,
+          revisionId: revision.id,
+          fields: Object.keys(revision.changes as object),
+        })
+      }
+
+      res.json({ listing, revision })
+    } catch (err) {
+      if (err instanceof ListingEditError) {
+        const status =
+          err.code === 'NOT_FOUND' ? 404 : err.code === 'NOT_SELLER' ? 403 : 409
+        return res
+          .status(status)
+          .json({ error: err.code, message: err.message })
+      }
+
+      next(err)
+    }
+  }
+)
+
 export default router
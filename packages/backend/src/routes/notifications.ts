@@ -0,0 +1,173 @@
+import {
+  Router,
+  type NextFunction,
+  type Request,
+  type Response,
+  type Router as ExpressRouter,
+} from 'express'
+
+import {
+  MarkNotificationsReadSchema,
+  NotificationEmailSchema,
+  NotificationQuerySchema,
+  VerifyNotificationEmailSchema,
+} from '../lib/validation.js'
+import {
+  requireGeneralAuth,
+  type AuthenticatedRequest,
+} from '../middleware/auth.js'
+import { captureRouterBaseUrl } from '../middleware/metrics.js'
+import {
+  EmailError,
+  getEmailSettings,
+  registerEmail,
+  removeEmail,
+  verifyEmail,
+} from '../services/email.js'
+import {
+  listInboxNotifications,
+  markInboxNotificationsRead,
+} from '../services/notification.js'
+
+const router: ExpressRouter = Router()
+
+router.use(captureRouterBaseUrl)
+router.use((_req: Request, res: Response, next: NextFunction) => {
+  res.set('Cache-Control', 'no-store')
+  next()
+})
+
+const EMAIL_ERROR_STATUS: Record<EmailError['code'], number> = {
+  NOT_CONFIGURED: 503,
+  NOT_FOUND: 404,
+  INVALID_CODE: 400,
+  SEND_FAILED: 502,
+}
+
+function handleEmailError(error: unknown, res: Response): boolean {
+  if (!(error instanceof EmailError)) return false
+
+  res
+    .status(EMAIL_ERROR_STATUS[error.code])
+    .json({ error: error.code, message: error.message })
+  return true
+}
+
+router.get(
+  '/',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = NotificationQuerySchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      res.json(await listInboxNotifications(walletAddress, parsed.data))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.post(
+  '/read',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = MarkNotificationsReadSchema.safeParse(req.body ?? {})
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      res.json(await markInboxNotificationsRead(walletAddress, parsed.data.ids))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.get(
+  '/email',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      res.json(await getEmailSettings(walletAddress))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.put(
+  '/email',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = NotificationEmailSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      const settings = await registerEmail(walletAddress, parsed.data.email)
+
+      // 202 until the emailed code is confirmed
+      res.status(settings.verified ? 200 : 202).json(settings)
+    } catch (error) {
+      if (handleEmailError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.post(
+  '/email/verify',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = VerifyNotificationEmailSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      res.json(await verifyEmail(walletAddress, parsed.data.code))
+    } catch (error) {
+      if (handleEmailError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.delete(
+  '/email',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      await removeEmail(walletAddress)
+
+      res.status(204).end()
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export default router
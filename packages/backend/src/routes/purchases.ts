@@ -6,21 +6,32 @@ import {
   type Response,
   type Router as ExpressRouter,
 } from 'express'
-import { verifyMessage } from 'viem'
 
 import { prisma } from '../config/db.js'
+import { getDeployment } from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
 import {
   BindKeyRequestSchema,
   DeliverKeySchema,
   PurchaseQuerySchema,
 } from '../lib/validation.js'
 import {
-  requireGeneralAuth,
+  requireScopedAuth,
   type AuthenticatedRequest,
 } from '../middleware/auth.js'
+import { captureRouterBaseUrl } from '../middleware/metrics.js'
+import { rateLimit } from '../middleware/rateLimit.js'
+import { NonceError, consumeNonce } from '../services/nonce.js'
+import {
+  addInboxNotification,
+  enqueueSellerNotification,
+} from '../services/notification.js'
+import { verifyWalletSignature } from '../services/signatureVerification.js'
 
 const router: ExpressRouter = Router()
+const purchasesLogger = logger.child({ component: 'purchases' })
 
+router.use(captureRouterBaseUrl)
 router.use((req: Request, res: Response, next: NextFunction) => {
   if (req.method === 'GET') {
     res.set('Cache-Control', 'no-store')
@@ -57,16 +68,17 @@ function isTimestampFresh(timestamp: number): boolean {
 function buildBindKeyMessage(
   purchaseId: string,
   publicKey: string,
+  nonce: string,
   timestamp: number
 ): string {
   const encodedKey = publicKey
 
-  return `I am the buyer of purchase ${purchaseId}.\nMy public key: ${encodedKey}\nTimestamp: ${timestamp}`
+  return `I am the buyer of purchase ${purchaseId}.\nMy public key: ${encodedKey}\nNonce: ${nonce}\nTimestamp: ${timestamp}`
 }
 
 router.get(
   '/pending-deliveries',
-  requireGeneralAuth,
+  requireScopedAuth('deliveries:read'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const parsed = PurchaseQuerySchema.safeParse(req.query)
@@ -101,6 +113,7 @@ router.get(
           id: true,
           buyerAddress: true,
           buyerPublicKey: true,
+          chainId: true,
           listing: {
             select: {
               id: true,
@@ -126,6 +139,7 @@ router.get(
         id: purchase.id,
         buyerAddress: purchase.buyerAddress.toLowerCase(),
         buyerPublicKey: purchase.buyerPublicKey,
+        chainId: purchase.chainId,
         listing: {
           id: purchase.listing.id,
           title: purchase.listing.title,
@@ -145,7 +159,7 @@ router.get(
 
 router.get(
   '/',
-  requireGeneralAuth,
+  requireScopedAuth('purchases:read'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const parsed = PurchaseQuerySchema.safeParse(req.query)
@@ -174,6 +188,7 @@ router.get(
         ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
         select: {
           id: true,
+          chainId: true,
           listing: {
             select: {
               id: true,
@@ -205,6 +220,7 @@ router.get(
 
       const responsePurchases = trimmedPurchases.map((purchase) => ({
         id: purchase.id,
+        chainId: purchase.chainId,
         listing: {
           id: purchase.listing.id,
           title: purchase.listing.title,
@@ -232,6 +248,7 @@ router.get(
 
 router.post(
   '/:id/bind-key',
+  rateLimit('writes'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const parsed = BindKeyRequestSchema.safeParse(req.body)
@@ -244,6 +261,7 @@ router.post(
 
       const purchase = await prisma.purchase.findUnique({
         where: { id: req.params['id'] },
+        include: { listing: { select: { sellerAddress: true, title: true } } },
       })
 
       if (!purchase) {
@@ -254,32 +272,80 @@ router.post(
         return res.status(400).json({ error: 'Public key already bound' })
       }
 
-      const { publicKey, signature, timestamp } = parsed.data
+      const { publicKey, signature, timestamp, nonce } = parsed.data
 
       if (!isTimestampFresh(timestamp)) {
         return res.status(401).json({ error: 'Signature expired' })
       }
 
-      const message = buildBindKeyMessage(purchase.id, publicKey, timestamp)
-
-      const recovered = await verifyMessage({
-        address: purchase.buyerAddress as `0x${string}`,
-        message,
-        signature: signature as `0x${string}`,
-      })
+      const message = buildBindKeyMessage(
+        purchase.id,
+        publicKey,
+        nonce,
+        timestamp
+      )
+
+      const recovered = await verifyWalletSignature(
+        {
+          address: purchase.buyerAddress as `0x${string}`,
+          message,
+          signature: signature as `0x${string}`,
+        },
+        getDeployment(purchase.chainId)
+      )
 
       if (!recovered) {
         return res.status(401).json({ error: 'Invalid signature' })
       }
 
-      await prisma.purchase.update({
-        where: { id: purchase.id },
-        data: {
-          buyerPublicKey: publicKey,
-          publicKeySignature: signature,
-        },
+      try {
+        await consumeNonce(nonce)
+      } catch (error) {
+        if (error instanceof NonceError) {
+          return error.code === 'NONCE_REPLAYED'
+            ? res
+                .status(409)
+                .json({ error: error.message, code: 'SIGNATURE_REPLAYED' })
+            : res.status(401).json({ error: error.message })
+        }
+        throw error
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.purchase.update({
+          where: { id: purchase.id },
+          data: {
+            buyerPublicKey: publicKey,
+            publicKeySignature: signature,
+          },
+        })
+
+        // The seller can now deliver the key
+        await enqueueSellerNotification(tx, {
+          eventType: 'purchase.key_bound',
+          eventKey: `purchase.key_bound:${purchase.id}`,
+          sellerAddress: purchase.listing.sellerAddress,
+          payload: {
+            purchaseId: purchase.id,
+            listingId: purchase.listingId,
+            buyer: purchase.buyerAddress,
+          },
+        })
+
+        await addInboxNotification(tx, {
+          type: 'purchase.key_bound',
+          eventKey: `purchase.key_bound:${purchase.id}`,
+          recipientAddress: purchase.listing.sellerAddress,
+          message: `A buyer is waiting for the key to "${purchase.listing.title}"`,
+          listingId: purchase.listingId,
+          purchaseId: purchase.id,
+        })
       })
 
+      purchasesLogger.info('Buyer public key bound', {
+        purchaseId: purchase.id,
+        buyer: purchase.buyerAddress,
+      })
       res.json({ message: 'Public key bound successfully' })
     } catch (error) {
       next(error)
@@ -289,7 +355,10 @@ router.post(
 
 router.post(
   '/:id/key',
-  requireGeneralAuth,
+  // Per IP before the signature is verified, then per wallet
+  rateLimit('writes'),
+  requireScopedAuth('deliveries:write', true),
+  rateLimit('writes'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const parsed = DeliverKeySchema.safeParse(req.body)
@@ -328,15 +397,43 @@ router.post(
 
       const { keyCid } = parsed.data
 
-      await prisma.purchase.update({
-        where: { id: purchase.id },
-        data: {
-          keyCid,
-          keyDelivered: true,
-          keyDeliveredAt: new Date(),
-        },
+      await prisma.$transaction(async (tx) => {
+        await tx.purchase.update({
+          where: { id: purchase.id },
+          data: {
+            keyCid,
+            keyDelivered: true,
+            keyDeliveredAt: new Date(),
+          },
+        })
+
+        // Tells the buyer their data can be decrypted
+        await enqueueSellerNotification(tx, {
+          eventType: 'purchase.key_delivered',
+          eventKey: `purchase.key_delivered:${purchase.id}`,
+          sellerAddress: purchase.listing.sellerAddress,
+          payload: {
+            purchaseId: purchase.id,
+            listingId: purchase.listingId,
+            buyer: purchase.buyerAddress.toLowerCase(),
+            keyCid,
+          },
+        })
+
+        await addInboxNotification(tx, {
+          type: 'purchase.key_delivered',
+          eventKey: `purchase.key_delivered:${purchase.id}`,
+          recipientAddress: purchase.buyerAddress,
+          message: `Your key for "${purchase.listing.title}" was delivered`,
+          listingId: purchase.listingId,
+          purchaseId: purchase.id,
+        })
       })
 
+      purchasesLogger.info('Key delivered', {
+        purchaseId: purchase.id,
+        keyCid,
+      })
       res.json({ message: 'Key delivered successfully' })
     } catch (error) {
       next(error)
@@ -346,7 +443,7 @@ router.post(
 
 router.get(
   '/:id/access',
-  requireGeneralAuth,
+  requireScopedAuth('purchases:read'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const purchase = await prisma.purchase.findUnique({
@@ -0,0 +1,150 @@
+import {
+  Router,
+  type NextFunction,
+  type Request,
+  type Response,
+  type Router as ExpressRouter,
+} from 'express'
+
+import { CreateWebhookSchema, PaginationSchema } from '../lib/validation.js'
+import {
+  requireGeneralAuth,
+  type AuthenticatedRequest,
+} from '../middleware/auth.js'
+import { captureRouterBaseUrl } from '../middleware/metrics.js'
+import { getSellerEarnings } from '../services/earnings.js'
+import {
+  WebhookError,
+  createWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+} from '../services/webhooks.js'
+
+const router: ExpressRouter = Router()
+
+router.use(captureRouterBaseUrl)
+
+router.get(
+  '/earnings',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const walletAddress = (req as AuthenticatedRequest).walletAddress
+      if (!walletAddress) {
+        return res.status(401).json({ error: 'Unauthorized' })
+      }
+
+      res.set('Cache-Control', 'no-store')
+
+      const earnings = await getSellerEarnings(walletAddress)
+
+      res.json(earnings)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+const WEBHOOK_ERROR_STATUS: Record<WebhookError['code'], number> = {
+  NOT_FOUND: 404,
+  LIMIT_REACHED: 409,
+  INVALID_URL: 400,
+}
+
+function handleWebhookError(error: unknown, res: Response): boolean {
+  if (!(error instanceof WebhookError)) return false
+
+  res
+    .status(WEBHOOK_ERROR_STATUS[error.code])
+    .json({ error: error.code, message: error.message })
+  return true
+}
+
+router.post(
+  '/webhooks',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = CreateWebhookSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      const webhook = await createWebhook(walletAddress, parsed.data)
+
+      // The signing secret is only ever returned here
+      res.status(201).json(webhook)
+    } catch (error) {
+      if (handleWebhookError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.get(
+  '/webhooks',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.set('Cache-Control', 'no-store')
+
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      res.json({ webhooks: await listWebhooks(walletAddress) })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+router.delete(
+  '/webhooks/:id',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      await deleteWebhook(walletAddress, req.params['id'] as string)
+
+      res.status(204).end()
+    } catch (error) {
+      if (handleWebhookError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+router.get(
+  '/webhooks/:id/deliveries',
+  requireGeneralAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = PaginationSchema.safeParse(req.query)
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.issues,
+        })
+      }
+
+      res.set('Cache-Control', 'no-store')
+
+      const walletAddress = (req as AuthenticatedRequest).walletAddress!
+      res.json(
+        await listWebhookDeliveries(
+          walletAddress,
+          req.params['id'] as string,
+          parsed.data
+        )
+      )
+    } catch (error) {
+      if (handleWebhookError(error, res)) return
+      next(error)
+    }
+  }
+)
+
+export default router
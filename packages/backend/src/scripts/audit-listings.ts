@@ -1,78 +1,100 @@
-import { publicClient, MARKETPLACE_ABI } from '@/config/chain'
+/**
+ * Reconcile DB listings and purchases with the marketplace contract.
+ *
+ * Usage:
+ *   tsx src/scripts/audit-listings.ts [--chain <id>] [--json] [--repair]
+ *
+ *   --json    Print a machine-readable report instead of per-listing lines
+ *   --repair  Overwrite drifted listing fields, `active` and purchase
+ *             verification with chain values
+ *   --chain   Only audit one deployment
+ *
+ * Exit codes (for cron): 0 no unresolved issues, 1 issues remain, 2 the audit
+ * could not run.
+ */
 import { prisma } from '@/config/db'
+import {
+  auditListings,
+  parseAuditCliArgs,
+  type AuditIssue,
+  type AuditReport,
+} from '@/services/listingAudit'
+
+function printReport(report: AuditReport) {
+  const byListing = new Map<string, AuditIssue[]>()
+  const other: AuditIssue[] = []
+
+  for (const issue of report.issues) {
+    if (issue.listingId) {
+      const issues = byListing.get(issue.listingId) ?? []
+      issues.push(issue)
+      byListing.set(issue.listingId, issues)
+    } else {
+      other.push(issue)
+    }
+  }
 
-type ChainListing = [
-  `0x${string}`, // seller
-  string, // dataCid
-  string, // envelopeCid
-  `0x${string}`, // envelopeHash
-  bigint, // priceUsdc
-  boolean, // active
-  bigint, // salesCount
-]
-
-async function audit() {
-  const listings = await prisma.listing.findMany()
-
-  console.log(`Auditing ${listings.length} listings...\n`)
-
-  for (const listing of listings) {
-    try {
-      const chainListing = (await publicClient.readContract({
-        address: process.env['MARKETPLACE_CONTRACT_ADDRESS'] as `0x${string}`,
-        abi: MARKETPLACE_ABI,
-        functionName: 'getListing',
-        args: [BigInt(listing.onchainId)],
-      })) as ChainListing
-
-      const [seller, dataCid, envelopeCid, envelopeHash, priceUsdc] =
-        chainListing
-
-      console.log(`Listing ${listing.id}`)
-
-      let mismatch = false
+  console.log(
+    `Audited ${report.listingsChecked} listings and ${report.purchasesChecked} purchases\n`
+  )
 
-      if (seller.toLowerCase() !== listing.sellerAddress.toLowerCase()) {
-        console.log('SELLER_MISMATCH')
-        mismatch = true
-      }
+  for (const [listingId, issues] of byListing) {
+    console.log(`Listing ${listingId}`)
+    for (const issue of issues) {
+      const suffix = issue.purchaseId ? ` (purchase ${issue.purchaseId})` : ''
+      console.log(`${issue.code}${suffix}${issue.repaired ? ' REPAIRED' : ''}`)
+    }
+    console.log('')
+  }
 
-      if (dataCid !== listing.dataCid) {
-        console.log('DATA_CID_MISMATCH')
-        mismatch = true
-      }
+  for (const issue of other) {
+    console.log(
+      issue.onchainId !== undefined
+        ? `${issue.code} chain=${issue.chainId} listing=${issue.onchainId}`
+        : `${issue.code} chain=${issue.chainId}`
+    )
+  }
 
-      if (envelopeCid !== listing.envelopeCid) {
-        console.log('ENVELOPE_CID_MISMATCH')
-        mismatch = true
-      }
+  const matched = report.listingsChecked - byListing.size
+  console.log(
+    `\n${matched} listing(s) MATCH, ${report.unresolved} unresolved issue(s)${report.repair ? ' after repair' : ''}`
+  )
+}
 
-      if (envelopeHash !== listing.envelopeHash) {
-        console.log('ENVELOPE_HASH_MISMATCH')
-        mismatch = true
-      }
+async function main(): Promise<number> {
+  const parsed = parseAuditCliArgs(process.argv.slice(2))
 
-      const dbPrice = BigInt(listing.priceUsdc.toString())
-      const chainPrice = BigInt(priceUsdc)
+  if (parsed.kind === 'error') {
+    console.error(parsed.message)
+    return parsed.exitCode
+  }
 
-      if (dbPrice !== chainPrice) {
-        console.log('PRICE_MISMATCH')
-        mismatch = true
-      }
+  if (!parsed.json) {
+    console.log(
+      `Auditing listings${parsed.repair ? ' (repair mode)' : ''}...\n`
+    )
+  }
 
-      if (!mismatch) {
-        console.log('MATCH')
-      }
+  const report = await auditListings({
+    chainId: parsed.chainId,
+    repair: parsed.repair,
+  })
 
-      console.log('')
-    } catch {
-      console.log(`Listing ${listing.id}`)
-      console.log('CHAIN_READ_FAILED')
-      console.log('')
-    }
+  if (parsed.json) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    printReport(report)
   }
 
-  await prisma.$disconnect()
+  return report.ok ? 0 : 1
 }
 
-audit()
+main()
+  .catch((error) => {
+    console.error('[audit] Fatal error:', error)
+    return 2
+  })
+  .then(async (exitCode) => {
+    process.exitCode = exitCode
+    await prisma.$disconnect()
+  })
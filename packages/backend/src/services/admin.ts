@@ -0,0 +1,454 @@
+import type { Prisma } from '@prisma/client'
+
+import prismaDB from '../config/db.js'
+import type {
+  AdminEventQuery,
+  AdminListingQuery,
+  AdminPurchaseQuery,
+  PurchaseStatus,
+} from '../lib/validation.js'
+
+/**
+ * Queries behind /api/admin: listing moderation, purchase and EventLog
+ * inspection, and platform totals. Lists are newest first and page by id.
+ * USDC amounts are raw 6-decimal units, as in the earnings API.
+ */
+export class AdminError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'ALREADY_HIDDEN' | 'NOT_HIDDEN'
+  ) {
+    super(message)
+    this.name = 'AdminError'
+  }
+}
+
+function page<T extends { id: string }>(rows: T[], limit: number) {
+  const hasNextPage = rows.length > limit
+  const items = hasNextPage ? rows.slice(0, limit) : rows
+  return {
+    items,
+    nextCursor: hasNextPage ? (items[items.length - 1]?.id ?? null) : null,
+  }
+}
+
+function before(cursor: string | undefined) {
+  return cursor ? { id: { lt: cursor } } : {}
+}
+
+function rawUsdc(value: { toString(): string } | null): string {
+  return value?.toString() ?? '0'
+}
+
+// --------------------
+// Listing moderation
+// --------------------
+
+const moderationSelect = {
+  id: true,
+  chainId: true,
+  onchainId: true,
+  sellerAddress: true,
+  title: true,
+  category: true,
+  priceUsdc: true,
+  active: true,
+  hiddenAt: true,
+  hiddenBy: true,
+  hiddenReason: true,
+  createdAt: true,
+  _count: { select: { purchases: true } },
+} satisfies Prisma.ListingSelect
+
+export async function listListingsForModeration(query: AdminListingQuery) {
+  const where: Prisma.ListingWhereInput = {
+    ...(query.chainId ? { chainId: query.chainId } : {}),
+    ...(query.seller ? { sellerAddress: query.seller.toLowerCase() } : {}),
+    ...(query.hidden === undefined
+      ? {}
+      : { hiddenAt: query.hidden ? { not: null } : null }),
+    ...before(query.cursor),
+  }
+
+  const rows = await prismaDB.listing.findMany({
+    where,
+    orderBy: { id: 'desc' },
+    take: query.limit + 1,
+    select: moderationSelect,
+  })
+
+  const { items, nextCursor } = page(rows, query.limit)
+  return {
+    listings: items.map(({ _count, priceUsdc, ...listing }) => ({
+      ...listing,
+      priceUsdc: rawUsdc(priceUsdc),
+      salesCount: _count.purchases,
+    })),
+    nextCursor,
+  }
+}
+
+/**
+ * Take a listing out of the public catalog. Buyers keep access to what they
+ * bought; stopping new sales needs the owner's deactivateListing on chain.
+ */
+export async function hideListing(
+  id: string,
+  adminAddress: string,
+  reason: string
+) {
+  const listing = await prismaDB.listing.findUnique({
+    where: { id },
+    select: { hiddenAt: true },
+  })
+  if (!listing) {
+    throw new AdminError('Listing not found', 'NOT_FOUND')
+  }
+  if (listing.hiddenAt) {
+    throw new AdminError('Listing is already hidden', 'ALREADY_HIDDEN')
+  }
+
+  return prismaDB.listing.update({
+    where: { id },
+    data: {
+      hiddenAt: new Date(),
+      hiddenBy: adminAddress.toLowerCase(),
+      hiddenReason: reason,
+    },
+    select: { id: true, hiddenAt: true, hiddenBy: true, hiddenReason: true },
+  })
+}
+
+export async function unhideListing(id: string) {
+  const listing = await prismaDB.listing.findUnique({
+    where: { id },
+    select: { hiddenAt: true },
+  })
+  if (!listing) {
+    throw new AdminError('Listing not found', 'NOT_FOUND')
+  }
+  if (!listing.hiddenAt) {
+    throw new AdminError('Listing is not hidden', 'NOT_HIDDEN')
+  }
+
+  return prismaDB.listing.update({
+    where: { id },
+    data: { hiddenAt: null, hiddenBy: null, hiddenReason: null },
+    select: { id: true, hiddenAt: true, hiddenBy: true, hiddenReason: true },
+  })
+}
+
+// --------------------
+// Purchases and deliveries
+// --------------------
+
+const purchaseStatusWhere: Record<PurchaseStatus, Prisma.PurchaseWhereInput> = {
+  unverified: { txVerified: false, reorgedAt: null },
+  awaiting_key: {
+    txVerified: true,
+    buyerPublicKey: null,
+    keyDelivered: false,
+  },
+  awaiting_delivery: {
+    txVerified: true,
+    buyerPublicKey: { not: null },
+    keyDelivered: false,
+  },
+  delivered: { keyDelivered: true },
+  reorged: { reorgedAt: { not: null } },
+}
+
+export function getPurchaseStatus(purchase: {
+  txVerified: boolean
+  reorgedAt: Date | null
+  buyerPublicKey: string | null
+  keyDelivered: boolean
+}): PurchaseStatus {
+  if (purchase.keyDelivered) return 'delivered'
+  if (purchase.reorgedAt) return 'reorged'
+  if (!purchase.txVerified) return 'unverified'
+  return purchase.buyerPublicKey ? 'awaiting_delivery' : 'awaiting_key'
+}
+
+const purchaseSelect = {
+  id: true,
+  chainId: true,
+  listingId: true,
+  buyerAddress: true,
+  txHash: true,
+  amountUsdc: true,
+  txVerified: true,
+  blockNumber: true,
+  reorgedAt: true,
+  buyerPublicKey: true,
+  keyCid: true,
+  keyDelivered: true,
+  keyDeliveredAt: true,
+  createdAt: true,
+  updatedAt: true,
+  listing: { select: { title: true, sellerAddress: true } },
+} satisfies Prisma.PurchaseSelect
+
+type AdminPurchaseRow = Prisma.PurchaseGetPayload<{
+  select: typeof purchaseSelect
+}>
+
+function toAdminPurchase({
+  listing,
+  amountUsdc,
+  buyerPublicKey,
+  ...purchase
+}: AdminPurchaseRow) {
+  return {
+    ...purchase,
+    amountUsdc: rawUsdc(amountUsdc),
+    listingTitle: listing.title,
+    sellerAddress: listing.sellerAddress,
+    hasBuyerPublicKey: buyerPublicKey !== null,
+    status: getPurchaseStatus({ ...purchase, buyerPublicKey }),
+  }
+}
+
+export async function listPurchasesForAdmin(query: AdminPurchaseQuery) {
+  const where: Prisma.PurchaseWhereInput = {
+    ...(query.chainId ? { chainId: query.chainId } : {}),
+    ...(query.status ? purchaseStatusWhere[query.status] : {}),
+    ...(query.buyer
+      ? { buyerAddress: { equals: query.buyer, mode: 'insensitive' } }
+      : {}),
+    ...(query.seller
+      ? {
+          listing: {
+            sellerAddress: { equals: query.seller, mode: 'insensitive' },
+          },
+        }
+      : {}),
+    ...(query.listingId ? { listingId: query.listingId } : {}),
+    ...before(query.cursor),
+  }
+
+  const rows = await prismaDB.purchase.findMany({
+    where,
+    orderBy: { id: 'desc' },
+    take: query.limit + 1,
+    select: purchaseSelect,
+  })
+
+  const { items, nextCursor } = page(rows, query.limit)
+  return { purchases: items.map(toAdminPurchase), nextCursor }
+}
+
+/** One purchase with its SALE ledger entry (fee and net split) */
+export async function getPurchaseForAdmin(id: string) {
+  const purchase = await prismaDB.purchase.findUnique({
+    where: { id },
+    select: purchaseSelect,
+  })
+  if (!purchase) {
+    throw new AdminError('Purchase not found', 'NOT_FOUND')
+  }
+
+  const ledgerEntry = await prismaDB.sellerLedgerEntry.findUnique({
+    where: { purchaseId: id },
+    select: {
+      grossUsdc: true,
+      feeBps: true,
+      feeUsdc: true,
+      netUsdc: true,
+      txHash: true,
+      logIndex: true,
+      blockNumber: true,
+      blockTimestamp: true,
+    },
+  })
+
+  return {
+    ...toAdminPurchase(purchase),
+    ledgerEntry: ledgerEntry && {
+      ...ledgerEntry,
+      grossUsdc: rawUsdc(ledgerEntry.grossUsdc),
+      feeUsdc: rawUsdc(ledgerEntry.feeUsdc),
+      netUsdc: rawUsdc(ledgerEntry.netUsdc),
+    },
+  }
+}
+
+// --------------------
+// EventLog
+// --------------------
+
+const eventStatusWhere: Record<
+  NonNullable<AdminEventQuery['status']>,
+  Prisma.EventLogWhereInput
+> = {
+  pending: { processed: false, deadLetteredAt: null, discardedAt: null },
+  processed: { processed: true },
+  dead_lettered: {
+    processed: false,
+    deadLetteredAt: { not: null },
+    discardedAt: null,
+  },
+  discarded: { discardedAt: { not: null } },
+}
+
+const eventSelect = {
+  id: true,
+  chainId: true,
+  contractAddress: true,
+  eventType: true,
+  txHash: true,
+  blockNumber: true,
+  logIndex: true,
+  processed: true,
+  error: true,
+  attempts: true,
+  nextAttemptAt: true,
+  deadLetteredAt: true,
+  discardedAt: true,
+  createdAt: true,
+} satisfies Prisma.EventLogSelect
+
+export async function listEventLogs(query: AdminEventQuery) {
+  const where: Prisma.EventLogWhereInput = {
+    ...(query.chainId ? { chainId: query.chainId } : {}),
+    ...(query.eventType ? { eventType: query.eventType } : {}),
+    ...(query.status ? eventStatusWhere[query.status] : {}),
+    ...(query.txHash ? { txHash: query.txHash.toLowerCase() } : {}),
+    ...before(query.cursor),
+  }
+
+  const rows = await prismaDB.eventLog.findMany({
+    where,
+    orderBy: { id: 'desc' },
+    take: query.limit + 1,
+    select: eventSelect,
+  })
+
+  const { items, nextCursor } = page(rows, query.limit)
+  return { events: items, nextCursor }
+}
+
+/** One EventLog row including the raw log kept for replays */
+export async function getEventLog(id: string) {
+  const event = await prismaDB.eventLog.findUnique({
+    where: { id },
+    select: { ...eventSelect, data: true },
+  })
+  if (!event) {
+    throw new AdminError('Event not found', 'NOT_FOUND')
+  }
+  return event
+}
+
+// --------------------
+// Platform stats
+// --------------------
+
+export interface PlatformStats {
+  chainId: number | null
+  listings: { total: number; active: number; hidden: number }
+  purchases: {
+    total: number
+    unverified: number
+    awaitingKey: number
+    awaitingDelivery: number
+    delivered: number
+  }
+  volume: {
+    salesCount: number
+    grossUsdc: string
+    feesUsdc: string
+    netUsdc: string
+    withdrawnUsdc: string
+    latestFeeBps: number | null
+  }
+  events: { pending: number; deadLettered: number }
+}
+
+/** Platform totals, for one chain or across every deployment */
+export async function getPlatformStats(
+  chainId?: number
+): Promise<PlatformStats> {
+  const chain = chainId ? { chainId } : {}
+  const ledgerChain = chainId ? { listing: { chainId } } : {}
+
+  const [
+    listings,
+    activeListings,
+    hiddenListings,
+    purchases,
+    unverified,
+    awaitingKey,
+    awaitingDelivery,
+    delivered,
+    sales,
+    withdrawals,
+    latestSale,
+    pendingEvents,
+    deadLetteredEvents,
+  ] = await Promise.all([
+    prismaDB.listing.count({ where: chain }),
+    prismaDB.listing.count({
+      where: { ...chain, active: true, hiddenAt: null },
+    }),
+    prismaDB.listing.count({ where: { ...chain, hiddenAt: { not: null } } }),
+    prismaDB.purchase.count({ where: chain }),
+    prismaDB.purchase.count({
+      where: { ...chain, ...purchaseStatusWhere.unverified },
+    }),
+    prismaDB.purchase.count({
+      where: { ...chain, ...purchaseStatusWhere.awaiting_key },
+    }),
+    prismaDB.purchase.count({
+      where: { ...chain, ...purchaseStatusWhere.awaiting_delivery },
+    }),
+    prismaDB.purchase.count({
+      where: { ...chain, ...purchaseStatusWhere.delivered },
+    }),
+    prismaDB.sellerLedgerEntry.aggregate({
+      where: { ...ledgerChain, entryType: 'SALE' },
+      _count: { _all: true },
+      _sum: { grossUsdc: true, feeUsdc: true, netUsdc: true },
+    }),
+    prismaDB.sellerLedgerEntry.aggregate({
+      where: { ...ledgerChain, entryType: 'WITHDRAWAL' },
+      _sum: { withdrawnUsdc: true },
+    }),
+    prismaDB.sellerLedgerEntry.findFirst({
+      where: { ...ledgerChain, entryType: 'SALE', feeBps: { not: null } },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+      select: { feeBps: true },
+    }),
+    prismaDB.eventLog.count({
+      where: { ...chain, ...eventStatusWhere.pending },
+    }),
+    prismaDB.eventLog.count({
+      where: { ...chain, ...eventStatusWhere.dead_lettered },
+    }),
+  ])
+
+  return {
+    chainId: chainId ?? null,
+    listings: {
+      total: listings,
+      active: activeListings,
+      hidden: hiddenListings,
+    },
+    purchases: {
+      total: purchases,
+      unverified,
+      awaitingKey,
+      awaitingDelivery,
+      delivered,
+    },
+    volume: {
+      salesCount: sales._count._all,
+      grossUsdc: rawUsdc(sales._sum.grossUsdc),
+      feesUsdc: rawUsdc(sales._sum.feeUsdc),
+      netUsdc: rawUsdc(sales._sum.netUsdc),
+      withdrawnUsdc: rawUsdc(withdrawals._sum.withdrawnUsdc),
+      latestFeeBps: latestSale?.feeBps ?? null,
+    },
+    events: { pending: pendingEvents, deadLettered: deadLetteredEvents },
+  }
+}
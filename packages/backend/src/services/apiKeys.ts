@@ -0,0 +1,169 @@
+import { createHash, randomBytes } from 'node:crypto'
+
+import prismaDB from '../config/db.js'
+import { logger } from '../lib/logger.js'
+import type { ApiKeyScope, CreateApiKeyInput } from '../lib/validation.js'
+
+/**
+ * Scoped API keys for scripts. A wallet mints a key with a signed request;
+ * the key then authenticates as that wallet, but only on routes that accept
+ * one of its scopes. Only a SHA-256 hash of the key is stored.
+ */
+export const API_KEY_PREFIX = 'dmk_'
+export const MAX_API_KEYS_PER_WALLET = 20
+
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8
+
+const apiKeyLogger = logger.child({ component: 'api-keys' })
+
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'NOT_FOUND'
+      | 'LIMIT_REACHED'
+      | 'INVALID_API_KEY'
+      | 'INSUFFICIENT_SCOPE'
+  ) {
+    super(message)
+    this.name = 'ApiKeyError'
+  }
+}
+
+/** Columns safe to return to the owner; the key is only shown on creation */
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+export async function createApiKey(
+  walletAddress: string,
+  input: CreateApiKeyInput
+) {
+  const owner = walletAddress.toLowerCase()
+
+  const count = await prismaDB.apiKey.count({
+    where: { walletAddress: owner, revokedAt: null },
+  })
+  if (count >= MAX_API_KEYS_PER_WALLET) {
+    throw new ApiKeyError(
+      `A wallet can have at most ${MAX_API_KEYS_PER_WALLET} API keys`,
+      'LIMIT_REACHED'
+    )
+  }
+
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+  const apiKey = await prismaDB.apiKey.create({
+    data: {
+      walletAddress: owner,
+      name: input.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: input.scopes,
+      expiresAt: new Date(
+        Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000
+      ),
+    },
+    select: apiKeySelect,
+  })
+
+  apiKeyLogger.info('API key created', {
+    walletAddress: owner,
+    apiKeyId: apiKey.id,
+    scopes: input.scopes,
+  })
+
+  return { ...apiKey, key }
+}
+
+/** Keys that have not been revoked, including expired ones */
+export async function listApiKeys(walletAddress: string) {
+  return prismaDB.apiKey.findMany({
+    where: { walletAddress: walletAddress.toLowerCase(), revokedAt: null },
+    orderBy: { createdAt: 'asc' },
+    select: apiKeySelect,
+  })
+}
+
+export async function revokeApiKey(walletAddress: string, id: string) {
+  const { count } = await prismaDB.apiKey.updateMany({
+    where: { id, walletAddress: walletAddress.toLowerCase(), revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+
+  if (count !== 1) {
+    throw new ApiKeyError('API key not found', 'NOT_FOUND')
+  }
+}
+
+/**
+ * Resolve an API key to its wallet. `scope` is what the route requires;
+ * without one the route does not accept API keys at all.
+ */
+export async function authenticateApiKey(
+  key: string,
+  scope?: ApiKeyScope
+): Promise<{ walletAddress: string; apiKeyId: string }> {
+  const apiKey = key.startsWith(API_KEY_PREFIX)
+    ? await prismaDB.apiKey.findUnique({
+        where: { keyHash: hashApiKey(key) },
+        select: {
+          id: true,
+          walletAddress: true,
+          scopes: true,
+          expiresAt: true,
+          revokedAt: true,
+        },
+      })
+    : null
+
+  if (!apiKey || apiKey.revokedAt || apiKey.expiresAt <= new Date()) {
+    throw new ApiKeyError('Invalid API key', 'INVALID_API_KEY')
+  }
+
+  if (!scope || !apiKey.scopes.includes(scope)) {
+    throw new ApiKeyError(
+      scope
+        ? `API key is missing the ${scope} scope`
+        : 'API keys are not accepted here',
+      'INSUFFICIENT_SCOPE'
+    )
+  }
+
+  const now = new Date()
+  try {
+    await prismaDB.apiKey.updateMany({
+      where: {
+        id: apiKey.id,
+        OR: [
+          { lastUsedAt: null },
+          {
+            lastUsedAt: {
+              lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS),
+            },
+          },
+        ],
+      },
+      data: { lastUsedAt: now },
+    })
+  } catch (err) {
+    // A missed timestamp must not fail the request
+    apiKeyLogger.warn('Failed to record API key use', {
+      apiKeyId: apiKey.id,
+      err,
+    })
+  }
+
+  return { walletAddress: apiKey.walletAddress, apiKeyId: apiKey.id }
+}
@@ -1,33 +1,62 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { publicClient, MARKETPLACE_ADDRESS } from '../config/chain.js'
 import prismaDB from '../config/db.js'
+import { getDefaultDeployment, type Deployment } from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
 
 import {
+  INDEXED_EVENTS,
+  INDEXED_EVENT_TYPES,
   MAX_BLOCK_CHUNK,
-  PURCHASE_COMPLETED_EVENT,
   processLog,
-  withRetry,
 } from './eventListener.js'
-import { parsePurchaseCompletedEvent } from './eventParsing.js'
+import {
+  getMarketplaceEventName,
+  parseListingCreatedEvent,
+  parseListingDeactivatedEvent,
+  parsePurchaseCompletedEvent,
+  parseWithdrawalEvent,
+} from './eventParsing.js'
+import { blocksScannedTotal } from './metrics.js'
+import { withRetry } from './retry.js'
+
+const backfillLogger = logger.child({ component: 'backfill' })
 
 export interface BackfillOptions {
   fromBlock: bigint
   toBlock: bigint
   dryRun?: boolean
+  /** Defaults to the default deployment */
+  deployment?: Deployment
+  /** Only scan these event types (defaults to every indexed event) */
+  eventTypes?: string[]
+  /** Called after every scanned chunk with the running totals */
+  onChunk?: (progress: BackfillChunkProgress) => Promise<void> | void
+  /** Checked before every chunk; returning true stops the scan early */
+  shouldCancel?: () => Promise<boolean> | boolean
+}
+
+export interface BackfillChunkProgress {
+  chunkFrom: bigint
+  chunkTo: bigint
+  result: BackfillResult
 }
 
 export interface BackfillEventDetail {
   txHash: string
   logIndex: number
   blockNumber: number
+  eventType: string
   listingId: string
-  buyer: string
-  amountUsdc: string
+  /** PurchaseCompleted only */
+  buyer?: string
+  /** PurchaseCompleted/Withdrawal amount, or ListingCreated price */
+  amountUsdc?: string
   status: 'created' | 'skipped' | 'error'
   error?: string
 }
 
 export interface BackfillResult {
+  chainId: number
   fromBlock: bigint
   toBlock: bigint
   dryRun: boolean
@@ -36,17 +65,48 @@ export interface BackfillResult {
   eventsCreated: number
   eventsSkipped: number
   eventsFailed: number
+  /** True when shouldCancel stopped the scan before toBlock */
+  cancelled: boolean
   events: BackfillEventDetail[]
 }
 
+function describeLog(log: any): {
+  eventType: string
+  listingId: string
+  buyer?: string
+  amountUsdc?: string
+} {
+  const eventType = getMarketplaceEventName(log) ?? 'Unknown'
+
+  switch (eventType) {
+    case 'ListingCreated': {
+      const { listingId, priceUsdc } = parseListingCreatedEvent(log)
+      return { eventType, listingId, amountUsdc: priceUsdc }
+    }
+    case 'ListingDeactivated': {
+      const { listingId } = parseListingDeactivatedEvent(log)
+      return { eventType, listingId }
+    }
+    case 'Withdrawal': {
+      const { listingId, amountUsdc } = parseWithdrawalEvent(log)
+      return { eventType, listingId, amountUsdc }
+    }
+    default: {
+      const { listingId, buyer, amountUsdc } = parsePurchaseCompletedEvent(log)
+      return { eventType, listingId, buyer, amountUsdc }
+    }
+  }
+}
+
 async function inspectLog(log: any): Promise<{
   txHash: string
   logIndex: number
   blockNumber: number
   alreadyProcessed: boolean
+  eventType: string
   listingId: string
-  buyer: string
-  amountUsdc: string
+  buyer?: string
+  amountUsdc?: string
 }> {
   const txHash: string = log.transactionHash
   const logIndex: number = log.logIndex
@@ -56,23 +116,27 @@ async function inspectLog(log: any): Promise<{
     where: { txHash_logIndex: { txHash, logIndex } },
   })
 
-  const { listingId, buyer, amountUsdc } = parsePurchaseCompletedEvent(log)
-
   return {
     txHash,
     logIndex,
     blockNumber,
     alreadyProcessed: !!existing?.processed,
-    listingId: listingId.toString(),
-    buyer: buyer as string,
-    amountUsdc: amountUsdc.toString(),
+    ...describeLog(log),
   }
 }
 
 export async function backfillRange(
   options: BackfillOptions
 ): Promise<BackfillResult> {
-  const { fromBlock, toBlock, dryRun = false } = options
+  const {
+    fromBlock,
+    toBlock,
+    dryRun = false,
+    deployment = getDefaultDeployment(),
+    eventTypes,
+    onChunk,
+    shouldCancel,
+  } = options
 
   if (fromBlock > toBlock) {
     throw new Error(
@@ -80,7 +144,20 @@ export async function backfillRange(
     )
   }
 
+  const rangeLogger = backfillLogger.child({
+    chainId: deployment.chainId,
+    dryRun,
+  })
+
+  const events = eventTypes
+    ? INDEXED_EVENTS.filter((event) => eventTypes.includes(event.name))
+    : INDEXED_EVENTS
+  if (events.length === 0) {
+    throw new Error(`No indexed events match: ${eventTypes!.join(', ')}`)
+  }
+
   const result: BackfillResult = {
+    chainId: deployment.chainId,
     fromBlock,
     toBlock,
     dryRun,
@@ -89,24 +166,34 @@ export async function backfillRange(
     eventsCreated: 0,
     eventsSkipped: 0,
     eventsFailed: 0,
+    cancelled: false,
     events: [],
   }
 
   let chunkStart = fromBlock
 
   while (chunkStart <= toBlock) {
+    if (await shouldCancel?.()) {
+      rangeLogger.info('Backfill cancelled', { beforeBlock: chunkStart })
+      result.cancelled = true
+      break
+    }
+
     const chunkEnd =
       chunkStart + MAX_BLOCK_CHUNK - 1n < toBlock
         ? chunkStart + MAX_BLOCK_CHUNK - 1n
         : toBlock
 
-    console.log(`[backfill] Scanning blocks ${chunkStart} → ${chunkEnd}`)
+    rangeLogger.info('Scanning blocks', {
+      fromBlock: chunkStart,
+      toBlock: chunkEnd,
+    })
 
     const logs = await withRetry(
       () =>
-        publicClient.getLogs({
-          address: MARKETPLACE_ADDRESS,
-          event: PURCHASE_COMPLETED_EVENT,
+        deployment.client.getLogs({
+          address: deployment.marketplaceAddress,
+          events,
           fromBlock: chunkStart,
           toBlock: chunkEnd,
         }),
@@ -114,11 +201,17 @@ export async function backfillRange(
     )
 
     result.blocksScanned += Number(chunkEnd - chunkStart + 1n)
+    blocksScannedTotal.inc(
+      { chain_id: deployment.chainId, source: 'backfill' },
+      Number(chunkEnd - chunkStart + 1n)
+    )
 
     if (logs.length) {
-      console.log(
-        `[backfill] Found ${logs.length} PurchaseCompleted events in chunk`
-      )
+      rangeLogger.info('Found marketplace events', {
+        fromBlock: chunkStart,
+        toBlock: chunkEnd,
+        count: logs.length,
+      })
     }
 
     result.eventsFound += logs.length
@@ -129,7 +222,7 @@ export async function backfillRange(
         !log.transactionHash ||
         log.logIndex == null
       ) {
-        console.warn('[backfill] Skipping log with missing fields')
+        rangeLogger.warn('Skipping log with missing fields')
         continue
       }
 
@@ -139,6 +232,7 @@ export async function backfillRange(
           txHash: info.txHash,
           logIndex: info.logIndex,
           blockNumber: info.blockNumber,
+          eventType: info.eventType,
           listingId: info.listingId,
           buyer: info.buyer,
           amountUsdc: info.amountUsdc,
@@ -147,14 +241,19 @@ export async function backfillRange(
 
         if (info.alreadyProcessed) {
           result.eventsSkipped++
-          console.log(
-            `[backfill] [dry-run] SKIP (already indexed): tx=${info.txHash} logIndex=${info.logIndex}`
-          )
+          rangeLogger.info('Dry run: already indexed', {
+            txHash: info.txHash,
+            logIndex: info.logIndex,
+          })
         } else {
           result.eventsCreated++
-          console.log(
-            `[backfill] [dry-run] WOULD CREATE: listing=${info.listingId} buyer=${info.buyer} amount=${info.amountUsdc} tx=${info.txHash}`
-          )
+          rangeLogger.info('Dry run: would index', {
+            eventType: info.eventType,
+            listingId: info.listingId,
+            buyer: info.buyer,
+            amountUsdc: info.amountUsdc,
+            txHash: info.txHash,
+          })
         }
 
         result.events.push(detail)
@@ -163,7 +262,7 @@ export async function backfillRange(
         const logIndex: number = log.logIndex
 
         try {
-          const status = await processLog(log)
+          const status = await processLog(log, deployment)
 
           const info = await inspectLog(log)
           if (status === 'created') {
@@ -175,6 +274,7 @@ export async function backfillRange(
             txHash,
             logIndex,
             blockNumber: Number(log.blockNumber),
+            eventType: info.eventType,
             listingId: info.listingId,
             buyer: info.buyer,
             amountUsdc: info.amountUsdc,
@@ -187,33 +287,49 @@ export async function backfillRange(
             txHash,
             logIndex,
             blockNumber: Number(log.blockNumber),
+            eventType: getMarketplaceEventName(log) ?? 'Unknown',
             listingId: 'unknown',
             buyer: 'unknown',
             amountUsdc: 'unknown',
             status: 'error',
             error: message,
           })
-          console.error(
-            `[backfill] Failed to process tx=${txHash} logIndex=${logIndex}: ${message}`
-          )
+          rangeLogger.error('Failed to process log', {
+            txHash,
+            logIndex,
+            error: message,
+          })
         }
       }
     }
 
+    await onChunk?.({ chunkFrom: chunkStart, chunkTo: chunkEnd, result })
+
     chunkStart = chunkEnd + 1n
   }
 
   return result
 }
 
-/** Rows in EventLog with processed=false (failed or never completed). */
-export async function findFailedEventLogsBlockRange(): Promise<{
+/**
+ * Rows in EventLog with processed=false (failed or never completed) for one
+ * deployment, excluding events an admin has discarded.
+ */
+export async function findFailedEventLogsBlockRange(
+  deployment: Deployment = getDefaultDeployment()
+): Promise<{
   count: number
   fromBlock: bigint
   toBlock: bigint
 } | null> {
   const rows = await prismaDB.eventLog.findMany({
-    where: { processed: false, eventType: 'PurchaseCompleted' },
+    where: {
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress,
+      processed: false,
+      discardedAt: null,
+      eventType: { in: INDEXED_EVENT_TYPES },
+    },
     select: { blockNumber: true },
   })
 
@@ -233,26 +349,31 @@ export async function findFailedEventLogsBlockRange(): Promise<{
 }
 
 /**
- * Re-scan the chain for PurchaseCompleted logs in the block range covering
+ * Re-scan the chain for marketplace event logs in the block range covering
  * all EventLog rows with processed=false.
  */
 export async function retryFailedPurchaseBackfill(
-  dryRun: boolean
+  dryRun: boolean,
+  deployment: Deployment = getDefaultDeployment()
 ): Promise<BackfillResult | 'empty'> {
-  const range = await findFailedEventLogsBlockRange()
+  const range = await findFailedEventLogsBlockRange(deployment)
 
   if (!range) {
     return 'empty'
   }
 
-  console.log(
-    `[backfill] Found ${range.count} failed event(s) (processed=false). Derived block range: ${range.fromBlock} → ${range.toBlock}`
-  )
+  backfillLogger.info('Retrying failed events', {
+    chainId: deployment.chainId,
+    count: range.count,
+    fromBlock: range.fromBlock,
+    toBlock: range.toBlock,
+  })
 
   return backfillRange({
     fromBlock: range.fromBlock,
     toBlock: range.toBlock,
     dryRun,
+    deployment,
   })
 }
 
@@ -262,8 +383,9 @@ export type ParsedBackfillCli =
       from: bigint
       to: bigint
       dryRun: boolean
+      chainId?: number
     }
-  | { kind: 'retry-failed'; dryRun: boolean }
+  | { kind: 'retry-failed'; dryRun: boolean; chainId?: number }
   | { kind: 'error'; message: string; exitCode: number }
 
 /**
@@ -274,6 +396,7 @@ export function parseBackfillCliArgs(argv: string[]): ParsedBackfillCli {
   let to: bigint | null = null
   let dryRun = false
   let retryFailed = false
+  let chainId: number | undefined
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i]
@@ -286,6 +409,9 @@ export function parseBackfillCliArgs(argv: string[]): ParsedBackfillCli {
       i++
     } else if (arg === '--dry-run') {
       dryRun = true
+    } else if (arg === '--chain' && argv[i + 1]) {
+      chainId = Number(argv[i + 1])
+      i++
     } else if (arg === '--retry-failed') {
       retryFailed = true
     }
@@ -300,19 +426,27 @@ export function parseBackfillCliArgs(argv: string[]): ParsedBackfillCli {
     }
   }
 
+  if (chainId !== undefined && !Number.isInteger(chainId)) {
+    return {
+      kind: 'error',
+      message: 'Error: --chain must be a numeric chain id.',
+      exitCode: 1,
+    }
+  }
+
   if (retryFailed) {
-    return { kind: 'retry-failed', dryRun }
+    return { kind: 'retry-failed', dryRun, chainId }
   }
 
   if (from === null || to === null) {
     return {
       kind: 'error',
       message:
-        'Usage: tsx scripts/backfill.ts --from <block> --to <block> [--dry-run]\n' +
-        '   or: tsx scripts/backfill.ts --retry-failed [--dry-run]',
+        'Usage: tsx scripts/backfill.ts --from <block> --to <block> [--chain <id>] [--dry-run]\n' +
+        '   or: tsx scripts/backfill.ts --retry-failed [--chain <id>] [--dry-run]',
       exitCode: 1,
     }
   }
 
-  return { kind: 'range', from, to, dryRun }
+  return { kind: 'range', from, to, dryRun, chainId }
 }
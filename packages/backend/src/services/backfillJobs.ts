@@ -0,0 +1,267 @@
+import type { Prisma } from '@prisma/client'
+
+import prismaDB from '../config/db.js'
+import { getDeployment, type Deployment } from '../config/deployments.js'
+import { logger, runWithLogContext } from '../lib/logger.js'
+
+import {
+  backfillRange,
+  findFailedEventLogsBlockRange,
+  type BackfillResult,
+} from './backfill.js'
+
+const jobLogger = logger.child({ component: 'backfill' })
+
+export type BackfillJobMode = 'RANGE' | 'RETRY_FAILED'
+export type BackfillJobStatus =
+  | 'QUEUED'
+  | 'RUNNING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'CANCELLED'
+
+export interface BackfillJobRequest {
+  deployment: Deployment
+  /** Omit for RETRY_FAILED; the range is derived from unprocessed EventLog rows */
+  fromBlock?: bigint
+  toBlock?: bigint
+  retryFailed: boolean
+  eventTypes?: string[]
+  dryRun: boolean
+  /** Admin wallet starting the job */
+  requestedBy: string
+}
+
+export class BackfillJobError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOTHING_TO_RETRY' | 'NOT_CANCELLABLE'
+  ) {
+    super(message)
+    this.name = 'BackfillJobError'
+  }
+}
+
+/** Columns returned by the job list; the full event list is only on GET /:id */
+const jobSummarySelect = {
+  id: true,
+  chainId: true,
+  mode: true,
+  fromBlock: true,
+  toBlock: true,
+  eventTypes: true,
+  dryRun: true,
+  status: true,
+  requestedBy: true,
+  lastScannedBlock: true,
+  blocksScanned: true,
+  eventsFound: true,
+  eventsCreated: true,
+  eventsSkipped: true,
+  eventsFailed: true,
+  error: true,
+  cancelRequestedAt: true,
+  startedAt: true,
+  finishedAt: true,
+  createdAt: true,
+}
+
+function progressData(result: BackfillResult) {
+  return {
+    blocksScanned: result.blocksScanned,
+    eventsFound: result.eventsFound,
+    eventsCreated: result.eventsCreated,
+    eventsSkipped: result.eventsSkipped,
+    eventsFailed: result.eventsFailed,
+    events: result.events as unknown as Prisma.InputJsonValue,
+  }
+}
+
+export async function createBackfillJob(request: BackfillJobRequest) {
+  const { deployment } = request
+  let { fromBlock, toBlock } = request
+
+  if (request.retryFailed) {
+    const range = await findFailedEventLogsBlockRange(deployment)
+    if (!range) {
+      throw new BackfillJobError(
+        'No unprocessed events to retry',
+        'NOTHING_TO_RETRY'
+      )
+    }
+    fromBlock = range.fromBlock
+    toBlock = range.toBlock
+  }
+
+  return prismaDB.backfillJob.create({
+    data: {
+      chainId: deployment.chainId,
+      mode: request.retryFailed ? 'RETRY_FAILED' : 'RANGE',
+      fromBlock: Number(fromBlock),
+      toBlock: Number(toBlock),
+      eventTypes: request.eventTypes ?? [],
+      dryRun: request.dryRun,
+      requestedBy: request.requestedBy.toLowerCase(),
+    },
+    select: jobSummarySelect,
+  })
+}
+
+async function isCancelRequested(id: string): Promise<boolean> {
+  const job = await prismaDB.backfillJob.findUnique({
+    where: { id },
+    select: { cancelRequestedAt: true },
+  })
+  return !!job?.cancelRequestedAt
+}
+
+/**
+ * Run a queued job to completion in this process, persisting progress after
+ * every chunk. Cancellation is checked between chunks. Everything logged
+ * while it runs carries the job's id as `jobId`.
+ */
+export async function runBackfillJob(id: string): Promise<void> {
+  return runWithLogContext({ jobId: id }, () => runJob(id))
+}
+
+async function runJob(id: string): Promise<void> {
+  const claimed = await prismaDB.backfillJob.updateMany({
+    where: { id, status: 'QUEUED' },
+    data: { status: 'RUNNING', startedAt: new Date() },
+  })
+  if (claimed.count === 0) return
+
+  const job = await prismaDB.backfillJob.findUniqueOrThrow({ where: { id } })
+
+  try {
+    const deployment = getDeployment(job.chainId)
+    if (!deployment) {
+      throw new Error(`No deployment configured for chain ${job.chainId}`)
+    }
+
+    jobLogger.info('Starting backfill job', {
+      chainId: job.chainId,
+      mode: job.mode,
+      dryRun: job.dryRun,
+      fromBlock: job.fromBlock,
+      toBlock: job.toBlock,
+    })
+
+    const result = await backfillRange({
+      fromBlock: BigInt(job.fromBlock),
+      toBlock: BigInt(job.toBlock),
+      dryRun: job.dryRun,
+      deployment,
+      eventTypes: job.eventTypes.length ? job.eventTypes : undefined,
+      shouldCancel: () => isCancelRequested(id),
+      onChunk: async ({ chunkTo, result }) => {
+        await prismaDB.backfillJob.update({
+          where: { id },
+          data: { lastScannedBlock: Number(chunkTo), ...progressData(result) },
+        })
+      },
+    })
+
+    await prismaDB.backfillJob.update({
+      where: { id },
+      data: {
+        ...progressData(result),
+        status: result.cancelled ? 'CANCELLED' : 'COMPLETED',
+        finishedAt: new Date(),
+      },
+    })
+
+    jobLogger.info(
+      result.cancelled ? 'Backfill job cancelled' : 'Backfill job completed',
+      {
+        eventsCreated: result.eventsCreated,
+        eventsSkipped: result.eventsSkipped,
+        eventsFailed: result.eventsFailed,
+      }
+    )
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    jobLogger.error('Backfill job failed', { err: error })
+
+    await prismaDB.backfillJob.update({
+      where: { id },
+      data: { status: 'FAILED', error: message, finishedAt: new Date() },
+    })
+  }
+}
+
+/**
+ * Create a job and start it in the background. The returned row is the
+ * queued job; poll getBackfillJob for progress.
+ */
+export async function startBackfillJob(request: BackfillJobRequest) {
+  const job = await createBackfillJob(request)
+
+  runBackfillJob(job.id).catch((error) => {
+    jobLogger.error('Could not record backfill job outcome', {
+      jobId: job.id,
+      err: error,
+    })
+  })
+
+  return job
+}
+
+export async function getBackfillJob(id: string) {
+  const job = await prismaDB.backfillJob.findUnique({ where: { id } })
+
+  if (!job) {
+    throw new BackfillJobError('Backfill job not found', 'NOT_FOUND')
+  }
+
+  return job
+}
+
+/** Newest first */
+export async function listBackfillJobs(options: {
+  cursor?: string
+  limit: number
+}) {
+  const jobs = await prismaDB.backfillJob.findMany({
+    where: options.cursor ? { id: { lt: options.cursor } } : {},
+    orderBy: { id: 'desc' },
+    take: options.limit + 1,
+    select: jobSummarySelect,
+  })
+
+  const hasNextPage = jobs.length > options.limit
+  return {
+    jobs: hasNextPage ? jobs.slice(0, options.limit) : jobs,
+    nextCursor: hasNextPage ? (jobs[options.limit - 1]?.id ?? null) : null,
+  }
+}
+
+/**
+ * Queued jobs are cancelled immediately; running jobs stop after the chunk
+ * in progress.
+ */
+export async function cancelBackfillJob(id: string) {
+  const job = await getBackfillJob(id)
+  const now = new Date()
+
+  if (job.status === 'QUEUED') {
+    return prismaDB.backfillJob.update({
+      where: { id },
+      data: { status: 'CANCELLED', cancelRequestedAt: now, finishedAt: now },
+      select: jobSummarySelect,
+    })
+  }
+
+  if (job.status === 'RUNNING') {
+    return prismaDB.backfillJob.update({
+      where: { id },
+      data: { cancelRequestedAt: job.cancelRequestedAt ?? now },
+      select: jobSummarySelect,
+    })
+  }
+
+  throw new BackfillJobError(
+    `Backfill job is already ${job.status.toLowerCase()}`,
+    'NOT_CANCELLABLE'
+  )
+}
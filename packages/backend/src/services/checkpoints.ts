@@ -0,0 +1,52 @@
+import prismaDB from '../config/db.js'
+import { getDefaultDeployment, type Deployment } from '../config/deployments.js'
+
+export interface CheckpointRow {
+  stream: string
+  lastScannedBlock: number
+  updatedAt: Date
+}
+
+/**
+ * Checkpoints for the given event streams of a marketplace deployment.
+ * Streams without a checkpoint are simply absent from the result.
+ */
+export async function getCheckpoints(
+  streams: string[],
+  deployment: Deployment = getDefaultDeployment()
+): Promise<CheckpointRow[]> {
+  return prismaDB.indexerCheckpoint.findMany({
+    where: {
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress,
+      stream: { in: streams },
+    },
+    select: { stream: true, lastScannedBlock: true, updatedAt: true },
+    orderBy: { stream: 'asc' },
+  })
+}
+
+/**
+ * Record that every block up to and including `blockNumber` has been
+ * scanned for the given streams.
+ */
+export async function saveCheckpoints(
+  streams: string[],
+  blockNumber: bigint,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<void> {
+  const { chainId, contractAddress } = deployment
+  const lastScannedBlock = Number(blockNumber)
+
+  await prismaDB.$transaction(async (tx) => {
+    for (const stream of streams) {
+      await tx.indexerCheckpoint.upsert({
+        where: {
+          chainId_contractAddress_stream: { chainId, contractAddress, stream },
+        },
+        update: { lastScannedBlock },
+        create: { chainId, contractAddress, stream, lastScannedBlock },
+      })
+    }
+  })
+}
@@ -0,0 +1,180 @@
+import prismaDB from '../config/db.js'
+
+/** Mirrors DataMarketplace.WITHDRAWAL_DELAY (24 hours). */
+export const WITHDRAWAL_DELAY_MS = 24 * 60 * 60 * 1000
+
+export interface LedgerEntryInput {
+  listingId: string
+  entryType: string
+  grossUsdc: { toString(): string }
+  feeUsdc: { toString(): string }
+  netUsdc: { toString(): string }
+  withdrawnUsdc: { toString(): string }
+  txHash: string
+  blockTimestamp: Date
+}
+
+export interface ListingEarnings {
+  listingId: string
+  salesCount: number
+  grossUsdc: string
+  feesUsdc: string
+  netUsdc: string
+  pendingUsdc: string
+  withdrawnUsdc: string
+  withdrawableAt: Date | null
+  lastWithdrawalTxHash: string | null
+}
+
+export interface EarningsTotals {
+  salesCount: number
+  grossUsdc: string
+  feesUsdc: string
+  netUsdc: string
+  pendingUsdc: string
+  withdrawnUsdc: string
+  nextWithdrawableAt: Date | null
+}
+
+interface ListingAccumulator {
+  salesCount: number
+  gross: bigint
+  fees: bigint
+  net: bigint
+  pending: bigint
+  withdrawn: bigint
+  pendingSince: Date | null
+  lastWithdrawalTxHash: string | null
+}
+
+function toBigInt(value: { toString(): string }): bigint {
+  return BigInt(value.toString().split('.')[0] ?? '0')
+}
+
+/**
+ * Replay ledger entries (ordered by block, then log index) the same way the
+ * contract tracks ListingBalance: the withdrawal clock starts at the first
+ * sale after the balance was last emptied.
+ */
+export function summarizeLedger(entries: LedgerEntryInput[]): {
+  listings: ListingEarnings[]
+  totals: EarningsTotals
+} {
+  const byListing = new Map<string, ListingAccumulator>()
+
+  for (const entry of entries) {
+    const acc = byListing.get(entry.listingId) ?? {
+      salesCount: 0,
+      gross: 0n,
+      fees: 0n,
+      net: 0n,
+      pending: 0n,
+      withdrawn: 0n,
+      pendingSince: null,
+      lastWithdrawalTxHash: null,
+    }
+
+    if (entry.entryType === 'SALE') {
+      const net = toBigInt(entry.netUsdc)
+      if (acc.pending === 0n) {
+        acc.pendingSince = entry.blockTimestamp
+      }
+      acc.salesCount++
+      acc.gross += toBigInt(entry.grossUsdc)
+      acc.fees += toBigInt(entry.feeUsdc)
+      acc.net += net
+      acc.pending += net
+    } else if (entry.entryType === 'WITHDRAWAL') {
+      const withdrawn = toBigInt(entry.withdrawnUsdc)
+      acc.withdrawn += withdrawn
+      acc.pending = acc.pending > withdrawn ? acc.pending - withdrawn : 0n
+      if (acc.pending === 0n) {
+        acc.pendingSince = null
+      }
+      acc.lastWithdrawalTxHash = entry.txHash
+    }
+
+    byListing.set(entry.listingId, acc)
+  }
+
+  const totals = {
+    salesCount: 0,
+    gross: 0n,
+    fees: 0n,
+    net: 0n,
+    pending: 0n,
+    withdrawn: 0n,
+    nextWithdrawableAt: null as Date | null,
+  }
+
+  const listings: ListingEarnings[] = []
+
+  for (const [listingId, acc] of byListing) {
+    const withdrawableAt = acc.pendingSince
+      ? new Date(acc.pendingSince.getTime() + WITHDRAWAL_DELAY_MS)
+      : null
+
+    totals.salesCount += acc.salesCount
+    totals.gross += acc.gross
+    totals.fees += acc.fees
+    totals.net += acc.net
+    totals.pending += acc.pending
+    totals.withdrawn += acc.withdrawn
+    if (
+      withdrawableAt &&
+      (!totals.nextWithdrawableAt || withdrawableAt < totals.nextWithdrawableAt)
+    ) {
+      totals.nextWithdrawableAt = withdrawableAt
+    }
+
+    listings.push({
+      listingId,
+      salesCount: acc.salesCount,
+      grossUsdc: acc.gross.toString(),
+      feesUsdc: acc.fees.toString(),
+      netUsdc: acc.net.toString(),
+      pendingUsdc: acc.pending.toString(),
+      withdrawnUsdc: acc.withdrawn.toString(),
+      withdrawableAt,
+      lastWithdrawalTxHash: acc.lastWithdrawalTxHash,
+    })
+  }
+
+  return {
+    listings,
+    totals: {
+      salesCount: totals.salesCount,
+      grossUsdc: totals.gross.toString(),
+      feesUsdc: totals.fees.toString(),
+      netUsdc: totals.net.toString(),
+      pendingUsdc: totals.pending.toString(),
+      withdrawnUsdc: totals.withdrawn.toString(),
+      nextWithdrawableAt: totals.nextWithdrawableAt,
+    },
+  }
+}
+
+export async function getSellerEarnings(sellerAddress: string) {
+  const entries = await prismaDB.sellerLedgerEntry.findMany({
+    where: { sellerAddress: sellerAddress.toLowerCase() },
+    orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    include: {
+      listing: {
+        select: { id: true, chainId: true, onchainId: true, title: true },
+      },
+    },
+  })
+
+  const listingInfo = new Map(entries.map((e) => [e.listingId, e.listing]))
+  const { listings, totals } = summarizeLedger(entries)
+
+  return {
+    listings: listings.map((earnings) => ({
+      ...earnings,
+      chainId: listingInfo.get(earnings.listingId)?.chainId ?? null,
+      onchainId: listingInfo.get(earnings.listingId)?.onchainId ?? null,
+      title: listingInfo.get(earnings.listingId)?.title ?? null,
+    })),
+    totals,
+  }
+}
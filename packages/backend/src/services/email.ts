@@ -0,0 +1,428 @@
+import { createHash, randomInt, timingSafeEqual } from 'node:crypto'
+
+import type { NotificationOutbox, Prisma } from '@prisma/client'
+
+import prismaDB from '../config/db.js'
+import { logger } from '../lib/logger.js'
+import {
+  SmtpTransport,
+  type EmailMessage,
+  type EmailTransport,
+} from '../lib/smtp.js'
+
+import type { NotificationEventType } from './notification.js'
+import { getNotificationRetryDelayMs } from './retry.js'
+
+export const MAX_EMAIL_ATTEMPTS = 5
+const VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000
+const VERIFICATION_CODE_LENGTH = 10
+// No 0/O or 1/I so codes survive being retyped
+const VERIFICATION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const EMAIL_INTERVAL_MS = 10_000
+const EMAIL_BATCH_SIZE = 50
+const MAX_ERROR_LENGTH = 500
+
+const emailLogger = logger.child({ component: 'email' })
+
+let emailInterval: NodeJS.Timeout | null = null
+let sending = false
+
+export class EmailError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'NOT_CONFIGURED'
+      | 'NOT_FOUND'
+      | 'INVALID_CODE'
+      | 'SEND_FAILED'
+  ) {
+    super(message)
+    this.name = 'EmailError'
+  }
+}
+
+// --------------------
+// Transport
+// --------------------
+
+// undefined = not resolved from the environment yet
+let transport: EmailTransport | null | undefined
+
+/**
+ * Transport built from SMTP_URL, or null when email is not configured (in
+ * which case registration is refused and no email deliveries are created).
+ */
+export function getEmailTransport(): EmailTransport | null {
+  if (transport === undefined) {
+    const url = process.env['SMTP_URL']
+    transport = url ? new SmtpTransport(url) : null
+  }
+  return transport
+}
+
+/** Swap the transport, e.g. for a fake in tests; undefined re-reads SMTP_URL */
+export function setEmailTransport(next: EmailTransport | null | undefined) {
+  transport = next
+}
+
+function requireTransport(): EmailTransport {
+  const current = getEmailTransport()
+  if (!current) {
+    throw new EmailError(
+      'Email notifications are not configured',
+      'NOT_CONFIGURED'
+    )
+  }
+  return current
+}
+
+function sender(): string {
+  return process.env['EMAIL_FROM'] || 'Data Marketplace <no-reply@localhost>'
+}
+
+/** Link into the frontend when APP_URL is set */
+function appLink(path: string): string {
+  const base = process.env['APP_URL']?.replace(/\/+$/, '')
+  return base ? `\n\n${base}${path}` : ''
+}
+
+// --------------------
+// Templates
+// --------------------
+
+/** Outbox payload fields the templates read */
+interface NotificationPayload {
+  purchaseId?: string
+  listingId?: string
+  buyer?: string
+  availableAt?: string
+}
+
+interface EmailTemplate {
+  /** Wallet that receives this email, from the outbox row */
+  recipient(row: {
+    sellerAddress: string
+    payload: NotificationPayload
+  }): string | undefined
+  render(payload: NotificationPayload): { subject: string; text: string }
+}
+
+/** Events that are emailed; the rest only go to webhooks */
+export const EMAIL_TEMPLATES: Partial<
+  Record<NotificationEventType, EmailTemplate>
+> = {
+  'purchase.key_bound': {
+    recipient: (row) => row.sellerAddress,
+    render: (payload) => ({
+      subject: 'A buyer is waiting for their key',
+      text:
+        `Purchase ${payload.purchaseId} of listing ${payload.listingId} is ready for key delivery.\n` +
+        `The buyer (${payload.buyer}) has bound their public key; deliver the ` +
+        `decryption key from your seller dashboard.` +
+        appLink('/sell'),
+    }),
+  },
+  'purchase.key_delivered': {
+    recipient: (row) => row.payload.buyer,
+    render: (payload) => ({
+      subject: 'Your key has been delivered',
+      text:
+        `The seller delivered the decryption key for purchase ${payload.purchaseId} ` +
+        `of listing ${payload.listingId}. You can now download and decrypt your data.` +
+        appLink('/purchases'),
+    }),
+  },
+  'withdrawal.available': {
+    recipient: (row) => row.sellerAddress,
+    render: (payload) => ({
+      subject: 'Your earnings can be withdrawn',
+      text:
+        `Sales proceeds for listing ${payload.listingId} unlocked at ` +
+        `${payload.availableAt} and can now be withdrawn from the marketplace contract.` +
+        appLink('/sell'),
+    }),
+  },
+}
+
+// --------------------
+// Registration
+// --------------------
+
+function hashCode(code: string): string {
+  return createHash('sha256').update(code).digest('hex')
+}
+
+function generateVerificationCode(): string {
+  let code = ''
+  for (let i = 0; i < VERIFICATION_CODE_LENGTH; i++) {
+    code +=
+      VERIFICATION_CODE_ALPHABET[randomInt(VERIFICATION_CODE_ALPHABET.length)]
+  }
+  return code
+}
+
+function toSettings(row: { email: string; verifiedAt: Date | null } | null): {
+  email: string | null
+  verified: boolean
+} {
+  return { email: row?.email ?? null, verified: Boolean(row?.verifiedAt) }
+}
+
+export async function getEmailSettings(walletAddress: string) {
+  return toSettings(
+    await prismaDB.notificationEmail.findUnique({
+      where: { walletAddress: walletAddress.toLowerCase() },
+    })
+  )
+}
+
+/**
+ * Set (or replace) a wallet's email and send it a verification code. Nothing
+ * is emailed to the address until the code is confirmed.
+ */
+export async function registerEmail(walletAddress: string, email: string) {
+  const emailTransport = requireTransport()
+  const wallet = walletAddress.toLowerCase()
+
+  const existing = await prismaDB.notificationEmail.findUnique({
+    where: { walletAddress: wallet },
+  })
+  if (existing?.verifiedAt && existing.email === email) {
+    return toSettings(existing)
+  }
+
+  const code = generateVerificationCode()
+  const verification = {
+    email,
+    verifiedAt: null,
+    verificationCodeHash: hashCode(code),
+    verificationExpiresAt: new Date(Date.now() + VERIFICATION_TTL_MS),
+  }
+
+  const row = await prismaDB.notificationEmail.upsert({
+    where: { walletAddress: wallet },
+    update: verification,
+    create: { walletAddress: wallet, ...verification },
+  })
+
+  try {
+    await emailTransport.send({
+      from: sender(),
+      to: email,
+      subject: 'Confirm your email for marketplace notifications',
+      text:
+        `Your verification code is ${code}\n\n` +
+        `Enter it while signed in with ${wallet} to receive purchase and ` +
+        `withdrawal notifications. The code expires in 24 hours. If you did not ` +
+        `ask for this, ignore this email.`,
+    })
+  } catch (err) {
+    emailLogger.warn('Verification email failed', { wallet, err })
+    throw new EmailError('Could not send the verification email', 'SEND_FAILED')
+  }
+
+  emailLogger.info('Verification email sent', { wallet })
+  return toSettings(row)
+}
+
+export async function verifyEmail(walletAddress: string, code: string) {
+  const wallet = walletAddress.toLowerCase()
+  const row = await prismaDB.notificationEmail.findUnique({
+    where: { walletAddress: wallet },
+  })
+
+  if (!row) {
+    throw new EmailError('No email registered for this wallet', 'NOT_FOUND')
+  }
+  if (row.verifiedAt) return toSettings(row)
+
+  const expected = Buffer.from(row.verificationCodeHash ?? '', 'hex')
+  const actual = Buffer.from(hashCode(code.trim().toUpperCase()), 'hex')
+  const expired =
+    !row.verificationExpiresAt || row.verificationExpiresAt <= new Date()
+
+  if (
+    expired ||
+    expected.length !== actual.length ||
+    !timingSafeEqual(expected, actual)
+  ) {
+    throw new EmailError(
+      'Verification code is invalid or expired',
+      'INVALID_CODE'
+    )
+  }
+
+  const verified = await prismaDB.notificationEmail.update({
+    where: { walletAddress: wallet },
+    data: {
+      verifiedAt: new Date(),
+      verificationCodeHash: null,
+      verificationExpiresAt: null,
+    },
+  })
+
+  emailLogger.info('Email verified', { wallet })
+  return toSettings(verified)
+}
+
+/** Opt out: forget the address; queued emails to it are still attempted */
+export async function removeEmail(walletAddress: string) {
+  await prismaDB.notificationEmail.deleteMany({
+    where: { walletAddress: walletAddress.toLowerCase() },
+  })
+}
+
+// --------------------
+// Delivery
+// --------------------
+
+/**
+ * The email delivery row for an outbox row, or null when the event has no
+ * template, email is not configured or the recipient has no verified address.
+ */
+export async function emailDeliveryFor(
+  row: Pick<
+    NotificationOutbox,
+    'id' | 'eventType' | 'sellerAddress' | 'payload'
+  >
+): Promise<{ outboxId: string; walletAddress: string; email: string } | null> {
+  const template = EMAIL_TEMPLATES[row.eventType as NotificationEventType]
+  if (!template || !getEmailTransport()) return null
+
+  const walletAddress = template
+    .recipient({
+      sellerAddress: row.sellerAddress,
+      payload: row.payload as NotificationPayload,
+    })
+    ?.toLowerCase()
+  if (!walletAddress) return null
+
+  const settings = await prismaDB.notificationEmail.findUnique({
+    where: { walletAddress },
+  })
+  if (!settings?.verifiedAt) return null
+
+  return { outboxId: row.id, walletAddress, email: settings.email }
+}
+
+/** Send one email delivery, retrying with backoff until MAX_EMAIL_ATTEMPTS */
+export async function deliverEmail(
+  delivery: Prisma.EmailDeliveryGetPayload<{ include: { outbox: true } }>
+): Promise<'sent' | 'retrying' | 'failed'> {
+  const attempts = delivery.attempts + 1
+  const fields = {
+    deliveryId: delivery.id,
+    wallet: delivery.walletAddress,
+    eventType: delivery.outbox.eventType,
+    attempts,
+  }
+  const template = EMAIL_TEMPLATES[
+    delivery.outbox.eventType as NotificationEventType
+  ] as EmailTemplate
+
+  let error: string | null = null
+  try {
+    const message: EmailMessage = {
+      from: sender(),
+      to: delivery.email,
+      ...template.render(delivery.outbox.payload as NotificationPayload),
+    }
+    await requireTransport().send(message)
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : String(sendError)
+  }
+
+  if (!error) {
+    await prismaDB.emailDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'SENT',
+        attempts,
+        lastError: null,
+        nextAttemptAt: null,
+        sentAt: new Date(),
+      },
+    })
+    emailLogger.info('Notification email sent', fields)
+    return 'sent'
+  }
+
+  const exhausted = attempts >= MAX_EMAIL_ATTEMPTS
+  await prismaDB.emailDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: exhausted ? 'FAILED' : 'PENDING',
+      attempts,
+      lastError: error.slice(0, MAX_ERROR_LENGTH),
+      nextAttemptAt: exhausted
+        ? null
+        : new Date(Date.now() + getNotificationRetryDelayMs(attempts)),
+    },
+  })
+
+  if (exhausted) {
+    emailLogger.error('Notification email failed permanently', {
+      ...fields,
+      error,
+    })
+    return 'failed'
+  }
+
+  emailLogger.warn('Notification email failed, will retry', {
+    ...fields,
+    error,
+  })
+  return 'retrying'
+}
+
+/**
+ * Send every email delivery whose backoff has elapsed. Rows are created from
+ * the outbox by the webhook worker's dispatch step.
+ */
+export async function sendDueEmails(limit = EMAIL_BATCH_SIZE) {
+  const result = { attempted: 0, sent: 0, failed: 0 }
+  if (sending || !getEmailTransport()) return result
+  sending = true
+
+  try {
+    const due = await prismaDB.emailDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+      include: { outbox: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    })
+
+    for (const delivery of due) {
+      result.attempted++
+      const outcome = await deliverEmail(delivery)
+      if (outcome === 'sent') result.sent++
+      else result.failed++
+    }
+
+    return result
+  } finally {
+    sending = false
+  }
+}
+
+export function startEmailWorker() {
+  if (!getEmailTransport()) {
+    emailLogger.info('SMTP_URL not set, email notifications disabled')
+    return
+  }
+
+  emailLogger.info('Starting email notification worker')
+
+  emailInterval = setInterval(() => {
+    sendDueEmails().catch((error) => {
+      emailLogger.error('Email batch failed', { err: error })
+    })
+  }, EMAIL_INTERVAL_MS)
+}
+
+export function stopEmailWorker() {
+  if (emailInterval) {
+    clearInterval(emailInterval)
+    emailInterval = null
+  }
+}
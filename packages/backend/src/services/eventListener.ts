@@ -1,19 +1,52 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import {
-  publicClient,
-  MARKETPLACE_ADDRESS,
-  CONFIRMATIONS_REQUIRED,
-} from '../config/chain.js'
+import { randomUUID } from 'node:crypto'
+
+import { MARKETPLACE_ABI } from '../config/chain.js'
 import prismaDB from '../config/db.js'
+import {
+  getDefaultDeployment,
+  getDeployments,
+  type Deployment,
+} from '../config/deployments.js'
+import { logger, runWithLogContext } from '../lib/logger.js'
 
-import { parsePurchaseCompletedEvent } from './eventParsing.js'
-import { notifySeller } from './notification.js'
+import { getCheckpoints, saveCheckpoints } from './checkpoints.js'
+import { summarizeLedger, WITHDRAWAL_DELAY_MS } from './earnings.js'
+import {
+  getMarketplaceEventName,
+  parseListingCreatedEvent,
+  parseListingDeactivatedEvent,
+  parsePurchaseCompletedEvent,
+  parseWithdrawalEvent,
+} from './eventParsing.js'
+import { startLogSubscription, stopLogSubscription } from './logSubscription.js'
+import {
+  blocksScannedTotal,
+  chainHeadLag,
+  eventsFailedTotal,
+  eventsProcessedTotal,
+  lastSuccessfulPoll,
+  listenerPollDuration,
+} from './metrics.js'
+import {
+  addInboxNotification,
+  enqueueSellerNotification,
+} from './notification.js'
+import {
+  detectReorg,
+  pruneIndexedBlocks,
+  recordIndexedBlocks,
+  rollbackFromBlock,
+} from './reorg.js'
+import { getEventRetryDelayMs, withRetry } from './retry.js'
+
+const listenerLogger = logger.child({ component: 'listener' })
 
 const POLL_INTERVAL_MS = 8_000
+// While the WebSocket subscription is healthy polling only catches up on gaps
+const CATCH_UP_POLL_INTERVAL_MS = 60_000
 export const MAX_BLOCK_CHUNK = 2_000n
 export const OVERLAP_BLOCKS = 5n
-const MAX_RPC_RETRIES = 3
-const RPC_RETRY_BASE_MS = 1_000
 
 export const PURCHASE_COMPLETED_EVENT = {
   type: 'event' as const,
@@ -26,45 +59,89 @@ export const PURCHASE_COMPLETED_EVENT = {
   ],
 }
 
-let pollingInterval: NodeJS.Timeout | null = null
-let polling = false
+export const LISTING_CREATED_EVENT = {
+  type: 'event' as const,
+  name: 'ListingCreated' as const,
+  inputs: [
+    { indexed: true, name: 'listingId', type: 'uint256' as const },
+    { indexed: true, name: 'seller', type: 'address' as const },
+    { indexed: false, name: 'dataCid', type: 'string' as const },
+    { indexed: false, name: 'envelopeCid', type: 'string' as const },
+    { indexed: false, name: 'envelopeHash', type: 'bytes32' as const },
+    { indexed: false, name: 'priceUsdc', type: 'uint256' as const },
+  ],
+}
 
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
+export const LISTING_DEACTIVATED_EVENT = {
+  type: 'event' as const,
+  name: 'ListingDeactivated' as const,
+  inputs: [
+    { indexed: true, name: 'listingId', type: 'uint256' as const },
+    { indexed: true, name: 'caller', type: 'address' as const },
+  ],
 }
 
-export async function withRetry<T>(
-  fn: () => Promise<T>,
-  label: string,
-  maxRetries = MAX_RPC_RETRIES
-): Promise<T> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn()
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error)
-
-      if (attempt === maxRetries) {
-        console.error(
-          `[listener] ${label} failed after ${maxRetries} attempts: ${message}`
-        )
-        throw error
-      }
+export const WITHDRAWAL_EVENT = {
+  type: 'event' as const,
+  name: 'Withdrawal' as const,
+  inputs: [
+    { indexed: true, name: 'listingId', type: 'uint256' as const },
+    { indexed: true, name: 'seller', type: 'address' as const },
+    { indexed: false, name: 'amountUsdc', type: 'uint256' as const },
+  ],
+}
 
-      const delayMs = RPC_RETRY_BASE_MS * attempt
-      console.warn(
-        `[listener] ${label} attempt ${attempt}/${maxRetries} failed, retrying in ${delayMs}ms: ${message}`
-      )
-      await sleep(delayMs)
+/**
+ * Events consumed by the polling listener, fetched in a single getLogs call.
+ * Logs come back in block order, so a listing is indexed before purchases or
+ * deactivations of it mined in the same chunk.
+ */
+export const INDEXED_EVENTS = [
+  LISTING_CREATED_EVENT,
+  PURCHASE_COMPLETED_EVENT,
+  LISTING_DEACTIVATED_EVENT,
+  WITHDRAWAL_EVENT,
+]
+
+export const INDEXED_EVENT_TYPES = INDEXED_EVENTS.map((event) => event.name)
+
+/**
+ * Placeholder values for listings indexed from chain before the seller has
+ * submitted metadata through POST /api/listings.
+ */
+export const PENDING_LISTING_DESCRIPTION = ''
+export const PENDING_LISTING_CATEGORY = 'Other'
+
+const BPS_DENOM = 10_000n
+
+interface ListenerState {
+  pollingInterval: NodeJS.Timeout | null
+  polling: boolean
+  // Logs pushed by the subscription, held until the deployment's required
+  // confirmations have been mined on top of them. Keyed by txHash:logIndex.
+  pendingSubscribedLogs: Map<string, any>
+}
+
+/** Listener state per deployment, keyed by chain id */
+const listenerStates = new Map<number, ListenerState>()
+
+function getListenerState(deployment: Deployment): ListenerState {
+  let state = listenerStates.get(deployment.chainId)
+  if (!state) {
+    state = {
+      pollingInterval: null,
+      polling: false,
+      pendingSubscribedLogs: new Map(),
     }
+    listenerStates.set(deployment.chainId, state)
   }
-
-  throw new Error('unreachable')
+  return state
 }
 
 export async function recordFailedEvent(
   log: any,
-  errorMessage: string
+  errorMessage: string,
+  deployment: Deployment = getDefaultDeployment()
 ): Promise<void> {
   try {
     await prismaDB.eventLog.upsert({
@@ -78,12 +155,16 @@ export async function recordFailedEvent(
         error: errorMessage,
       },
       create: {
-        eventType: 'PurchaseCompleted',
+        chainId: deployment.chainId,
+        contractAddress: deployment.contractAddress,
+        eventType: getMarketplaceEventName(log) ?? 'Unknown',
         txHash: log.transactionHash,
         logIndex: log.logIndex,
         blockNumber: Number(log.blockNumber),
         processed: false,
         error: errorMessage,
+        attempts: 1,
+        nextAttemptAt: new Date(Date.now() + getEventRetryDelayMs(1)),
         data: {
           address: log.address,
           data: log.data,
@@ -92,51 +173,197 @@ export async function recordFailedEvent(
       },
     })
   } catch (dbError) {
-    console.error(
-      `[listener] Failed to record event failure: ${dbError instanceof Error ? dbError.message : String(dbError)}`
-    )
+    listenerLogger.error('Failed to record event failure', {
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      err: dbError,
+    })
   }
 }
 
-export async function processLog(log: any): Promise<'created' | 'skipped'> {
-  if (log.blockNumber == null || !log.transactionHash || log.logIndex == null) {
-    console.warn('[listener] Skipping log with missing fields')
-    return 'skipped'
-  }
+async function getBlockTimestamp(
+  deployment: Deployment,
+  blockNumber: number
+): Promise<Date> {
+  const block = await withRetry(
+    () => deployment.client.getBlock({ blockNumber: BigInt(blockNumber) }),
+    `getBlock(${blockNumber})`
+  )
 
-  const blockNumber = Number(log.blockNumber)
-  const txHash: string = log.transactionHash
-  const logIndex: number = log.logIndex
+  return new Date(Number(block.timestamp) * 1000)
+}
 
-  const alreadyProcessed = await prismaDB.eventLog.findUnique({
-    where: {
-      txHash_logIndex: { txHash, logIndex },
+/**
+ * Platform fee in effect when a purchase was mined. The contract does not
+ * emit the fee, so it is read from state at the purchase block.
+ */
+async function getPlatformFeeBps(
+  deployment: Deployment,
+  blockNumber: number
+): Promise<bigint> {
+  const feeBps = await withRetry(
+    () =>
+      deployment.client.readContract({
+        address: deployment.marketplaceAddress,
+        abi: MARKETPLACE_ABI,
+        functionName: 'platformFeeBps',
+        blockNumber: BigInt(blockNumber),
+      }),
+    `readContract(platformFeeBps@${blockNumber})`
+  )
+
+  return BigInt(feeBps as bigint)
+}
+
+function listingKey(deployment: Deployment, listingId: string) {
+  return {
+    chainId_contractAddress_onchainId: {
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress,
+      onchainId: Number(listingId),
+    },
+  }
+}
+
+async function markEventProcessed(
+  tx: any,
+  deployment: Deployment,
+  eventType: string,
+  txHash: string,
+  logIndex: number,
+  blockNumber: number
+): Promise<void> {
+  await tx.eventLog.upsert({
+    where: { txHash_logIndex: { txHash, logIndex } },
+    update: { processed: true, error: null, nextAttemptAt: null },
+    create: {
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress,
+      eventType,
+      txHash,
+      logIndex,
+      blockNumber,
+      processed: true,
     },
   })
+}
 
-  if (alreadyProcessed?.processed) {
-    return 'skipped'
-  }
+async function processListingCreated(
+  deployment: Deployment,
+  log: any,
+  blockNumber: number,
+  txHash: string,
+  logIndex: number
+): Promise<'created' | 'skipped'> {
+  const { listingId, seller, dataCid, envelopeCid, envelopeHash, priceUsdc } =
+    parseListingCreatedEvent(log)
+
+  listenerLogger.info('Processing listing', {
+    chainId: deployment.chainId,
+    listingId,
+    blockNumber,
+    txHash,
+  })
+
+  return prismaDB.$transaction(async (tx: any) => {
+    const existing = await tx.listing.findUnique({
+      where: listingKey(deployment, listingId),
+    })
+
+    const chainFields = {
+      sellerAddress: seller.toLowerCase(),
+      dataCid,
+      envelopeCid,
+      envelopeHash,
+      priceUsdc,
+      txHash,
+      blockNumber,
+    }
+    const placeholder = {
+      title: `Listing #${listingId}`,
+      description: PENDING_LISTING_DESCRIPTION,
+      category: PENDING_LISTING_CATEGORY,
+      metadataPending: true,
+    }
+
+    if (!existing) {
+      await tx.listing.create({
+        data: {
+          chainId: deployment.chainId,
+          contractAddress: deployment.contractAddress,
+          onchainId: Number(listingId),
+          ...chainFields,
+          ...placeholder,
+        },
+      })
+    } else if (existing.reorgedAt) {
+      // Re-mined after a reorg. The id may now belong to another transaction,
+      // in which case the old seller's metadata no longer applies.
+      await tx.listing.update({
+        where: { id: existing.id },
+        data: {
+          ...chainFields,
+          ...(existing.txHash === txHash ? {} : placeholder),
+          active: true,
+          reorgedAt: null,
+        },
+      })
+    }
+
+    await markEventProcessed(
+      tx,
+      deployment,
+      'ListingCreated',
+      txHash,
+      logIndex,
+      blockNumber
+    )
+
+    return existing && !existing.reorgedAt ? 'skipped' : 'created'
+  })
+}
 
+async function processPurchaseCompleted(
+  deployment: Deployment,
+  log: any,
+  blockNumber: number,
+  txHash: string,
+  logIndex: number
+): Promise<'created' | 'skipped'> {
   const { listingId, buyer, seller, amountUsdc } =
     parsePurchaseCompletedEvent(log)
 
-  console.log(
-    `[listener] Processing purchase: listing=${listingId}, block=${blockNumber}, tx=${txHash}`
-  )
+  listenerLogger.info('Processing purchase', {
+    chainId: deployment.chainId,
+    listingId,
+    buyer,
+    blockNumber,
+    txHash,
+  })
 
-  const purchase = await prismaDB.$transaction(async (tx: any) => {
+  const [blockTimestamp, feeBps] = await Promise.all([
+    getBlockTimestamp(deployment, blockNumber),
+    getPlatformFeeBps(deployment, blockNumber),
+  ])
+  const grossUsdc = BigInt(amountUsdc)
+  const feeUsdc = (grossUsdc * feeBps) / BPS_DENOM
+
+  await prismaDB.$transaction(async (tx: any) => {
     const listing = await tx.listing.findUnique({
-      where: { onchainId: Number(listingId) },
+      where: listingKey(deployment, listingId),
     })
 
     if (!listing) throw new Error('LISTING_NOT_FOUND')
 
+    // A purchase flagged by a reorg rollback is re-verified when its
+    // transaction is found again on the canonical chain.
     const created = await tx.purchase.upsert({
       where: { txHash },
-      update: {},
+      update: { txVerified: true, blockNumber, reorgedAt: null },
       create: {
         listingId: listing.id,
+        chainId: deployment.chainId,
+        contractAddress: deployment.contractAddress,
         buyerAddress: buyer,
         txHash,
         amountUsdc: amountUsdc.toString(),
@@ -145,51 +372,397 @@ export async function processLog(log: any): Promise<'created' | 'skipped'> {
       },
     })
 
-    await tx.eventLog.upsert({
+    // The contract starts the withdrawal clock at the first sale into an
+    // empty listing balance
+    const ledger = await tx.sellerLedgerEntry.findMany({
+      where: { listingId: listing.id },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    })
+    const startsWithdrawalClock =
+      (summarizeLedger(ledger).listings[0]?.pendingUsdc ?? '0') === '0'
+
+    await tx.sellerLedgerEntry.upsert({
       where: { txHash_logIndex: { txHash, logIndex } },
-      update: { processed: true, error: null },
+      update: {},
       create: {
-        eventType: 'PurchaseCompleted',
+        listingId: listing.id,
+        sellerAddress: seller.toLowerCase(),
+        entryType: 'SALE',
+        purchaseId: created.id,
+        grossUsdc: grossUsdc.toString(),
+        feeBps: Number(feeBps),
+        feeUsdc: feeUsdc.toString(),
+        netUsdc: (grossUsdc - feeUsdc).toString(),
         txHash,
         logIndex,
         blockNumber,
-        processed: true,
+        blockTimestamp,
       },
     })
 
-    return created
+    const listingRef = {
+      listingId: listing.id,
+      chainId: deployment.chainId,
+      onchainListingId: Number(listingId),
+    }
+
+    await enqueueSellerNotification(tx, {
+      eventType: 'purchase.completed',
+      eventKey: `purchase.completed:${created.id}`,
+      sellerAddress: seller,
+      payload: {
+        purchaseId: created.id,
+        ...listingRef,
+        buyer: buyer.toLowerCase(),
+        amountUsdc: grossUsdc.toString(),
+        netUsdc: (grossUsdc - feeUsdc).toString(),
+        txHash,
+        blockNumber,
+      },
+    })
+
+    await addInboxNotification(tx, {
+      type: 'purchase.completed',
+      eventKey: `purchase.completed:${created.id}`,
+      recipientAddress: seller,
+      message: `New purchase of "${listing.title}"`,
+      listingId: listing.id,
+      purchaseId: created.id,
+    })
+
+    if (startsWithdrawalClock) {
+      const availableAt = new Date(
+        blockTimestamp.getTime() + WITHDRAWAL_DELAY_MS
+      )
+      await enqueueSellerNotification(tx, {
+        eventType: 'withdrawal.available',
+        eventKey: `withdrawal.available:${txHash}:${logIndex}`,
+        sellerAddress: seller,
+        payload: { ...listingRef, availableAt: availableAt.toISOString() },
+        availableAt,
+      })
+    }
+
+    await markEventProcessed(
+      tx,
+      deployment,
+      'PurchaseCompleted',
+      txHash,
+      logIndex,
+      blockNumber
+    )
+  })
+
+  return 'created'
+}
+
+async function processListingDeactivated(
+  deployment: Deployment,
+  log: any,
+  blockNumber: number,
+  txHash: string,
+  logIndex: number
+): Promise<'created' | 'skipped'> {
+  const { listingId, caller } = parseListingDeactivatedEvent(log)
+
+  listenerLogger.info('Processing deactivation', {
+    chainId: deployment.chainId,
+    listingId,
+    caller,
+    blockNumber,
+    txHash,
   })
 
-  await notifySeller({
-    seller,
-    purchaseId: purchase.id,
+  const deactivatedAt = await getBlockTimestamp(deployment, blockNumber)
+
+  await prismaDB.$transaction(async (tx: any) => {
+    const listing = await tx.listing.findUnique({
+      where: listingKey(deployment, listingId),
+    })
+
+    if (!listing) throw new Error('LISTING_NOT_FOUND')
+
+    await tx.listing.update({
+      where: { id: listing.id },
+      data: { active: false },
+    })
+
+    await tx.listingDeactivation.upsert({
+      where: { txHash_logIndex: { txHash, logIndex } },
+      update: {},
+      create: {
+        listingId: listing.id,
+        callerAddress: caller.toLowerCase(),
+        txHash,
+        logIndex,
+        blockNumber,
+        deactivatedAt,
+      },
+    })
+
+    await addInboxNotification(tx, {
+      type: 'listing.deactivated',
+      eventKey: `listing.deactivated:${txHash}:${logIndex}`,
+      recipientAddress: listing.sellerAddress,
+      message: `"${listing.title}" was deactivated`,
+      listingId: listing.id,
+    })
+
+    await markEventProcessed(
+      tx,
+      deployment,
+      'ListingDeactivated',
+      txHash,
+      logIndex,
+      blockNumber
+    )
   })
 
   return 'created'
 }
 
-export async function pollOnce(): Promise<void> {
-  if (polling) return
-  polling = true
+async function processWithdrawal(
+  deployment: Deployment,
+  log: any,
+  blockNumber: number,
+  txHash: string,
+  logIndex: number
+): Promise<'created' | 'skipped'> {
+  const { listingId, seller, amountUsdc } = parseWithdrawalEvent(log)
+
+  listenerLogger.info('Processing withdrawal', {
+    chainId: deployment.chainId,
+    listingId,
+    amountUsdc,
+    blockNumber,
+    txHash,
+  })
+
+  const blockTimestamp = await getBlockTimestamp(deployment, blockNumber)
+
+  await prismaDB.$transaction(async (tx: any) => {
+    const listing = await tx.listing.findUnique({
+      where: listingKey(deployment, listingId),
+    })
+
+    if (!listing) throw new Error('LISTING_NOT_FOUND')
+
+    await tx.sellerLedgerEntry.upsert({
+      where: { txHash_logIndex: { txHash, logIndex } },
+      update: {},
+      create: {
+        listingId: listing.id,
+        sellerAddress: seller.toLowerCase(),
+        entryType: 'WITHDRAWAL',
+        withdrawnUsdc: amountUsdc,
+        txHash,
+        logIndex,
+        blockNumber,
+        blockTimestamp,
+      },
+    })
+
+    await markEventProcessed(
+      tx,
+      deployment,
+      'Withdrawal',
+      txHash,
+      logIndex,
+      blockNumber
+    )
+  })
+
+  return 'created'
+}
+
+export async function processLog(
+  log: any,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<'created' | 'skipped'> {
+  if (log.blockNumber == null || !log.transactionHash || log.logIndex == null) {
+    listenerLogger.warn('Skipping log with missing fields')
+    return 'skipped'
+  }
+
+  const blockNumber = Number(log.blockNumber)
+  const txHash: string = log.transactionHash
+  const logIndex: number = log.logIndex
+
+  const alreadyProcessed = await prismaDB.eventLog.findUnique({
+    where: {
+      txHash_logIndex: { txHash, logIndex },
+    },
+  })
+
+  // Discarded events were given up on by an admin and stay that way
+  if (alreadyProcessed?.processed || alreadyProcessed?.discardedAt) {
+    return 'skipped'
+  }
+
+  const eventName = getMarketplaceEventName(log)
+  const labels = {
+    chain_id: deployment.chainId,
+    event_type: eventName ?? 'Unknown',
+  }
+
+  try {
+    const status = await dispatchLog(
+      deployment,
+      log,
+      eventName,
+      blockNumber,
+      txHash,
+      logIndex
+    )
+    eventsProcessedTotal.inc({ ...labels, status })
+    return status
+  } catch (error) {
+    eventsFailedTotal.inc(labels)
+    throw error
+  }
+}
+
+async function dispatchLog(
+  deployment: Deployment,
+  log: any,
+  eventName: string | null,
+  blockNumber: number,
+  txHash: string,
+  logIndex: number
+): Promise<'created' | 'skipped'> {
+  switch (eventName) {
+    case 'ListingCreated':
+      return processListingCreated(
+        deployment,
+        log,
+        blockNumber,
+        txHash,
+        logIndex
+      )
+    case 'PurchaseCompleted':
+      return processPurchaseCompleted(
+        deployment,
+        log,
+        blockNumber,
+        txHash,
+        logIndex
+      )
+    case 'ListingDeactivated':
+      return processListingDeactivated(
+        deployment,
+        log,
+        blockNumber,
+        txHash,
+        logIndex
+      )
+    case 'Withdrawal':
+      return processWithdrawal(deployment, log, blockNumber, txHash, logIndex)
+    default:
+      listenerLogger.warn('Skipping unsupported event', {
+        eventName,
+        txHash,
+        logIndex,
+      })
+      return 'skipped'
+  }
+}
+
+/**
+ * Starting block used for event streams without a checkpoint: the
+ * deployment's configured start block, otherwise a few blocks behind its last
+ * indexed event (or behind the confirmed head on a fresh database).
+ */
+async function getInitialBlock(
+  deployment: Deployment,
+  confirmedBlock: bigint
+): Promise<bigint> {
+  if (deployment.startBlock != null) return deployment.startBlock
+
+  const lastEvent = await prismaDB.eventLog.findFirst({
+    where: {
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress,
+      eventType: { in: INDEXED_EVENT_TYPES },
+    },
+    orderBy: { blockNumber: 'desc' },
+  })
+
+  const rawFrom = lastEvent
+    ? BigInt(lastEvent.blockNumber) - OVERLAP_BLOCKS
+    : confirmedBlock - OVERLAP_BLOCKS
+  return rawFrom > 0n ? rawFrom : 0n
+}
+
+/**
+ * Resume from the oldest checkpoint across indexed event streams so nothing
+ * mined while the listener was down is skipped.
+ */
+async function resolveFromBlock(
+  deployment: Deployment,
+  confirmedBlock: bigint
+): Promise<bigint> {
+  const checkpoints = await getCheckpoints(INDEXED_EVENT_TYPES, deployment)
+
+  const resumeBlocks = checkpoints.map(
+    (checkpoint) => BigInt(checkpoint.lastScannedBlock) + 1n
+  )
+
+  if (checkpoints.length < INDEXED_EVENT_TYPES.length) {
+    resumeBlocks.push(await getInitialBlock(deployment, confirmedBlock))
+  }
+
+  return resumeBlocks.reduce((min, block) => (block < min ? block : min))
+}
+
+/**
+ * Scan every confirmed block since the last checkpoint. Each poll gets its
+ * own `pollId` in the log context.
+ */
+export async function pollOnce(
+  deployment: Deployment = getDefaultDeployment()
+): Promise<void> {
+  return runWithLogContext(
+    { chainId: deployment.chainId, pollId: randomUUID() },
+    () => poll(deployment)
+  )
+}
+
+async function poll(deployment: Deployment): Promise<void> {
+  const state = getListenerState(deployment)
+  if (state.polling) return
+  state.polling = true
+
+  const { client, chainId } = deployment
+  const endTimer = listenerPollDuration.startTimer({ chain_id: chainId })
+  let outcome = 'error'
 
   try {
     const latestBlock = await withRetry(
-      () => publicClient.getBlockNumber(),
+      () => client.getBlockNumber(),
       'getBlockNumber'
     )
-    const confirmedBlock = latestBlock - BigInt(CONFIRMATIONS_REQUIRED)
+    const confirmedBlock = latestBlock - BigInt(deployment.confirmations)
 
-    const lastEvent = await prismaDB.eventLog.findFirst({
-      where: { eventType: 'PurchaseCompleted' },
-      orderBy: { blockNumber: 'desc' },
-    })
+    const forkBlock = await detectReorg(confirmedBlock, deployment)
+    if (forkBlock !== null) {
+      await rollbackFromBlock(forkBlock, deployment)
+    }
+
+    let fromBlock = await resolveFromBlock(deployment, confirmedBlock)
 
-    const rawFrom = lastEvent
-      ? BigInt(lastEvent.blockNumber) - OVERLAP_BLOCKS
-      : confirmedBlock - OVERLAP_BLOCKS
-    const fromBlock = rawFrom > 0n ? rawFrom : 0n
+    // Re-index the canonical chain from just above the fork point
+    if (forkBlock !== null && forkBlock + 1n < fromBlock) {
+      fromBlock = forkBlock + 1n
+    }
 
-    if (fromBlock > confirmedBlock) return
+    if (fromBlock > confirmedBlock) {
+      chainHeadLag.set(
+        { chain_id: chainId },
+        Number(latestBlock - fromBlock + 1n)
+      )
+      outcome = 'ok'
+      return
+    }
 
     let chunkStart = fromBlock
 
@@ -199,13 +772,23 @@ export async function pollOnce(): Promise<void> {
           ? chunkStart + MAX_BLOCK_CHUNK - 1n
           : confirmedBlock
 
-      console.log(`[listener] Scanning blocks ${chunkStart} → ${chunkEnd}`)
+      listenerLogger.debug('Scanning blocks', {
+        fromBlock: chunkStart,
+        toBlock: chunkEnd,
+      })
+
+      // Fetched before getLogs: a reorg landing between the two calls then
+      // shows up as a hash mismatch on the next poll instead of going unseen.
+      const chunkEndBlock = await withRetry(
+        () => client.getBlock({ blockNumber: chunkEnd }),
+        `getBlock(${chunkEnd})`
+      )
 
       const logs = await withRetry(
         () =>
-          publicClient.getLogs({
-            address: MARKETPLACE_ADDRESS,
-            event: PURCHASE_COMPLETED_EVENT,
+          client.getLogs({
+            address: deployment.marketplaceAddress,
+            events: INDEXED_EVENTS,
             fromBlock: chunkStart,
             toBlock: chunkEnd,
           }),
@@ -213,47 +796,234 @@ export async function pollOnce(): Promise<void> {
       )
 
       if (logs.length) {
-        console.log(
-          `[listener] Found ${logs.length} PurchaseCompleted events in chunk`
-        )
+        listenerLogger.info('Found marketplace events', {
+          fromBlock: chunkStart,
+          toBlock: chunkEnd,
+          count: logs.length,
+        })
       }
 
       for (const log of logs) {
         try {
-          await processLog(log)
+          await processLog(log, deployment)
         } catch (error) {
           const message = error instanceof Error ? error.message : String(error)
-          console.error(
-            `[listener] Failed to process log tx=${log.transactionHash} logIndex=${log.logIndex} block=${log.blockNumber}: ${message}`
-          )
-          await recordFailedEvent(log, message)
+          listenerLogger.error('Failed to process log', {
+            txHash: log.transactionHash,
+            logIndex: log.logIndex,
+            blockNumber: log.blockNumber,
+            error: message,
+          })
+          await recordFailedEvent(log, message, deployment)
         }
       }
 
+      await recordIndexedBlocks(
+        [
+          ...logs
+            .filter((log) => log.blockNumber != null && log.blockHash)
+            .map((log) => ({
+              blockNumber: log.blockNumber as bigint,
+              blockHash: log.blockHash as string,
+            })),
+          { blockNumber: chunkEnd, blockHash: chunkEndBlock.hash as string },
+        ],
+        deployment
+      )
+      await saveCheckpoints(INDEXED_EVENT_TYPES, chunkEnd, deployment)
+
+      blocksScannedTotal.inc(
+        { chain_id: chainId, source: 'listener' },
+        Number(chunkEnd - chunkStart + 1n)
+      )
+      chainHeadLag.set({ chain_id: chainId }, Number(latestBlock - chunkEnd))
+
       chunkStart = chunkEnd + 1n
     }
+
+    await pruneIndexedBlocks(confirmedBlock, deployment)
+    outcome = 'ok'
   } finally {
-    polling = false
+    state.polling = false
+    endTimer({ outcome })
+    if (outcome === 'ok') {
+      lastSuccessfulPoll.set({ chain_id: chainId }, Date.now() / 1000)
+    }
   }
 }
 
-export function startPurchaseListener() {
-  console.log('[listener] Starting PurchaseCompleted polling listener')
+/**
+ * Buffer logs pushed by the WebSocket subscription. Logs the node later
+ * marks as `removed` (reorged out before confirmation) are dropped.
+ */
+export function handleSubscribedLogs(
+  logs: any[],
+  deployment: Deployment = getDefaultDeployment()
+): void {
+  const { pendingSubscribedLogs } = getListenerState(deployment)
 
-  pollOnce().catch((error) => {
-    console.error('[listener] Initial poll failed:', error)
-  })
+  for (const log of logs) {
+    if (!log.transactionHash || log.logIndex == null) continue
+
+    const key = `${log.transactionHash}:${log.logIndex}`
+    if (log.removed) {
+      pendingSubscribedLogs.delete(key)
+    } else {
+      pendingSubscribedLogs.set(key, log)
+    }
+  }
+}
+
+/**
+ * Process buffered subscription logs that are now the deployment's required
+ * confirmations deep. Checkpoints are left to pollOnce, which still scans every block, so
+ * a log missed by the socket is picked up on the next catch-up poll.
+ */
+export async function flushConfirmedLogs(
+  headBlock: bigint,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<number> {
+  return runWithLogContext({ chainId: deployment.chainId }, () =>
+    flushLogs(headBlock, deployment)
+  )
+}
 
-  pollingInterval = setInterval(() => {
-    pollOnce().catch((error) => {
-      console.error('[listener] Poll error:', error)
+async function flushLogs(
+  headBlock: bigint,
+  deployment: Deployment
+): Promise<number> {
+  const state = getListenerState(deployment)
+  if (state.polling) return 0
+  state.polling = true
+
+  const { pendingSubscribedLogs } = state
+
+  try {
+    const confirmedBlock = headBlock - BigInt(deployment.confirmations)
+
+    const ready = [...pendingSubscribedLogs.entries()]
+      .filter(([, log]) => log.blockNumber <= confirmedBlock)
+      .sort(([, a], [, b]) =>
+        a.blockNumber === b.blockNumber
+          ? a.logIndex - b.logIndex
+          : a.blockNumber < b.blockNumber
+            ? -1
+            : 1
+      )
+
+    for (const [key, log] of ready) {
+      pendingSubscribedLogs.delete(key)
+
+      try {
+        await processLog(log, deployment)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        listenerLogger.error('Failed to process subscribed log', {
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+          blockNumber: log.blockNumber,
+          error: message,
+        })
+        await recordFailedEvent(log, message, deployment)
+      }
+    }
+
+    if (ready.length) {
+      await recordIndexedBlocks(
+        ready
+          .filter(([, log]) => log.blockHash)
+          .map(([, log]) => ({
+            blockNumber: log.blockNumber as bigint,
+            blockHash: log.blockHash as string,
+          })),
+        deployment
+      )
+    }
+
+    return ready.length
+  } finally {
+    state.polling = false
+  }
+}
+
+function schedulePolling(deployment: Deployment, intervalMs: number) {
+  const state = getListenerState(deployment)
+
+  if (state.pollingInterval) {
+    clearInterval(state.pollingInterval)
+  }
+
+  state.pollingInterval = setInterval(() => {
+    pollOnce(deployment).catch((error) => {
+      listenerLogger.error('Poll failed', {
+        chainId: deployment.chainId,
+        err: error,
+      })
     })
-  }, POLL_INTERVAL_MS)
+  }, intervalMs)
+}
+
+function startDeploymentListener(deployment: Deployment) {
+  const chainLogger = listenerLogger.child({ chainId: deployment.chainId })
+
+  chainLogger.info('Starting event polling', {
+    deployment: deployment.name,
+    contractAddress: deployment.contractAddress,
+  })
+
+  pollOnce(deployment).catch((error) => {
+    chainLogger.error('Initial poll failed', { err: error })
+  })
+
+  schedulePolling(deployment, POLL_INTERVAL_MS)
+
+  const subscribed = startLogSubscription(
+    {
+      events: INDEXED_EVENTS,
+      onLogs: (logs) => handleSubscribedLogs(logs, deployment),
+      onBlockNumber: (blockNumber) => {
+        flushConfirmedLogs(blockNumber, deployment).catch((error) => {
+          chainLogger.error('Failed to flush subscribed logs', { err: error })
+        })
+      },
+      onConnected: () => schedulePolling(deployment, CATCH_UP_POLL_INTERVAL_MS),
+      onDisconnected: (error) => {
+        chainLogger.warn('Subscription dropped, falling back to polling', {
+          error: error.message,
+        })
+        getListenerState(deployment).pendingSubscribedLogs.clear()
+        schedulePolling(deployment, POLL_INTERVAL_MS)
+        pollOnce(deployment).catch((pollError) => {
+          chainLogger.error('Catch-up poll failed', { err: pollError })
+        })
+      },
+    },
+    deployment
+  )
+
+  if (subscribed) {
+    chainLogger.info('Subscribing to marketplace events over WebSocket')
+  }
+}
+
+/**
+ * Index every configured deployment, each with its own poll loop and
+ * optional WebSocket subscription
+ */
+export function startPurchaseListener() {
+  for (const deployment of getDeployments()) {
+    startDeploymentListener(deployment)
+  }
 }
 
 export function stopPurchaseListener() {
-  if (pollingInterval) {
-    clearInterval(pollingInterval)
-    pollingInterval = null
+  for (const state of listenerStates.values()) {
+    if (state.pollingInterval) {
+      clearInterval(state.pollingInterval)
+      state.pollingInterval = null
+    }
+    state.pendingSubscribedLogs.clear()
   }
+
+  stopLogSubscription()
 }
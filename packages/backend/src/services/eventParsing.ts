@@ -10,15 +10,58 @@ export interface ParsedPurchaseCompletedEvent {
   amountUsdc: string
 }
 
-export function parsePurchaseCompletedEvent(log: {
-  data: unknown
-  topics: unknown
-}): ParsedPurchaseCompletedEvent {
-  const decoded = decodeEventLog({
+export interface ParsedListingCreatedEvent {
+  listingId: string
+  seller: string
+  dataCid: string
+  envelopeCid: string
+  envelopeHash: string
+  priceUsdc: string
+}
+
+export interface ParsedListingDeactivatedEvent {
+  listingId: string
+  caller: string
+}
+
+export interface ParsedWithdrawalEvent {
+  listingId: string
+  seller: string
+  amountUsdc: string
+}
+
+function decodeMarketplaceLog(log: { data: unknown; topics: unknown }) {
+  return decodeEventLog({
     abi: MARKETPLACE_ABI,
     data: log.data as any,
     topics: log.topics as any,
   })
+}
+
+/**
+ * Resolve the marketplace event name of a raw log.
+ * Prefers the `eventName` viem attaches to logs fetched with an ABI and
+ * falls back to decoding; returns null when the log cannot be decoded.
+ */
+export function getMarketplaceEventName(log: {
+  data: unknown
+  topics: unknown
+  eventName?: string
+}): string | null {
+  if (log.eventName) return log.eventName
+
+  try {
+    return decodeMarketplaceLog(log).eventName ?? null
+  } catch {
+    return null
+  }
+}
+
+export function parsePurchaseCompletedEvent(log: {
+  data: unknown
+  topics: unknown
+}): ParsedPurchaseCompletedEvent {
+  const decoded = decodeMarketplaceLog(log)
 
   const { listingId, buyer, seller, amountUsdc } = decoded.args as any
 
@@ -29,3 +72,51 @@ export function parsePurchaseCompletedEvent(log: {
     amountUsdc: amountUsdc.toString(),
   }
 }
+
+export function parseListingCreatedEvent(log: {
+  data: unknown
+  topics: unknown
+}): ParsedListingCreatedEvent {
+  const decoded = decodeMarketplaceLog(log)
+
+  const { listingId, seller, dataCid, envelopeCid, envelopeHash, priceUsdc } =
+    decoded.args as any
+
+  return {
+    listingId: listingId.toString(),
+    seller: seller as string,
+    dataCid: dataCid as string,
+    envelopeCid: envelopeCid as string,
+    envelopeHash: envelopeHash as string,
+    priceUsdc: priceUsdc.toString(),
+  }
+}
+
+export function parseListingDeactivatedEvent(log: {
+  data: unknown
+  topics: unknown
+}): ParsedListingDeactivatedEvent {
+  const decoded = decodeMarketplaceLog(log)
+
+  const { listingId, caller } = decoded.args as any
+
+  return {
+    listingId: listingId.toString(),
+    caller: caller as string,
+  }
+}
+
+export function parseWithdrawalEvent(log: {
+  data: unknown
+  topics: unknown
+}): ParsedWithdrawalEvent {
+  const decoded = decodeMarketplaceLog(log)
+
+  const { listingId, seller, amountUsdc } = decoded.args as any
+
+  return {
+    listingId: listingId.toString(),
+    seller: seller as string,
+    amountUsdc: amountUsdc.toString(),
+  }
+}
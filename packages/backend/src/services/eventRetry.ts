@@ -0,0 +1,264 @@
+import type { EventLog } from '@prisma/client'
+
+import prismaDB from '../config/db.js'
+import { getDeployment } from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
+
+import { processLog } from './eventListener.js'
+import { getEventRetryDelayMs } from './retry.js'
+
+export const MAX_EVENT_ATTEMPTS = Number(
+  process.env['EVENT_RETRY_MAX_ATTEMPTS'] || 5
+)
+const RETRY_INTERVAL_MS = 60_000
+const RETRY_BATCH_SIZE = 25
+
+const retryLogger = logger.child({ component: 'retry' })
+
+let retryInterval: NodeJS.Timeout | null = null
+let retrying = false
+
+export interface RetryBatchResult {
+  attempted: number
+  succeeded: number
+  failed: number
+  deadLettered: number
+}
+
+export type RetryOutcome = 'processed' | 'retrying' | 'dead_lettered'
+
+export class EventRetryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_DEAD_LETTERED'
+  ) {
+    super(message)
+    this.name = 'EventRetryError'
+  }
+}
+
+/** Unprocessed rows still owned by the retry worker. */
+const queuedWhere = {
+  processed: false,
+  deadLetteredAt: null,
+  discardedAt: null,
+}
+
+const deadLetterWhere = {
+  processed: false,
+  deadLetteredAt: { not: null },
+  discardedAt: null,
+}
+
+/**
+ * Rebuild the viem log shape `processLog` expects from the raw fields
+ * `recordFailedEvent` stored on the row.
+ */
+function toLog(event: EventLog) {
+  const data = event.data as {
+    address?: string
+    data?: string
+    topics?: string[]
+  } | null
+
+  if (!data?.topics?.length || data.data == null) {
+    throw new Error('EventLog row has no raw log data to replay')
+  }
+
+  return {
+    address: data.address,
+    data: data.data,
+    topics: data.topics,
+    transactionHash: event.txHash,
+    logIndex: event.logIndex,
+    blockNumber: BigInt(event.blockNumber),
+  }
+}
+
+/**
+ * Replay a single EventLog row. On failure the attempt counter is bumped and
+ * the row is either rescheduled with backoff or moved to the dead letter
+ * state once MAX_EVENT_ATTEMPTS is reached.
+ */
+export async function retryEvent(event: EventLog): Promise<RetryOutcome> {
+  const fields = {
+    chainId: event.chainId,
+    eventType: event.eventType,
+    txHash: event.txHash,
+    logIndex: event.logIndex,
+  }
+
+  try {
+    const deployment = getDeployment(event.chainId)
+    if (!deployment) {
+      throw new Error(`No deployment configured for chain ${event.chainId}`)
+    }
+
+    await processLog(toLog(event), deployment)
+    retryLogger.info('Retried event processed', fields)
+    return 'processed'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const attempts = event.attempts + 1
+    const exhausted = attempts >= MAX_EVENT_ATTEMPTS
+
+    await prismaDB.eventLog.update({
+      where: { id: event.id },
+      data: {
+        attempts,
+        error: message,
+        nextAttemptAt: exhausted
+          ? null
+          : new Date(Date.now() + getEventRetryDelayMs(attempts)),
+        deadLetteredAt: exhausted ? new Date() : null,
+      },
+    })
+
+    if (exhausted) {
+      retryLogger.error('Event dead-lettered', {
+        ...fields,
+        attempts,
+        error: message,
+      })
+      return 'dead_lettered'
+    }
+
+    retryLogger.warn('Event retry failed', {
+      ...fields,
+      attempts,
+      maxAttempts: MAX_EVENT_ATTEMPTS,
+      error: message,
+    })
+    return 'retrying'
+  }
+}
+
+/** Retry every queued EventLog row whose backoff has elapsed. */
+export async function retryDueEvents(
+  limit = RETRY_BATCH_SIZE
+): Promise<RetryBatchResult> {
+  const result: RetryBatchResult = {
+    attempted: 0,
+    succeeded: 0,
+    failed: 0,
+    deadLettered: 0,
+  }
+
+  if (retrying) return result
+  retrying = true
+
+  try {
+    const due = await prismaDB.eventLog.findMany({
+      where: {
+        ...queuedWhere,
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: new Date() } }],
+      },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+      take: limit,
+    })
+
+    for (const event of due) {
+      result.attempted++
+      const outcome = await retryEvent(event)
+      if (outcome === 'processed') result.succeeded++
+      else if (outcome === 'retrying') result.failed++
+      else result.deadLettered++
+    }
+
+    return result
+  } finally {
+    retrying = false
+  }
+}
+
+export async function listDeadLetteredEvents(options: {
+  cursor?: string
+  limit: number
+}) {
+  const events = await prismaDB.eventLog.findMany({
+    where: {
+      ...deadLetterWhere,
+      ...(options.cursor ? { id: { gt: options.cursor } } : {}),
+    },
+    orderBy: { id: 'asc' },
+    take: options.limit + 1,
+    select: {
+      id: true,
+      eventType: true,
+      txHash: true,
+      logIndex: true,
+      blockNumber: true,
+      attempts: true,
+      error: true,
+      deadLetteredAt: true,
+      createdAt: true,
+    },
+  })
+
+  const hasNextPage = events.length > options.limit
+  return {
+    events: hasNextPage ? events.slice(0, options.limit) : events,
+    nextCursor: hasNextPage ? (events[options.limit]?.id ?? null) : null,
+  }
+}
+
+async function findDeadLetteredEvent(id: string) {
+  const event = await prismaDB.eventLog.findUnique({ where: { id } })
+
+  if (!event) {
+    throw new EventRetryError('Event not found', 'NOT_FOUND')
+  }
+  if (event.processed || !event.deadLetteredAt || event.discardedAt) {
+    throw new EventRetryError('Event is not dead-lettered', 'NOT_DEAD_LETTERED')
+  }
+
+  return event
+}
+
+/**
+ * Give a dead-lettered event a fresh set of attempts and replay it
+ * immediately.
+ */
+export async function requeueDeadLetteredEvent(
+  id: string
+): Promise<RetryOutcome> {
+  await findDeadLetteredEvent(id)
+
+  const event = await prismaDB.eventLog.update({
+    where: { id },
+    data: { attempts: 0, deadLetteredAt: null, nextAttemptAt: null },
+  })
+
+  return retryEvent(event)
+}
+
+/**
+ * Stop retrying a dead-lettered event. The row is kept for auditing and the
+ * listener skips it if the block is scanned again.
+ */
+export async function discardDeadLetteredEvent(id: string) {
+  await findDeadLetteredEvent(id)
+
+  return prismaDB.eventLog.update({
+    where: { id },
+    data: { discardedAt: new Date() },
+    select: { id: true, discardedAt: true },
+  })
+}
+
+export function startEventRetryWorker() {
+  retryLogger.info('Starting failed event retry worker')
+
+  retryInterval = setInterval(() => {
+    retryDueEvents().catch((error) => {
+      retryLogger.error('Retry batch failed', { err: error })
+    })
+  }, RETRY_INTERVAL_MS)
+}
+
+export function stopEventRetryWorker() {
+  if (retryInterval) {
+    clearInterval(retryInterval)
+    retryInterval = null
+  }
+}
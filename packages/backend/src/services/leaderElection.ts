@@ -0,0 +1,240 @@
+import { hostname } from 'node:os'
+
+import prismaDB from '../config/db.js'
+import { logger } from '../lib/logger.js'
+
+/** Single lease shared by every backend instance; its holder runs the indexer. */
+export const INDEXER_LEASE_NAME = 'indexer'
+export const LEASE_TTL_MS = Number(
+  process.env['INDEXER_LEASE_TTL_MS'] || 30_000
+)
+/** Renew well inside the TTL so one slow round-trip does not cost the lease. */
+const RENEW_INTERVAL_MS = Math.max(1_000, Math.floor(LEASE_TTL_MS / 3))
+/** Stop indexing this long before the lease runs out for everyone else. */
+export const LEASE_EXPIRY_MARGIN_MS = Math.max(
+  500,
+  Math.floor(LEASE_TTL_MS / 6)
+)
+
+export const INSTANCE_ID =
+  process.env['INSTANCE_ID'] || `${hostname()}:${process.pid}`
+
+const leaderLogger = logger.child({
+  component: 'leader',
+  instanceId: INSTANCE_ID,
+})
+
+export interface LeaderElectionOptions {
+  /** Called once this instance takes the lease */
+  onElected: () => Promise<void> | void
+  /** Called when the lease is lost, released or can no longer be confirmed */
+  onDemoted: () => Promise<void> | void
+}
+
+/** The lease as granted, both times read from the database clock */
+export interface LeaseGrant {
+  renewedAt: Date
+  expiresAt: Date
+}
+
+export interface LeaderStatus {
+  instanceId: string
+  isLeader: boolean
+  leaderId: string | null
+  acquiredAt: Date | null
+  expiresAt: Date | null
+}
+
+let options: LeaderElectionOptions | null = null
+let renewTimer: NodeJS.Timeout | null = null
+/** Demotes the leader before its last confirmed lease expires */
+let expiryTimer: NodeJS.Timeout | null = null
+let isLeader = false
+let ticking = false
+
+/**
+ * Take or renew the indexer lease. Returns the grant when this instance holds
+ * it, null when another instance does.
+ *
+ * One INSERT ... ON CONFLICT DO UPDATE covers creation, renewal and takeover of
+ * an expired lease. Postgres locks the row, so two instances racing for it
+ * cannot both win. Expiry is judged by the database clock (stored as UTC like
+ * every Prisma DateTime), so clock skew between instances cannot produce two
+ * leaders.
+ */
+export async function tryAcquireLease(): Promise<LeaseGrant | null> {
+  const rows = await prismaDB.$queryRaw<LeaseGrant[]>`
+    INSERT INTO "IndexerLease" ("name", "holderId", "acquiredAt", "renewedAt", "expiresAt")
+    VALUES (
+      ${INDEXER_LEASE_NAME},
+      ${INSTANCE_ID},
+      now() AT TIME ZONE 'UTC',
+      now() AT TIME ZONE 'UTC',
+      (now() AT TIME ZONE 'UTC') + ${LEASE_TTL_MS} * interval '1 millisecond'
+    )
+    ON CONFLICT ("name") DO UPDATE SET
+      "holderId" = EXCLUDED."holderId",
+      "acquiredAt" = CASE
+        WHEN "IndexerLease"."holderId" = EXCLUDED."holderId"
+          THEN "IndexerLease"."acquiredAt"
+        ELSE EXCLUDED."acquiredAt"
+      END,
+      "renewedAt" = EXCLUDED."renewedAt",
+      "expiresAt" = EXCLUDED."expiresAt"
+    WHERE "IndexerLease"."holderId" = EXCLUDED."holderId"
+      OR "IndexerLease"."expiresAt" < EXCLUDED."renewedAt"
+    RETURNING "renewedAt", "expiresAt"
+  `
+
+  return rows[0] ?? null
+}
+
+/** Give up the lease so a standby instance can take over without waiting for expiry. */
+export async function releaseLease(): Promise<void> {
+  await prismaDB.indexerLease.deleteMany({
+    where: { name: INDEXER_LEASE_NAME, holderId: INSTANCE_ID },
+  })
+}
+
+function clearExpiryTimer() {
+  if (expiryTimer) {
+    clearTimeout(expiryTimer)
+    expiryTimer = null
+  }
+}
+
+async function demote(reason: string) {
+  clearExpiryTimer()
+  if (!isLeader) return
+  isLeader = false
+  leaderLogger.warn('No longer the indexer leader', { reason })
+
+  try {
+    await options?.onDemoted()
+  } catch (error) {
+    leaderLogger.error('Failed to stop indexer after demotion', { err: error })
+  }
+}
+
+export async function runElection(): Promise<void> {
+  if (!options || ticking) return
+  ticking = true
+
+  try {
+    const requestedAt = Date.now()
+    let lease: LeaseGrant | null
+    try {
+      lease = await tryAcquireLease()
+    } catch (error) {
+      // Keep indexing until the expiry timer of the last renewal fires
+      leaderLogger.error('Lease renewal failed', { err: error })
+      return
+    }
+
+    if (!lease) {
+      await demote('lease is held by another instance')
+      return
+    }
+
+    // The database granted the lease for expiresAt - renewedAt, starting no
+    // earlier than the request was sent. Only that duration is used, so the
+    // local clock never has to agree with the database's
+    const validForMs = lease.expiresAt.getTime() - lease.renewedAt.getTime()
+    clearExpiryTimer()
+    expiryTimer = setTimeout(
+      () => {
+        void demote('lease could not be renewed before it expired')
+      },
+      Math.max(
+        0,
+        requestedAt + validForMs - LEASE_EXPIRY_MARGIN_MS - Date.now()
+      )
+    )
+
+    if (isLeader) return
+
+    isLeader = true
+    leaderLogger.info('Acquired the indexer lease')
+    try {
+      await options.onElected()
+    } catch (error) {
+      leaderLogger.error('Failed to start indexer', { err: error })
+    }
+  } finally {
+    ticking = false
+  }
+}
+
+/**
+ * Compete for the indexer lease now and on every renewal interval. Only the
+ * instance holding it runs `onElected`; standbys keep retrying and take over
+ * once the leader stops renewing.
+ */
+export async function startLeaderElection(
+  electionOptions: LeaderElectionOptions
+): Promise<void> {
+  if (renewTimer) return
+
+  options = electionOptions
+  leaderLogger.info('Competing for the indexer lease', {
+    ttlMs: LEASE_TTL_MS,
+  })
+
+  renewTimer = setInterval(() => {
+    void runElection()
+  }, RENEW_INTERVAL_MS)
+
+  await runElection()
+}
+
+/** Stop competing, stop the indexer if running here and release the lease. */
+export async function stopLeaderElection(): Promise<void> {
+  if (renewTimer) {
+    clearInterval(renewTimer)
+    renewTimer = null
+  }
+
+  const wasLeader = isLeader
+  await demote('shutting down')
+  options = null
+
+  if (wasLeader) {
+    try {
+      await releaseLease()
+    } catch (error) {
+      leaderLogger.error('Failed to release the indexer lease', { err: error })
+    }
+  }
+}
+
+/** Current lease holder as seen from this instance; /health reports it. */
+export async function getLeaderStatus(): Promise<LeaderStatus> {
+  const status: LeaderStatus = {
+    instanceId: INSTANCE_ID,
+    isLeader,
+    leaderId: null,
+    acquiredAt: null,
+    expiresAt: null,
+  }
+
+  try {
+    // Expiry is judged by the database clock, as when the lease is taken
+    const [lease] = await prismaDB.$queryRaw<
+      Array<{ holderId: string; acquiredAt: Date; expiresAt: Date }>
+    >`
+      SELECT "holderId", "acquiredAt", "expiresAt" FROM "IndexerLease"
+      WHERE "name" = ${INDEXER_LEASE_NAME}
+        AND "expiresAt" > now() AT TIME ZONE 'UTC'
+    `
+    if (lease) {
+      status.leaderId = lease.holderId
+      status.acquiredAt = lease.acquiredAt
+      status.expiresAt = lease.expiresAt
+    }
+  } catch (error) {
+    // The database check in /health already reports the outage
+    leaderLogger.error('Failed to read the indexer lease', { err: error })
+  }
+
+  return status
+}
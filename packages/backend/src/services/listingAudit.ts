@@ -0,0 +1,432 @@
+import type { Prisma } from '@prisma/client'
+import { zeroAddress } from 'viem'
+
+import { MARKETPLACE_ABI } from '../config/chain.js'
+import { prisma } from '../config/db.js'
+import {
+  getDeployment,
+  getDeployments,
+  type Deployment,
+} from '../config/deployments.js'
+
+const auditedListingInclude = {
+  purchases: {
+    select: { id: true, buyerAddress: true, txVerified: true },
+  },
+} satisfies Prisma.ListingInclude
+
+type AuditedListing = Prisma.ListingGetPayload<{
+  include: typeof auditedListingInclude
+}>
+
+type ChainListing = [
+  `0x${string}`, // seller
+  string, // dataCid
+  string, // envelopeCid
+  `0x${string}`, // envelopeHash
+  bigint, // priceUsdc
+  boolean, // active
+  bigint, // salesCount
+]
+
+export type AuditIssueCode =
+  | 'NO_DEPLOYMENT'
+  | 'CHAIN_READ_FAILED'
+  | 'SELLER_MISMATCH'
+  | 'DATA_CID_MISMATCH'
+  | 'ENVELOPE_CID_MISMATCH'
+  | 'ENVELOPE_HASH_MISMATCH'
+  | 'PRICE_MISMATCH'
+  | 'ACTIVE_MISMATCH'
+  | 'REORG_MISMATCH'
+  | 'SALES_COUNT_MISMATCH'
+  | 'PURCHASE_NOT_ON_CHAIN'
+  | 'PURCHASE_NOT_VERIFIED'
+  | 'PURCHASE_READ_FAILED'
+  | 'LISTING_MISSING'
+
+export interface AuditIssue {
+  code: AuditIssueCode
+  chainId: number
+  /** Contract listing id */
+  onchainId?: number
+  /** DB listing id, absent for LISTING_MISSING */
+  listingId?: string
+  purchaseId?: string
+  /** Value stored in the DB and read from the chain, when they differ */
+  db?: string
+  chain?: string
+  /** True once --repair has corrected the DB */
+  repaired: boolean
+}
+
+export interface DeploymentAuditSummary {
+  chainId: number
+  contractAddress: string
+  onchainListingCount: number | null
+  listingsChecked: number
+  purchasesChecked: number
+}
+
+export interface AuditReport {
+  repair: boolean
+  startedAt: string
+  finishedAt: string
+  deployments: DeploymentAuditSummary[]
+  listingsChecked: number
+  purchasesChecked: number
+  issues: AuditIssue[]
+  /** Issues still present in the DB after the run */
+  unresolved: number
+  ok: boolean
+}
+
+export interface AuditOptions {
+  /** Only audit this chain's listings and deployment */
+  chainId?: number
+  /** Update the DB to match the chain where that is safe to do */
+  repair?: boolean
+}
+
+/**
+ * Listing columns that mirror getListing fields and can be overwritten from
+ * the chain. Prices are stored in USDC base units.
+ */
+function fieldMismatches(listing: AuditedListing, chainListing: ChainListing) {
+  const [seller, dataCid, envelopeCid, envelopeHash, priceUsdc] = chainListing
+
+  const fields: Array<{
+    code: AuditIssueCode
+    column: string
+    db: string
+    chain: string
+    equal: boolean
+  }> = [
+    {
+      code: 'SELLER_MISMATCH',
+      column: 'sellerAddress',
+      db: listing.sellerAddress,
+      chain: seller.toLowerCase(),
+      equal: seller.toLowerCase() === listing.sellerAddress.toLowerCase(),
+    },
+    {
+      code: 'DATA_CID_MISMATCH',
+      column: 'dataCid',
+      db: listing.dataCid,
+      chain: dataCid,
+      equal: dataCid === listing.dataCid,
+    },
+    {
+      code: 'ENVELOPE_CID_MISMATCH',
+      column: 'envelopeCid',
+      db: listing.envelopeCid,
+      chain: envelopeCid,
+      equal: envelopeCid === listing.envelopeCid,
+    },
+    {
+      code: 'ENVELOPE_HASH_MISMATCH',
+      column: 'envelopeHash',
+      db: listing.envelopeHash,
+      chain: envelopeHash,
+      equal: envelopeHash === listing.envelopeHash,
+    },
+    {
+      code: 'PRICE_MISMATCH',
+      column: 'priceUsdc',
+      db: listing.priceUsdc.toString(),
+      chain: priceUsdc.toString(),
+      equal: BigInt(listing.priceUsdc.toString()) === BigInt(priceUsdc),
+    },
+  ]
+
+  return fields.filter((field) => !field.equal)
+}
+
+async function auditListing(
+  deployment: Deployment,
+  listing: AuditedListing,
+  repair: boolean,
+  issues: AuditIssue[]
+): Promise<number> {
+  const base = {
+    chainId: listing.chainId,
+    onchainId: listing.onchainId,
+    listingId: listing.id,
+  }
+
+  let chainListing: ChainListing
+  try {
+    chainListing = (await deployment.client.readContract({
+      address: listing.contractAddress as `0x${string}`,
+      abi: MARKETPLACE_ABI,
+      functionName: 'getListing',
+      args: [BigInt(listing.onchainId)],
+    })) as ChainListing
+  } catch {
+    issues.push({ ...base, code: 'CHAIN_READ_FAILED', repaired: false })
+    return 0
+  }
+
+  const [chainSeller, , , , , chainActive, chainSalesCount] = chainListing
+  const listingUpdate: Record<string, unknown> = {}
+  const listingIssues: AuditIssue[] = []
+
+  for (const field of fieldMismatches(listing, chainListing)) {
+    listingUpdate[field.column] = field.chain
+    listingIssues.push({
+      ...base,
+      code: field.code,
+      db: field.db,
+      chain: field.chain,
+      repaired: false,
+    })
+  }
+
+  if (chainActive !== listing.active) {
+    listingUpdate['active'] = chainActive
+    listingIssues.push({
+      ...base,
+      code: 'ACTIVE_MISMATCH',
+      db: String(listing.active),
+      chain: String(chainActive),
+      repaired: false,
+    })
+  }
+
+  // Flagged by a reorg, but the listing exists on the canonical chain
+  if (listing.reorgedAt && chainSeller !== zeroAddress) {
+    listingUpdate['reorgedAt'] = null
+    listingIssues.push({
+      ...base,
+      code: 'REORG_MISMATCH',
+      db: listing.reorgedAt.toISOString(),
+      chain: 'listed',
+      repaired: false,
+    })
+  }
+
+  if (repair && listingIssues.length) {
+    await prisma.listing.update({
+      where: { id: listing.id },
+      data: listingUpdate,
+    })
+    for (const issue of listingIssues) issue.repaired = true
+  }
+  issues.push(...listingIssues)
+
+  const { purchases } = listing
+
+  for (const purchase of purchases) {
+    const purchaseBase = { ...base, purchaseId: purchase.id }
+
+    let onChain: boolean
+    try {
+      onChain = (await deployment.client.readContract({
+        address: listing.contractAddress as `0x${string}`,
+        abi: MARKETPLACE_ABI,
+        functionName: 'hasBuyerPurchased',
+        args: [BigInt(listing.onchainId), purchase.buyerAddress],
+      })) as boolean
+    } catch {
+      issues.push({
+        ...purchaseBase,
+        code: 'PURCHASE_READ_FAILED',
+        repaired: false,
+      })
+      continue
+    }
+
+    if (onChain === purchase.txVerified) continue
+
+    const issue: AuditIssue = {
+      ...purchaseBase,
+      code: onChain ? 'PURCHASE_NOT_VERIFIED' : 'PURCHASE_NOT_ON_CHAIN',
+      db: String(purchase.txVerified),
+      chain: String(onChain),
+      repaired: false,
+    }
+
+    if (repair) {
+      // Never delete: keys may already be bound or delivered
+      await prisma.purchase.update({
+        where: { id: purchase.id },
+        data: onChain
+          ? { txVerified: true, reorgedAt: null }
+          : { txVerified: false },
+      })
+      issue.repaired = true
+    }
+    issues.push(issue)
+  }
+
+  // The API's salesCount is the number of Purchase rows. Missing rows can only
+  // be recovered from their events (backfill), so this is never repaired here
+  if (BigInt(purchases.length) !== chainSalesCount) {
+    issues.push({
+      ...base,
+      code: 'SALES_COUNT_MISMATCH',
+      db: String(purchases.length),
+      chain: chainSalesCount.toString(),
+      repaired: false,
+    })
+  }
+
+  return purchases.length
+}
+
+async function readListingCount(
+  deployment: Deployment
+): Promise<number | null> {
+  try {
+    const count = (await deployment.client.readContract({
+      address: deployment.marketplaceAddress,
+      abi: MARKETPLACE_ABI,
+      functionName: 'listingCount',
+    })) as bigint
+    return Number(count)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Compare every DB listing and purchase against the marketplace contract it
+ * was indexed from, and look for on-chain listings the DB never saw.
+ *
+ * With `repair`, listing fields, `active`, the reorg flag and purchase
+ * verification are set from the chain. Sales-count gaps and missing listings are only reported:
+ * their rows need the original events, so run a backfill for them.
+ */
+export async function auditListings(
+  options: AuditOptions = {}
+): Promise<AuditReport> {
+  const repair = options.repair ?? false
+  const startedAt = new Date().toISOString()
+  const issues: AuditIssue[] = []
+
+  const listings = await prisma.listing.findMany({
+    where: options.chainId !== undefined ? { chainId: options.chainId } : {},
+    include: auditedListingInclude,
+    orderBy: [{ chainId: 'asc' }, { onchainId: 'asc' }],
+  })
+
+  const deployments =
+    options.chainId !== undefined
+      ? [getDeployment(options.chainId)].filter((d): d is Deployment => !!d)
+      : getDeployments()
+
+  // Deployments are unique per chain
+  const summaries = new Map<number, DeploymentAuditSummary>()
+  const seenIds = new Map<number, Set<number>>()
+  for (const deployment of deployments) {
+    summaries.set(deployment.chainId, {
+      chainId: deployment.chainId,
+      contractAddress: deployment.contractAddress,
+      onchainListingCount: null,
+      listingsChecked: 0,
+      purchasesChecked: 0,
+    })
+    seenIds.set(deployment.chainId, new Set())
+  }
+
+  let purchasesChecked = 0
+
+  for (const listing of listings) {
+    const deployment = getDeployment(listing.chainId)
+
+    if (!deployment || deployment.contractAddress !== listing.contractAddress) {
+      issues.push({
+        code: 'NO_DEPLOYMENT',
+        chainId: listing.chainId,
+        onchainId: listing.onchainId,
+        listingId: listing.id,
+        repaired: false,
+      })
+      continue
+    }
+
+    const checked = await auditListing(deployment, listing, repair, issues)
+    const summary = summaries.get(deployment.chainId)!
+    summary.listingsChecked++
+    summary.purchasesChecked += checked
+    purchasesChecked += checked
+    seenIds.get(deployment.chainId)!.add(listing.onchainId)
+  }
+
+  for (const deployment of deployments) {
+    const summary = summaries.get(deployment.chainId)!
+    const count = await readListingCount(deployment)
+    summary.onchainListingCount = count
+
+    if (count === null) {
+      issues.push({
+        code: 'CHAIN_READ_FAILED',
+        chainId: deployment.chainId,
+        repaired: false,
+      })
+      continue
+    }
+
+    const seen = seenIds.get(deployment.chainId)!
+    for (let onchainId = 1; onchainId <= count; onchainId++) {
+      if (!seen.has(onchainId)) {
+        issues.push({
+          code: 'LISTING_MISSING',
+          chainId: deployment.chainId,
+          onchainId,
+          repaired: false,
+        })
+      }
+    }
+  }
+
+  const unresolved = issues.filter((issue) => !issue.repaired).length
+
+  return {
+    repair,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    deployments: [...summaries.values()],
+    listingsChecked: listings.length,
+    purchasesChecked,
+    issues,
+    unresolved,
+    ok: unresolved === 0,
+  }
+}
+
+export type ParsedAuditCli =
+  | { kind: 'run'; json: boolean; repair: boolean; chainId?: number }
+  | { kind: 'error'; message: string; exitCode: number }
+
+/**
+ * Parse argv for src/scripts/audit-listings.ts.
+ */
+export function parseAuditCliArgs(argv: string[]): ParsedAuditCli {
+  let json = false
+  let repair = false
+  let chainId: number | undefined
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+
+    if (arg === '--json') {
+      json = true
+    } else if (arg === '--repair') {
+      repair = true
+    } else if (arg === '--chain' && argv[i + 1]) {
+      chainId = Number(argv[i + 1])
+      i++
+    }
+  }
+
+  if (chainId !== undefined && !Number.isInteger(chainId)) {
+    return {
+      kind: 'error',
+      message: 'Error: --chain must be a numeric chain id.',
+      exitCode: 2,
+    }
+  }
+
+  return { kind: 'run', json, repair, chainId }
+}
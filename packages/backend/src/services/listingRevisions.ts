@@ -0,0 +1,123 @@
+import type { Prisma } from '@prisma/client'
+
+import prismaDB from '../config/db.js'
+import type { UpdateListingInput } from '../lib/validation.js'
+
+/**
+ * Seller edits of a listing's off-chain metadata. Each edit that changes
+ * something is stored as a ListingRevision holding the old and new value of
+ * every changed field, so the full history can be rebuilt from the listing's
+ * current values.
+ */
+export class ListingEditError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_SELLER' | 'METADATA_PENDING'
+  ) {
+    super(message)
+    this.name = 'ListingEditError'
+  }
+}
+
+const EDITABLE_FIELDS = ['title', 'description', 'category'] as const
+type EditableField = (typeof EDITABLE_FIELDS)[number]
+
+export type ListingChanges = Partial<
+  Record<EditableField, { from: string; to: string }>
+>
+
+/** Revisions returned with a listing, newest first */
+export const MAX_LISTING_REVISIONS = 50
+
+/**
+ * Apply `input` to the listing and record the revision in one transaction.
+ * Fields equal to the current value are ignored; if nothing changes, no
+ * revision is written and `revision` is null.
+ */
+export async function editListingMetadata(
+  listingId: string,
+  editorAddress: string,
+  input: UpdateListingInput
+) {
+  return prismaDB.$transaction(async (tx) => {
+    const listing = await tx.listing.findUnique({
+      where: { id: listingId },
+      select: {
+        id: true,
+        sellerAddress: true,
+        metadataPending: true,
+        title: true,
+        description: true,
+        category: true,
+        updatedAt: true,
+      },
+    })
+    if (!listing) {
+      throw new ListingEditError('Listing not found', 'NOT_FOUND')
+    }
+    if (listing.sellerAddress.toLowerCase() !== editorAddress.toLowerCase()) {
+      throw new ListingEditError(
+        'Only the seller can edit this listing',
+        'NOT_SELLER'
+      )
+    }
+    // The first metadata submission goes through POST /api/listings
+    if (listing.metadataPending) {
+      throw new ListingEditError(
+        'Listing metadata has not been submitted yet',
+        'METADATA_PENDING'
+      )
+    }
+
+    const changes: ListingChanges = {}
+    const data: Prisma.ListingUpdateInput = {}
+    for (const field of EDITABLE_FIELDS) {
+      const value = input[field]
+      if (value !== undefined && value !== listing[field]) {
+        changes[field] = { from: listing[field], to: value }
+        data[field] = value
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return {
+        listing: {
+          id: listing.id,
+          title: listing.title,
+          description: listing.description,
+          category: listing.category,
+          updatedAt: listing.updatedAt,
+        },
+        revision: null,
+      }
+    }
+
+    const updated = await tx.listing.update({
+      where: { id: listingId },
+      data,
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        category: true,
+        updatedAt: true,
+      },
+    })
+
+    const revision = await tx.listingRevision.create({
+      data: {
+        listingId,
+        editorAddress: editorAddress.toLowerCase(),
+        changes,
+      },
+      select: {
+        id: true,
+        editorAddress: true,
+        changes: true,
+        createdAt: true,
+      },
+    })
+
+    return { listing: updated, revision }
+  })
+}
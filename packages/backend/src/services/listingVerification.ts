@@ -1,11 +1,13 @@
 import { parseEventLogs } from 'viem'
 
+import { MARKETPLACE_ABI } from '@/config/chain'
 import {
-  CONFIRMATIONS_REQUIRED,
-  MARKETPLACE_ABI,
-  MARKETPLACE_ADDRESS,
-  publicClient,
-} from '@/config/chain'
+  getDefaultDeployment,
+  getVerifiedTransactionReceipt,
+  type Deployment,
+} from '@/config/deployments'
+import { RpcQuorumError } from '@/config/rpc'
+import { logger } from '@/lib/logger'
 
 import type {
   ListingVerificationInput,
@@ -13,16 +15,46 @@ import type {
 } from '../types/listingVerification'
 import { ListingVerificationError } from '../types/listingVerification'
 
+const verificationLogger = logger.child({ component: 'verification' })
+
 export async function verifyListingCreation(
-  input: ListingVerificationInput
+  input: ListingVerificationInput,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<VerifiedListingData> {
+  const fields = { chainId: deployment.chainId, txHash: input.txHash }
+
+  try {
+    const verified = await checkListingCreation(input, deployment)
+    verificationLogger.info('Listing creation verified', {
+      ...fields,
+      onchainId: verified.onchainId,
+    })
+    return verified
+  } catch (error) {
+    verificationLogger.warn('Listing verification failed', {
+      ...fields,
+      code: error instanceof ListingVerificationError ? error.code : undefined,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
+
+async function checkListingCreation(
+  input: ListingVerificationInput,
+  deployment: Deployment
 ): Promise<VerifiedListingData> {
   const { txHash, dataCid, envelopeCid, envelopeHash, priceUsdc } = input
 
   let receipt
 
   try {
-    receipt = await publicClient.getTransactionReceipt({ hash: txHash })
-  } catch {
+    receipt = await getVerifiedTransactionReceipt(deployment, txHash)
+  } catch (error) {
+    verificationLogger.debug('Receipt lookup failed', { txHash, err: error })
+    if (error instanceof RpcQuorumError) {
+      throw new ListingVerificationError('RPC_QUORUM_FAILED', error.message)
+    }
     throw new ListingVerificationError(
       'TX_NOT_FOUND',
       'Transaction not found or RPC failure'
@@ -40,14 +72,14 @@ export async function verifyListingCreation(
     )
   }
 
-  const confirmations = await publicClient.getTransactionConfirmations({
+  const confirmations = await deployment.client.getTransactionConfirmations({
     hash: txHash,
   })
 
-  if (confirmations < CONFIRMATIONS_REQUIRED) {
+  if (confirmations < deployment.confirmations) {
     throw new ListingVerificationError(
       'TX_NOT_CONFIRMED',
-      `Transaction requires ${CONFIRMATIONS_REQUIRED} confirmations`
+      `Transaction requires ${deployment.confirmations} confirmations`
     )
   }
 
@@ -66,7 +98,7 @@ export async function verifyListingCreation(
     )
   }
 
-  if (log.address.toLowerCase() !== MARKETPLACE_ADDRESS.toLowerCase()) {
+  if (log.address.toLowerCase() !== deployment.contractAddress) {
     throw new ListingVerificationError(
       'INVALID_EVENT_SOURCE',
       'Event emitted from unexpected contract'
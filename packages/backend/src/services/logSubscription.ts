@@ -0,0 +1,165 @@
+import type { AbiEvent, Log } from 'viem'
+
+import { getDefaultDeployment, type Deployment } from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
+
+const subscriptionLogger = logger.child({ component: 'subscription' })
+
+const RESUBSCRIBE_BASE_MS = 2_000
+const RESUBSCRIBE_MAX_MS = 60_000
+
+export type LogSubscriptionStatus = 'disabled' | 'connecting' | 'connected'
+
+export interface LogSubscriptionOptions {
+  events: readonly AbiEvent[]
+  /** Raw logs as pushed by the node, including `removed: true` on reorgs */
+  onLogs: (logs: Log[]) => void
+  /** Every new head; used to decide when buffered logs are confirmed */
+  onBlockNumber: (blockNumber: bigint) => void
+  onConnected: () => void
+  onDisconnected: (error: Error) => void
+}
+
+interface Subscription {
+  deployment: Deployment
+  options: LogSubscriptionOptions
+  unwatchers: Array<() => void>
+  status: LogSubscriptionStatus
+  failures: number
+  resubscribeTimer: NodeJS.Timeout | null
+}
+
+/** Active subscriptions keyed by chain id */
+const subscriptions = new Map<number, Subscription>()
+
+function teardown(subscription: Subscription) {
+  for (const unwatch of subscription.unwatchers) {
+    try {
+      unwatch()
+    } catch {
+      // Socket already gone
+    }
+  }
+  subscription.unwatchers = []
+}
+
+function handleError(subscription: Subscription, error: Error) {
+  // Both watchers report the same socket failure; resubscribe once
+  if (
+    subscriptions.get(subscription.deployment.chainId) !== subscription ||
+    subscription.resubscribeTimer
+  ) {
+    return
+  }
+
+  teardown(subscription)
+
+  const wasConnected = subscription.status === 'connected'
+  subscription.status = 'connecting'
+  subscription.failures++
+
+  if (wasConnected) {
+    subscription.options.onDisconnected(error)
+  }
+
+  const delayMs = Math.min(
+    RESUBSCRIBE_BASE_MS * 2 ** (subscription.failures - 1),
+    RESUBSCRIBE_MAX_MS
+  )
+  subscriptionLogger.warn('Socket error, resubscribing', {
+    chainId: subscription.deployment.chainId,
+    delayMs,
+    error: error.message,
+  })
+
+  subscription.resubscribeTimer = setTimeout(() => {
+    subscription.resubscribeTimer = null
+    subscribe(subscription)
+  }, delayMs)
+}
+
+function subscribe(subscription: Subscription) {
+  const { deployment, options } = subscription
+  if (!deployment.wsClient) return
+
+  const onError = (error: Error) => handleError(subscription, error)
+
+  subscription.unwatchers = [
+    deployment.wsClient.watchEvent({
+      address: deployment.marketplaceAddress,
+      events: options.events,
+      onLogs: (logs) => options.onLogs(logs),
+      onError,
+    }),
+    deployment.wsClient.watchBlockNumber({
+      emitMissed: true,
+      onBlockNumber: (blockNumber) => {
+        // The first head proves the socket is usable
+        if (subscription.status === 'connecting') {
+          subscription.status = 'connected'
+          subscription.failures = 0
+          subscriptionLogger.info('Connected', { chainId: deployment.chainId })
+          options.onConnected()
+        }
+        options.onBlockNumber(blockNumber)
+      },
+      onError,
+    }),
+  ]
+}
+
+/**
+ * Subscribe to a deployment's marketplace logs and new heads over its
+ * WebSocket client. Returns false when the deployment has no WebSocket URL.
+ * The subscription resubscribes with backoff on its own; callers are told
+ * when it drops so they can fall back to polling.
+ */
+export function startLogSubscription(
+  opts: LogSubscriptionOptions,
+  deployment: Deployment = getDefaultDeployment()
+): boolean {
+  if (!deployment.wsClient) return false
+
+  stopLogSubscription(deployment)
+
+  const subscription: Subscription = {
+    deployment,
+    options: opts,
+    unwatchers: [],
+    status: 'connecting',
+    failures: 0,
+    resubscribeTimer: null,
+  }
+  subscriptions.set(deployment.chainId, subscription)
+  subscribe(subscription)
+
+  return true
+}
+
+/**
+ * Stop one deployment's subscription, or all of them when none is given
+ */
+export function stopLogSubscription(deployment?: Deployment) {
+  const targets = deployment
+    ? [subscriptions.get(deployment.chainId)]
+    : [...subscriptions.values()]
+
+  for (const subscription of targets) {
+    if (!subscription) continue
+
+    if (subscription.resubscribeTimer) {
+      clearTimeout(subscription.resubscribeTimer)
+      subscription.resubscribeTimer = null
+    }
+
+    teardown(subscription)
+    subscription.status = 'disabled'
+    subscriptions.delete(subscription.deployment.chainId)
+  }
+}
+
+export function getLogSubscriptionStatus(
+  deployment: Deployment = getDefaultDeployment()
+): LogSubscriptionStatus {
+  return subscriptions.get(deployment.chainId)?.status ?? 'disabled'
+}
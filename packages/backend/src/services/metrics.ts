@@ -0,0 +1,128 @@
+import { checkDatabaseHealth, prisma } from '../config/db.js'
+import { Counter, Gauge, Histogram, Registry } from '../lib/metrics.js'
+
+import { countPurchaseEventSubscribers } from './purchaseEvents.js'
+
+/** Everything exposed on GET /metrics */
+export const registry = new Registry()
+
+// --------------------
+// HTTP
+// --------------------
+export const httpRequestsTotal = registry.register(
+  new Counter(
+    'http_requests_total',
+    'HTTP requests by method, route and status'
+  )
+)
+
+export const httpRequestDuration = registry.register(
+  new Histogram(
+    'http_request_duration_seconds',
+    'HTTP request latency by method, route and status'
+  )
+)
+
+export const rateLimitedTotal = registry.register(
+  new Counter(
+    'http_rate_limited_total',
+    'Requests rejected with 429, by rate limit group'
+  )
+)
+
+// --------------------
+// Indexer
+// --------------------
+export const listenerPollDuration = registry.register(
+  new Histogram(
+    'indexer_poll_duration_seconds',
+    'Duration of one listener poll per chain, by outcome',
+    [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+  )
+)
+
+export const lastSuccessfulPoll = registry.register(
+  new Gauge(
+    'indexer_last_successful_poll_timestamp_seconds',
+    'Unix time the listener last finished a poll without error, per chain'
+  )
+)
+
+export const blocksScannedTotal = registry.register(
+  new Counter(
+    'indexer_blocks_scanned_total',
+    'Blocks scanned for marketplace events, by chain and source (listener or backfill)'
+  )
+)
+
+export const eventsProcessedTotal = registry.register(
+  new Counter(
+    'indexer_events_processed_total',
+    'Marketplace events handled, by chain, event type and result (created or skipped)'
+  )
+)
+
+export const eventsFailedTotal = registry.register(
+  new Counter(
+    'indexer_events_failed_total',
+    'Marketplace events that failed to process, by chain and event type'
+  )
+)
+
+export const chainHeadLag = registry.register(
+  new Gauge(
+    'indexer_chain_head_lag_blocks',
+    'Blocks between the chain head and the last block the listener scanned'
+  )
+)
+
+// --------------------
+// RPC
+// --------------------
+export const rpcErrorsTotal = registry.register(
+  new Counter(
+    'rpc_errors_total',
+    'Failed JSON-RPC requests per provider attempt, by chain and method'
+  )
+)
+
+// --------------------
+// Purchase event streams
+// --------------------
+export const purchaseEventStreams = registry.register(
+  new Gauge(
+    'purchase_event_streams_open',
+    'Open purchase status SSE streams on this instance',
+    (gauge) => {
+      gauge.set({}, countPurchaseEventSubscribers())
+    }
+  )
+)
+
+// --------------------
+// Database-backed gauges, read at scrape time
+// --------------------
+export const pendingKeyDeliveries = registry.register(
+  new Gauge(
+    'key_deliveries_pending',
+    'Purchases with a bound buyer key still waiting for the seller to deliver',
+    async (gauge) => {
+      gauge.set(
+        {},
+        await prisma.purchase.count({
+          where: { keyDelivered: false, buyerPublicKey: { not: null } },
+        })
+      )
+    }
+  )
+)
+
+export const databaseUp = registry.register(
+  new Gauge(
+    'database_up',
+    'Whether the database answered a health query (1) or not (0)',
+    async (gauge) => {
+      gauge.set({}, (await checkDatabaseHealth()) ? 1 : 0)
+    }
+  )
+)
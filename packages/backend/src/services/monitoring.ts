@@ -1,16 +1,92 @@
 import prismaDB from '../config/db.js'
+import {
+  getDefaultDeployment,
+  getDeployments,
+  type Deployment,
+} from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
 
-export async function getListenerHealth() {
-  const lastEvent = await prismaDB.eventLog.findFirst({
-    orderBy: { createdAt: 'desc' },
-  })
+import { getCheckpoints } from './checkpoints.js'
+import { INDEXED_EVENT_TYPES } from './eventListener.js'
+import { getLogSubscriptionStatus } from './logSubscription.js'
+
+const STALE_AFTER_MS = 10 * 60 * 1000
+
+async function getChainHead(deployment: Deployment): Promise<number | null> {
+  try {
+    return Number(await deployment.client.getBlockNumber())
+  } catch (error) {
+    logger.error('Chain health check failed', {
+      chainId: deployment.chainId,
+      err: error,
+    })
+    return null
+  }
+}
+
+async function getDeploymentHealth(deployment: Deployment) {
+  const [lastEvent, checkpoints, chainHead] = await Promise.all([
+    prismaDB.eventLog.findFirst({
+      where: {
+        chainId: deployment.chainId,
+        contractAddress: deployment.contractAddress,
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+    getCheckpoints(INDEXED_EVENT_TYPES, deployment),
+    getChainHead(deployment),
+  ])
+
+  // The oldest checkpoint is where the listener will resume from
+  const lastScannedBlock = checkpoints.length
+    ? Math.min(...checkpoints.map((c) => c.lastScannedBlock))
+    : null
+  const lastCheckpointAt = checkpoints.length
+    ? new Date(Math.max(...checkpoints.map((c) => c.updatedAt.getTime())))
+    : null
 
+  const lastActivityAt = lastCheckpointAt ?? lastEvent?.createdAt ?? null
   const stale =
-    !lastEvent || Date.now() - lastEvent.createdAt.getTime() > 10 * 60 * 1000
+    !lastActivityAt || Date.now() - lastActivityAt.getTime() > STALE_AFTER_MS
 
   return {
+    chainId: deployment.chainId,
+    name: deployment.name,
+    contractAddress: deployment.contractAddress,
     lastProcessedBlock: lastEvent?.blockNumber ?? null,
     lastEventAt: lastEvent?.createdAt ?? null,
+    lastScannedBlock,
+    lastCheckpointAt,
+    chainHead,
+    lagBlocks:
+      chainHead !== null && lastScannedBlock !== null
+        ? chainHead - lastScannedBlock
+        : null,
+    checkpoints: checkpoints.map((checkpoint) => ({
+      stream: checkpoint.stream,
+      lastScannedBlock: checkpoint.lastScannedBlock,
+      updatedAt: checkpoint.updatedAt,
+    })),
+    subscription: getLogSubscriptionStatus(deployment),
     stale,
   }
 }
+
+/**
+ * Listener health for every deployment. The default deployment's fields are
+ * also reported at the top level so existing dashboards keep working; `stale`
+ * there is true when any deployment is stale.
+ */
+export async function getListenerHealth() {
+  const defaultChainId = getDefaultDeployment().chainId
+  const deployments = await Promise.all(
+    getDeployments().map(getDeploymentHealth)
+  )
+  const primary = deployments.find((d) => d.chainId === defaultChainId)!
+
+  return {
+    ...primary,
+    stale: deployments.some((deployment) => deployment.stale),
+    deployments,
+  }
+}
@@ -0,0 +1,59 @@
+import { generateSiweNonce } from 'viem/siwe'
+
+import prismaDB from '../config/db.js'
+
+/**
+ * Server-issued nonces for signed messages. Each nonce can be consumed once;
+ * used nonces stay until they expire so a replayed signature is reported as
+ * such instead of as an unknown nonce.
+ */
+export const NONCE_TTL_MS = 10 * 60 * 1000
+
+export class NonceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_NONCE' | 'NONCE_REPLAYED'
+  ) {
+    super(message)
+    this.name = 'NonceError'
+  }
+}
+
+export async function createNonce(): Promise<{
+  nonce: string
+  expiresAt: Date
+}> {
+  const nonce = generateSiweNonce()
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS)
+
+  await prismaDB.$transaction([
+    // Expired nonces are never usable; clear them as new ones are handed out
+    prismaDB.authNonce.deleteMany({ where: { expiresAt: { lt: new Date() } } }),
+    prismaDB.authNonce.create({ data: { nonce, expiresAt } }),
+  ])
+
+  return { nonce, expiresAt }
+}
+
+/**
+ * Mark a nonce used. Only one caller can consume a given nonce, so the
+ * signature covering it is accepted once.
+ */
+export async function consumeNonce(nonce: string): Promise<void> {
+  const now = new Date()
+  const consumed = await prismaDB.authNonce.updateMany({
+    where: { nonce, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  })
+  if (consumed.count === 1) return
+
+  const existing = await prismaDB.authNonce.findUnique({
+    where: { nonce },
+    select: { usedAt: true },
+  })
+  if (existing?.usedAt) {
+    throw new NonceError('Signature already used', 'NONCE_REPLAYED')
+  }
+
+  throw new NonceError('Unknown or expired nonce', 'INVALID_NONCE')
+}
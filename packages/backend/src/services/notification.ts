@@ -1,10 +1,164 @@
-export async function notifySeller({
-  seller,
-  purchaseId,
-}: {
-  seller: string
-  purchaseId: string
-}) {
-  // MVP: console / email / webhook
-  console.log(`Seller ${seller} notified for purchase ${purchaseId}`)
+import type { Prisma } from '@prisma/client'
+
+import prismaDB from '../config/db.js'
+import { logger } from '../lib/logger.js'
+
+export const NOTIFICATION_EVENT_TYPES = [
+  'purchase.completed',
+  'purchase.key_bound',
+  'purchase.key_delivered',
+  'withdrawal.available',
+] as const
+
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number]
+
+export interface SellerNotification {
+  eventType: NotificationEventType
+  /** Same key for the same real-world event, so re-processing never duplicates */
+  eventKey: string
+  sellerAddress: string
+  payload: Prisma.InputJsonObject
+  /** Hold delivery until this time (defaults to now) */
+  availableAt?: Date
+}
+
+/**
+ * Queue a seller notification in the NotificationOutbox. Pass the Prisma
+ * transaction that writes the change being announced so the row exists if
+ * and only if that change commits; the webhook worker delivers it later.
+ */
+export async function enqueueSellerNotification(
+  tx: Prisma.TransactionClient,
+  notification: SellerNotification
+) {
+  const row = await tx.notificationOutbox.upsert({
+    where: { eventKey: notification.eventKey },
+    update: {},
+    create: {
+      eventKey: notification.eventKey,
+      eventType: notification.eventType,
+      sellerAddress: notification.sellerAddress.toLowerCase(),
+      payload: notification.payload,
+      ...(notification.availableAt
+        ? { availableAt: notification.availableAt }
+        : {}),
+    },
+  })
+
+  logger.debug('Seller notification queued', {
+    component: 'notification',
+    eventType: notification.eventType,
+    eventKey: notification.eventKey,
+    seller: notification.sellerAddress,
+  })
+
+  return row
+}
+
+// --------------------
+// In-app inbox
+// --------------------
+
+export const INBOX_NOTIFICATION_TYPES = [
+  'purchase.completed',
+  'purchase.key_bound',
+  'purchase.key_delivered',
+  'listing.deactivated',
+] as const
+
+export type InboxNotificationType = (typeof INBOX_NOTIFICATION_TYPES)[number]
+
+export interface InboxNotification {
+  type: InboxNotificationType
+  /** Same key for the same real-world event, so re-processing never duplicates */
+  eventKey: string
+  recipientAddress: string
+  message: string
+  listingId?: string
+  purchaseId?: string
+}
+
+/**
+ * Add an entry to a wallet's inbox. Like enqueueSellerNotification, pass the
+ * transaction that writes the change being announced.
+ */
+export async function addInboxNotification(
+  tx: Prisma.TransactionClient,
+  notification: InboxNotification
+) {
+  await tx.notification.createMany({
+    data: [
+      {
+        ...notification,
+        recipientAddress: notification.recipientAddress.toLowerCase(),
+      },
+    ],
+    skipDuplicates: true,
+  })
+}
+
+async function countUnread(recipient: string) {
+  return prismaDB.notification.count({
+    where: { recipientAddress: recipient, readAt: null },
+  })
+}
+
+/** A wallet's inbox, newest first, with its unread count */
+export async function listInboxNotifications(
+  walletAddress: string,
+  options: { cursor?: string; limit: number; unread?: boolean }
+) {
+  const recipient = walletAddress.toLowerCase()
+
+  const [notifications, unreadCount] = await Promise.all([
+    prismaDB.notification.findMany({
+      where: {
+        recipientAddress: recipient,
+        ...(options.unread ? { readAt: null } : {}),
+        ...(options.cursor ? { id: { lt: options.cursor } } : {}),
+      },
+      orderBy: { id: 'desc' },
+      take: options.limit + 1,
+      select: {
+        id: true,
+        type: true,
+        message: true,
+        listingId: true,
+        purchaseId: true,
+        readAt: true,
+        createdAt: true,
+      },
+    }),
+    countUnread(recipient),
+  ])
+
+  const hasNextPage = notifications.length > options.limit
+  const page = hasNextPage
+    ? notifications.slice(0, options.limit)
+    : notifications
+
+  return {
+    notifications: page,
+    unreadCount,
+    nextCursor: hasNextPage ? (page[page.length - 1]?.id ?? null) : null,
+  }
+}
+
+/** Mark the given notifications (or all of them) read; ids of other wallets are ignored */
+export async function markInboxNotificationsRead(
+  walletAddress: string,
+  ids?: string[]
+) {
+  const recipient = walletAddress.toLowerCase()
+
+  const { count } = await prismaDB.notification.updateMany({
+    where: {
+      recipientAddress: recipient,
+      readAt: null,
+      ...(ids ? { id: { in: ids } } : {}),
+    },
+    data: { readAt: new Date() },
+  })
+
+  return { updated: count, unreadCount: await countUnread(recipient) }
 }
@@ -0,0 +1,206 @@
+import type { Prisma } from '@prisma/client'
+
+import prismaDB from '../config/db.js'
+import { logger } from '../lib/logger.js'
+
+/**
+ * Per-wallet purchase status events for the SSE stream.
+ *
+ * Purchases are written by the leader's indexer and by whichever instance
+ * served the bind/deliver request, so each instance tails the Purchase table
+ * for the wallets connected to it instead of relying on in-process signals.
+ */
+const POLL_INTERVAL_MS = 2_000
+const POLL_BATCH_SIZE = 200
+
+// Re-read this far behind the last poll so rows written by another instance
+// with a slightly skewed clock, or committed after a slow transaction, are
+// not missed. Already-sent versions are filtered out.
+const OVERLAP_MS = 5_000
+
+export type PurchaseEventType =
+  | 'purchase.indexed'
+  | 'purchase.key_bound'
+  | 'purchase.key_delivered'
+
+export interface PurchaseEvent {
+  type: PurchaseEventType
+  purchaseId: string
+  listingId: string
+  txHash: string
+  buyerAddress: string
+  sellerAddress: string
+  keyDelivered: boolean
+  updatedAt: string
+}
+
+type PurchaseEventListener = (event: PurchaseEvent) => void
+
+const eventsLogger = logger.child({ component: 'purchase-events' })
+
+const subscribers = new Map<string, Set<PurchaseEventListener>>()
+
+// purchaseId -> updatedAt (ms) of the version already sent
+const sent = new Map<string, number>()
+
+// Poll cursor: rows after (since, sinceId). sinceId is only set while working
+// through a backlog, so rows sharing one updatedAt are paged by id
+let since = new Date()
+let sinceId: string | null = null
+let pollInterval: NodeJS.Timeout | null = null
+let polling = false
+
+/** The furthest a purchase has progressed, as seen by its buyer and seller */
+export function purchaseEventType(purchase: {
+  buyerPublicKey: string | null
+  keyDelivered: boolean
+}): PurchaseEventType {
+  if (purchase.keyDelivered) return 'purchase.key_delivered'
+  if (purchase.buyerPublicKey) return 'purchase.key_bound'
+  return 'purchase.indexed'
+}
+
+export function countPurchaseEventSubscribers(): number {
+  let count = 0
+  for (const listeners of subscribers.values()) count += listeners.size
+  return count
+}
+
+/**
+ * Receive events for purchases the wallet bought or sold. Returns the
+ * unsubscribe function; polling stops once the last subscriber leaves.
+ */
+export function subscribePurchaseEvents(
+  walletAddress: string,
+  listener: PurchaseEventListener
+): () => void {
+  const wallet = walletAddress.toLowerCase()
+  const listeners = subscribers.get(wallet) ?? new Set()
+  listeners.add(listener)
+  subscribers.set(wallet, listeners)
+
+  if (!pollInterval) {
+    since = new Date()
+    sinceId = null
+    pollInterval = setInterval(() => {
+      pollPurchaseEvents().catch((error) => {
+        eventsLogger.error('Purchase event poll failed', { err: error })
+      })
+    }, POLL_INTERVAL_MS)
+  }
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) subscribers.delete(wallet)
+
+    if (subscribers.size === 0 && pollInterval) {
+      clearInterval(pollInterval)
+      pollInterval = null
+      sent.clear()
+    }
+  }
+}
+
+function dispatch(wallet: string, event: PurchaseEvent) {
+  for (const listener of subscribers.get(wallet) ?? []) {
+    try {
+      listener(event)
+    } catch (error) {
+      eventsLogger.warn('Purchase event listener threw', { err: error })
+    }
+  }
+}
+
+/**
+ * Send every purchase of a connected wallet that changed since the last poll.
+ * Returns the number of events dispatched.
+ */
+export async function pollPurchaseEvents(): Promise<number> {
+  if (polling || subscribers.size === 0) return 0
+  polling = true
+
+  try {
+    const startedAt = Date.now()
+    const wallets = [...subscribers.keys()]
+
+    const cursor: Prisma.PurchaseWhereInput = sinceId
+      ? {
+          OR: [
+            { updatedAt: { gt: since } },
+            { updatedAt: since, id: { gt: sinceId } },
+          ],
+        }
+      : { updatedAt: { gte: since } }
+
+    const purchases = await prismaDB.purchase.findMany({
+      where: {
+        AND: [cursor],
+        OR: [
+          { buyerAddress: { in: wallets, mode: 'insensitive' } },
+          {
+            listing: {
+              sellerAddress: { in: wallets, mode: 'insensitive' },
+            },
+          },
+        ],
+      },
+      orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+      take: POLL_BATCH_SIZE,
+      select: {
+        id: true,
+        listingId: true,
+        txHash: true,
+        buyerAddress: true,
+        buyerPublicKey: true,
+        keyDelivered: true,
+        updatedAt: true,
+        listing: { select: { sellerAddress: true } },
+      },
+    })
+
+    let dispatched = 0
+
+    for (const purchase of purchases) {
+      const version = purchase.updatedAt.getTime()
+      if (sent.get(purchase.id) === version) continue
+      sent.set(purchase.id, version)
+
+      const event: PurchaseEvent = {
+        type: purchaseEventType(purchase),
+        purchaseId: purchase.id,
+        listingId: purchase.listingId,
+        txHash: purchase.txHash,
+        buyerAddress: purchase.buyerAddress.toLowerCase(),
+        sellerAddress: purchase.listing.sellerAddress.toLowerCase(),
+        keyDelivered: purchase.keyDelivered,
+        updatedAt: purchase.updatedAt.toISOString(),
+      }
+
+      dispatch(event.buyerAddress, event)
+      if (event.sellerAddress !== event.buyerAddress) {
+        dispatch(event.sellerAddress, event)
+      }
+      dispatched++
+    }
+
+    // A full batch means more rows are waiting: continue after the last one
+    // on the next tick instead of skipping ahead. The id keeps a batch of
+    // rows with the same updatedAt from being read over and over
+    const last = purchases[purchases.length - 1]
+    if (purchases.length === POLL_BATCH_SIZE && last) {
+      since = last.updatedAt
+      sinceId = last.id
+    } else {
+      since = new Date(startedAt - OVERLAP_MS)
+      sinceId = null
+    }
+
+    for (const [purchaseId, version] of sent) {
+      if (version < since.getTime()) sent.delete(purchaseId)
+    }
+
+    return dispatched
+  } finally {
+    polling = false
+  }
+}
@@ -0,0 +1,145 @@
+import { z } from 'zod'
+
+import prismaDB from '../config/db.js'
+import { logger } from '../lib/logger.js'
+
+/**
+ * Fixed-window rate limit counters in Postgres, so a limit holds across every
+ * instance behind the load balancer. Each window is its own row; incrementing
+ * it is a single INSERT ... ON CONFLICT DO UPDATE.
+ */
+export const RATE_LIMIT_GROUPS = [
+  'api',
+  'auth',
+  'listings',
+  'writes',
+  'verify',
+] as const
+export type RateLimitGroup = (typeof RATE_LIMIT_GROUPS)[number]
+
+export interface RateLimitPolicy {
+  limit: number
+  windowSeconds: number
+}
+
+const DEFAULT_POLICIES: Record<RateLimitGroup, RateLimitPolicy> = {
+  // Every /api request
+  api: { limit: 300, windowSeconds: 60 },
+  // Nonces, sign-in and refresh: each sign-in verifies a signature
+  auth: { limit: 30, windowSeconds: 60 },
+  // Public catalog; every page also runs a category groupBy
+  listings: { limit: 120, windowSeconds: 60 },
+  // Signed actions: listing creation, bind-key, key delivery
+  writes: { limit: 30, windowSeconds: 60 },
+  // POST /verify: each request reads a receipt over RPC, from several
+  // providers when RPC_QUORUM > 1
+  verify: { limit: 30, windowSeconds: 60 },
+}
+
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000
+
+const rateLimitLogger = logger.child({ component: 'rate-limit' })
+
+let pruneInterval: NodeJS.Timeout | null = null
+
+const PolicySchema = z.object({
+  limit: z.number().int().positive(),
+  windowSeconds: z.number().int().positive().max(86_400),
+})
+
+const PolicyOverridesSchema = z
+  .object({
+    api: PolicySchema.optional(),
+    auth: PolicySchema.optional(),
+    listings: PolicySchema.optional(),
+    writes: PolicySchema.optional(),
+    verify: PolicySchema.optional(),
+  })
+  .strict()
+
+// undefined = not resolved from the environment yet
+let policies: Record<RateLimitGroup, RateLimitPolicy> | undefined
+
+/**
+ * Defaults, overridden per group by RATE_LIMITS, e.g.
+ * `{"listings":{"limit":60,"windowSeconds":60}}`. An invalid value throws so
+ * a typo does not silently fall back to the defaults.
+ */
+export function getRateLimitPolicies(): Record<
+  RateLimitGroup,
+  RateLimitPolicy
+> {
+  if (!policies) {
+    const raw = process.env['RATE_LIMITS']
+    const overrides = raw ? PolicyOverridesSchema.parse(JSON.parse(raw)) : {}
+    policies = { ...DEFAULT_POLICIES }
+    for (const group of RATE_LIMIT_GROUPS) {
+      const override = overrides[group]
+      if (override) policies[group] = override
+    }
+  }
+  return policies
+}
+
+/**
+ * RATE_LIMIT_ENABLED=false turns limiting off. Tests run without it unless
+ * they enable it explicitly.
+ */
+export function isRateLimitEnabled(): boolean {
+  const configured = process.env['RATE_LIMIT_ENABLED']
+  if (configured !== undefined) return configured !== 'false'
+  return process.env['NODE_ENV'] !== 'test'
+}
+
+/** Re-read RATE_LIMITS, e.g. after changing it in tests */
+export function resetRateLimitConfig() {
+  policies = undefined
+}
+
+/**
+ * Count one request against `subject` (wallet or IP) in the current window
+ * of `group`. Returns the count including this request and when the window
+ * ends.
+ */
+export async function hitRateLimit(
+  group: RateLimitGroup,
+  subject: string,
+  policy: RateLimitPolicy,
+  now = Date.now()
+): Promise<{ count: number; resetAt: Date }> {
+  const windowMs = policy.windowSeconds * 1000
+  const window = Math.floor(now / windowMs)
+  const key = `${group}:${subject}:${window}`
+
+  return prismaDB.rateLimitBucket.upsert({
+    where: { key },
+    create: { key, count: 1, resetAt: new Date((window + 1) * windowMs) },
+    update: { count: { increment: 1 } },
+    select: { count: true, resetAt: true },
+  })
+}
+
+/** Delete counters whose window has ended. Returns the number removed */
+export async function pruneRateLimitBuckets(now = new Date()): Promise<number> {
+  const { count } = await prismaDB.rateLimitBucket.deleteMany({
+    where: { resetAt: { lte: now } },
+  })
+  return count
+}
+
+export function startRateLimitPruner() {
+  pruneInterval = setInterval(() => {
+    pruneRateLimitBuckets().catch((error) => {
+      rateLimitLogger.error('Pruning rate limit counters failed', {
+        err: error,
+      })
+    })
+  }, PRUNE_INTERVAL_MS)
+}
+
+export function stopRateLimitPruner() {
+  if (pruneInterval) {
+    clearInterval(pruneInterval)
+    pruneInterval = null
+  }
+}
@@ -0,0 +1,281 @@
+import { MARKETPLACE_ABI } from '../config/chain.js'
+import prismaDB from '../config/db.js'
+import { getDefaultDeployment, type Deployment } from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
+
+import { withRetry } from './retry.js'
+
+const reorgLogger = logger.child({ component: 'reorg' })
+
+/** Max stored block hashes walked back when looking for the fork point. */
+export const MAX_REORG_DEPTH = 64
+/** Block hashes older than this many blocks behind the head are pruned. */
+export const BLOCK_HASH_RETENTION = 1_000n
+
+export interface IndexedBlockInput {
+  blockNumber: bigint
+  blockHash: string
+}
+
+export interface RollbackResult {
+  forkBlock: bigint
+  purchasesFlagged: number
+  listingsFlagged: number
+  eventLogsRemoved: number
+}
+
+/**
+ * Persist the hashes of blocks the listener has processed so later polls can
+ * tell whether the chain they were read from is still canonical.
+ */
+export async function recordIndexedBlocks(
+  blocks: IndexedBlockInput[],
+  deployment: Deployment = getDefaultDeployment()
+): Promise<void> {
+  const { chainId } = deployment
+  const unique = new Map<bigint, string>()
+  for (const block of blocks) {
+    unique.set(block.blockNumber, block.blockHash)
+  }
+
+  for (const [blockNumber, blockHash] of unique) {
+    await prismaDB.indexedBlock.upsert({
+      where: {
+        chainId_blockNumber: { chainId, blockNumber: Number(blockNumber) },
+      },
+      update: { blockHash },
+      create: { chainId, blockNumber: Number(blockNumber), blockHash },
+    })
+  }
+}
+
+export async function pruneIndexedBlocks(
+  headBlock: bigint,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<void> {
+  const cutoff = headBlock - BLOCK_HASH_RETENTION
+  if (cutoff <= 0n) return
+
+  await prismaDB.indexedBlock.deleteMany({
+    where: { chainId: deployment.chainId, blockNumber: { lt: Number(cutoff) } },
+  })
+}
+
+/**
+ * Compare stored block hashes (newest first) against the chain.
+ * Returns the highest stored block that is still canonical when a divergence
+ * is found, or null when the newest stored block still matches.
+ *
+ * Only blocks at or below `confirmedBlock` are checked so a lagging RPC node
+ * cannot be mistaken for a reorg.
+ */
+export async function detectReorg(
+  confirmedBlock: bigint,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<bigint | null> {
+  const stored = await prismaDB.indexedBlock.findMany({
+    where: {
+      chainId: deployment.chainId,
+      blockNumber: { lte: Number(confirmedBlock) },
+    },
+    orderBy: { blockNumber: 'desc' },
+    take: MAX_REORG_DEPTH,
+  })
+
+  for (const [index, block] of stored.entries()) {
+    const canonical = await withRetry(
+      () =>
+        deployment.client.getBlock({ blockNumber: BigInt(block.blockNumber) }),
+      `getBlock(${block.blockNumber})`
+    )
+
+    if (canonical.hash === block.blockHash) {
+      return index === 0 ? null : BigInt(block.blockNumber)
+    }
+
+    reorgLogger.warn('Block hash changed', {
+      chainId: deployment.chainId,
+      blockNumber: block.blockNumber,
+      storedHash: block.blockHash,
+      canonicalHash: canonical.hash,
+    })
+  }
+
+  if (stored.length === 0) return null
+
+  const oldest = stored[stored.length - 1]!
+  reorgLogger.error('No canonical block found within stored blocks', {
+    chainId: deployment.chainId,
+    maxDepth: MAX_REORG_DEPTH,
+    rollbackBelow: oldest.blockNumber,
+  })
+  return BigInt(oldest.blockNumber) - 1n
+}
+
+/**
+ * Undo a deployment's indexed state from blocks above `forkBlock`.
+ *
+ * Purchases are never deleted: a buyer may already have bound a key or
+ * received one, so they are flagged (txVerified=false, reorgedAt) and
+ * re-verified if the transaction is re-mined on the canonical chain.
+ * Listings created above the fork are kept for the same reason but flagged
+ * (active=false, reorgedAt) until their ListingCreated event is re-indexed.
+ * Derived rows (EventLog, ledger, deactivations, block hashes, undispatched
+ * notifications of orphaned sales) are removed and checkpoints rewound so the
+ * listener re-indexes the range from scratch.
+ */
+export async function rollbackFromBlock(
+  forkBlock: bigint,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<RollbackResult> {
+  const { chainId, contractAddress } = deployment
+  const above = { gt: Number(forkBlock) }
+  const orphaned = { chainId, blockNumber: above }
+  // Ledger entries and deactivations are scoped through their listing
+  const orphanedByListing = {
+    listing: { chainId, contractAddress },
+    blockNumber: above,
+  }
+
+  const { result, deactivatedListingIds } = await prismaDB.$transaction(
+    async (tx) => {
+      const orphanedPurchases = await tx.purchase.findMany({
+        where: { ...orphaned, contractAddress },
+        select: { id: true },
+      })
+      const orphanedSales = await tx.sellerLedgerEntry.findMany({
+        where: { ...orphanedByListing, entryType: 'SALE' },
+        select: { txHash: true, logIndex: true },
+      })
+
+      const flagged = await tx.purchase.updateMany({
+        where: { ...orphaned, contractAddress },
+        data: { txVerified: false, reorgedAt: new Date() },
+      })
+
+      const listingsFlagged = await tx.listing.updateMany({
+        where: { ...orphaned, contractAddress, reorgedAt: null },
+        data: { active: false, reorgedAt: new Date() },
+      })
+
+      await tx.sellerLedgerEntry.deleteMany({ where: orphanedByListing })
+
+      const deactivations = await tx.listingDeactivation.findMany({
+        where: orphanedByListing,
+        select: { listingId: true, txHash: true, logIndex: true },
+      })
+      await tx.listingDeactivation.deleteMany({ where: orphanedByListing })
+
+      // Announcements of sales and deactivations that are no longer on chain.
+      // Outbox rows already dispatched have been sent; the rest are dropped
+      // and come back if the event is re-mined
+      const saleKeys = [
+        ...orphanedPurchases.map(({ id }) => `purchase.completed:${id}`),
+        ...orphanedSales.map(
+          ({ txHash, logIndex }) => `withdrawal.available:${txHash}:${logIndex}`
+        ),
+      ]
+      const outboxRemoved = await tx.notificationOutbox.deleteMany({
+        where: { eventKey: { in: saleKeys }, dispatchedAt: null },
+      })
+      const inboxRemoved = await tx.notification.deleteMany({
+        where: {
+          eventKey: {
+            in: [
+              ...saleKeys,
+              ...deactivations.map(
+                ({ txHash, logIndex }) =>
+                  `listing.deactivated:${txHash}:${logIndex}`
+              ),
+            ],
+          },
+        },
+      })
+
+      const removed = await tx.eventLog.deleteMany({
+        where: { ...orphaned, contractAddress },
+      })
+      await tx.indexedBlock.deleteMany({ where: orphaned })
+
+      await tx.indexerCheckpoint.updateMany({
+        where: { chainId, contractAddress, lastScannedBlock: above },
+        data: { lastScannedBlock: Number(forkBlock) },
+      })
+
+      reorgLogger.warn('Rolled back reorged blocks', {
+        chainId,
+        forkBlock,
+        purchasesFlagged: flagged.count,
+        listingsFlagged: listingsFlagged.count,
+        eventsRemoved: removed.count,
+        outboxRemoved: outboxRemoved.count,
+        inboxRemoved: inboxRemoved.count,
+      })
+
+      return {
+        result: {
+          forkBlock,
+          purchasesFlagged: flagged.count,
+          listingsFlagged: listingsFlagged.count,
+          eventLogsRemoved: removed.count,
+        },
+        deactivatedListingIds: [
+          ...new Set(deactivations.map((d) => d.listingId)),
+        ],
+      }
+    }
+  )
+
+  await syncListingActive(deactivatedListingIds, deployment)
+
+  return result
+}
+
+/**
+ * A deactivation removed by the rollback may or may not be re-mined, so the
+ * listing's active flag is re-read from the contract instead of assumed.
+ * Listings whose read fails keep their current flag; the listing audit
+ * (`audit:listings --repair`) corrects them later.
+ */
+async function syncListingActive(
+  listingIds: string[],
+  deployment: Deployment
+): Promise<void> {
+  if (listingIds.length === 0) return
+
+  const listings = await prismaDB.listing.findMany({
+    where: { id: { in: listingIds }, reorgedAt: null },
+    select: { id: true, onchainId: true, active: true },
+  })
+
+  for (const listing of listings) {
+    try {
+      // getListing returns (seller, dataCid, envelopeCid, envelopeHash,
+      // priceUsdc, active, salesCount)
+      const chainListing = (await withRetry(
+        () =>
+          deployment.client.readContract({
+            address: deployment.contractAddress as `0x${string}`,
+            abi: MARKETPLACE_ABI,
+            functionName: 'getListing',
+            args: [BigInt(listing.onchainId)],
+          }),
+        `getListing(${listing.onchainId})`
+      )) as readonly unknown[]
+      const active = chainListing[5] === true
+
+      if (active !== listing.active) {
+        await prismaDB.listing.update({
+          where: { id: listing.id },
+          data: { active },
+        })
+      }
+    } catch (err) {
+      reorgLogger.warn('Could not re-read listing state after rollback', {
+        chainId: deployment.chainId,
+        listingId: listing.id,
+        err,
+      })
+    }
+  }
+}
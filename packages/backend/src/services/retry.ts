@@ -0,0 +1,67 @@
+import { logger } from '../lib/logger.js'
+
+const MAX_RPC_RETRIES = 3
+const RPC_RETRY_BASE_MS = 1_000
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  label: string,
+  maxRetries = MAX_RPC_RETRIES
+): Promise<T> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      if (attempt === maxRetries) {
+        logger.error('Call failed after retries', {
+          call: label,
+          attempts: maxRetries,
+          error: message,
+        })
+        throw error
+      }
+
+      const delayMs = RPC_RETRY_BASE_MS * attempt
+      logger.warn('Call failed, retrying', {
+        call: label,
+        attempt,
+        maxRetries,
+        delayMs,
+        error: message,
+      })
+      await sleep(delayMs)
+    }
+  }
+
+  throw new Error('unreachable')
+}
+
+const EVENT_RETRY_BASE_MS = 30_000
+const EVENT_RETRY_MAX_MS = 60 * 60 * 1000
+
+/**
+ * Delay before the next retry of an EventLog row that has failed `attempts`
+ * times: 30s, 1m, 2m, ... capped at one hour.
+ */
+export function getEventRetryDelayMs(attempts: number): number {
+  const delayMs = EVENT_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0)
+  return Math.min(delayMs, EVENT_RETRY_MAX_MS)
+}
+
+const NOTIFICATION_RETRY_BASE_MS = 60_000
+const NOTIFICATION_RETRY_MAX_MS = 6 * 60 * 60 * 1000
+
+/**
+ * Delay before re-sending a webhook or email delivery that has failed
+ * `attempts` times: 1m, 2m, 4m, ... capped at six hours.
+ */
+export function getNotificationRetryDelayMs(attempts: number): number {
+  const delayMs = NOTIFICATION_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0)
+  return Math.min(delayMs, NOTIFICATION_RETRY_MAX_MS)
+}
@@ -0,0 +1,339 @@
+import { createHash, randomBytes } from 'node:crypto'
+
+import { parseSiweMessage, validateSiweMessage } from 'viem/siwe'
+
+import prismaDB from '../config/db.js'
+import { getDeployment } from '../config/deployments.js'
+import { JwtError, signJwt, verifyJwt } from '../lib/jwt.js'
+import { logger } from '../lib/logger.js'
+
+import { NonceError, consumeNonce } from './nonce.js'
+import { verifyWalletSignature } from './signatureVerification.js'
+
+/**
+ * Sign-In with Ethereum (EIP-4361) sessions. A verified sign-in starts an
+ * AuthSession and returns a short-lived access token (HS256 JWT naming the
+ * session) plus a refresh token that rotates on every use.
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = Number(
+  process.env['ACCESS_TOKEN_TTL_SECONDS'] || 15 * 60
+)
+export const SESSION_TTL_MS =
+  Number(process.env['SESSION_TTL_DAYS'] || 7) * 24 * 60 * 60 * 1000
+
+const sessionLogger = logger.child({ component: 'session' })
+
+export class SessionError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'NOT_CONFIGURED'
+      | 'INVALID_MESSAGE'
+      | 'INVALID_DOMAIN'
+      | 'UNSUPPORTED_CHAIN'
+      | 'INVALID_NONCE'
+      | 'SIGNATURE_REPLAYED'
+      | 'INVALID_SIGNATURE'
+      | 'INVALID_SESSION'
+  ) {
+    super(message)
+    this.name = 'SessionError'
+  }
+}
+
+export interface IssuedSession {
+  sessionId: string
+  walletAddress: string
+  chainId: number
+  accessToken: string
+  accessTokenExpiresAt: Date
+  refreshToken: string
+  expiresAt: Date
+}
+
+// --------------------
+// Configuration
+// --------------------
+
+// undefined = not resolved from the environment yet
+let jwtSecret: string | null | undefined
+
+/**
+ * AUTH_JWT_SECRET signs access tokens and must be shared by every instance.
+ * Outside production a per-process secret is generated so sessions work
+ * out of the box; in production sign-in is refused until it is set.
+ */
+function getJwtSecret(): string {
+  if (jwtSecret === undefined) {
+    const configured = process.env['AUTH_JWT_SECRET']
+    if (configured) {
+      jwtSecret = configured
+    } else if (process.env['NODE_ENV'] === 'production') {
+      jwtSecret = null
+    } else {
+      sessionLogger.warn(
+        'AUTH_JWT_SECRET is not set; using a per-process secret'
+      )
+      jwtSecret = randomBytes(32).toString('hex')
+    }
+  }
+
+  if (!jwtSecret) {
+    throw new SessionError('Sessions are not configured', 'NOT_CONFIGURED')
+  }
+  return jwtSecret
+}
+
+/** Re-read AUTH_JWT_SECRET, e.g. after changing it in tests */
+export function resetSessionConfig() {
+  jwtSecret = undefined
+}
+
+/**
+ * Hosts (host[:port]) a SIWE message may name as its domain: SIWE_DOMAINS,
+ * or the frontend origins allowed by CORS_ORIGINS
+ */
+export function getSiweDomains(): string[] {
+  const configured = process.env['SIWE_DOMAINS']
+  if (configured) {
+    return configured
+      .split(',')
+      .map((domain) => domain.trim())
+      .filter(Boolean)
+  }
+
+  return (process.env['CORS_ORIGINS'] || 'http://localhost:3000')
+    .split(',')
+    .flatMap((origin) => {
+      try {
+        return [new URL(origin.trim()).host]
+      } catch {
+        return []
+      }
+    })
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function newRefreshToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+function issueAccessToken(session: {
+  id: string
+  walletAddress: string
+  chainId: number
+}) {
+  const now = Date.now()
+  return {
+    accessToken: signJwt(
+      { sub: session.walletAddress, sid: session.id, chainId: session.chainId },
+      getJwtSecret(),
+      ACCESS_TOKEN_TTL_SECONDS,
+      now
+    ),
+    accessTokenExpiresAt: new Date(
+      Math.floor(now / 1000) * 1000 + ACCESS_TOKEN_TTL_SECONDS * 1000
+    ),
+  }
+}
+
+// --------------------
+// Sign-in
+// --------------------
+
+/**
+ * Verify a signed EIP-4361 message and start a session. Checks the domain
+ * against the frontend origins, the chain id against the configured
+ * deployments, the message's time bounds, and consumes the nonce so the
+ * same signature cannot be replayed.
+ */
+export async function signInWithEthereum(
+  message: string,
+  signature: `0x${string}`,
+  userAgent?: string
+): Promise<IssuedSession> {
+  getJwtSecret()
+
+  const fields = parseSiweMessage(message)
+  if (
+    !fields.address ||
+    !fields.domain ||
+    !fields.nonce ||
+    !fields.uri ||
+    fields.version !== '1' ||
+    fields.chainId === undefined
+  ) {
+    throw new SessionError('Invalid sign-in message', 'INVALID_MESSAGE')
+  }
+
+  if (!getSiweDomains().includes(fields.domain)) {
+    throw new SessionError(
+      `Sign-in message is for an unknown domain: ${fields.domain}`,
+      'INVALID_DOMAIN'
+    )
+  }
+
+  const deployment = getDeployment(fields.chainId)
+  if (!deployment) {
+    throw new SessionError(
+      `No marketplace deployment on chain ${fields.chainId}`,
+      'UNSUPPORTED_CHAIN'
+    )
+  }
+
+  if (!validateSiweMessage({ message: fields, domain: fields.domain })) {
+    throw new SessionError(
+      'Sign-in message is expired or not yet valid',
+      'INVALID_MESSAGE'
+    )
+  }
+
+  // Smart accounts are checked on the chain the message names
+  const valid = await verifyWalletSignature(
+    { address: fields.address, message, signature },
+    deployment
+  ).catch(() => false)
+  if (!valid) {
+    throw new SessionError('Invalid signature', 'INVALID_SIGNATURE')
+  }
+
+  try {
+    await consumeNonce(fields.nonce)
+  } catch (error) {
+    if (error instanceof NonceError) {
+      throw new SessionError(
+        error.message,
+        error.code === 'NONCE_REPLAYED' ? 'SIGNATURE_REPLAYED' : 'INVALID_NONCE'
+      )
+    }
+    throw error
+  }
+
+  const refreshToken = newRefreshToken()
+  const session = await prismaDB.authSession.create({
+    data: {
+      walletAddress: fields.address.toLowerCase(),
+      chainId: fields.chainId,
+      refreshTokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      userAgent: userAgent?.slice(0, 255) ?? null,
+    },
+  })
+
+  return {
+    sessionId: session.id,
+    walletAddress: session.walletAddress,
+    chainId: session.chainId,
+    ...issueAccessToken(session),
+    refreshToken,
+    expiresAt: session.expiresAt,
+  }
+}
+
+// --------------------
+// Refresh and revocation
+// --------------------
+
+/**
+ * Exchange a refresh token for a new access token. The refresh token is
+ * rotated, so each one can be used only once.
+ */
+export async function refreshSession(
+  refreshToken: string
+): Promise<IssuedSession> {
+  const session = await prismaDB.authSession.findUnique({
+    where: { refreshTokenHash: hashToken(refreshToken) },
+  })
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    throw new SessionError('Session expired', 'INVALID_SESSION')
+  }
+
+  const nextToken = newRefreshToken()
+  const rotated = await prismaDB.authSession.updateMany({
+    where: { id: session.id, refreshTokenHash: session.refreshTokenHash },
+    data: { refreshTokenHash: hashToken(nextToken) },
+  })
+
+  // A concurrent refresh already used this token
+  if (rotated.count !== 1) {
+    throw new SessionError('Session expired', 'INVALID_SESSION')
+  }
+
+  return {
+    sessionId: session.id,
+    walletAddress: session.walletAddress,
+    chainId: session.chainId,
+    ...issueAccessToken(session),
+    refreshToken: nextToken,
+    expiresAt: session.expiresAt,
+  }
+}
+
+/** End the session a refresh token belongs to; unknown tokens are ignored */
+export async function revokeSessionByRefreshToken(
+  refreshToken: string
+): Promise<void> {
+  await prismaDB.authSession.updateMany({
+    where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+}
+
+/** Sign the wallet out everywhere. Returns the number of sessions ended */
+export async function revokeAllSessions(
+  walletAddress: string
+): Promise<number> {
+  const { count } = await prismaDB.authSession.updateMany({
+    where: { walletAddress: walletAddress.toLowerCase(), revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count
+}
+
+// --------------------
+// Access tokens
+// --------------------
+
+/**
+ * Resolve an access token to its wallet. The session is looked up on every
+ * request so logout and revocation take effect immediately.
+ */
+export async function authenticateAccessToken(
+  token: string
+): Promise<{ walletAddress: string; sessionId: string }> {
+  let claims
+  try {
+    claims = verifyJwt(token, getJwtSecret())
+  } catch (error) {
+    if (error instanceof JwtError) {
+      throw new SessionError(
+        error.code === 'EXPIRED' ? 'Session token expired' : 'Invalid token',
+        'INVALID_SESSION'
+      )
+    }
+    throw error
+  }
+
+  const sessionId = typeof claims['sid'] === 'string' ? claims['sid'] : null
+  const session = sessionId
+    ? await prismaDB.authSession.findUnique({
+        where: { id: sessionId },
+        select: { walletAddress: true, revokedAt: true, expiresAt: true },
+      })
+    : null
+
+  if (
+    !session ||
+    session.revokedAt ||
+    session.expiresAt <= new Date() ||
+    session.walletAddress !== claims.sub
+  ) {
+    throw new SessionError('Session expired', 'INVALID_SESSION')
+  }
+
+  return { walletAddress: session.walletAddress, sessionId: sessionId! }
+}
@@ -0,0 +1,51 @@
+import { isErc6492Signature, verifyMessage } from 'viem'
+import { getCode, verifyMessage as verifyMessageOnChain } from 'viem/actions'
+
+import { getDefaultDeployment, type Deployment } from '../config/deployments.js'
+import { logger } from '../lib/logger.js'
+
+const signatureLogger = logger.child({ component: 'signatures' })
+
+export interface WalletSignature {
+  address: `0x${string}`
+  message: string
+  signature: `0x${string}`
+}
+
+/**
+ * Verify a personal_sign message for any wallet:
+ * - EOAs by recovering the signer, without an RPC call
+ * - deployed smart accounts (Safe, ERC-4337) through ERC-1271
+ *   `isValidSignature` on the deployment's chain
+ * - counterfactual accounts through ERC-6492 wrapped signatures
+ */
+export async function verifyWalletSignature(
+  { address, message, signature }: WalletSignature,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<boolean> {
+  const wrapped = isErc6492Signature(signature)
+
+  if (!wrapped) {
+    const recovered = await verifyMessage({ address, message, signature })
+      // Smart account signatures are often not 65-byte ECDSA signatures
+      .catch(() => false)
+    if (recovered) return true
+
+    const code = await getCode(deployment.client, { address })
+    if (!code || code === '0x') return false
+  }
+
+  const valid = await verifyMessageOnChain(deployment.client, {
+    address,
+    message,
+    signature,
+  })
+
+  signatureLogger.debug('Contract wallet signature checked', {
+    chainId: deployment.chainId,
+    address,
+    erc6492: wrapped,
+    valid,
+  })
+  return valid
+}
@@ -1,14 +1,18 @@
 import { decodeEventLog, type Log } from 'viem'
 
+import { MARKETPLACE_ABI } from '../config/chain.js'
 import {
-  publicClient,
-  MARKETPLACE_ABI,
-  MARKETPLACE_ADDRESS,
-  CONFIRMATIONS_REQUIRED,
-} from '../config/chain.js'
+  getDefaultDeployment,
+  getVerifiedTransactionReceipt,
+  type Deployment,
+} from '../config/deployments.js'
+import { RpcQuorumError } from '../config/rpc.js'
+import { logger } from '../lib/logger.js'
 import type { VerifiedPurchase } from '../types/txVerification.js'
 import { TxVerificationErrorCode } from '../types/txVerification.js'
 
+const verificationLogger = logger.child({ component: 'verification' })
+
 /**
  * Custom verification error
  */
@@ -25,12 +29,52 @@ export class TxVerificationError extends Error {
 export async function verifyPurchase(
   txHash: `0x${string}`,
   expectedListingId: number,
-  expectedBuyer: `0x${string}`
+  expectedBuyer: `0x${string}`,
+  deployment: Deployment = getDefaultDeployment()
+): Promise<VerifiedPurchase> {
+  const fields = {
+    chainId: deployment.chainId,
+    txHash,
+    listingId: expectedListingId,
+    buyer: expectedBuyer,
+  }
+
+  try {
+    const verified = await checkPurchase(
+      txHash,
+      expectedListingId,
+      expectedBuyer,
+      deployment
+    )
+    verificationLogger.info('Purchase verified', fields)
+    return verified
+  } catch (error) {
+    verificationLogger.warn('Purchase verification failed', {
+      ...fields,
+      code: error instanceof TxVerificationError ? error.code : undefined,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
+
+async function checkPurchase(
+  txHash: `0x${string}`,
+  expectedListingId: number,
+  expectedBuyer: `0x${string}`,
+  deployment: Deployment
 ): Promise<VerifiedPurchase> {
   let receipt
   try {
-    receipt = await publicClient.getTransactionReceipt({ hash: txHash })
-  } catch {
+    receipt = await getVerifiedTransactionReceipt(deployment, txHash)
+  } catch (error) {
+    verificationLogger.debug('Receipt lookup failed', { txHash, err: error })
+    if (error instanceof RpcQuorumError) {
+      throw new TxVerificationError(
+        error.message,
+        TxVerificationErrorCode.RPC_QUORUM_FAILED
+      )
+    }
     throw new TxVerificationError(
       `Transaction not found: ${txHash}`,
       TxVerificationErrorCode.TX_NOT_FOUND
@@ -44,8 +88,8 @@ export async function verifyPurchase(
     )
   }
 
-  const latestBlock = await publicClient.getBlockNumber()
-  if (latestBlock - receipt.blockNumber < BigInt(CONFIRMATIONS_REQUIRED)) {
+  const latestBlock = await deployment.client.getBlockNumber()
+  if (latestBlock - receipt.blockNumber < BigInt(deployment.confirmations)) {
     throw new TxVerificationError(
       `Transaction not confirmed: ${txHash}`,
       TxVerificationErrorCode.TX_NOT_CONFIRMED
@@ -53,7 +97,7 @@ export async function verifyPurchase(
   }
 
   const hasMarketplaceLog = receipt.logs.some(
-    (l) => l.address.toLowerCase() === MARKETPLACE_ADDRESS.toLowerCase()
+    (l) => l.address.toLowerCase() === deployment.contractAddress
   )
 
   if (!hasMarketplaceLog) {
@@ -63,7 +107,10 @@ export async function verifyPurchase(
     )
   }
 
-  const event = findPurchaseCompletedEvent(receipt.logs)
+  const event = findPurchaseCompletedEvent(
+    receipt.logs,
+    deployment.contractAddress
+  )
   if (!event) {
     throw new TxVerificationError(
       `PurchaseCompleted event not found in tx ${txHash}`,
@@ -99,14 +146,17 @@ export async function verifyPurchase(
 /**
  * Extract PurchaseCompleted event from logs
  */
-function findPurchaseCompletedEvent(logs: Log[]): {
+function findPurchaseCompletedEvent(
+  logs: Log[],
+  contractAddress: string
+): {
   listingId: bigint
   buyer: string
   seller: string
   amountUsdc: bigint
 } | null {
   for (const log of logs) {
-    if (log.address.toLowerCase() !== MARKETPLACE_ADDRESS.toLowerCase()) {
+    if (log.address.toLowerCase() !== contractAddress) {
       continue
     }
 
@@ -148,7 +198,8 @@ export async function verifyPurchases(
     txHash: `0x${string}`
     expectedListingId: number
     expectedBuyer: `0x${string}`
-  }>
+  }>,
+  deployment: Deployment = getDefaultDeployment()
 ): Promise<
   Array<
     | { success: true; data: VerifiedPurchase }
@@ -161,7 +212,8 @@ export async function verifyPurchases(
         const data = await verifyPurchase(
           p.txHash,
           p.expectedListingId,
-          p.expectedBuyer
+          p.expectedBuyer,
+          deployment
         )
         return { success: true as const, data }
       } catch (error) {
@@ -0,0 +1,421 @@
+import { createHmac, randomBytes } from 'node:crypto'
+
+import type { Prisma } from '@prisma/client'
+
+import prismaDB from '../config/db.js'
+import { logger } from '../lib/logger.js'
+import {
+  privateWebhookHostsAllowed,
+  resolvesToPrivateAddress,
+} from '../lib/network.js'
+
+import { emailDeliveryFor } from './email.js'
+import type { NotificationEventType } from './notification.js'
+import { getNotificationRetryDelayMs } from './retry.js'
+
+export const MAX_WEBHOOK_ATTEMPTS = Number(
+  process.env['WEBHOOK_MAX_ATTEMPTS'] || 8
+)
+export const MAX_WEBHOOKS_PER_SELLER = 10
+const DELIVERY_INTERVAL_MS = 10_000
+const DELIVERY_BATCH_SIZE = 50
+const DELIVERY_TIMEOUT_MS = 10_000
+const MAX_ERROR_LENGTH = 500
+
+export const WEBHOOK_HEADERS = {
+  event: 'X-Webhook-Event',
+  delivery: 'X-Webhook-Delivery',
+  timestamp: 'X-Webhook-Timestamp',
+  signature: 'X-Webhook-Signature',
+} as const
+
+const webhookLogger = logger.child({ component: 'webhooks' })
+
+export type DueWebhookDelivery = Prisma.WebhookDeliveryGetPayload<{
+  include: { webhook: true; outbox: true }
+}>
+
+let deliveryInterval: NodeJS.Timeout | null = null
+let delivering = false
+
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'LIMIT_REACHED' | 'INVALID_URL'
+  ) {
+    super(message)
+    this.name = 'WebhookError'
+  }
+}
+
+export type DeliveryOutcome = 'delivered' | 'retrying' | 'failed'
+
+export interface WebhookBatchResult {
+  dispatched: number
+  attempted: number
+  delivered: number
+  /** Failed attempts that will be retried */
+  retrying: number
+  /** Deliveries that used their last attempt */
+  failed: number
+}
+
+/** Columns safe to return to the owner; the secret is only shown on creation */
+const webhookSelect = {
+  id: true,
+  url: true,
+  events: true,
+  createdAt: true,
+  updatedAt: true,
+}
+
+/**
+ * Reject URLs whose host resolves to a private, loopback or link-local
+ * address. WebhookUrlSchema already rejects such IP literals; this catches
+ * hostnames that point there.
+ */
+async function assertPublicWebhookUrl(url: string): Promise<void> {
+  if (privateWebhookHostsAllowed()) return
+
+  let isPrivate: boolean
+  try {
+    isPrivate = await resolvesToPrivateAddress(new URL(url).hostname)
+  } catch {
+    throw new WebhookError('Webhook host could not be resolved', 'INVALID_URL')
+  }
+  if (isPrivate) {
+    throw new WebhookError(
+      'Webhook URL must not point to a private or local address',
+      'INVALID_URL'
+    )
+  }
+}
+
+export async function createWebhook(
+  sellerAddress: string,
+  input: { url: string; events?: NotificationEventType[] }
+) {
+  const seller = sellerAddress.toLowerCase()
+
+  const count = await prismaDB.webhook.count({
+    where: { sellerAddress: seller },
+  })
+  if (count >= MAX_WEBHOOKS_PER_SELLER) {
+    throw new WebhookError(
+      `A seller can register at most ${MAX_WEBHOOKS_PER_SELLER} webhooks`,
+      'LIMIT_REACHED'
+    )
+  }
+
+  await assertPublicWebhookUrl(input.url)
+
+  const secret = `whsec_${randomBytes(24).toString('hex')}`
+  const webhook = await prismaDB.webhook.create({
+    data: {
+      sellerAddress: seller,
+      url: input.url,
+      secret,
+      events: input.events ?? [],
+    },
+    select: webhookSelect,
+  })
+
+  return { ...webhook, secret }
+}
+
+export async function listWebhooks(sellerAddress: string) {
+  return prismaDB.webhook.findMany({
+    where: { sellerAddress: sellerAddress.toLowerCase() },
+    orderBy: { createdAt: 'asc' },
+    select: webhookSelect,
+  })
+}
+
+async function findOwnedWebhook(sellerAddress: string, id: string) {
+  const webhook = await prismaDB.webhook.findUnique({ where: { id } })
+
+  if (!webhook || webhook.sellerAddress !== sellerAddress.toLowerCase()) {
+    throw new WebhookError('Webhook not found', 'NOT_FOUND')
+  }
+
+  return webhook
+}
+
+/** Delete a webhook and its delivery log */
+export async function deleteWebhook(sellerAddress: string, id: string) {
+  await findOwnedWebhook(sellerAddress, id)
+  await prismaDB.webhook.delete({ where: { id } })
+}
+
+/** Delivery log for one webhook, newest first */
+export async function listWebhookDeliveries(
+  sellerAddress: string,
+  id: string,
+  options: { cursor?: string; limit: number }
+) {
+  await findOwnedWebhook(sellerAddress, id)
+
+  const deliveries = await prismaDB.webhookDelivery.findMany({
+    where: {
+      webhookId: id,
+      ...(options.cursor ? { id: { lt: options.cursor } } : {}),
+    },
+    orderBy: { id: 'desc' },
+    take: options.limit + 1,
+    select: {
+      id: true,
+      status: true,
+      attempts: true,
+      nextAttemptAt: true,
+      lastStatusCode: true,
+      lastError: true,
+      deliveredAt: true,
+      createdAt: true,
+      outbox: { select: { id: true, eventType: true, createdAt: true } },
+    },
+  })
+
+  const hasNextPage = deliveries.length > options.limit
+  const page = hasNextPage ? deliveries.slice(0, options.limit) : deliveries
+
+  return {
+    deliveries: page.map(({ outbox, ...delivery }) => ({
+      ...delivery,
+      eventId: outbox.id,
+      eventType: outbox.eventType,
+      eventCreatedAt: outbox.createdAt,
+    })),
+    nextCursor: hasNextPage ? (page[page.length - 1]?.id ?? null) : null,
+  }
+}
+
+/**
+ * `sha256=` + hex HMAC-SHA256 of `${timestamp}.${body}` under the webhook
+ * secret. Receivers recompute it over the raw body and reject stale
+ * timestamps to stop replays.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')
+  return `sha256=${digest}`
+}
+
+function subscribesTo(webhook: { events: string[] }, eventType: string) {
+  return webhook.events.length === 0 || webhook.events.includes(eventType)
+}
+
+/**
+ * Turn due outbox rows into one delivery per matching webhook, plus an email
+ * delivery when the event is emailed and its recipient has a verified
+ * address. Rows without any recipient are still marked dispatched.
+ */
+export async function dispatchOutbox(
+  now = new Date(),
+  limit = DELIVERY_BATCH_SIZE
+): Promise<number> {
+  const rows = await prismaDB.notificationOutbox.findMany({
+    where: { dispatchedAt: null, availableAt: { lte: now } },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  })
+
+  for (const row of rows) {
+    const webhooks = await prismaDB.webhook.findMany({
+      where: { sellerAddress: row.sellerAddress },
+      select: { id: true, events: true },
+    })
+
+    const email = await emailDeliveryFor(row)
+
+    await prismaDB.$transaction([
+      prismaDB.webhookDelivery.createMany({
+        data: webhooks
+          .filter((webhook) => subscribesTo(webhook, row.eventType))
+          .map((webhook) => ({ webhookId: webhook.id, outboxId: row.id })),
+        skipDuplicates: true,
+      }),
+      prismaDB.emailDelivery.createMany({
+        data: email ? [email] : [],
+        skipDuplicates: true,
+      }),
+      prismaDB.notificationOutbox.update({
+        where: { id: row.id },
+        data: { dispatchedAt: now },
+      }),
+    ])
+  }
+
+  return rows.length
+}
+
+/**
+ * POST one delivery. Any 2xx response counts as delivered; anything else
+ * (including timeouts and redirects) is retried with backoff until
+ * MAX_WEBHOOK_ATTEMPTS.
+ */
+export async function deliverWebhook(
+  delivery: DueWebhookDelivery
+): Promise<DeliveryOutcome> {
+  const { webhook, outbox } = delivery
+  const body = JSON.stringify({
+    id: outbox.id,
+    type: outbox.eventType,
+    createdAt: outbox.createdAt.toISOString(),
+    data: outbox.payload,
+  })
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const attempts = delivery.attempts + 1
+  const fields = {
+    deliveryId: delivery.id,
+    webhookId: webhook.id,
+    eventType: outbox.eventType,
+    attempts,
+  }
+
+  let statusCode: number | null = null
+  let error: string | null = null
+
+  try {
+    // DNS may have changed since the webhook was registered
+    if (
+      !privateWebhookHostsAllowed() &&
+      (await resolvesToPrivateAddress(new URL(webhook.url).hostname))
+    ) {
+      throw new Error('Webhook host resolves to a private address')
+    }
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DataMarketplace-Webhooks/1',
+        [WEBHOOK_HEADERS.event]: outbox.eventType,
+        [WEBHOOK_HEADERS.delivery]: delivery.id,
+        [WEBHOOK_HEADERS.timestamp]: timestamp,
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    })
+    statusCode = response.status
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined)
+    if (!response.ok) error = `HTTP ${response.status}`
+  } catch (fetchError) {
+    error =
+      fetchError instanceof Error ? fetchError.message : String(fetchError)
+  }
+
+  if (!error) {
+    await prismaDB.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'DELIVERED',
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      },
+    })
+    webhookLogger.info('Webhook delivered', { ...fields, statusCode })
+    return 'delivered'
+  }
+
+  const exhausted = attempts >= MAX_WEBHOOK_ATTEMPTS
+  await prismaDB.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: exhausted ? 'FAILED' : 'PENDING',
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: error.slice(0, MAX_ERROR_LENGTH),
+      nextAttemptAt: exhausted
+        ? null
+        : new Date(Date.now() + getNotificationRetryDelayMs(attempts)),
+    },
+  })
+
+  if (exhausted) {
+    webhookLogger.error('Webhook delivery failed permanently', {
+      ...fields,
+      statusCode,
+      error,
+    })
+    return 'failed'
+  }
+
+  webhookLogger.warn('Webhook delivery failed, will retry', {
+    ...fields,
+    statusCode,
+    error,
+  })
+  return 'retrying'
+}
+
+/** Dispatch due outbox rows, then attempt every delivery whose backoff has elapsed. */
+export async function deliverDueWebhooks(
+  limit = DELIVERY_BATCH_SIZE
+): Promise<WebhookBatchResult> {
+  const result: WebhookBatchResult = {
+    dispatched: 0,
+    attempted: 0,
+    delivered: 0,
+    retrying: 0,
+    failed: 0,
+  }
+
+  if (delivering) return result
+  delivering = true
+
+  try {
+    const now = new Date()
+    result.dispatched = await dispatchOutbox(now, limit)
+
+    const due = await prismaDB.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      include: { webhook: true, outbox: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    })
+
+    for (const delivery of due) {
+      result.attempted++
+      const outcome = await deliverWebhook(delivery)
+      if (outcome === 'delivered') result.delivered++
+      else if (outcome === 'retrying') result.retrying++
+      else result.failed++
+    }
+
+    return result
+  } finally {
+    delivering = false
+  }
+}
+
+export function startWebhookWorker() {
+  webhookLogger.info('Starting webhook delivery worker')
+
+  deliveryInterval = setInterval(() => {
+    deliverDueWebhooks().catch((error) => {
+      webhookLogger.error('Webhook delivery batch failed', { err: error })
+    })
+  }, DELIVERY_INTERVAL_MS)
+}
+
+export function stopWebhookWorker() {
+  if (deliveryInterval) {
+    clearInterval(deliveryInterval)
+    deliveryInterval = null
+  }
+}
@@ -14,4 +14,5 @@ export enum TxVerificationErrorCode {
   EVENT_NOT_FOUND = 'EVENT_NOT_FOUND',
   LISTING_MISMATCH = 'LISTING_MISMATCH',
   BUYER_MISMATCH = 'BUYER_MISMATCH',
+  RPC_QUORUM_FAILED = 'RPC_QUORUM_FAILED',
 }
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+import { IERC1271 } from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title MockERC1271Wallet
+ * @notice Smart contract wallet mock used for local tests. A signature is valid
+ *         when the owner signed the hash.
+ */
+contract MockERC1271Wallet is IERC1271 {
+    address public immutable owner;
+
+    constructor(address owner_) {
+        owner = owner_;
+    }
+
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        (address signer, ECDSA.RecoverError err,) = ECDSA.tryRecover(hash, signature);
+        if (err == ECDSA.RecoverError.NoError && signer == owner) {
+            return IERC1271.isValidSignature.selector;
+        }
+        return 0xffffffff;
+    }
+}
+
+/**
+ * @title MockERC1271WalletFactory
+ * @notice Deploys MockERC1271Wallet with CREATE2, so a wallet has an address
+ *         before it is deployed (ERC-6492 counterfactual signatures).
+ */
+contract MockERC1271WalletFactory {
+    function deploy(address owner, bytes32 salt) external returns (MockERC1271Wallet) {
+        return new MockERC1271Wallet{ salt: salt }(owner);
+    }
+
+    function walletAddress(address owner, bytes32 salt) external view returns (address) {
+        bytes32 initCodeHash =
+            keccak256(abi.encodePacked(type(MockERC1271Wallet).creationCode, abi.encode(owner)));
+        return address(
+            uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), salt, initCodeHash))))
+        );
+    }
+}
@@ -58,4 +58,11 @@ describe('Seller dashboard split-state UX', () => {
       expect(panelSource).toContain('binding')
     })
   })
+
+  describe('listing edits', () => {
+    it('opens the edit form per listing', () => {
+      expect(dashboardSource).toContain('Edit details')
+      expect(dashboardSource).toContain('<EditListingForm')
+    })
+  })
 })
@@ -14,11 +14,15 @@ import { useAccount, useSignMessage } from 'wagmi'
 
 import { DownloadAccess } from '@/components/DownloadAccess'
 import { BLOCK_EXPLORER_URL } from '@/config'
-import { getCachedAuthHeader } from '@/lib/authCache'
-import { buildAuthHeader } from '@/lib/authHeader'
+import { usePurchaseEvents } from '@/hooks/usePurchaseEvents'
+import { getCachedAuthHeader, peekCachedAuthHeader } from '@/lib/authCache'
+import { buildSessionAuthHeader } from '@/lib/session'
 
 const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
 
+// Only while the event stream is down
+const FALLBACK_POLL_INTERVAL_MS = 30_000
+
 interface Purchase {
   id: string
   listing: {
@@ -51,16 +55,24 @@ export default function PurchasesPage() {
     setMounted(true)
   }, [])
 
-  async function fetchPurchases() {
+  // Background refreshes reuse an already signed header and keep the list on
+  // screen instead of showing the spinner
+  async function fetchPurchases({ background = false } = {}) {
     if (!address || !isConnected) return
 
-    setLoading(true)
-    setError(null)
+    const cached = background ? peekCachedAuthHeader(address, 'general') : null
+    if (background && !cached) return
+
+    if (!background) {
+      setLoading(true)
+      setError(null)
+    }
 
     try {
-      const authHeader = await getCachedAuthHeader(address, 'general', () =>
-        buildAuthHeader(address, signMessageAsync, 'general')
-      )
+      const authHeader = await (cached ??
+        getCachedAuthHeader(address, 'general', () =>
+          buildSessionAuthHeader(address, signMessageAsync)
+        ))
 
       const res = await fetch(`${API_URL}/api/purchases`, {
         headers: { Authorization: authHeader },
@@ -72,13 +84,35 @@ export default function PurchasesPage() {
       const json = await res.json()
       const rows: Purchase[] = json.purchases ?? []
       setPurchases(rows)
+      setError(null)
     } catch (err) {
+      if (background) return
       setError(err instanceof Error ? err.message : 'Unable to load purchases.')
     } finally {
-      setLoading(false)
+      if (!background) setLoading(false)
     }
   }
 
+  // Pick up newly indexed purchases and delivered keys as they happen
+  const { streaming } = usePurchaseEvents({
+    onReady: () => void fetchPurchases({ background: true }),
+    onEvent: (event) => {
+      if (event.buyerAddress === address?.toLowerCase()) {
+        void fetchPurchases({ background: true })
+      }
+    },
+  })
+
+  useEffect(() => {
+    if (!mounted || !isConnected || !address || streaming) return
+
+    const interval = setInterval(
+      () => void fetchPurchases({ background: true }),
+      FALLBACK_POLL_INTERVAL_MS
+    )
+    return () => clearInterval(interval)
+  }, [mounted, isConnected, address, streaming])
+
   useEffect(() => {
     setPurchases([])
     setError(null)
@@ -122,7 +156,7 @@ export default function PurchasesPage() {
           </h1>
 
           <button
-            onClick={fetchPurchases}
+            onClick={() => void fetchPurchases()}
             disabled={loading}
             className="inline-flex items-center gap-2 rounded-lg border border-border bg-card px-4 py-2 text-sm font-medium text-foreground hover:bg-card/80 transition disabled:opacity-50"
           >
@@ -164,6 +198,7 @@ export default function PurchasesPage() {
           {purchases.map((purchase) => (
             <div
               key={purchase.id}
+              id={`purchase-${purchase.id}`}
               className="card flex flex-col md:flex-row md:items-center md:justify-between gap-6"
             >
               {/* Left */}
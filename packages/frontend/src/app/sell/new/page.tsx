@@ -12,6 +12,9 @@ import {
 import { KeyBackupPrompt } from '../../../components/KeyBackupPrompt'
 import { UploadDataset } from '../../../components/UploadDataset'
 import { formatApiError, logValidationError } from '../../../lib/api-error'
+import { getCachedAuthHeader } from '../../../lib/authCache'
+import { LISTING_CATEGORIES } from '../../../lib/form-validation'
+import { buildSessionAuthHeader } from '../../../lib/session'
 
 const MARKETPLACE_ABI = [
   {
@@ -88,8 +91,6 @@ interface UploadResult {
   fileSize: number
 }
 
-const CATEGORIES = ['AI/ML', 'IoT', 'Health', 'Finance', 'Other']
-
 export default function NewListingPage() {
   const [step, setStep] = useState<Step>('upload')
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null)
@@ -162,10 +163,9 @@ export default function NewListingPage() {
       if (isConfirmed && receipt && uploadResult && address && !savingBackend) {
         setSavingBackend(true)
         try {
-          const timestamp = Math.floor(Date.now() / 1000).toString()
-          const message = `Create listing on Data Marketplace\nTimestamp: ${timestamp}`
-          const signature = await signMessageAsync({ message })
-          const authHeader = `signature ${address}:${timestamp}:${signature}`
+          const authHeader = await getCachedAuthHeader(address, 'general', () =>
+            buildSessionAuthHeader(address, signMessageAsync)
+          )
 
           const response = await fetch(`${API_URL}/api/listings`, {
             method: 'POST',
@@ -321,7 +321,7 @@ export default function NewListingPage() {
                 className="w-full rounded-xl border border-border bg-background px-4 py-2 text-foreground
                 focus:ring-2 focus:ring-brand-500 focus:outline-none transition-all"
               >
-                {CATEGORIES.map((c) => (
+                {LISTING_CATEGORIES.map((c) => (
                   <option key={c}>{c}</option>
                 ))}
               </select>
@@ -6,6 +6,7 @@ import {
   CheckCircle2,
   Clock,
   Loader2,
+  Pencil,
   Plus,
   RefreshCw,
   Wallet,
@@ -15,9 +16,11 @@ import { useCallback, useEffect, useMemo, useState } from 'react'
 import { formatUnits } from 'viem'
 import { useAccount, useReadContract, useSignMessage } from 'wagmi'
 
+import { EditListingForm } from '@/components/EditListingForm'
 import { KeyDeliveryPanel } from '@/components/KeyDeliveryPanel'
 import { WithdrawalButton } from '@/components/WithdrawalButton'
-import { buildAuthHeader } from '@/lib/authHeader'
+import { getCachedAuthHeader } from '@/lib/authCache'
+import { buildSessionAuthHeader } from '@/lib/session'
 
 const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
 
@@ -293,6 +296,7 @@ export default function SellDashboardPage() {
   const [error, setError] = useState<string | null>(null)
   const [listings, setListings] = useState<SellerListing[]>([])
   const [pendingCounts, setPendingCounts] = useState<Record<string, number>>({})
+  const [editingId, setEditingId] = useState<string | null>(null)
 
   useEffect(() => {
     setMounted(true)
@@ -305,10 +309,8 @@ export default function SellDashboardPage() {
       return {}
     }
 
-    const authHeader = await buildAuthHeader(
-      address,
-      signMessageAsync,
-      'general'
+    const authHeader = await getCachedAuthHeader(address, 'general', () =>
+      buildSessionAuthHeader(address, signMessageAsync)
     )
     const counts: Record<string, number> = {}
     let cursor: string | null = null
@@ -519,6 +521,16 @@ export default function SellDashboardPage() {
                     <p className="text-sm text-muted-foreground mt-1">
                       Listed on {formatDate(listing.createdAt)}
                     </p>
+                    {editingId !== listing.id && (
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(listing.id)}
+                        className="mt-2 inline-flex items-center gap-1 text-sm text-brand-500 hover:underline"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                        Edit details
+                      </button>
+                    )}
                   </div>
 
                   <div className="flex flex-col gap-2 md:items-end">
@@ -545,6 +557,17 @@ export default function SellDashboardPage() {
                   </div>
                 </div>
 
+                {editingId === listing.id && (
+                  <EditListingForm
+                    listingId={listing.id}
+                    onSaved={() => {
+                      setEditingId(null)
+                      void fetchDashboard()
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                )}
+
                 <div className="grid gap-3 md:grid-cols-2">
                   <div className="rounded-lg border border-border bg-card px-4 py-3">
                     <p className="text-xs text-muted-foreground uppercase font-medium">
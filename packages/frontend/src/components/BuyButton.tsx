@@ -8,9 +8,10 @@ import { waitForTransactionReceipt } from 'wagmi/actions'
 import { usePurchaseAccess } from '@/hooks/usePurchaseAccess'
 import { useUsdcApproval } from '@/hooks/useUsdcApproval'
 import { getCachedAuthHeader } from '@/lib/authCache'
-import { buildAuthHeader } from '@/lib/authHeader'
 import { getOrCreateBuyerKeypair } from '@/lib/buyerKeys'
+import { streamPurchaseEvents } from '@/lib/purchaseEvents'
 import { classifyRpcError, type ParsedRpcError } from '@/lib/rpcErrors'
+import { buildSessionAuthHeader, fetchNonce } from '@/lib/session'
 
 import { config } from '../config'
 
@@ -22,6 +23,11 @@ const MARKETPLACE_ADDRESS = process.env[
 
 const USDC_ADDRESS = process.env['NEXT_PUBLIC_USDC_ADDRESS'] as `0x${string}`
 
+const INDEXING_TIMEOUT_MS = 60_000
+const FALLBACK_POLL_INTERVAL_MS = 2_000
+// Safety net in case an event is missed while the stream is open
+const STREAMING_POLL_INTERVAL_MS = 15_000
+
 type Status =
   | 'idle'
   | 'approving'
@@ -66,34 +72,86 @@ export default function BuyButton({ onchainId, priceUsdc }: BuyButtonProps) {
   /* 🔄 Wait for backend to index purchase */
   /* --------------------------------------------- */
 
+  async function findBackendPurchase(
+    authHeader: string,
+    txHash: `0x${string}`
+  ): Promise<{ id: string } | null> {
+    const res = await fetch(`${API_URL}/api/purchases`, {
+      headers: { Authorization: authHeader },
+      cache: 'no-store',
+    })
+
+    if (!res.ok) return null
+
+    const json = await res.json()
+    const purchases = json.purchases || []
+
+    return (
+      purchases.find(
+        (p: BackendPurchase) => p.txHash?.toLowerCase() === txHash.toLowerCase()
+      ) ?? null
+    )
+  }
+
+  // The event stream reports the purchase as soon as the indexer stores it;
+  // polling only takes over while the stream is unavailable
   async function waitForBackendPurchase(
     txHash: `0x${string}`
   ): Promise<{ id: string }> {
     if (!address) throw new Error('Wallet not connected')
 
-    for (let i = 0; i < 15; i++) {
-      const authHeader = await getCachedAuthHeader(address, 'general', () =>
-        buildAuthHeader(address, signMessageAsync, 'general')
-      )
-
-      const res = await fetch(`${API_URL}/api/purchases`, {
-        headers: { Authorization: authHeader },
-        cache: 'no-store',
+    const authHeader = await getCachedAuthHeader(address, 'general', () =>
+      buildSessionAuthHeader(address, signMessageAsync)
+    )
+
+    const controller = new AbortController()
+    let streaming = false
+    let resolveIndexed: (purchase: { id: string }) => void = () => {}
+    const indexed = new Promise<{ id: string }>((resolve) => {
+      resolveIndexed = resolve
+    })
+
+    streamPurchaseEvents(
+      authHeader,
+      {
+        // Re-check once subscribed so an event from just before is not missed
+        onReady: () => {
+          streaming = true
+          void findBackendPurchase(authHeader, txHash).then(
+            (found) => found && resolveIndexed(found)
+          )
+        },
+        onEvent: (event) => {
+          if (event.txHash.toLowerCase() === txHash.toLowerCase()) {
+            resolveIndexed({ id: event.purchaseId })
+          }
+        },
+      },
+      controller.signal
+    )
+      .catch(() => {})
+      .finally(() => {
+        streaming = false
       })
 
-      if (res.ok) {
-        const json = await res.json()
-        const purchases = json.purchases || []
-
-        const found = purchases.find(
-          (p: BackendPurchase) =>
-            p.txHash?.toLowerCase() === txHash.toLowerCase()
-        )
+    try {
+      const deadline = Date.now() + INDEXING_TIMEOUT_MS
 
+      while (Date.now() < deadline) {
+        const found = await findBackendPurchase(authHeader, txHash)
         if (found) return found
-      }
 
-      await new Promise((r) => setTimeout(r, 2000))
+        const delay = streaming
+          ? STREAMING_POLL_INTERVAL_MS
+          : FALLBACK_POLL_INTERVAL_MS
+        const streamed = await Promise.race([
+          indexed,
+          new Promise<null>((r) => setTimeout(() => r(null), delay)),
+        ])
+        if (streamed) return streamed
+      }
+    } finally {
+      controller.abort()
     }
 
     throw new Error('Purchase not indexed by backend yet')
@@ -149,21 +207,19 @@ export default function BuyButton({ onchainId, priceUsdc }: BuyButtonProps) {
       )
 
       /* 6️⃣ Sign bind message (separate from auth signature) */
+      const bindNonce = await fetchNonce()
       const bindTimestamp = Date.now()
 
-      const bindMessage = `I am the buyer of purchase ${purchaseRecord.id}.\nMy public key: ${publicKeyBase64}\nTimestamp: ${bindTimestamp}`
+      const bindMessage = `I am the buyer of purchase ${purchaseRecord.id}.\nMy public key: ${publicKeyBase64}\nNonce: ${bindNonce}\nTimestamp: ${bindTimestamp}`
 
       const bindSignature = await signMessageAsync({
         message: bindMessage,
       })
 
-      /* 7️⃣ Create auth signature */
-      const authMessage = `Authenticate to Data Marketplace\nTimestamp: ${bindTimestamp}`
-      const authSignature = await signMessageAsync({
-        message: authMessage,
-      })
-
-      const authHeader = `signature ${address}:${bindTimestamp}:${authSignature}`
+      /* 7️⃣ Authenticate with the wallet's session */
+      const authHeader = await getCachedAuthHeader(address, 'general', () =>
+        buildSessionAuthHeader(address, signMessageAsync)
+      )
 
       /* 8️⃣ Bind key on backend */
       const bindRes = await fetch(
@@ -178,6 +234,7 @@ export default function BuyButton({ onchainId, priceUsdc }: BuyButtonProps) {
             publicKey: publicKeyBase64,
             signature: bindSignature,
             timestamp: bindTimestamp,
+            nonce: bindNonce,
           }),
         }
       )
@@ -5,13 +5,13 @@ import { useState } from 'react'
 import { useAccount, useSignMessage } from 'wagmi'
 
 import { getCachedAuthHeader } from '@/lib/authCache'
-import { buildAuthHeader } from '@/lib/authHeader'
 import { loadBuyerPrivateKey } from '@/lib/buyerKeys'
 import { decryptAndDownload } from '@/lib/download'
 import { decryptFile, sha256 } from '@/lib/encryption'
 import { validateEnvelope } from '@/lib/envelope'
 import type { EncryptionEnvelope } from '@/lib/envelope'
 import { fetchFromGateway } from '@/lib/gateway'
+import { buildSessionAuthHeader } from '@/lib/session'
 
 const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
 
@@ -193,7 +193,7 @@ export function DownloadAccess({ purchaseId }: DownloadAccessProps) {
       setStatus('fetching-access')
 
       const authHeader = await getCachedAuthHeader(address, 'general', () =>
-        buildAuthHeader(address, signMessageAsync, 'general')
+        buildSessionAuthHeader(address, signMessageAsync)
       )
       const accessRes = await fetch(
         `${API_URL}/api/purchases/${purchaseId}/access`,
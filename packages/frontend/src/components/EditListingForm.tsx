@@ -0,0 +1,257 @@
+'use client'
+
+import { AlertCircle, History, Loader2, Save, X } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useAccount, useSignMessage } from 'wagmi'
+
+import { getCachedAuthHeader } from '@/lib/authCache'
+import {
+  LISTING_CATEGORIES,
+  validateDescription,
+  validateTitle,
+} from '@/lib/form-validation'
+import {
+  EDITABLE_LISTING_FIELDS,
+  buildListingPatch,
+  parseEditableListing,
+  saveListingEdit,
+  type EditableListingDetail,
+  type ListingMetadata,
+} from '@/lib/listingEdits'
+import { buildSessionAuthHeader } from '@/lib/session'
+
+const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
+
+export interface EditListingFormProps {
+  listingId: string
+  onSaved?: () => void
+  onCancel?: () => void
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString()
+}
+
+export function EditListingForm({
+  listingId,
+  onSaved,
+  onCancel,
+}: EditListingFormProps) {
+  const { address } = useAccount()
+  const { signMessageAsync } = useSignMessage()
+
+  const [detail, setDetail] = useState<EditableListingDetail | null>(null)
+  const [draft, setDraft] = useState<ListingMetadata>({
+    title: '',
+    description: '',
+    category: 'Other',
+  })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const res = await fetch(`${API_URL}/api/listings/${listingId}`, {
+          cache: 'no-store',
+        })
+        if (!res.ok) {
+          throw new Error('Failed to load listing details.')
+        }
+
+        const parsed = parseEditableListing(await res.json())
+        if (!cancelled) {
+          setDetail(parsed)
+          setDraft({
+            title: parsed.title,
+            description: parsed.description,
+            category: parsed.category,
+          })
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : 'Failed to load listing details.'
+          )
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    void load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [listingId])
+
+  const titleResult = validateTitle(draft.title)
+  const descriptionResult = validateDescription(draft.description)
+  const isValid = titleResult.valid && descriptionResult.valid
+
+  const handleSave = async () => {
+    if (!detail || !address || !isValid) {
+      return
+    }
+
+    const patch = buildListingPatch(detail, draft)
+    if (!patch) {
+      setNotice('No changes to save.')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const authHeader = await getCachedAuthHeader(address, 'general', () =>
+        buildSessionAuthHeader(address, signMessageAsync)
+      )
+
+      await saveListingEdit(listingId, patch, authHeader)
+
+      onSaved?.()
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : 'Failed to save listing changes.'
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading listing details...
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {detail && (
+        <>
+          <div>
+            <label className="text-sm font-medium text-foreground">Title</label>
+            <input
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              className="w-full rounded-xl border border-border bg-background px-4 py-2 text-foreground focus:ring-2 focus:ring-brand-500 focus:outline-none"
+            />
+            {!titleResult.valid && (
+              <p className="text-sm text-red-500 mt-1">{titleResult.error}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-foreground">
+              Description
+            </label>
+            <textarea
+              value={draft.description}
+              onChange={(e) =>
+                setDraft({ ...draft, description: e.target.value })
+              }
+              className="w-full rounded-xl border border-border bg-background px-4 py-2 text-foreground h-32 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+            />
+            {!descriptionResult.valid && (
+              <p className="text-sm text-red-500 mt-1">
+                {descriptionResult.error}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-foreground">
+              Category
+            </label>
+            <select
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+              className="w-full rounded-xl border border-border bg-background px-4 py-2 text-foreground focus:ring-2 focus:ring-brand-500 focus:outline-none"
+            >
+              {LISTING_CATEGORIES.map((c) => (
+                <option key={c}>{c}</option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Price and availability are set on chain and cannot be edited here.
+          </p>
+
+          {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={saving || !isValid}
+              className="btn-primary inline-flex items-center gap-2 px-4 py-2 text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Save changes
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={saving}
+              className="btn-outline inline-flex items-center gap-2 px-4 py-2 text-sm"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+          </div>
+
+          {detail.revisions.length > 0 && (
+            <div className="border-t border-border pt-4">
+              <p className="text-xs text-muted-foreground uppercase font-medium mb-2 inline-flex items-center gap-1">
+                <History className="w-3.5 h-3.5" />
+                Edit history
+              </p>
+              <ul className="space-y-1 text-sm text-muted-foreground">
+                {detail.revisions.map((revision) => (
+                  <li key={revision.id}>
+                    {formatDate(revision.createdAt)}: changed{' '}
+                    {EDITABLE_LISTING_FIELDS.filter(
+                      (field) => revision.changes[field]
+                    ).join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
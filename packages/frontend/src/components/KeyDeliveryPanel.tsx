@@ -12,14 +12,20 @@ import {
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useAccount, useSignMessage } from 'wagmi'
 
-import { getCachedAuthHeader } from '@/lib/authCache'
+import { usePurchaseEvents } from '@/hooks/usePurchaseEvents'
+import { getCachedAuthHeader, peekCachedAuthHeader } from '@/lib/authCache'
 import { buildAuthHeader } from '@/lib/authHeader'
 import { encryptKeyForBuyer, parsePublicKeyFromBase64 } from '@/lib/keyDelivery'
+import type { PurchaseEvent } from '@/lib/purchaseEvents'
+import { buildSessionAuthHeader } from '@/lib/session'
 import { getOrCreateSpace, initializeClient, uploadBlob } from '@/lib/storacha'
 
 const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
 const DEFAULT_SPACE_NAME = 'storacha-marketplace'
 
+// Only while the event stream is down
+const FALLBACK_POLL_INTERVAL_MS = 30_000
+
 type StorachaClient = Awaited<ReturnType<typeof initializeClient>>
 
 type DeliveryStatus = 'idle' | 'delivering' | 'success' | 'error'
@@ -213,7 +219,7 @@ export function KeyDeliveryPanel({
 
     try {
       const authHeader = await getCachedAuthHeader(address, 'general', () =>
-        buildAuthHeader(address, signMessageAsync, 'general')
+        buildSessionAuthHeader(address, signMessageAsync)
       )
 
       const allPending: PendingDelivery[] = []
@@ -278,6 +284,48 @@ export function KeyDeliveryPanel({
     }
   }, [address, fetchPendingDeliveries, isConnected])
 
+  // Stream events and fallback polling only refresh with a header the seller
+  // already signed, so they never pop a signature request
+  const refreshInBackground = useCallback(() => {
+    if (address && peekCachedAuthHeader(address, 'general')) {
+      void fetchPendingDeliveries()
+    }
+  }, [address, fetchPendingDeliveries])
+
+  // A buyer binding a key makes a purchase deliverable; a delivery made from
+  // another tab or device takes it off the list
+  const handlePurchaseEvent = useCallback(
+    (event: PurchaseEvent) => {
+      if (
+        event.listingId !== listingId ||
+        event.sellerAddress !== address?.toLowerCase()
+      ) {
+        return
+      }
+
+      if (event.type === 'purchase.key_delivered') {
+        setPendingDeliveries((previous) =>
+          previous.filter((purchase) => purchase.id !== event.purchaseId)
+        )
+      } else if (event.type === 'purchase.key_bound') {
+        refreshInBackground()
+      }
+    },
+    [address, listingId, refreshInBackground]
+  )
+
+  const { streaming } = usePurchaseEvents({
+    onReady: refreshInBackground,
+    onEvent: handlePurchaseEvent,
+  })
+
+  useEffect(() => {
+    if (!isConnected || !address || streaming) return
+
+    const interval = setInterval(refreshInBackground, FALLBACK_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [address, isConnected, refreshInBackground, streaming])
+
   const handleKeyFileChange = async (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -401,6 +449,7 @@ export function KeyDeliveryPanel({
 
   // Delivery mutations require fresh signatures — do not cache.
   // Only read operations (fetchPendingDeliveries) use the cached auth.
+  // Each signature names a single-use nonce, so every delivery signs its own.
   const handleDeliverSingle = async (purchase: PendingDelivery) => {
     if (!address || !isConnected) {
       setError('Connect wallet before delivering keys.')
@@ -454,16 +503,15 @@ export function KeyDeliveryPanel({
     setError(null)
 
     try {
-      const authHeader = await buildAuthHeader(
-        address,
-        signMessageAsync,
-        'general'
-      )
-
       const deliveredIds: string[] = []
 
       for (const purchase of pendingDeliveries) {
         try {
+          const authHeader = await buildAuthHeader(
+            address,
+            signMessageAsync,
+            'general'
+          )
           await deliverForPurchase(purchase, authHeader)
           deliveredIds.push(purchase.id)
         } catch (deliveryError) {
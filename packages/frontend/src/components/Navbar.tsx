@@ -4,6 +4,7 @@ import { Database } from 'lucide-react'
 import Link from 'next/link'
 
 import { ConnectWallet } from './ConnectWallet'
+import { NotificationBell } from './NotificationBell'
 import { ThemeToggle } from './ThemeToggle'
 
 const NAV_ITEMS = [
@@ -50,6 +51,7 @@ export default function Navbar() {
 
         {/* Right: Controls */}
         <div className="flex shrink-0 items-center gap-4">
+          <NotificationBell />
           <ThemeToggle />
           <ConnectWallet />
         </div>
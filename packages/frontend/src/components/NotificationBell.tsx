@@ -0,0 +1,227 @@
+'use client'
+
+import { Bell, Loader2 } from 'lucide-react'
+import Link from 'next/link'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useAccount, useSignMessage } from 'wagmi'
+
+import { getCachedAuthHeader, peekCachedAuthHeader } from '@/lib/authCache'
+import {
+  fetchInbox,
+  formatNotificationTime,
+  markInboxRead,
+  notificationHref,
+  type InboxNotification,
+  type InboxResponse,
+} from '@/lib/notifications'
+import { buildSessionAuthHeader } from '@/lib/session'
+
+const POLL_INTERVAL_MS = 60_000
+
+export function NotificationBell() {
+  const { address, isConnected } = useAccount()
+  const { signMessageAsync } = useSignMessage()
+
+  const [mounted, setMounted] = useState(false)
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<InboxNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Prevent hydration mismatch
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  const applyInbox = useCallback((inbox: InboxResponse) => {
+    setNotifications(inbox.notifications)
+    setUnreadCount(inbox.unreadCount)
+  }, [])
+
+  // Background refresh only uses a header the user already signed elsewhere,
+  // so the bell never pops a signature request on its own.
+  useEffect(() => {
+    setNotifications([])
+    setUnreadCount(0)
+    if (!address || !isConnected) return
+
+    let cancelled = false
+
+    const refresh = async () => {
+      const cached = peekCachedAuthHeader(address, 'general')
+      if (!cached) return
+
+      try {
+        const inbox = await fetchInbox(await cached)
+        if (!cancelled) applyInbox(inbox)
+      } catch {
+        // Keep the last known state; the next poll retries
+      }
+    }
+
+    void refresh()
+    const interval = setInterval(() => void refresh(), POLL_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [address, isConnected, applyInbox])
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!open) return
+
+    const onPointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false)
+    }
+
+    document.addEventListener('mousedown', onPointerDown)
+    document.addEventListener('keydown', onKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', onPointerDown)
+      document.removeEventListener('keydown', onKeyDown)
+    }
+  }, [open])
+
+  const getAuthHeader = useCallback(() => {
+    if (!address) throw new Error('Connect your wallet first.')
+
+    return getCachedAuthHeader(address, 'general', () =>
+      buildSessionAuthHeader(address, signMessageAsync)
+    )
+  }, [address, signMessageAsync])
+
+  async function toggleOpen() {
+    const next = !open
+    setOpen(next)
+    if (!next) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      applyInbox(await fetchInbox(await getAuthHeader()))
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Unable to load notifications.'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function markRead(ids?: string[]) {
+    const now = new Date().toISOString()
+    setNotifications((previous) =>
+      previous.map((notification) =>
+        !ids || ids.includes(notification.id)
+          ? { ...notification, readAt: notification.readAt ?? now }
+          : notification
+      )
+    )
+
+    try {
+      setUnreadCount(await markInboxRead(await getAuthHeader(), ids))
+    } catch {
+      // The next refresh restores the server state
+    }
+  }
+
+  function handleSelect(notification: InboxNotification) {
+    setOpen(false)
+    if (!notification.readAt) void markRead([notification.id])
+  }
+
+  if (!mounted || !isConnected) return null
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => void toggleOpen()}
+        className="relative inline-flex items-center rounded-lg border border-border bg-card p-2 text-foreground transition hover:bg-card/80"
+        aria-label={
+          unreadCount > 0
+            ? `Notifications (${unreadCount} unread)`
+            : 'Notifications'
+        }
+        aria-haspopup="true"
+        aria-expanded={open}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -right-1.5 -top-1.5 min-w-[1.25rem] rounded-full bg-brand-500 px-1 text-center text-xs font-semibold leading-5 text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-80 overflow-hidden rounded-xl border border-border bg-card shadow-lg">
+          <div className="flex items-center justify-between border-b border-border px-4 py-3">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => void markRead()}
+                className="text-xs font-medium text-brand-600 hover:underline"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {loading && notifications.length === 0 ? (
+            <div className="flex items-center justify-center py-6 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="px-4 py-6 text-center text-sm text-red-500">
+              {error}
+            </p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">
+              You&apos;re all caught up.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <Link
+                    href={notificationHref(notification)}
+                    onClick={() => handleSelect(notification)}
+                    className={`flex gap-3 px-4 py-3 text-sm transition-colors hover:bg-muted/40 ${
+                      notification.readAt ? 'text-muted-foreground' : ''
+                    }`}
+                  >
+                    <span
+                      className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                        notification.readAt ? 'bg-transparent' : 'bg-brand-500'
+                      }`}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="block break-words">
+                        {notification.message}
+                      </span>
+                      <span className="mt-0.5 block text-xs text-muted-foreground">
+                        {formatNotificationTime(notification.createdAt)}
+                      </span>
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
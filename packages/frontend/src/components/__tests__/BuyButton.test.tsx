@@ -64,6 +64,18 @@ describe('BuyButton component logic', () => {
       )
     })
 
+    it('waits on the purchase event stream with polling as fallback', () => {
+      expect(source).toContain('streamPurchaseEvents(')
+      expect(source).toContain('findBackendPurchase(authHeader, txHash)')
+      expect(source).toContain('controller.abort()')
+    })
+
+    it('signs the bind message over a single-use nonce', () => {
+      expect(source).toContain('const bindNonce = await fetchNonce()')
+      expect(source).toContain('Nonce: ${bindNonce}')
+      expect(source).toContain('nonce: bindNonce')
+    })
+
     it('stops flow if backend polling fails', () => {
       expect(source).toContain(
         'const purchaseRecord = await waitForBackendPurchase(txHash)'
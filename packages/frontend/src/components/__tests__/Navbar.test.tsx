@@ -17,6 +17,11 @@ describe('Navbar navigation links', () => {
     expect(navbarSource).toContain('My Listings')
   })
 
+  it('renders the notification bell next to the controls', () => {
+    expect(navbarSource).toContain("from './NotificationBell'")
+    expect(navbarSource).toContain('<NotificationBell />')
+  })
+
   it('renders desktop and mobile navigation containers', () => {
     expect(navbarSource).toContain('md:flex')
     expect(navbarSource).toContain('md:hidden')
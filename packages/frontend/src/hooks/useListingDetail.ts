@@ -3,7 +3,8 @@
 import { useCallback, useEffect, useState } from 'react'
 import { useAccount, useSignMessage } from 'wagmi'
 
-import { buildAuthHeader } from '@/lib/authHeader'
+import { getCachedAuthHeader } from '@/lib/authCache'
+import { buildSessionAuthHeader } from '@/lib/session'
 
 const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
 
@@ -42,10 +43,8 @@ export function useListingDetail(id: string) {
 
       if (isConnected && address) {
         try {
-          const authHeader = await buildAuthHeader(
-            address,
-            signMessageAsync,
-            'listing'
+          const authHeader = await getCachedAuthHeader(address, 'general', () =>
+            buildSessionAuthHeader(address, signMessageAsync)
           )
           headers = { Authorization: authHeader }
         } catch {
@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useAccount } from 'wagmi'
+
+import { peekCachedAuthHeader } from '@/lib/authCache'
+import { streamPurchaseEvents, type PurchaseEvent } from '@/lib/purchaseEvents'
+
+const RECONNECT_DELAY_MS = 3_000
+const MAX_RECONNECT_DELAY_MS = 60_000
+
+interface UsePurchaseEventsOptions {
+  onEvent: (event: PurchaseEvent) => void
+  /** Called each time the stream (re)connects; refresh state here */
+  onReady?: () => void
+}
+
+/**
+ * Keep the connected wallet's purchase event stream open. The stream only
+ * uses an auth header the user already signed, so it never prompts; while it
+ * is down `streaming` is false and callers fall back to polling.
+ */
+export function usePurchaseEvents({
+  onEvent,
+  onReady,
+}: UsePurchaseEventsOptions) {
+  const { address, isConnected } = useAccount()
+  const [streaming, setStreaming] = useState(false)
+
+  // Latest handlers without reopening the stream on every render
+  const handlersRef = useRef({ onEvent, onReady })
+  handlersRef.current = { onEvent, onReady }
+
+  useEffect(() => {
+    setStreaming(false)
+    if (!address || !isConnected) return
+
+    const controller = new AbortController()
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let delay = RECONNECT_DELAY_MS
+
+    const connect = async () => {
+      const cached = peekCachedAuthHeader(address, 'general')
+
+      if (cached) {
+        try {
+          await streamPurchaseEvents(
+            await cached,
+            {
+              onReady: () => {
+                delay = RECONNECT_DELAY_MS
+                setStreaming(true)
+                handlersRef.current.onReady?.()
+              },
+              onEvent: (event) => handlersRef.current.onEvent(event),
+            },
+            controller.signal
+          )
+        } catch {
+          // Network error or expired header; retry below
+        }
+      }
+
+      if (controller.signal.aborted) return
+
+      setStreaming(false)
+      retryTimer = setTimeout(() => void connect(), delay)
+      delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS)
+    }
+
+    void connect()
+
+    return () => {
+      controller.abort()
+      if (retryTimer) clearTimeout(retryTimer)
+    }
+  }, [address, isConnected])
+
+  return { streaming }
+}
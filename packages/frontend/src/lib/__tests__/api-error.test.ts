@@ -74,6 +74,27 @@ describe('api-error utilities', () => {
         'Validation failed: : Root level error'
       )
     })
+
+    it('tells rate-limited callers when to retry', () => {
+      const response: ApiErrorResponse = {
+        error: 'Too many requests',
+        code: 'RATE_LIMITED',
+        retryAfter: 42,
+      }
+      expect(formatApiError(response)).toBe(
+        'Too many requests. Please try again in 42 seconds.'
+      )
+    })
+
+    it('handles rate limiting without a retry delay', () => {
+      const response: ApiErrorResponse = {
+        error: 'Too many requests',
+        code: 'RATE_LIMITED',
+      }
+      expect(formatApiError(response)).toBe(
+        'Too many requests. Please try again shortly.'
+      )
+    })
   })
 
   describe('logValidationError', () => {
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { buildAuthHeader } from '../authHeader'
+
+const ADDRESS = '0x' + 'B'.repeat(40)
+
+describe('buildAuthHeader', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('signs a server-issued nonce and names it in the header', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify({ nonce: 'abcdef1234567890' }))
+        )
+    )
+    const signMessageAsync = vi.fn().mockResolvedValue('0xsig')
+
+    const header = await buildAuthHeader(ADDRESS, signMessageAsync, 'general')
+
+    const { message } = signMessageAsync.mock.calls[0]![0]
+    const timestamp = message.match(/Timestamp: (\d+)$/)?.[1]
+    expect(message).toBe(
+      `Authenticate to Data Marketplace\nNonce: abcdef1234567890\nTimestamp: ${timestamp}`
+    )
+    expect(header).toBe(
+      `signature ${ADDRESS}:${timestamp}:abcdef1234567890:0xsig`
+    )
+  })
+
+  it('signs listing edits over their own message', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify({ nonce: 'abcdef1234567890' }))
+        )
+    )
+    const signMessageAsync = vi.fn().mockResolvedValue('0xsig')
+
+    await buildAuthHeader(ADDRESS, signMessageAsync, 'listing-edit')
+
+    expect(signMessageAsync.mock.calls[0]![0].message).toMatch(
+      /^Edit listing on Data Marketplace\nNonce: abcdef1234567890\nTimestamp: \d+$/
+    )
+  })
+
+  it('fails without a nonce', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(null, { status: 503 }))
+    )
+    const signMessageAsync = vi.fn()
+
+    await expect(
+      buildAuthHeader(ADDRESS, signMessageAsync, 'general')
+    ).rejects.toThrow('Failed to get a signing nonce')
+    expect(signMessageAsync).not.toHaveBeenCalled()
+  })
+})
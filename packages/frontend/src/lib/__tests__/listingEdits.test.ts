@@ -0,0 +1,126 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+
+import {
+  buildListingPatch,
+  parseEditableListing,
+  saveListingEdit,
+} from '../listingEdits'
+
+const current = {
+  title: 'Weather Data',
+  description: 'Hourly readings from 40 stations.',
+  category: 'IoT',
+}
+
+describe('buildListingPatch', () => {
+  it('returns only changed fields', () => {
+    expect(
+      buildListingPatch(current, { ...current, title: 'Weather Dataset' })
+    ).toEqual({ title: 'Weather Dataset' })
+  })
+
+  it('trims values before comparing', () => {
+    expect(
+      buildListingPatch(current, { ...current, title: '  Weather Data  ' })
+    ).toBeNull()
+    expect(
+      buildListingPatch(current, { ...current, category: ' Other ' })
+    ).toEqual({ category: 'Other' })
+  })
+
+  it('returns null when nothing changed', () => {
+    expect(buildListingPatch(current, { ...current })).toBeNull()
+  })
+})
+
+describe('parseEditableListing', () => {
+  it('parses metadata and revisions', () => {
+    const parsed = parseEditableListing({
+      listing: {
+        ...current,
+        priceUsdc: '10',
+        revisions: [
+          {
+            id: 'rev-1',
+            editorAddress: '0xabc',
+            changes: {
+              title: { from: 'Wether Data', to: 'Weather Data' },
+              active: { from: true, to: false },
+            },
+            createdAt: '2026-10-19T00:00:00.000Z',
+          },
+        ],
+      },
+    })
+
+    expect(parsed).toEqual({
+      ...current,
+      revisions: [
+        {
+          id: 'rev-1',
+          editorAddress: '0xabc',
+          changes: { title: { from: 'Wether Data', to: 'Weather Data' } },
+          createdAt: '2026-10-19T00:00:00.000Z',
+        },
+      ],
+    })
+  })
+
+  it('skips malformed revisions and tolerates a missing history', () => {
+    expect(
+      parseEditableListing({
+        listing: { ...current, revisions: [{ id: 'rev-1' }, null] },
+      }).revisions
+    ).toEqual([])
+    expect(parseEditableListing({ listing: current }).revisions).toEqual([])
+  })
+
+  it('throws on a response without metadata', () => {
+    expect(() => parseEditableListing({})).toThrow('Invalid listing response')
+    expect(() => parseEditableListing({ listing: { title: 'x' } })).toThrow(
+      'Listing response is missing required fields'
+    )
+  })
+})
+
+describe('saveListingEdit', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('PATCHes the changed fields with the given auth header', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ revision: null })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await saveListingEdit('listing-1', { title: 'New title' }, 'Bearer token')
+
+    const [url, init] = fetchMock.mock.calls[0]!
+    expect(url).toMatch(/\/api\/listings\/listing-1$/)
+    expect(init).toMatchObject({
+      method: 'PATCH',
+      headers: { Authorization: 'Bearer token' },
+      body: JSON.stringify({ title: 'New title' }),
+    })
+  })
+
+  it('throws the API error message', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            error: 'NOT_SELLER',
+            message: 'Only the seller can edit this listing',
+          }),
+          { status: 403 }
+        )
+      )
+    )
+
+    await expect(
+      saveListingEdit('listing-1', { title: 'New title' }, 'Bearer token')
+    ).rejects.toThrow('NOT_SELLER')
+  })
+})
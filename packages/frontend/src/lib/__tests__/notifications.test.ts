@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  formatNotificationTime,
+  notificationHref,
+  parseInboxResponse,
+  type InboxNotification,
+} from '../notifications'
+
+function makeNotification(
+  overrides: Partial<InboxNotification> = {}
+): InboxNotification {
+  return {
+    id: 'n1',
+    type: 'purchase.completed',
+    message: 'New purchase of "Weather"',
+    listingId: 'listing-1',
+    purchaseId: 'purchase-1',
+    readAt: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('parseInboxResponse', () => {
+  it('parses notifications, unread count and cursor', () => {
+    const parsed = parseInboxResponse({
+      notifications: [
+        {
+          id: 'n1',
+          type: 'listing.deactivated',
+          message: '"Weather" was deactivated',
+          listingId: 'listing-1',
+          purchaseId: null,
+          readAt: null,
+          createdAt: '2026-01-01T00:00:00.000Z',
+        },
+      ],
+      unreadCount: 4,
+      nextCursor: 'n0',
+    })
+
+    expect(parsed).toEqual({
+      notifications: [
+        {
+          id: 'n1',
+          type: 'listing.deactivated',
+          message: '"Weather" was deactivated',
+          listingId: 'listing-1',
+          purchaseId: null,
+          readAt: null,
+          createdAt: '2026-01-01T00:00:00.000Z',
+        },
+      ],
+      unreadCount: 4,
+      nextCursor: 'n0',
+    })
+  })
+
+  it('rejects malformed payloads', () => {
+    expect(() => parseInboxResponse({ notifications: 'nope' })).toThrow(
+      'Invalid notifications response'
+    )
+    expect(() =>
+      parseInboxResponse({ notifications: [{ id: 'n1' }], unreadCount: 1 })
+    ).toThrow('Invalid "type" in notification')
+  })
+})
+
+describe('notificationHref', () => {
+  it('sends sellers to the dashboard for sales and pending keys', () => {
+    expect(notificationHref(makeNotification())).toBe('/sell')
+    expect(
+      notificationHref(makeNotification({ type: 'purchase.key_bound' }))
+    ).toBe('/sell')
+  })
+
+  it('links buyers to the delivered purchase', () => {
+    expect(
+      notificationHref(makeNotification({ type: 'purchase.key_delivered' }))
+    ).toBe('/purchases#purchase-purchase-1')
+  })
+
+  it('links listing events to the listing', () => {
+    expect(
+      notificationHref(
+        makeNotification({ type: 'listing.deactivated', purchaseId: null })
+      )
+    ).toBe('/listing/listing-1')
+  })
+})
+
+describe('formatNotificationTime', () => {
+  const createdAt = '2026-01-01T00:00:00.000Z'
+  const base = new Date(createdAt).getTime()
+
+  it('formats recent times relative to now', () => {
+    expect(formatNotificationTime(createdAt, base + 30_000)).toBe('just now')
+    expect(formatNotificationTime(createdAt, base + 5 * 60_000)).toBe('5m ago')
+    expect(formatNotificationTime(createdAt, base + 3 * 3_600_000)).toBe(
+      '3h ago'
+    )
+    expect(formatNotificationTime(createdAt, base + 2 * 86_400_000)).toBe(
+      '2d ago'
+    )
+  })
+})
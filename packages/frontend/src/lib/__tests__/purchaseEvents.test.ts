@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  createSseParser,
+  parsePurchaseEvent,
+  streamPurchaseEvents,
+  type PurchaseEvent,
+  type SseMessage,
+} from '../purchaseEvents'
+
+const EVENT_DATA = {
+  purchaseId: 'purchase-1',
+  listingId: 'listing-1',
+  txHash: '0xabc',
+  buyerAddress: '0xBUYER',
+  sellerAddress: '0xseller',
+  keyDelivered: false,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+}
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+}
+
+describe('createSseParser', () => {
+  it('assembles events split across chunks and skips comments', () => {
+    const messages: SseMessage[] = []
+    const parse = createSseParser((message) => messages.push(message))
+
+    parse('retry: 3000\n\n: ping\n\nevent: rea')
+    parse('dy\ndata: {"a":1}\n')
+    parse('\ndata: line one\r\ndata: line two\r\n\r\n')
+
+    expect(messages).toEqual([
+      { event: 'ready', data: '{"a":1}' },
+      { event: 'message', data: 'line one\nline two' },
+    ])
+  })
+})
+
+describe('parsePurchaseEvent', () => {
+  it('parses known purchase events and lowercases addresses', () => {
+    const event = parsePurchaseEvent({
+      event: 'purchase.key_bound',
+      data: JSON.stringify(EVENT_DATA),
+    })
+
+    expect(event).toEqual({
+      ...EVENT_DATA,
+      type: 'purchase.key_bound',
+      buyerAddress: '0xbuyer',
+    })
+  })
+
+  it('ignores unknown events and malformed data', () => {
+    expect(
+      parsePurchaseEvent({ event: 'listing.updated', data: '{}' })
+    ).toBeNull()
+    expect(
+      parsePurchaseEvent({ event: 'purchase.indexed', data: 'not json' })
+    ).toBeNull()
+    expect(
+      parsePurchaseEvent({
+        event: 'purchase.indexed',
+        data: JSON.stringify({ ...EVENT_DATA, txHash: 1 }),
+      })
+    ).toBeNull()
+  })
+})
+
+describe('streamPurchaseEvents', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends the auth header and reports ready and purchase events', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(
+          streamOf([
+            'event: ready\ndata: {}\n\n',
+            `event: purchase.indexed\ndata: ${JSON.stringify(EVENT_DATA)}\n\n`,
+          ])
+        )
+      )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const onReady = vi.fn()
+    const events: PurchaseEvent[] = []
+    await streamPurchaseEvents('Signature 0xbuyer:1:0xsig', {
+      onReady,
+      onEvent: (event) => events.push(event),
+    })
+
+    expect(fetchMock.mock.calls[0]?.[0]).toMatch(/\/api\/events$/)
+    expect(fetchMock.mock.calls[0]?.[1].headers).toMatchObject({
+      Authorization: 'Signature 0xbuyer:1:0xsig',
+    })
+    expect(onReady).toHaveBeenCalledTimes(1)
+    expect(events.map((event) => event.purchaseId)).toEqual(['purchase-1'])
+  })
+
+  it('rejects when the stream cannot be opened', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(null, { status: 401 }))
+    )
+
+    await expect(
+      streamPurchaseEvents('Signature expired', { onEvent: vi.fn() })
+    ).rejects.toThrow('Failed to open purchase event stream')
+  })
+})
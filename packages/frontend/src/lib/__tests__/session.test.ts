@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  buildSessionAuthHeader,
+  parseSessionResponse,
+  signOut,
+} from '../session'
+
+const ADDRESS = '0x' + 'B'.repeat(40)
+
+function sessionBody(address: string, accessToken: string) {
+  return {
+    address: address.toLowerCase(),
+    chainId: 84532,
+    accessToken,
+    accessTokenExpiresAt: '2026-01-01T00:15:00.000Z',
+    expiresAt: '2026-01-08T00:00:00.000Z',
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('parseSessionResponse', () => {
+  it('reads the access token and lowercases the address', () => {
+    expect(parseSessionResponse(sessionBody(ADDRESS, 'token-1'))).toEqual({
+      address: ADDRESS.toLowerCase(),
+      accessToken: 'token-1',
+      accessTokenExpiresAt: '2026-01-01T00:15:00.000Z',
+    })
+  })
+
+  it('rejects responses without a token', () => {
+    expect(() => parseSessionResponse({ address: ADDRESS })).toThrow(
+      'Invalid session response'
+    )
+  })
+})
+
+describe('buildSessionAuthHeader', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', {
+      location: { host: 'localhost:3000', origin: 'http://localhost:3000' },
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reuses the current session without asking for a signature', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(jsonResponse(sessionBody(ADDRESS, 'refreshed')))
+    vi.stubGlobal('fetch', fetchMock)
+    const signMessageAsync = vi.fn()
+
+    await expect(
+      buildSessionAuthHeader(ADDRESS, signMessageAsync)
+    ).resolves.toBe('Bearer refreshed')
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0]?.[0]).toMatch(/\/api\/auth\/refresh$/)
+    expect(fetchMock.mock.calls[0]?.[1]).toMatchObject({
+      method: 'POST',
+      credentials: 'include',
+    })
+    expect(signMessageAsync).not.toHaveBeenCalled()
+  })
+
+  it('signs in when the session belongs to another wallet', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse(sessionBody('0x' + 'c'.repeat(40), 'other'))
+      )
+      .mockResolvedValueOnce(jsonResponse({ nonce: 'abcdef1234567890' }))
+      .mockResolvedValueOnce(
+        jsonResponse(sessionBody(ADDRESS, 'signed-in'), 201)
+      )
+    vi.stubGlobal('fetch', fetchMock)
+    const signMessageAsync = vi.fn().mockResolvedValue('0xsig')
+
+    await expect(
+      buildSessionAuthHeader(ADDRESS, signMessageAsync)
+    ).resolves.toBe('Bearer signed-in')
+
+    const { message } = signMessageAsync.mock.calls[0]![0]
+    expect(message).toMatch(/^localhost:3000 wants you to sign in/)
+    expect(message).toContain('Chain ID: 84532')
+    expect(message).toContain('Nonce: abcdef1234567890')
+
+    const [url, init] = fetchMock.mock.calls[2] ?? []
+    expect(url).toMatch(/\/api\/auth\/verify$/)
+    expect(JSON.parse(init.body)).toEqual({ message, signature: '0xsig' })
+  })
+
+  it('fails when sign-in is rejected', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(new Response(null, { status: 401 }))
+        .mockResolvedValueOnce(jsonResponse({ nonce: 'abcdef1234567890' }))
+        .mockResolvedValueOnce(new Response(null, { status: 401 }))
+    )
+
+    await expect(
+      buildSessionAuthHeader(ADDRESS, vi.fn().mockResolvedValue('0xsig'))
+    ).rejects.toThrow('Sign-in failed')
+  })
+})
+
+describe('signOut', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('posts to logout with the refresh cookie', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await signOut()
+
+    expect(fetchMock.mock.calls[0]?.[0]).toMatch(/\/api\/auth\/logout$/)
+    expect(fetchMock.mock.calls[0]?.[1]).toMatchObject({
+      method: 'POST',
+      credentials: 'include',
+    })
+  })
+})
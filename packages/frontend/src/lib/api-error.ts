@@ -11,16 +11,26 @@ export interface ValidationErrorDetail {
 export interface ApiErrorResponse {
   error: string
   details?: ValidationErrorDetail[]
+  code?: string
+  /** Seconds until a rate-limited request may be retried */
+  retryAfter?: number
 }
 
 /**
  * Formats validation error details into a single error message.
- * Extracts field paths and messages from Zod validation errors.
+ * Extracts field paths and messages from Zod validation errors, and tells
+ * rate-limited callers how long to wait.
  *
  * @param response - API error response with optional details array
  * @returns Formatted error message string
  */
 export function formatApiError(response: ApiErrorResponse): string {
+  if (response.code === 'RATE_LIMITED') {
+    return response.retryAfter
+      ? `Too many requests. Please try again in ${response.retryAfter} seconds.`
+      : 'Too many requests. Please try again shortly.'
+  }
+
   if (!response.details || response.details.length === 0) {
     return response.error || 'An unknown error occurred'
   }
@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 
-import { clearAuthCache, getCachedAuthHeader } from './authCache'
+import {
+  clearAuthCache,
+  getCachedAuthHeader,
+  peekCachedAuthHeader,
+} from './authCache'
 
 const TTL_MS = 4 * 60 * 1000
 
@@ -100,6 +104,20 @@ describe('authCache', () => {
     expect(build2b).toHaveBeenCalledTimes(1)
   })
 
+  it('peekCachedAuthHeader returns a fresh header without building one', async () => {
+    const address = '0xfee0000000000000000000000000000000000fee'
+
+    expect(peekCachedAuthHeader(address, 'general')).toBeNull()
+
+    await getCachedAuthHeader(address, 'general', async () => 'header-1')
+    await expect(peekCachedAuthHeader(address, 'general')).resolves.toBe(
+      'header-1'
+    )
+
+    now += TTL_MS
+    expect(peekCachedAuthHeader(address, 'general')).toBeNull()
+  })
+
   it('caches general and listing separately', async () => {
     const address = '0xccc3333333333333333333333333333333333ccc'
 
@@ -55,6 +55,21 @@ export async function getCachedAuthHeader(
   return value
 }
 
+// Returns the cached header while it is fresh, without ever building one.
+// Background fetches (e.g. the Navbar bell) use this so they never pop a
+// signature request the user didn't ask for.
+export function peekCachedAuthHeader(
+  address: string,
+  purpose: string
+): Promise<string> | null {
+  const existing = authHeaderCache.get(buildCacheKey(address, purpose))
+  if (existing && Date.now() - existing.cachedAt < TTL_MS) {
+    return existing.value
+  }
+
+  return null
+}
+
 export function clearAuthCache(address?: string): void {
   if (!address) {
     authHeaderCache.clear()
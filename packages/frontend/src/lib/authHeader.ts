@@ -1,18 +1,32 @@
 import type { SignMessageMutateAsync } from 'wagmi/query'
 
+import { fetchNonce } from './session'
+
+export type AuthPurpose = 'listing' | 'listing-edit' | 'general'
+
+// Must match the backend's per-purpose messages (middleware/auth.ts)
+const PURPOSE_ACTIONS: Record<AuthPurpose, string> = {
+  listing: 'Create listing on Data Marketplace',
+  'listing-edit': 'Edit listing on Data Marketplace',
+  general: 'Authenticate to Data Marketplace',
+}
+
+/**
+ * Legacy signature header for a single action. The signed message names a
+ * server-issued nonce, which the backend consumes, so the header can't be
+ * replayed.
+ */
 export async function buildAuthHeader(
   address: string,
   signMessageAsync: SignMessageMutateAsync,
-  purpose: 'listing' | 'general' = 'listing'
+  purpose: AuthPurpose = 'listing'
 ) {
+  const nonce = await fetchNonce()
   const timestamp = Date.now().toString()
 
-  const message =
-    purpose === 'listing'
-      ? `Create listing on Data Marketplace\nTimestamp: ${timestamp}`
-      : `Authenticate to Data Marketplace\nTimestamp: ${timestamp}`
+  const message = `${PURPOSE_ACTIONS[purpose]}\nNonce: ${nonce}\nTimestamp: ${timestamp}`
 
   const signature = await signMessageAsync({ message })
 
-  return `signature ${address}:${timestamp}:${signature}`
+  return `signature ${address}:${timestamp}:${nonce}:${signature}`
 }
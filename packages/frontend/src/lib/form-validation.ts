@@ -14,6 +14,15 @@ export interface ListingFormErrors {
   price?: string
 }
 
+// CategorySchema in the backend
+export const LISTING_CATEGORIES = [
+  'AI/ML',
+  'IoT',
+  'Health',
+  'Finance',
+  'Other',
+] as const
+
 // Validation constants matching backend
 const VALIDATION_RULES = {
   title: {
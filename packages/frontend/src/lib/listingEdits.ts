@@ -0,0 +1,136 @@
+/**
+ * Seller edits of listing metadata (PATCH /api/listings/:id) and the
+ * revision history returned with GET /api/listings/:id.
+ */
+
+import { formatApiError, logValidationError } from './api-error'
+
+const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
+
+export const EDITABLE_LISTING_FIELDS = [
+  'title',
+  'description',
+  'category',
+] as const
+
+export type EditableListingField = (typeof EDITABLE_LISTING_FIELDS)[number]
+
+export type ListingMetadata = Record<EditableListingField, string>
+
+export interface ListingRevision {
+  id: string
+  editorAddress: string
+  changes: Partial<Record<EditableListingField, { from: string; to: string }>>
+  createdAt: string
+}
+
+export interface EditableListingDetail extends ListingMetadata {
+  revisions: ListingRevision[]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Returns only the fields that differ from the current metadata, trimmed, or
+ * null if nothing changed.
+ */
+export function buildListingPatch(
+  current: ListingMetadata,
+  draft: ListingMetadata
+): Partial<ListingMetadata> | null {
+  const patch: Partial<ListingMetadata> = {}
+
+  for (const field of EDITABLE_LISTING_FIELDS) {
+    const value = draft[field].trim()
+    if (value !== current[field]) {
+      patch[field] = value
+    }
+  }
+
+  return Object.keys(patch).length > 0 ? patch : null
+}
+
+function parseRevision(value: unknown): ListingRevision | null {
+  if (!isRecord(value) || !isRecord(value['changes'])) {
+    return null
+  }
+
+  const { id, editorAddress, createdAt } = value
+  if (
+    typeof id !== 'string' ||
+    typeof editorAddress !== 'string' ||
+    typeof createdAt !== 'string'
+  ) {
+    return null
+  }
+
+  const changes: ListingRevision['changes'] = {}
+  for (const field of EDITABLE_LISTING_FIELDS) {
+    const change = value['changes'][field]
+    if (
+      isRecord(change) &&
+      typeof change['from'] === 'string' &&
+      typeof change['to'] === 'string'
+    ) {
+      changes[field] = { from: change['from'], to: change['to'] }
+    }
+  }
+
+  return { id, editorAddress, changes, createdAt }
+}
+
+/**
+ * Parses the editable fields and revision history from a
+ * GET /api/listings/:id response. Malformed revisions are skipped.
+ */
+export function parseEditableListing(value: unknown): EditableListingDetail {
+  const listing = isRecord(value) ? value['listing'] : undefined
+  if (!isRecord(listing)) {
+    throw new Error('Invalid listing response')
+  }
+
+  const { title, description, category } = listing
+  if (
+    typeof title !== 'string' ||
+    typeof description !== 'string' ||
+    typeof category !== 'string'
+  ) {
+    throw new Error('Listing response is missing required fields')
+  }
+
+  const revisions = Array.isArray(listing['revisions'])
+    ? listing['revisions']
+        .map(parseRevision)
+        .filter((revision): revision is ListingRevision => revision !== null)
+    : []
+
+  return { title, description, category, revisions }
+}
+
+/**
+ * PATCH the changed fields. `authHeader` is a session `Bearer` header or a
+ * signature from `buildAuthHeader(..., 'listing-edit')`; the backend refuses
+ * signatures made for listing creation.
+ */
+export async function saveListingEdit(
+  listingId: string,
+  patch: Partial<ListingMetadata>,
+  authHeader: string
+): Promise<void> {
+  const res = await fetch(`${API_URL}/api/listings/${listingId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: authHeader,
+    },
+    body: JSON.stringify(patch),
+  })
+
+  if (!res.ok) {
+    const errData = await res.json()
+    logValidationError(errData)
+    throw new Error(formatApiError(errData))
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * In-app notification inbox: response parsing, links and API calls used by
+ * the Navbar bell.
+ */
+
+const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
+
+export type NotificationType =
+  | 'purchase.completed'
+  | 'purchase.key_bound'
+  | 'purchase.key_delivered'
+  | 'listing.deactivated'
+
+export interface InboxNotification {
+  id: string
+  type: NotificationType | string
+  message: string
+  listingId: string | null
+  purchaseId: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+export interface InboxResponse {
+  notifications: InboxNotification[]
+  unreadCount: number
+  nextCursor: string | null
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function readString(value: Record<string, unknown>, field: string): string {
+  const raw = value[field]
+  if (typeof raw !== 'string' || !raw.trim()) {
+    throw new Error(`Invalid "${field}" in notification`)
+  }
+
+  return raw
+}
+
+function readOptionalString(
+  value: Record<string, unknown>,
+  field: string
+): string | null {
+  const raw = value[field]
+  return typeof raw === 'string' && raw ? raw : null
+}
+
+function parseNotification(value: unknown): InboxNotification {
+  if (!isRecord(value)) {
+    throw new Error('Invalid notification item')
+  }
+
+  return {
+    id: readString(value, 'id'),
+    type: readString(value, 'type'),
+    message: readString(value, 'message'),
+    listingId: readOptionalString(value, 'listingId'),
+    purchaseId: readOptionalString(value, 'purchaseId'),
+    readAt: readOptionalString(value, 'readAt'),
+    createdAt: readString(value, 'createdAt'),
+  }
+}
+
+export function parseInboxResponse(value: unknown): InboxResponse {
+  if (!isRecord(value) || !Array.isArray(value['notifications'])) {
+    throw new Error('Invalid notifications response')
+  }
+
+  const unreadCount = value['unreadCount']
+  const rawCursor = value['nextCursor']
+
+  return {
+    notifications: value['notifications'].map(parseNotification),
+    unreadCount:
+      typeof unreadCount === 'number' && Number.isFinite(unreadCount)
+        ? unreadCount
+        : 0,
+    nextCursor: typeof rawCursor === 'string' && rawCursor ? rawCursor : null,
+  }
+}
+
+/**
+ * Where a notification leads: sellers act on sales from the dashboard,
+ * buyers find delivered keys on their purchases page.
+ */
+export function notificationHref(notification: InboxNotification): string {
+  switch (notification.type) {
+    case 'purchase.completed':
+    case 'purchase.key_bound':
+      return '/sell'
+    case 'purchase.key_delivered':
+      return notification.purchaseId
+        ? `/purchases#purchase-${notification.purchaseId}`
+        : '/purchases'
+    default:
+      return notification.listingId ? `/listing/${notification.listingId}` : '/'
+  }
+}
+
+/** "just now", "5m ago", "3h ago", "2d ago", then the date */
+export function formatNotificationTime(
+  createdAt: string,
+  now = Date.now()
+): string {
+  const elapsedMs = now - new Date(createdAt).getTime()
+  const minutes = Math.floor(elapsedMs / 60_000)
+
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days}d ago`
+
+  return new Date(createdAt).toLocaleDateString()
+}
+
+export async function fetchInbox(
+  authHeader: string,
+  limit = 10
+): Promise<InboxResponse> {
+  const res = await fetch(`${API_URL}/api/notifications?limit=${limit}`, {
+    headers: { Authorization: authHeader },
+    cache: 'no-store',
+  })
+
+  if (!res.ok) throw new Error('Failed to load notifications')
+
+  return parseInboxResponse(await res.json())
+}
+
+/** Mark the given notifications read, or all of them when `ids` is omitted */
+export async function markInboxRead(
+  authHeader: string,
+  ids?: string[]
+): Promise<number> {
+  const res = await fetch(`${API_URL}/api/notifications/read`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: authHeader,
+    },
+    body: JSON.stringify(ids ? { ids } : {}),
+  })
+
+  if (!res.ok) throw new Error('Failed to update notifications')
+
+  const payload: unknown = await res.json()
+  const unreadCount = isRecord(payload) ? payload['unreadCount'] : undefined
+  return typeof unreadCount === 'number' ? unreadCount : 0
+}
@@ -0,0 +1,162 @@
+/**
+ * Purchase status stream (GET /api/events). EventSource cannot send the
+ * Authorization header, so the stream is read with fetch and parsed here.
+ */
+
+const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
+
+export type PurchaseEventType =
+  | 'purchase.indexed'
+  | 'purchase.key_bound'
+  | 'purchase.key_delivered'
+
+export interface PurchaseEvent {
+  type: PurchaseEventType
+  purchaseId: string
+  listingId: string
+  txHash: string
+  buyerAddress: string
+  sellerAddress: string
+  keyDelivered: boolean
+  updatedAt: string
+}
+
+export interface SseMessage {
+  event: string
+  data: string
+}
+
+const PURCHASE_EVENT_TYPES: readonly string[] = [
+  'purchase.indexed',
+  'purchase.key_bound',
+  'purchase.key_delivered',
+]
+
+/**
+ * Incremental parser for the text/event-stream format. Feed it decoded
+ * chunks as they arrive; it calls `onMessage` for every complete event.
+ */
+export function createSseParser(
+  onMessage: (message: SseMessage) => void
+): (chunk: string) => void {
+  let buffer = ''
+  let event = ''
+  let data: string[] = []
+
+  return (chunk: string) => {
+    buffer += chunk
+    const lines = buffer.split(/\r\n|\r|\n/)
+    buffer = lines.pop() ?? ''
+
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0) {
+          onMessage({ event: event || 'message', data: data.join('\n') })
+        }
+        event = ''
+        data = []
+        continue
+      }
+
+      // Comments keep the connection alive
+      if (line.startsWith(':')) continue
+
+      const colon = line.indexOf(':')
+      const field = colon === -1 ? line : line.slice(0, colon)
+      let value = colon === -1 ? '' : line.slice(colon + 1)
+      if (value.startsWith(' ')) value = value.slice(1)
+
+      if (field === 'event') event = value
+      if (field === 'data') data.push(value)
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/** Returns null for events this client does not understand */
+export function parsePurchaseEvent(message: SseMessage): PurchaseEvent | null {
+  if (!PURCHASE_EVENT_TYPES.includes(message.event)) return null
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(message.data)
+  } catch {
+    return null
+  }
+
+  if (!isRecord(parsed)) return null
+  const value = parsed
+
+  const fields = [
+    'purchaseId',
+    'listingId',
+    'txHash',
+    'buyerAddress',
+    'sellerAddress',
+    'updatedAt',
+  ] as const
+  if (fields.some((field) => typeof value[field] !== 'string')) return null
+
+  return {
+    type: message.event as PurchaseEventType,
+    purchaseId: value['purchaseId'] as string,
+    listingId: value['listingId'] as string,
+    txHash: value['txHash'] as string,
+    buyerAddress: (value['buyerAddress'] as string).toLowerCase(),
+    sellerAddress: (value['sellerAddress'] as string).toLowerCase(),
+    keyDelivered: value['keyDelivered'] === true,
+    updatedAt: value['updatedAt'] as string,
+  }
+}
+
+export interface PurchaseStreamHandlers {
+  /** Subscribed; re-read state now, earlier changes are not replayed */
+  onReady?: () => void
+  onEvent: (event: PurchaseEvent) => void
+}
+
+/**
+ * Read the wallet's purchase events until the server closes the stream or
+ * `signal` aborts. Rejects when the stream cannot be opened.
+ */
+export async function streamPurchaseEvents(
+  authHeader: string,
+  handlers: PurchaseStreamHandlers,
+  signal?: AbortSignal
+): Promise<void> {
+  const res = await fetch(`${API_URL}/api/events`, {
+    headers: { Authorization: authHeader, Accept: 'text/event-stream' },
+    cache: 'no-store',
+    signal,
+  })
+
+  if (!res.ok || !res.body) {
+    throw new Error('Failed to open purchase event stream')
+  }
+
+  const parse = createSseParser((message) => {
+    if (message.event === 'ready') {
+      handlers.onReady?.()
+      return
+    }
+
+    const event = parsePurchaseEvent(message)
+    if (event) handlers.onEvent(event)
+  })
+
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return
+      parse(decoder.decode(value, { stream: true }))
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) sessions. One wallet signature starts a
+ * session; API calls then send its short-lived access token as a Bearer
+ * header. The refresh token stays in an httpOnly cookie scoped to
+ * /api/auth, so a new access token never needs another signature until
+ * the session ends.
+ */
+import { createSiweMessage } from 'viem/siwe'
+import { baseSepolia } from 'wagmi/chains'
+import type { SignMessageMutateAsync } from 'wagmi/query'
+
+const API_URL = process.env['NEXT_PUBLIC_API_URL'] || 'http://localhost:3001'
+
+// Matches the chain the wallet is configured for in Web3Provider
+const SIWE_CHAIN_ID = baseSepolia.id
+
+export interface SessionToken {
+  address: string
+  accessToken: string
+  accessTokenExpiresAt: string
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+export function parseSessionResponse(value: unknown): SessionToken {
+  if (
+    !isRecord(value) ||
+    typeof value['address'] !== 'string' ||
+    typeof value['accessToken'] !== 'string' ||
+    typeof value['accessTokenExpiresAt'] !== 'string'
+  ) {
+    throw new Error('Invalid session response')
+  }
+
+  return {
+    address: value['address'].toLowerCase(),
+    accessToken: value['accessToken'],
+    accessTokenExpiresAt: value['accessTokenExpiresAt'],
+  }
+}
+
+/** Single-use nonce to include in a signed message */
+export async function fetchNonce(): Promise<string> {
+  const res = await fetch(`${API_URL}/api/auth/nonce`, {
+    credentials: 'include',
+    cache: 'no-store',
+  })
+  if (!res.ok) {
+    throw new Error('Failed to get a signing nonce')
+  }
+
+  const payload: unknown = await res.json()
+  if (!isRecord(payload) || typeof payload['nonce'] !== 'string') {
+    throw new Error('Invalid sign-in nonce')
+  }
+
+  return payload['nonce']
+}
+
+/** Ask the wallet to sign a SIWE message and start a new session */
+export async function signIn(
+  address: string,
+  signMessageAsync: SignMessageMutateAsync
+): Promise<SessionToken> {
+  const message = createSiweMessage({
+    address: address as `0x${string}`,
+    chainId: SIWE_CHAIN_ID,
+    domain: window.location.host,
+    uri: window.location.origin,
+    nonce: await fetchNonce(),
+    version: '1',
+    statement: 'Sign in to Data Marketplace',
+    issuedAt: new Date(),
+  })
+  const signature = await signMessageAsync({ message })
+
+  const res = await fetch(`${API_URL}/api/auth/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ message, signature }),
+  })
+  if (!res.ok) {
+    throw new Error('Sign-in failed')
+  }
+
+  return parseSessionResponse(await res.json())
+}
+
+/**
+ * Exchange the refresh cookie for a new access token. Returns null when
+ * there is no usable session.
+ */
+export async function refreshSession(): Promise<SessionToken | null> {
+  try {
+    const res = await fetch(`${API_URL}/api/auth/refresh`, {
+      method: 'POST',
+      credentials: 'include',
+    })
+    if (!res.ok) {
+      return null
+    }
+
+    return parseSessionResponse(await res.json())
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Authorization header for the connected wallet: reuses the current session
+ * when the refresh cookie belongs to this wallet, and only asks for a
+ * signature when a new session is needed.
+ */
+export async function buildSessionAuthHeader(
+  address: string,
+  signMessageAsync: SignMessageMutateAsync
+): Promise<string> {
+  const refreshed = await refreshSession()
+  const session =
+    refreshed && refreshed.address === address.toLowerCase()
+      ? refreshed
+      : await signIn(address, signMessageAsync)
+
+  return `Bearer ${session.accessToken}`
+}
+
+/** End the current session and clear its refresh cookie */
+export async function signOut(): Promise<void> {
+  try {
+    await fetch(`${API_URL}/api/auth/logout`, {
+      method: 'POST',
+      credentials: 'include',
+    })
+  } catch (error) {
+    console.error('Failed to sign out:', error)
+  }
+}
@@ -14,6 +14,7 @@ import { baseSepolia } from 'wagmi/chains'
 import '@rainbow-me/rainbowkit/styles.css'
 
 import { clearAuthCache } from '@/lib/authCache'
+import { signOut } from '@/lib/session'
 
 const projectId = process.env['NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID'] ?? ''
 
@@ -36,8 +37,12 @@ function AuthCacheInvalidator() {
     const previousAddress = prevAddressRef.current
 
     if (!isConnected || !address) {
-      // Wallet disconnected entirely: remove all cached headers.
+      // Wallet disconnected entirely: remove all cached headers and end the
+      // session it signed in to.
       clearAuthCache()
+      if (previousAddress) {
+        void signOut()
+      }
       prevAddressRef.current = undefined
       return
     }